@@ -1,6 +1,9 @@
 // eslint-disable-next-line @typescript-eslint/no-require-imports
 const nextJest = require("next/jest");
 
+// Pin the time zone to one behind UTC, so code that mixes up UTC and local dates fails
+process.env.TZ = "America/Los_Angeles";
+
 const createJestConfig = nextJest({
   dir: "./",
 });
@@ -0,0 +1,10 @@
+-- Migration: V10__add_recurrence
+-- Created: 2026-10-19
+-- Description: Add recurrence rules so recurring tasks can repeat on schedules other than every day
+
+-- Add recurrence column to tasks
+ALTER TABLE tasks
+ADD COLUMN recurrence TEXT;
+
+-- Add comments for documentation
+COMMENT ON COLUMN tasks.recurrence IS 'RRULE subset (FREQ=DAILY|WEEKLY|MONTHLY with INTERVAL, BYDAY, BYMONTHDAY) for tasks with is_daily = true. NULL means every day';
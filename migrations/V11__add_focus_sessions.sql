@@ -0,0 +1,42 @@
+-- Migration: V11__add_focus_sessions
+-- Created: 2026-10-19
+-- Description: Log focus mode sessions so time spent can be reported per task, project and tag
+
+-- Create focus_sessions table
+CREATE TABLE IF NOT EXISTS focus_sessions (
+  id UUID PRIMARY KEY,
+  task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  started_at TIMESTAMPTZ NOT NULL,
+  ended_at TIMESTAMPTZ NOT NULL,
+  planned_seconds INTEGER NOT NULL CHECK (planned_seconds >= 0),
+  actual_seconds INTEGER NOT NULL CHECK (actual_seconds >= 0),
+  interrupted BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Stamp updated_at with the server clock so sessions can be pulled incrementally
+CREATE TRIGGER update_focus_sessions_updated_at
+  BEFORE INSERT OR UPDATE ON focus_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Record a tombstone when a session is deleted (cascaded task deletes included)
+CREATE TRIGGER record_focus_sessions_deletion
+  AFTER DELETE ON focus_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION record_deletion();
+
+-- Add indexes
+CREATE INDEX idx_focus_sessions_task_id ON focus_sessions(task_id);
+CREATE INDEX idx_focus_sessions_started_at ON focus_sessions(started_at);
+CREATE INDEX idx_focus_sessions_updated_at ON focus_sessions(updated_at);
+
+-- Add comments for documentation
+COMMENT ON TABLE focus_sessions IS 'Focus mode sessions, logged once when the session ends and never edited afterwards';
+COMMENT ON COLUMN focus_sessions.started_at IS 'When the timer was first started';
+COMMENT ON COLUMN focus_sessions.ended_at IS 'When the timer ran out or the session was stopped';
+COMMENT ON COLUMN focus_sessions.planned_seconds IS 'Timer length when the session started';
+COMMENT ON COLUMN focus_sessions.actual_seconds IS 'Seconds the timer actually ran, excluding pauses';
+COMMENT ON COLUMN focus_sessions.interrupted IS 'True when the session was stopped before the timer ran out';
+COMMENT ON COLUMN focus_sessions.updated_at IS 'Server time of the last write, used as the incremental pull cursor';
@@ -0,0 +1,10 @@
+-- Migration: V12__add_reminders
+-- Created: 2026-10-19
+-- Description: Add reminders so tasks can raise desktop notifications at set times
+
+-- Add reminders column to tasks
+ALTER TABLE tasks
+ADD COLUMN reminders JSONB DEFAULT '[]'::jsonb;
+
+-- Add comments for documentation
+COMMENT ON COLUMN tasks.reminders IS 'JSON array of reminders: {id, at} for a one-off date and time, or {id, time} for an HH:MM time on each day a recurring task is due. firedAt and snoozedUntil track when each last went off and how long it is snoozed';
@@ -0,0 +1,113 @@
+-- Migration: V13__add_user_ownership
+-- Created: 2026-10-19
+-- Description: Give every row an owner and limit each signed-in user to their own rows with row-level security
+
+-- Id of the user a request is made as: the sub claim of the JWT PostgREST verified
+-- (issued by /api/sync-token, holding the id from the auth "user" table)
+CREATE OR REPLACE FUNCTION requesting_user_id()
+RETURNS TEXT AS $$
+  SELECT NULLIF(current_setting('request.jwt.claims', true)::json ->> 'sub', '')
+$$ LANGUAGE sql STABLE;
+
+-- Add user_id to every table, filled in from the token on insert
+ALTER TABLE tasks ADD COLUMN user_id TEXT DEFAULT requesting_user_id();
+ALTER TABLE projects ADD COLUMN user_id TEXT DEFAULT requesting_user_id();
+ALTER TABLE tags ADD COLUMN user_id TEXT DEFAULT requesting_user_id();
+ALTER TABLE task_tags ADD COLUMN user_id TEXT DEFAULT requesting_user_id();
+ALTER TABLE project_tags ADD COLUMN user_id TEXT DEFAULT requesting_user_id();
+ALTER TABLE today_tasks ADD COLUMN user_id TEXT DEFAULT requesting_user_id();
+ALTER TABLE focus_sessions ADD COLUMN user_id TEXT DEFAULT requesting_user_id();
+ALTER TABLE deleted_records ADD COLUMN user_id TEXT DEFAULT requesting_user_id();
+
+CREATE INDEX idx_tasks_user_id ON tasks(user_id);
+CREATE INDEX idx_projects_user_id ON projects(user_id);
+CREATE INDEX idx_tags_user_id ON tags(user_id);
+CREATE INDEX idx_task_tags_user_id ON task_tags(user_id);
+CREATE INDEX idx_project_tags_user_id ON project_tags(user_id);
+CREATE INDEX idx_today_tasks_user_id ON today_tasks(user_id);
+CREATE INDEX idx_focus_sessions_user_id ON focus_sessions(user_id);
+CREATE INDEX idx_deleted_records_user_id ON deleted_records(user_id);
+
+-- Tag names only need to be unique per user
+ALTER TABLE tags DROP CONSTRAINT IF EXISTS tags_name_key;
+ALTER TABLE tags ADD CONSTRAINT tags_user_id_name_key UNIQUE (user_id, name);
+
+-- Tombstones belong to the owner of the deleted row, so only they pull them
+CREATE OR REPLACE FUNCTION record_deletion()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO deleted_records (table_name, record_id, user_id)
+  VALUES (
+    TG_TABLE_NAME,
+    CASE TG_TABLE_NAME
+      WHEN 'task_tags' THEN OLD.task_id || ':' || OLD.tag_id
+      WHEN 'project_tags' THEN OLD.project_id || ':' || OLD.tag_id
+      ELSE OLD.id::TEXT
+    END,
+    OLD.user_id
+  );
+  RETURN OLD;
+END;
+$$ language 'plpgsql';
+
+-- Role signed-in users' requests run as (Supabase already has it)
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT FROM pg_roles WHERE rolname = 'authenticated') THEN
+    CREATE ROLE authenticated NOLOGIN;
+  END IF;
+END
+$$;
+
+GRANT SELECT, INSERT, UPDATE, DELETE
+  ON tasks, projects, tags, task_tags, project_tags, today_tasks, focus_sessions, deleted_records
+  TO authenticated;
+GRANT USAGE ON SEQUENCE deleted_records_id_seq TO authenticated;
+
+-- Row-level security: each user reads and writes only their own rows.
+-- The anon role gets no policy, so requests without a user token see nothing.
+ALTER TABLE tasks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE projects ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE task_tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE project_tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE today_tasks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE focus_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE deleted_records ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY tasks_owner ON tasks FOR ALL TO authenticated
+  USING (user_id = requesting_user_id())
+  WITH CHECK (user_id = requesting_user_id());
+
+CREATE POLICY projects_owner ON projects FOR ALL TO authenticated
+  USING (user_id = requesting_user_id())
+  WITH CHECK (user_id = requesting_user_id());
+
+CREATE POLICY tags_owner ON tags FOR ALL TO authenticated
+  USING (user_id = requesting_user_id())
+  WITH CHECK (user_id = requesting_user_id());
+
+CREATE POLICY task_tags_owner ON task_tags FOR ALL TO authenticated
+  USING (user_id = requesting_user_id())
+  WITH CHECK (user_id = requesting_user_id());
+
+CREATE POLICY project_tags_owner ON project_tags FOR ALL TO authenticated
+  USING (user_id = requesting_user_id())
+  WITH CHECK (user_id = requesting_user_id());
+
+CREATE POLICY today_tasks_owner ON today_tasks FOR ALL TO authenticated
+  USING (user_id = requesting_user_id())
+  WITH CHECK (user_id = requesting_user_id());
+
+CREATE POLICY focus_sessions_owner ON focus_sessions FOR ALL TO authenticated
+  USING (user_id = requesting_user_id())
+  WITH CHECK (user_id = requesting_user_id());
+
+CREATE POLICY deleted_records_owner ON deleted_records FOR ALL TO authenticated
+  USING (user_id = requesting_user_id())
+  WITH CHECK (user_id = requesting_user_id());
+
+-- Add comments for documentation
+COMMENT ON FUNCTION requesting_user_id() IS 'Id of the signed-in user making the request, from the sub claim of their JWT';
+COMMENT ON COLUMN tasks.user_id IS 'Id of the user who owns the task (auth "user".id). Rows from before this migration have none and are hidden until claimed with UPDATE ... SET user_id';
+COMMENT ON COLUMN deleted_records.user_id IS 'Owner of the deleted row, so each user only pulls their own tombstones';
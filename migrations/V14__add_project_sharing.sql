@@ -0,0 +1,285 @@
+-- Migration: V14__add_project_sharing
+-- Created: 2026-10-19
+-- Description: Share projects with other users as owners, editors or viewers, invite them by email and assign them tasks
+
+-- Email and name of the user a request is made as, from their JWT (issued by /api/sync-token)
+CREATE OR REPLACE FUNCTION requesting_user_email()
+RETURNS TEXT AS $$
+  SELECT NULLIF(current_setting('request.jwt.claims', true)::json ->> 'email', '')
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION requesting_user_name()
+RETURNS TEXT AS $$
+  SELECT NULLIF(current_setting('request.jwt.claims', true)::json ->> 'name', '')
+$$ LANGUAGE sql STABLE;
+
+-- Create project_members table: who can see and change each project
+CREATE TABLE project_members (
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+  email TEXT,
+  name TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (project_id, user_id)
+);
+
+CREATE INDEX idx_project_members_user_id ON project_members(user_id);
+
+-- Create project_invites table: invitations waiting for the invited email to accept them
+CREATE TABLE project_invites (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  project_name TEXT NOT NULL,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('editor', 'viewer')),
+  invited_by TEXT DEFAULT requesting_user_id(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (project_id, email)
+);
+
+CREATE INDEX idx_project_invites_email ON project_invites(LOWER(email));
+
+-- Role of the requesting user in a project, or NULL when they are not a member.
+-- SECURITY DEFINER so policies can call it without recursing into project_members' own policies.
+CREATE OR REPLACE FUNCTION project_role(target_project_id UUID)
+RETURNS TEXT AS $$
+  SELECT role FROM project_members
+  WHERE project_id = target_project_id AND user_id = requesting_user_id()
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Role of the requesting user for a task: owner of their own Inbox tasks,
+-- otherwise their role in the task's project
+CREATE OR REPLACE FUNCTION task_role(target_task_id UUID)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN project_id IS NULL THEN
+      CASE WHEN user_id = requesting_user_id() THEN 'owner' END
+    ELSE project_role(project_id)
+  END
+  FROM tasks WHERE id = target_task_id
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Make the creator of a project its owner
+CREATE OR REPLACE FUNCTION add_project_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.user_id IS NOT NULL THEN
+    INSERT INTO project_members (project_id, user_id, role, email, name)
+    VALUES (NEW.id, NEW.user_id, 'owner', requesting_user_email(), requesting_user_name())
+    ON CONFLICT (project_id, user_id) DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER add_projects_owner
+  AFTER INSERT ON projects
+  FOR EACH ROW
+  EXECUTE FUNCTION add_project_owner();
+
+-- Existing projects are owned by the user who created them
+INSERT INTO project_members (project_id, user_id, role, email, name)
+SELECT p.id, p.user_id, 'owner', u.email, u.name
+FROM projects p
+LEFT JOIN "user" u ON u.id = p.user_id
+WHERE p.user_id IS NOT NULL
+ON CONFLICT (project_id, user_id) DO NOTHING;
+
+-- Join the project an invite addressed to the requesting user's email is for
+CREATE OR REPLACE FUNCTION accept_project_invite(invite_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  invite project_invites%ROWTYPE;
+BEGIN
+  SELECT * INTO invite FROM project_invites
+  WHERE id = invite_id AND LOWER(email) = LOWER(requesting_user_email());
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invite not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO project_members (project_id, user_id, role, email, name)
+  VALUES (invite.project_id, requesting_user_id(), invite.role, requesting_user_email(), requesting_user_name())
+  ON CONFLICT (project_id, user_id) DO UPDATE SET role = EXCLUDED.role
+  WHERE project_members.role <> 'owner';
+
+  DELETE FROM project_invites WHERE id = invite_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Add assignee and authorship to tasks
+ALTER TABLE tasks ADD COLUMN assignee_id TEXT;
+ALTER TABLE tasks ADD COLUMN created_by TEXT DEFAULT requesting_user_id();
+ALTER TABLE tasks ADD COLUMN updated_by TEXT DEFAULT requesting_user_id();
+
+UPDATE tasks SET created_by = user_id, updated_by = user_id;
+
+CREATE INDEX idx_tasks_assignee_id ON tasks(assignee_id);
+
+-- Stamp who made each change with the token's user, never with what the client sent
+CREATE OR REPLACE FUNCTION stamp_task_author()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF requesting_user_id() IS NOT NULL THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.created_by = requesting_user_id();
+    ELSE
+      NEW.created_by = OLD.created_by;
+    END IF;
+    NEW.updated_by = requesting_user_id();
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER stamp_tasks_author
+  BEFORE INSERT OR UPDATE ON tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION stamp_task_author();
+
+-- Tombstones of shared rows are pulled by every member of their project
+ALTER TABLE deleted_records ADD COLUMN project_id UUID;
+
+CREATE INDEX idx_deleted_records_project_id ON deleted_records(project_id);
+
+-- SECURITY DEFINER so an editor deleting someone else's task can still record its tombstone
+CREATE OR REPLACE FUNCTION record_deletion()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO deleted_records (table_name, record_id, user_id, project_id)
+  VALUES (
+    TG_TABLE_NAME,
+    CASE TG_TABLE_NAME
+      WHEN 'task_tags' THEN OLD.task_id || ':' || OLD.tag_id
+      WHEN 'project_tags' THEN OLD.project_id || ':' || OLD.tag_id
+      ELSE OLD.id::TEXT
+    END,
+    OLD.user_id,
+    CASE TG_TABLE_NAME
+      WHEN 'tasks' THEN OLD.project_id
+      WHEN 'projects' THEN OLD.id
+      WHEN 'project_tags' THEN OLD.project_id
+      WHEN 'task_tags' THEN (SELECT project_id FROM tasks WHERE id = OLD.task_id)
+    END
+  );
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT SELECT, UPDATE, DELETE ON project_members TO authenticated;
+GRANT SELECT, INSERT, DELETE ON project_invites TO authenticated;
+GRANT EXECUTE ON FUNCTION accept_project_invite(UUID) TO authenticated;
+
+-- Replace the owner-only policies of V13 for everything that can be shared.
+-- Inbox tasks, Today and focus sessions stay personal.
+DROP POLICY tasks_owner ON tasks;
+DROP POLICY projects_owner ON projects;
+DROP POLICY tags_owner ON tags;
+DROP POLICY task_tags_owner ON task_tags;
+DROP POLICY project_tags_owner ON project_tags;
+DROP POLICY deleted_records_owner ON deleted_records;
+
+-- Projects: members see them, owners and editors change them, only owners delete them
+CREATE POLICY projects_select ON projects FOR SELECT TO authenticated
+  USING (user_id = requesting_user_id() OR project_role(id) IS NOT NULL);
+
+CREATE POLICY projects_insert ON projects FOR INSERT TO authenticated
+  WITH CHECK (user_id = requesting_user_id());
+
+CREATE POLICY projects_update ON projects FOR UPDATE TO authenticated
+  USING (project_role(id) IN ('owner', 'editor'));
+
+CREATE POLICY projects_delete ON projects FOR DELETE TO authenticated
+  USING (project_role(id) = 'owner');
+
+-- Tasks: Inbox tasks belong to their creator, project tasks follow the project's roles
+CREATE POLICY tasks_select ON tasks FOR SELECT TO authenticated
+  USING (
+    CASE WHEN project_id IS NULL THEN user_id = requesting_user_id()
+    ELSE project_role(project_id) IS NOT NULL END
+  );
+
+CREATE POLICY tasks_write ON tasks FOR ALL TO authenticated
+  USING (
+    CASE WHEN project_id IS NULL THEN user_id = requesting_user_id()
+    ELSE project_role(project_id) IN ('owner', 'editor') END
+  )
+  WITH CHECK (
+    CASE WHEN project_id IS NULL THEN user_id = requesting_user_id()
+    ELSE project_role(project_id) IN ('owner', 'editor') END
+  );
+
+-- Tags: each user manages their own, and sees the ones used in projects shared with them
+CREATE POLICY tags_select ON tags FOR SELECT TO authenticated
+  USING (
+    user_id = requesting_user_id()
+    OR EXISTS (SELECT 1 FROM task_tags tt WHERE tt.tag_id = tags.id)
+    OR EXISTS (SELECT 1 FROM project_tags pt WHERE pt.tag_id = tags.id)
+  );
+
+CREATE POLICY tags_write ON tags FOR ALL TO authenticated
+  USING (user_id = requesting_user_id())
+  WITH CHECK (user_id = requesting_user_id());
+
+CREATE POLICY task_tags_select ON task_tags FOR SELECT TO authenticated
+  USING (task_role(task_id) IS NOT NULL);
+
+CREATE POLICY task_tags_write ON task_tags FOR ALL TO authenticated
+  USING (task_role(task_id) IN ('owner', 'editor'))
+  WITH CHECK (task_role(task_id) IN ('owner', 'editor'));
+
+CREATE POLICY project_tags_select ON project_tags FOR SELECT TO authenticated
+  USING (project_role(project_id) IS NOT NULL);
+
+CREATE POLICY project_tags_write ON project_tags FOR ALL TO authenticated
+  USING (project_role(project_id) IN ('owner', 'editor'))
+  WITH CHECK (project_role(project_id) IN ('owner', 'editor'));
+
+-- Tombstones are written by record_deletion only
+CREATE POLICY deleted_records_select ON deleted_records FOR SELECT TO authenticated
+  USING (user_id = requesting_user_id() OR project_role(project_id) IS NOT NULL);
+
+-- Members: everyone in a project sees who else is in it; owners change roles and
+-- remove people, and anyone can leave. People join through accept_project_invite.
+ALTER TABLE project_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE project_invites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY project_members_select ON project_members FOR SELECT TO authenticated
+  USING (project_role(project_id) IS NOT NULL);
+
+CREATE POLICY project_members_update ON project_members FOR UPDATE TO authenticated
+  USING (project_role(project_id) = 'owner' AND user_id <> requesting_user_id());
+
+CREATE POLICY project_members_delete ON project_members FOR DELETE TO authenticated
+  USING (
+    (project_role(project_id) = 'owner' AND user_id <> requesting_user_id())
+    OR (user_id = requesting_user_id() AND role <> 'owner')
+  );
+
+-- Invites: owners send and cancel them, the invited email sees and declines them
+CREATE POLICY project_invites_select ON project_invites FOR SELECT TO authenticated
+  USING (
+    project_role(project_id) = 'owner'
+    OR LOWER(email) = LOWER(requesting_user_email())
+  );
+
+CREATE POLICY project_invites_insert ON project_invites FOR INSERT TO authenticated
+  WITH CHECK (project_role(project_id) = 'owner');
+
+CREATE POLICY project_invites_delete ON project_invites FOR DELETE TO authenticated
+  USING (
+    project_role(project_id) = 'owner'
+    OR LOWER(email) = LOWER(requesting_user_email())
+  );
+
+-- Add comments for documentation
+COMMENT ON TABLE project_members IS 'Users with access to a project and their role in it. The creator of a project becomes its owner.';
+COMMENT ON COLUMN project_members.role IS 'owner: everything, including sharing and deleting; editor: change the project and its tasks; viewer: read only';
+COMMENT ON COLUMN project_members.email IS 'Email of the member when they joined, for showing to the other members';
+COMMENT ON TABLE project_invites IS 'Invitations to join a project, accepted with accept_project_invite by the user signed in with the invited email';
+COMMENT ON COLUMN project_invites.project_name IS 'Name of the project when the invite was sent, since invitees cannot read the project until they join';
+COMMENT ON COLUMN tasks.assignee_id IS 'Member of the task''s project the task is assigned to';
+COMMENT ON COLUMN tasks.created_by IS 'User who added the task, stamped from the request token';
+COMMENT ON COLUMN tasks.updated_by IS 'User who last changed the task, stamped from the request token';
+COMMENT ON COLUMN deleted_records.project_id IS 'Project the deleted row belonged to, so every member of it pulls the tombstone';
@@ -0,0 +1,28 @@
+-- Migration: V15__enable_realtime
+-- Created: 2026-10-19
+-- Description: Announce changes to synced tables over Supabase Realtime, so other devices pull them right away
+
+-- Supabase creates the publication; a self-hosted Realtime server next to plain Postgres needs it too
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    CREATE PUBLICATION supabase_realtime;
+  END IF;
+END
+$$;
+
+-- Deletes are announced through the tombstones in deleted_records, so the default
+-- replica identity (the primary key) is enough for every table
+ALTER PUBLICATION supabase_realtime ADD TABLE
+  tasks,
+  projects,
+  tags,
+  task_tags,
+  project_tags,
+  today_tasks,
+  focus_sessions,
+  deleted_records,
+  project_members;
+
+-- Add comments for documentation
+COMMENT ON PUBLICATION supabase_realtime IS 'Tables whose changes Supabase Realtime announces to signed-in clients, filtered by row-level security with each client''s token';
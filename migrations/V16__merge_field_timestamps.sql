@@ -0,0 +1,53 @@
+-- Migration: V16__merge_field_timestamps
+-- Created: 2026-10-19
+-- Description: Merge field_timestamps on update instead of replacing them, so a device that hasn't pulled yet can't overwrite newer edits
+
+-- Clients send their whole field_timestamps map with every update, including stamps of
+-- fields they haven't pulled the latest value of. Keep the later stamp for every field,
+-- and where the stored stamp is later, keep the stored value too.
+-- Stamps are keyed by the client's camelCase field names (dueDate is due_date).
+CREATE OR REPLACE FUNCTION merge_field_timestamps()
+RETURNS TRIGGER AS $$
+DECLARE
+  field TEXT;
+  stored_stamp TEXT;
+  written_stamp TEXT;
+  column_name TEXT;
+  stored_row JSONB := to_jsonb(OLD);
+  kept_values JSONB := '{}'::jsonb;
+BEGIN
+  FOR field, stored_stamp IN SELECT * FROM jsonb_each_text(OLD.field_timestamps) LOOP
+    written_stamp := NEW.field_timestamps ->> field;
+    IF written_stamp IS NULL OR written_stamp::TIMESTAMPTZ < stored_stamp::TIMESTAMPTZ THEN
+      NEW.field_timestamps := jsonb_set(NEW.field_timestamps, ARRAY[field], to_jsonb(stored_stamp));
+      column_name := lower(regexp_replace(field, '([A-Z])', '_\1', 'g'));
+      IF stored_row ? column_name THEN
+        kept_values := kept_values || jsonb_build_object(column_name, stored_row -> column_name);
+      END IF;
+    END IF;
+  END LOOP;
+
+  IF kept_values <> '{}'::jsonb THEN
+    NEW := jsonb_populate_record(NEW, kept_values);
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER merge_tasks_field_timestamps
+  BEFORE UPDATE ON tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION merge_field_timestamps();
+
+CREATE TRIGGER merge_projects_field_timestamps
+  BEFORE UPDATE ON projects
+  FOR EACH ROW
+  EXECUTE FUNCTION merge_field_timestamps();
+
+CREATE TRIGGER merge_tags_field_timestamps
+  BEFORE UPDATE ON tags
+  FOR EACH ROW
+  EXECUTE FUNCTION merge_field_timestamps();
+
+-- Add comments for documentation
+COMMENT ON FUNCTION merge_field_timestamps() IS 'Keeps the later write of every field: merges field_timestamps per key and keeps stored values whose stamp is later than the one written';
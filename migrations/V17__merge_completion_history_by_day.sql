@@ -0,0 +1,73 @@
+-- Migration: V17__merge_completion_history_by_day
+-- Created: 2026-10-19
+-- Description: Merge completion histories day by day, so completions made on one device aren't lost to another device's day rollover
+
+-- Like V16, but a task's completion_history is merged per day rather than kept or
+-- replaced whole. Every day is stamped under "completionHistory.<day>"; the later stamp
+-- keeps its entry, or its removal. Days stamped on neither side hold the "missed" marks
+-- of the day rollover (or entries from before days were stamped), which give way to
+-- anything else recorded for the day.
+CREATE OR REPLACE FUNCTION merge_field_timestamps()
+RETURNS TRIGGER AS $$
+DECLARE
+  field TEXT;
+  stored_stamp TEXT;
+  written_stamp TEXT;
+  column_name TEXT;
+  day TEXT;
+  stored_row JSONB := to_jsonb(OLD);
+  kept_values JSONB := '{}'::jsonb;
+  history JSONB;
+  stored_history JSONB;
+BEGIN
+  IF TG_TABLE_NAME = 'tasks' THEN
+    history := COALESCE(NEW.completion_history, '{}'::jsonb);
+    stored_history := COALESCE(OLD.completion_history, '{}'::jsonb);
+  END IF;
+
+  FOR field, stored_stamp IN SELECT * FROM jsonb_each_text(OLD.field_timestamps) LOOP
+    written_stamp := NEW.field_timestamps ->> field;
+    IF written_stamp IS NULL OR written_stamp::TIMESTAMPTZ < stored_stamp::TIMESTAMPTZ THEN
+      NEW.field_timestamps := jsonb_set(NEW.field_timestamps, ARRAY[field], to_jsonb(stored_stamp));
+      IF field LIKE 'completionHistory.%' THEN
+        day := substring(field FROM length('completionHistory.') + 1);
+        IF stored_history ? day THEN
+          history := jsonb_set(history, ARRAY[day], stored_history -> day);
+        ELSE
+          history := history - day;
+        END IF;
+      ELSIF field <> 'completionHistory' THEN
+        column_name := lower(regexp_replace(field, '([A-Z])', '_\1', 'g'));
+        IF stored_row ? column_name THEN
+          kept_values := kept_values || jsonb_build_object(column_name, stored_row -> column_name);
+        END IF;
+      END IF;
+    END IF;
+  END LOOP;
+
+  IF kept_values <> '{}'::jsonb THEN
+    NEW := jsonb_populate_record(NEW, kept_values);
+  END IF;
+
+  IF TG_TABLE_NAME = 'tasks' THEN
+    FOR day IN SELECT jsonb_object_keys(stored_history) LOOP
+      IF NOT NEW.field_timestamps ? ('completionHistory.' || day)
+        AND (
+          NOT history ? day
+          OR (history ->> day = 'missed' AND stored_history ->> day <> 'missed')
+        ) THEN
+        history := jsonb_set(history, ARRAY[day], stored_history -> day);
+      END IF;
+    END LOOP;
+
+    IF history IS DISTINCT FROM COALESCE(NEW.completion_history, '{}'::jsonb) THEN
+      NEW.completion_history := history;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- Add comments for documentation
+COMMENT ON FUNCTION merge_field_timestamps() IS 'Keeps the later write of every field: merges field_timestamps per key and keeps stored values whose stamp is later than the one written. Completion histories are merged per day';
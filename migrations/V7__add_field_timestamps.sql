@@ -0,0 +1,18 @@
+-- Migration: V7__add_field_timestamps
+-- Created: 2026-10-19
+-- Description: Add per-field write timestamps used to merge edits from multiple devices
+
+-- Add field_timestamps column to synced entities
+ALTER TABLE tasks
+ADD COLUMN field_timestamps JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE projects
+ADD COLUMN field_timestamps JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE tags
+ADD COLUMN field_timestamps JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Add comments for documentation
+COMMENT ON COLUMN tasks.field_timestamps IS 'JSON object mapping field names to the ISO timestamp of their last client-side write';
+COMMENT ON COLUMN projects.field_timestamps IS 'JSON object mapping field names to the ISO timestamp of their last client-side write';
+COMMENT ON COLUMN tags.field_timestamps IS 'JSON object mapping field names to the ISO timestamp of their last client-side write';
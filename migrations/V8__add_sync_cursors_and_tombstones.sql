@@ -0,0 +1,107 @@
+-- Migration: V8__add_sync_cursors_and_tombstones
+-- Created: 2026-10-19
+-- Description: Support incremental pulls with updated_at cursors and tombstones for deleted rows
+
+-- Add updated_at to relationship tables so they can be pulled incrementally
+ALTER TABLE task_tags
+ADD COLUMN updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+ALTER TABLE project_tags
+ADD COLUMN updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+-- Stamp updated_at with the server clock on insert too, so client clocks never move a cursor
+DROP TRIGGER IF EXISTS update_tasks_updated_at ON tasks;
+CREATE TRIGGER update_tasks_updated_at
+  BEFORE INSERT OR UPDATE ON tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_projects_updated_at ON projects;
+CREATE TRIGGER update_projects_updated_at
+  BEFORE INSERT OR UPDATE ON projects
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_tags_updated_at ON tags;
+CREATE TRIGGER update_tags_updated_at
+  BEFORE INSERT OR UPDATE ON tags
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_task_tags_updated_at
+  BEFORE INSERT OR UPDATE ON task_tags
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_project_tags_updated_at
+  BEFORE INSERT OR UPDATE ON project_tags
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Indexes for cursor queries
+CREATE INDEX idx_tasks_updated_at ON tasks(updated_at);
+CREATE INDEX idx_projects_updated_at ON projects(updated_at);
+CREATE INDEX idx_tags_updated_at ON tags(updated_at);
+CREATE INDEX idx_task_tags_updated_at ON task_tags(updated_at);
+CREATE INDEX idx_project_tags_updated_at ON project_tags(updated_at);
+
+-- Create deleted_records table holding a tombstone for every deleted row
+CREATE TABLE IF NOT EXISTS deleted_records (
+  id BIGSERIAL PRIMARY KEY,
+  table_name TEXT NOT NULL,
+  record_id TEXT NOT NULL,
+  deleted_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_deleted_records_deleted_at ON deleted_records(deleted_at);
+
+-- Create function to record a tombstone when a row is deleted
+-- Relationship rows use "<parent id>:<tag id>" as their record id
+CREATE OR REPLACE FUNCTION record_deletion()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO deleted_records (table_name, record_id)
+  VALUES (
+    TG_TABLE_NAME,
+    CASE TG_TABLE_NAME
+      WHEN 'task_tags' THEN OLD.task_id || ':' || OLD.tag_id
+      WHEN 'project_tags' THEN OLD.project_id || ':' || OLD.tag_id
+      ELSE OLD.id::TEXT
+    END
+  );
+  RETURN OLD;
+END;
+$$ language 'plpgsql';
+
+-- Create triggers to record tombstones (cascaded deletes are recorded too)
+CREATE TRIGGER record_tasks_deletion
+  AFTER DELETE ON tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION record_deletion();
+
+CREATE TRIGGER record_projects_deletion
+  AFTER DELETE ON projects
+  FOR EACH ROW
+  EXECUTE FUNCTION record_deletion();
+
+CREATE TRIGGER record_tags_deletion
+  AFTER DELETE ON tags
+  FOR EACH ROW
+  EXECUTE FUNCTION record_deletion();
+
+CREATE TRIGGER record_task_tags_deletion
+  AFTER DELETE ON task_tags
+  FOR EACH ROW
+  EXECUTE FUNCTION record_deletion();
+
+CREATE TRIGGER record_project_tags_deletion
+  AFTER DELETE ON project_tags
+  FOR EACH ROW
+  EXECUTE FUNCTION record_deletion();
+
+-- Add comments for documentation
+COMMENT ON TABLE deleted_records IS 'Tombstones for deleted rows so clients pulling incrementally can remove them locally. Rows older than 30 days may be purged; clients that have not pulled for longer do a full pull.';
+COMMENT ON COLUMN deleted_records.table_name IS 'Name of the table the row was deleted from';
+COMMENT ON COLUMN deleted_records.record_id IS 'Id of the deleted row, or "<parent id>:<tag id>" for task_tags and project_tags';
+COMMENT ON COLUMN task_tags.updated_at IS 'Server time of the last write, used as the incremental pull cursor';
+COMMENT ON COLUMN project_tags.updated_at IS 'Server time of the last write, used as the incremental pull cursor';
@@ -0,0 +1,23 @@
+-- Migration: V9__add_deleted_at
+-- Created: 2026-10-19
+-- Description: Add deleted_at columns so tasks, projects and tags can be moved to the trash and restored
+
+-- Add deleted_at column to trashable entities
+ALTER TABLE tasks
+ADD COLUMN deleted_at TIMESTAMPTZ;
+
+ALTER TABLE projects
+ADD COLUMN deleted_at TIMESTAMPTZ;
+
+ALTER TABLE tags
+ADD COLUMN deleted_at TIMESTAMPTZ;
+
+-- Create partial indexes for listing the trash
+CREATE INDEX idx_tasks_deleted_at ON tasks(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_projects_deleted_at ON projects(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_tags_deleted_at ON tags(deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Add comments for documentation
+COMMENT ON COLUMN tasks.deleted_at IS 'When the task was moved to the trash, NULL if not trashed. Rows are removed for good when the trash is emptied or purged';
+COMMENT ON COLUMN projects.deleted_at IS 'When the project was moved to the trash, NULL if not trashed. Rows are removed for good when the trash is emptied or purged';
+COMMENT ON COLUMN tags.deleted_at IS 'When the tag was moved to the trash, NULL if not trashed. Rows are removed for good when the trash is emptied or purged';
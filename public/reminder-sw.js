@@ -0,0 +1,126 @@
+/**
+ * Reminder service worker.
+ * The app sends it the upcoming reminders; it shows them when they are due, even
+ * while the app's tab is in the background, and passes notification clicks
+ * (open, snooze, done) back to the app. Whether a reminder went off is tracked by
+ * the app, this worker only displays.
+ *
+ * Where the browser supports notification triggers, reminders are handed to the
+ * browser so they show even after the worker has been stopped. Otherwise they are
+ * kept in timeouts, which last as long as the worker stays alive.
+ */
+
+const TAG_PREFIX = "reminder-";
+
+const ACTIONS = [
+  { action: "snooze", title: "Snooze 10 min" },
+  { action: "done", title: "Mark done" },
+];
+
+let timeouts = [];
+
+// Clicks that happened while no window of the app was open
+let pendingMessages = [];
+
+self.addEventListener("install", () => {
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+const show = (notification, showTrigger) =>
+  self.registration.showNotification(notification.title, {
+    body: notification.body,
+    tag: notification.tag,
+    data: {
+      taskId: notification.taskId,
+      reminderId: notification.reminderId,
+    },
+    actions: ACTIONS,
+    requireInteraction: true,
+    ...(showTrigger ? { showTrigger } : {}),
+  });
+
+const schedule = async (notifications) => {
+  timeouts.forEach(clearTimeout);
+  timeouts = [];
+
+  const supportsTriggers = "TimestampTrigger" in self;
+  if (supportsTriggers) {
+    // Drop reminders scheduled before, they may have been snoozed or removed
+    const scheduled = await self.registration.getNotifications({
+      includeTriggered: true,
+    });
+    scheduled
+      .filter((n) => n.tag.startsWith(TAG_PREFIX) && n.showTrigger)
+      .forEach((n) => n.close());
+  }
+
+  const now = Date.now();
+  for (const notification of notifications) {
+    // Reminders that are already due are shown by the app itself
+    if (notification.at <= now) continue;
+
+    if (supportsTriggers) {
+      await show(notification, new self.TimestampTrigger(notification.at));
+    } else {
+      timeouts.push(
+        setTimeout(() => show(notification), notification.at - now),
+      );
+    }
+  }
+};
+
+const postToApp = async (message, focus) => {
+  const windows = await self.clients.matchAll({
+    type: "window",
+    includeUncontrolled: true,
+  });
+
+  if (windows.length === 0) {
+    pendingMessages.push(message);
+    await self.clients.openWindow("/");
+    return;
+  }
+
+  windows.forEach((client) => client.postMessage(message));
+  if (focus) await windows[0].focus();
+};
+
+self.addEventListener("message", (event) => {
+  const { type } = event.data || {};
+
+  if (type === "schedule") {
+    event.waitUntil(schedule(event.data.notifications));
+  } else if (type === "ready") {
+    // A freshly opened window is ready for clicks it was opened for
+    pendingMessages.forEach((message) => event.source.postMessage(message));
+    pendingMessages = [];
+  }
+});
+
+self.addEventListener("notificationclick", (event) => {
+  const { taskId, reminderId } = event.notification.data || {};
+  event.notification.close();
+  if (!taskId) {
+    // Not a reminder (e.g. the focus timer), just bring the app up
+    event.waitUntil(
+      self.clients
+        .matchAll({ type: "window", includeUncontrolled: true })
+        .then((windows) =>
+          windows.length > 0 ? windows[0].focus() : self.clients.openWindow("/"),
+        ),
+    );
+    return;
+  }
+
+  const action = event.action || "open";
+  event.waitUntil(
+    postToApp(
+      { type: "reminder-action", action, taskId, reminderId },
+      action === "open",
+    ),
+  );
+});
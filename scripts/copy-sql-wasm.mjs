@@ -0,0 +1,11 @@
+// Copy the wasm file of sql.js to public/, where src/lib/sync/sqlite-file.ts loads it from.
+// Copied on install rather than committed, so it always matches the installed sql.js.
+import { copyFileSync } from "node:fs";
+import { createRequire } from "node:module";
+
+const require = createRequire(import.meta.url);
+
+copyFileSync(
+  require.resolve("sql.js/dist/sql-wasm-browser.wasm"),
+  new URL("../public/sql-wasm-browser.wasm", import.meta.url),
+);
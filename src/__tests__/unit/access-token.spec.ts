@@ -0,0 +1,92 @@
+import { createHmac } from "crypto";
+
+import { AccessTokenCache } from "@/lib/auth/access-token";
+import { createSyncToken, SyncToken } from "@/lib/auth/sync-token";
+
+const decode = (part: string) =>
+  JSON.parse(Buffer.from(part, "base64url").toString()) as Record<
+    string,
+    unknown
+  >;
+
+describe("createSyncToken", () => {
+  const NOW = Date.parse("2030-01-01T00:00:00.000Z");
+
+  it("signs a token for the user with the given secret", () => {
+    const { token } = createSyncToken({ id: "user-1" }, "secret", NOW);
+    const [header, payload, signature] = token.split(".");
+
+    expect(decode(header)).toEqual({ alg: "HS256", typ: "JWT" });
+    expect(decode(payload)).toMatchObject({
+      sub: "user-1",
+      role: "authenticated",
+      iat: NOW / 1000,
+    });
+    expect(signature).toBe(
+      createHmac("sha256", "secret")
+        .update(`${header}.${payload}`)
+        .digest("base64url"),
+    );
+  });
+
+  it("carries the user's email and name for matching invites", () => {
+    const { token } = createSyncToken(
+      { id: "user-1", email: "ada@example.com", name: "Ada" },
+      "secret",
+      NOW,
+    );
+
+    expect(decode(token.split(".")[1])).toMatchObject({
+      sub: "user-1",
+      email: "ada@example.com",
+      name: "Ada",
+    });
+  });
+
+  it("expires an hour later", () => {
+    const { token, expiresAt } = createSyncToken(
+      { id: "user-1" },
+      "secret",
+      NOW,
+    );
+
+    expect(expiresAt).toBe(NOW + 60 * 60 * 1000);
+    expect(decode(token.split(".")[1]).exp).toBe(expiresAt / 1000);
+  });
+});
+
+describe("AccessTokenCache", () => {
+  const token = (name: string, expiresAt: number): SyncToken => ({
+    token: name,
+    expiresAt,
+  });
+
+  it("reuses a token until shortly before it expires", async () => {
+    const fetchToken = jest
+      .fn()
+      .mockResolvedValueOnce(token("first", 10 * 60 * 1000))
+      .mockResolvedValueOnce(token("second", 20 * 60 * 1000));
+    const cache = new AccessTokenCache(fetchToken);
+
+    expect(await cache.getToken(0)).toBe("first");
+    expect(await cache.getToken(5 * 60 * 1000)).toBe("first");
+    expect(await cache.getToken(9.5 * 60 * 1000)).toBe("second");
+    expect(fetchToken).toHaveBeenCalledTimes(2);
+  });
+
+  it("fetches once for requests made at the same time", async () => {
+    const fetchToken = jest.fn().mockResolvedValue(token("only", Infinity));
+    const cache = new AccessTokenCache(fetchToken);
+
+    const tokens = await Promise.all([cache.getToken(), cache.getToken()]);
+
+    expect(tokens).toEqual(["only", "only"]);
+    expect(fetchToken).toHaveBeenCalledTimes(1);
+  });
+
+  it("returns null when signed out", async () => {
+    const cache = new AccessTokenCache(jest.fn().mockResolvedValue(null));
+
+    expect(await cache.getToken()).toBeNull();
+  });
+});
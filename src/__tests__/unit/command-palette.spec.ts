@@ -0,0 +1,120 @@
+import {
+  Command,
+  commandFromShortcut,
+  fuzzyScore,
+  fuzzySearch,
+  searchCommands,
+} from "@/lib/command-palette";
+import { formatShortcut } from "@/lib/keyboard-utils";
+import { getShortcut } from "@/lib/shortcuts";
+
+const command = (title: string, keywords?: string[]): Command => ({
+  id: title,
+  title,
+  group: "Actions",
+  keywords,
+  run: () => {},
+});
+
+describe("fuzzyScore", () => {
+  it("matches text typed as is, in any case", () => {
+    expect(fuzzyScore("today", "Go to Today")).not.toBeNull();
+    expect(fuzzyScore("TODAY", "go to today")).not.toBeNull();
+  });
+
+  it("matches letters in order", () => {
+    expect(fuzzyScore("gtt", "Go to Today")).not.toBeNull();
+    expect(fuzzyScore("ttg", "Go to Today")).toBeNull();
+  });
+
+  it("needs every word of the query to match", () => {
+    expect(fuzzyScore("go inbox", "Go to Inbox")).not.toBeNull();
+    expect(fuzzyScore("go trash", "Go to Inbox")).toBeNull();
+  });
+
+  it("prefers a match at the start of a word", () => {
+    expect(fuzzyScore("box", "Box")!).toBeGreaterThan(
+      fuzzyScore("box", "Inbox")!,
+    );
+  });
+
+  it("prefers text typed as is over scattered letters", () => {
+    expect(fuzzyScore("sync", "Sync now")!).toBeGreaterThan(
+      fuzzyScore("sync", "Save your notes and clear")!,
+    );
+  });
+});
+
+describe("fuzzySearch", () => {
+  it("ranks the best match first and drops the rest", () => {
+    const titles = ["Go to Inbox", "Sync now", "Toggle theme"];
+
+    expect(fuzzySearch(titles, "to", (t) => [t])).toEqual([
+      "Toggle theme",
+      "Go to Inbox",
+    ]);
+  });
+
+  it("keeps the order of the items for an empty query", () => {
+    expect(fuzzySearch(["b", "a", "c"], " ", (t) => [t], 2)).toEqual([
+      "b",
+      "a",
+    ]);
+  });
+
+  it("weighs the first text over later ones", () => {
+    const tasks = [
+      { title: "Buy milk", description: "Write the report first" },
+      { title: "Write report", description: "" },
+    ];
+
+    expect(
+      fuzzySearch(tasks, "report", (t) => [t.title, t.description]).map(
+        (t) => t.title,
+      ),
+    ).toEqual(["Write report", "Buy milk"]);
+  });
+});
+
+describe("searchCommands", () => {
+  it("finds commands by their keywords", () => {
+    const commands = [command("Sync now"), command("Toggle theme", ["dark"])];
+
+    expect(searchCommands(commands, "dark")).toEqual([commands[1]]);
+  });
+});
+
+describe("commandFromShortcut", () => {
+  it("uses the shortcut's description and keys", () => {
+    const handler = jest.fn();
+    const result = commandFromShortcut(
+      getShortcut("redo"),
+      "mod+shift+z",
+      handler,
+    );
+
+    expect(result).toMatchObject({
+      title: "Redo",
+      group: "Actions",
+      shortcut: "Ctrl+Shift+Z",
+    });
+    result.run();
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("formatShortcut", () => {
+  it("spells out modifiers outside macOS", () => {
+    expect(
+      formatShortcut({ key: "z", ctrlOrCmd: true, shift: true }, false),
+    ).toBe("Ctrl+Shift+Z");
+    expect(formatShortcut({ key: "Escape" }, false)).toBe("Esc");
+  });
+
+  it("uses symbols on macOS", () => {
+    expect(
+      formatShortcut({ key: "z", ctrlOrCmd: true, shift: true }, true),
+    ).toBe("⇧⌘Z");
+    expect(formatShortcut({ key: "ArrowUp", alt: true }, true)).toBe("⌥↑");
+  });
+});
@@ -0,0 +1,182 @@
+import { compactQueue } from "@/lib/sync/compaction";
+import { OperationType, QueuedOperation } from "@/lib/sync/types";
+
+let nextId = 0;
+
+const op = (
+  type: OperationType,
+  payload: unknown,
+  status: QueuedOperation["status"] = "pending",
+): QueuedOperation => ({
+  id: String(nextId++),
+  type,
+  payload,
+  timestamp: nextId,
+  retries: 0,
+  status,
+});
+
+const update = (id: string, updates: Record<string, unknown>, at: string) =>
+  op(OperationType.UPDATE_TASK, {
+    id,
+    updates: {
+      ...updates,
+      fieldTimestamps: Object.fromEntries(
+        Object.keys(updates).map((field) => [field, at]),
+      ),
+    },
+  });
+
+// Enqueue operations one after another, the way SyncQueue does
+const enqueueAll = (...operations: QueuedOperation[]) =>
+  operations.reduce<QueuedOperation[]>(compactQueue, []);
+
+const T1 = "2030-01-01T01:00:00.000Z";
+const T2 = "2030-01-01T02:00:00.000Z";
+
+describe("compactQueue", () => {
+  it("merges consecutive updates to the same task", () => {
+    const queue = enqueueAll(
+      update("a", { description: "W" }, T1),
+      update("a", { description: "Wr" }, T1),
+      update("a", { title: "Report" }, T2),
+    );
+
+    expect(queue).toHaveLength(1);
+    expect(queue[0].payload).toEqual({
+      id: "a",
+      updates: {
+        description: "Wr",
+        title: "Report",
+        fieldTimestamps: { description: T1, title: T2 },
+      },
+    });
+  });
+
+  it("keeps updates to different tasks apart", () => {
+    const queue = enqueueAll(
+      update("a", { title: "A" }, T1),
+      update("b", { title: "B" }, T1),
+      update("a", { title: "A2" }, T1),
+    );
+
+    expect(queue).toHaveLength(2);
+    expect(queue[0].payload).toMatchObject({ updates: { title: "A2" } });
+  });
+
+  it("folds updates into a task that hasn't been sent yet", () => {
+    const queue = enqueueAll(
+      op(OperationType.ADD_TASK, { id: "a", title: "New", completed: false }),
+      update("a", { title: "New task" }, T1),
+    );
+
+    expect(queue).toHaveLength(1);
+    expect(queue[0].type).toBe(OperationType.ADD_TASK);
+    expect(queue[0].payload).toMatchObject({ id: "a", title: "New task" });
+  });
+
+  it("doesn't merge into an operation that is being sent or has failed", () => {
+    const sending = {
+      ...update("a", { title: "A" }, T1),
+      status: "processing" as const,
+    };
+    const failed = {
+      ...update("b", { title: "B" }, T1),
+      status: "failed" as const,
+    };
+
+    const compacted = [
+      update("a", { title: "A2" }, T2),
+      update("b", { title: "B2" }, T2),
+    ].reduce(compactQueue, [sending, failed]);
+
+    expect(compacted).toHaveLength(4);
+  });
+
+  it("doesn't move an update before a record it may point at is created", () => {
+    const queue = enqueueAll(
+      update("a", { title: "A" }, T1),
+      op(OperationType.ADD_PROJECT, { id: "p", name: "Project" }),
+      update("a", { projectId: "p" }, T2),
+    );
+
+    expect(queue.map((queued) => queued.type)).toEqual([
+      OperationType.UPDATE_TASK,
+      OperationType.ADD_PROJECT,
+      OperationType.UPDATE_TASK,
+    ]);
+  });
+
+  it("drops updates to a task that is then deleted", () => {
+    const queue = enqueueAll(
+      update("a", { title: "A" }, T1),
+      update("b", { title: "B" }, T1),
+      op(OperationType.BATCH, [
+        { type: OperationType.UPDATE_TASK, payload: { id: "a", updates: {} } },
+      ]),
+      op(OperationType.DELETE_TASK, { id: "a" }),
+    );
+
+    expect(queue.map((queued) => queued.type)).toEqual([
+      OperationType.UPDATE_TASK,
+      OperationType.DELETE_TASK,
+    ]);
+    expect(queue[0].payload).toMatchObject({ id: "b" });
+  });
+
+  it("collapses repeated reorders into the latest one", () => {
+    const queue = enqueueAll(
+      op(OperationType.REORDER_TASKS, [
+        { id: "a", order: 0 },
+        { id: "b", order: 1 },
+        { id: "c", order: 2 },
+      ]),
+      update("x", { title: "X" }, T1),
+      op(OperationType.REORDER_TASKS, [
+        { id: "b", order: 0 },
+        { id: "a", order: 1 },
+      ]),
+    );
+
+    expect(queue.map((queued) => queued.type)).toEqual([
+      OperationType.UPDATE_TASK,
+      OperationType.REORDER_TASKS,
+    ]);
+    expect(queue[1].payload).toEqual([
+      { id: "c", order: 2 },
+      { id: "b", order: 0 },
+      { id: "a", order: 1 },
+    ]);
+  });
+
+  it("keeps a reorder when a task it moves was changed since", () => {
+    const queue = enqueueAll(
+      op(OperationType.REORDER_TASKS, [{ id: "a", order: 0 }]),
+      update("a", { order: 5 }, T1),
+      op(OperationType.REORDER_TASKS, [{ id: "b", order: 0 }]),
+    );
+
+    expect(queue).toHaveLength(3);
+  });
+
+  it("replaces earlier Today changes with the full list", () => {
+    const queue = enqueueAll(
+      op(OperationType.ADD_TODAY_TASK, { taskId: "a", order: 0 }),
+      op(OperationType.REMOVE_TODAY_TASK, { taskId: "b" }),
+      op(OperationType.REORDER_TODAY_TASKS, [{ taskId: "a", order: 0 }]),
+      op(OperationType.REORDER_TODAY_TASKS, []),
+    );
+
+    expect(queue).toHaveLength(1);
+    expect(queue[0].payload).toEqual([]);
+  });
+
+  it("leaves the queue passed in unchanged", () => {
+    const queue = enqueueAll(update("a", { title: "A" }, T1));
+    const before = JSON.stringify(queue);
+
+    compactQueue(queue, update("a", { title: "B" }, T2));
+
+    expect(JSON.stringify(queue)).toBe(before);
+  });
+});
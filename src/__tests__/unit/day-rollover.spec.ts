@@ -0,0 +1,124 @@
+import { getMsUntilNextDay, rolloverHistory } from "@/lib/day-rollover";
+import { calculateCompletionRate, calculateStreak } from "@/lib/streak";
+import type { CompletionHistory, Task } from "@/lib/types";
+
+const dailyTask = (
+  completionHistory: CompletionHistory,
+  recurrence: string | null = null,
+): Task => ({
+  id: "task-1",
+  title: "Read",
+  completed: false,
+  order: 0,
+  isDaily: true,
+  recurrence,
+  completionHistory,
+  createdAt: "2030-01-14T12:00:00.000Z",
+});
+
+// Jest runs in America/Los_Angeles, see jest.config.js
+describe("rolloverHistory", () => {
+  it("marks unrecorded scheduled days before today as missed", () => {
+    const task = dailyTask({ "2030-01-15": true, "2030-01-16": "excused" });
+
+    expect(rolloverHistory(task, "2030-01-18")).toEqual({
+      "2030-01-14": "missed",
+      "2030-01-15": true,
+      "2030-01-16": "excused",
+      "2030-01-17": "missed",
+    });
+  });
+
+  it("only looks at days since the last rollover", () => {
+    const task = dailyTask({});
+
+    expect(rolloverHistory(task, "2030-01-18", "2030-01-17")).toEqual({
+      "2030-01-17": "missed",
+    });
+  });
+
+  it("skips days the task isn't scheduled on", () => {
+    // Created on a Monday, scheduled Mon/Wed/Fri
+    const task = dailyTask({}, "FREQ=WEEKLY;BYDAY=MO,WE,FR");
+
+    expect(rolloverHistory(task, "2030-01-18")).toEqual({
+      "2030-01-14": "missed",
+      "2030-01-16": "missed",
+    });
+  });
+
+  it("returns null when every day is already recorded", () => {
+    const task = dailyTask({ "2030-01-14": true, "2030-01-15": "skipped" });
+
+    expect(rolloverHistory(task, "2030-01-16")).toBeNull();
+  });
+});
+
+describe("streaks with day statuses", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    // Noon on 2030-01-18 in California
+    jest.setSystemTime(new Date("2030-01-18T20:00:00.000Z"));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("keeps the streak across frozen and excused days", () => {
+    const task = dailyTask({
+      "2030-01-14": true,
+      "2030-01-15": "frozen",
+      "2030-01-16": true,
+      "2030-01-17": "excused",
+    });
+
+    // Today is still pending, so it doesn't break the streak either
+    expect(calculateStreak(task)).toBe(2);
+  });
+
+  it("breaks the streak on missed and skipped days", () => {
+    expect(
+      calculateStreak(
+        dailyTask({ "2030-01-16": true, "2030-01-17": "missed" }),
+      ),
+    ).toBe(0);
+    expect(
+      calculateStreak(
+        dailyTask({
+          "2030-01-16": true,
+          "2030-01-17": "skipped",
+          "2030-01-18": true,
+        }),
+      ),
+    ).toBe(1);
+  });
+
+  it("leaves excused and frozen days out of the completion rate", () => {
+    const task = dailyTask({
+      "2030-01-14": true,
+      "2030-01-15": "frozen",
+      "2030-01-16": "missed",
+      "2030-01-17": "excused",
+    });
+
+    expect(calculateCompletionRate(task)).toBe(50);
+  });
+});
+
+describe("getMsUntilNextDay", () => {
+  it("counts down to the configured day start hour", () => {
+    // 23:00 on Jan 17 in California
+    const now = new Date("2030-01-18T07:00:00.000Z");
+
+    expect(getMsUntilNextDay(now, 0)).toBe(60 * 60 * 1000);
+    expect(getMsUntilNextDay(now, 3)).toBe(4 * 60 * 60 * 1000);
+  });
+
+  it("waits for the day start hour after midnight", () => {
+    // 01:00 on Jan 18 in California, still Jan 17 with a 3am day start
+    const now = new Date("2030-01-18T09:00:00.000Z");
+
+    expect(getMsUntilNextDay(now, 3)).toBe(2 * 60 * 60 * 1000);
+  });
+});
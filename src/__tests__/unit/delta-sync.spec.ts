@@ -0,0 +1,403 @@
+import { LocalStorageAdapter } from "@/lib/sync/local-storage-adapter";
+import { RemoteStorageAdapter } from "@/lib/sync/remote-storage-adapter";
+import { StorageManager } from "@/lib/sync/storage-manager";
+import { setStorageUser } from "@/lib/sync/storage-user";
+import { SyncQueue } from "@/lib/sync/sync-queue";
+import { SyncWorker } from "@/lib/sync/sync-worker";
+import type {
+  IDeltaSyncAdapter,
+  IStorageAdapter,
+  RemoteChanges,
+  SyncCursors,
+  Tombstone,
+} from "@/lib/sync/types";
+import type { Project, ProjectMember, Task } from "@/lib/types";
+
+// Supabase settings the remote adapter reads when it is created
+jest.mock("../../env.mjs", () => ({
+  env: {
+    NEXT_PUBLIC_SUPABASE_URL: "https://db.example.com",
+    NEXT_PUBLIC_SUPABASE_ANON_KEY: "anon-key",
+  },
+}));
+
+const task = (id: string, updatedAt: string, projectId?: string): Task => ({
+  id,
+  title: id,
+  completed: false,
+  order: 0,
+  isDaily: false,
+  createdAt: "2030-01-01T00:00:00.000Z",
+  updatedAt,
+  projectId,
+});
+
+const later = (timestamp: string | undefined, cursor: string | undefined) =>
+  !cursor || (!!timestamp && timestamp > cursor);
+
+/**
+ * In-memory remote that returns only rows changed since the cursors it is given.
+ * Every write is stamped with the server clock, like the updated_at triggers.
+ */
+class DeltaRemote implements IDeltaSyncAdapter {
+  tasks: Task[] = [];
+  tombstones: Tombstone[] = [];
+  requests: SyncCursors[] = [];
+  private clock = 0;
+
+  private touch() {
+    this.clock += 1;
+    return new Date(Date.UTC(2030, 0, 1, 0, this.clock)).toISOString();
+  }
+
+  putTask(id: string, projectId?: string) {
+    this.tasks = [
+      ...this.tasks.filter((t) => t.id !== id),
+      task(id, this.touch(), projectId),
+    ];
+  }
+
+  /** Tasks the signed-in user can read, like the row-level security policies */
+  protected visibleTasks(): Task[] {
+    return this.tasks;
+  }
+
+  deleteTask(id: string) {
+    this.tasks = this.tasks.filter((t) => t.id !== id);
+    this.tombstones.push({
+      table: "tasks",
+      recordId: id,
+      deletedAt: this.touch(),
+    });
+  }
+
+  async getChangesSince(cursors: SyncCursors): Promise<RemoteChanges> {
+    this.requests.push(cursors);
+    const tasks = this.visibleTasks().filter((t) =>
+      later(t.updatedAt, cursors.tasks),
+    );
+    const tombstones = this.tombstones.filter((t) =>
+      later(t.deletedAt, cursors.tombstones),
+    );
+    const latest = (values: string[], cursor?: string) =>
+      values.reduce<string | undefined>(
+        (max, value) => (later(value, max) ? value : max),
+        cursor,
+      );
+
+    return {
+      tasks,
+      projects: [],
+      tags: [],
+      taskTags: [],
+      projectTags: [],
+      focusSessions: [],
+      tombstones,
+      cursors: {
+        tasks: latest(
+          tasks.map((t) => t.updatedAt!),
+          cursors.tasks,
+        ),
+        tombstones: latest(
+          tombstones.map((t) => t.deletedAt),
+          cursors.tombstones,
+        ),
+      },
+    };
+  }
+
+  async getTodayTasks() {
+    return [];
+  }
+}
+
+/**
+ * Delta remote that only shows the "shared" project and its tasks to its members,
+ * with one invite to it. The project was added before anything else.
+ */
+class SharingDeltaRemote extends DeltaRemote {
+  members: ProjectMember[] = [];
+  private project: Project = {
+    id: "shared",
+    name: "Shared",
+    completed: false,
+    order: 0,
+    createdAt: "2030-01-01T00:00:00.000Z",
+    updatedAt: "2030-01-01T00:00:00.000Z",
+  };
+
+  constructor(private userId: string) {
+    super();
+  }
+
+  private isMember(projectId: string) {
+    return this.members.some(
+      (member) =>
+        member.projectId === projectId && member.userId === this.userId,
+    );
+  }
+
+  protected visibleTasks(): Task[] {
+    return this.tasks.filter((t) => !t.projectId || this.isMember(t.projectId));
+  }
+
+  async getChangesSince(cursors: SyncCursors): Promise<RemoteChanges> {
+    const changes = await super.getChangesSince(cursors);
+    const projects =
+      this.isMember(this.project.id) &&
+      later(this.project.updatedAt, cursors.projects)
+        ? [this.project]
+        : [];
+    return {
+      ...changes,
+      projects,
+      cursors: {
+        ...changes.cursors,
+        projects: projects[0]?.updatedAt ?? cursors.projects,
+      },
+    };
+  }
+
+  async getProjectMembers() {
+    return this.members;
+  }
+
+  async acceptProjectInvite() {
+    this.members.push({
+      projectId: "shared",
+      userId: this.userId,
+      role: "editor",
+      createdAt: "",
+    });
+  }
+}
+
+describe("SyncWorker delta pulls", () => {
+  let remote: DeltaRemote;
+  let local: LocalStorageAdapter;
+  let worker: SyncWorker;
+
+  const localIds = async () => (await local.getTasks()).map((t) => t.id);
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    window.localStorage.clear();
+
+    remote = new DeltaRemote();
+    local = new LocalStorageAdapter();
+    worker = new SyncWorker(
+      new SyncQueue(),
+      remote as unknown as IStorageAdapter,
+      local,
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("pulls everything first, then only what changed since the stored cursors", async () => {
+    remote.putTask("a");
+    remote.putTask("b");
+
+    await worker.pullFromRemote();
+    expect(remote.requests).toEqual([{}]);
+    expect(await localIds()).toEqual(["a", "b"]);
+    expect((await local.getSyncCursors())?.cursors.tasks).toBe(
+      "2030-01-01T00:02:00.000Z",
+    );
+
+    remote.putTask("c");
+    await worker.pullFromRemote();
+
+    expect(remote.requests[1]).toEqual({
+      tasks: "2030-01-01T00:02:00.000Z",
+    });
+    expect(await localIds()).toEqual(["a", "b", "c"]);
+    expect((await local.getSyncCursors())?.cursors.tasks).toBe(
+      "2030-01-01T00:03:00.000Z",
+    );
+  });
+
+  it("removes rows tombstoned on the remote and keeps ones re-created since", async () => {
+    remote.putTask("a");
+    remote.putTask("b");
+    await worker.pullFromRemote();
+
+    remote.deleteTask("a");
+    remote.deleteTask("b");
+    remote.putTask("b");
+    await worker.pullFromRemote();
+
+    expect(await localIds()).toEqual(["b"]);
+    expect((await local.getSyncCursors())?.cursors.tombstones).toBe(
+      "2030-01-01T00:04:00.000Z",
+    );
+  });
+
+  it("pulls everything again when the last pull is older than tombstones are kept", async () => {
+    remote.putTask("a");
+    await worker.pullFromRemote();
+
+    const now = Date.now();
+    jest.spyOn(Date, "now").mockReturnValue(now + 31 * 24 * 60 * 60 * 1000);
+    await worker.pullFromRemote();
+
+    expect(remote.requests).toEqual([{}, {}]);
+  });
+
+  it("pulls everything again when the local data is gone", async () => {
+    remote.putTask("a");
+    await worker.pullFromRemote();
+
+    window.localStorage.removeItem("tasks");
+    await worker.pullFromRemote();
+
+    expect(remote.requests).toEqual([{}, {}]);
+    expect(await localIds()).toEqual(["a"]);
+  });
+});
+
+describe("Pulls after joining a shared project", () => {
+  let remote: SharingDeltaRemote;
+
+  const startPulling = (userId: string) => {
+    setStorageUser(userId);
+    remote = new SharingDeltaRemote(userId);
+    remote.putTask("old-shared", "shared");
+    remote.putTask("own");
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    window.localStorage.clear();
+  });
+
+  afterEach(() => {
+    setStorageUser(null);
+    jest.restoreAllMocks();
+  });
+
+  it("pulls everything once the user is a member of a new project", async () => {
+    startPulling("alice");
+    const local = new LocalStorageAdapter();
+    const worker = new SyncWorker(
+      new SyncQueue(),
+      remote as unknown as IStorageAdapter,
+      local,
+    );
+    await worker.pullFromRemote();
+    expect((await local.getTasks()).map((t) => t.id)).toEqual(["own"]);
+
+    await remote.acceptProjectInvite();
+    await worker.pullFromRemote();
+
+    expect((await local.getTasks()).map((t) => t.id).sort()).toEqual([
+      "old-shared",
+      "own",
+    ]);
+    expect(remote.requests).toHaveLength(3);
+    expect(remote.requests[2]).toEqual({});
+  });
+
+  it("pulls the tasks of a project whose invite is accepted", async () => {
+    startPulling("bob");
+    const manager = StorageManager.getInstance(
+      true,
+      remote as unknown as IStorageAdapter,
+      60 * 60 * 1000,
+    );
+    await manager.pullFromRemote();
+    expect(
+      (await new LocalStorageAdapter().getSyncCursors())?.cursors.tasks,
+    ).toBeDefined();
+
+    await manager.acceptInvite("invite");
+    manager.stopSync();
+
+    expect((await manager.getTasks()).map((t) => t.id).sort()).toEqual([
+      "old-shared",
+      "own",
+    ]);
+    expect(remote.requests[remote.requests.length - 1]).toEqual({});
+  });
+});
+
+describe("RemoteStorageAdapter.getChangesSince", () => {
+  let fetchMock: jest.Mock;
+
+  const rowsByTable: Record<string, Record<string, unknown>[]> = {
+    tasks: [
+      { id: "a", title: "a", updated_at: "2030-01-01T00:05:00.000Z" },
+      { id: "b", title: "b", updated_at: "2030-01-01T00:07:00.000Z" },
+    ],
+    deleted_records: [
+      {
+        table_name: "tasks",
+        record_id: "c",
+        deleted_at: "2030-01-01T00:06:00.000Z",
+      },
+    ],
+  };
+
+  const requestedUrl = (table: string) =>
+    fetchMock.mock.calls
+      .map(([url]) => url as string)
+      .find((url) => url.includes(`/rest/v1/${table}?`));
+
+  beforeEach(() => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    fetchMock = jest.fn(async (url: string) => {
+      const table = url.split("/rest/v1/")[1].split("?")[0];
+      return {
+        ok: true,
+        json: async () => rowsByTable[table] ?? [],
+      } as Response;
+    });
+    global.fetch = fetchMock;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("fetches every row when there are no cursors", async () => {
+    await new RemoteStorageAdapter().getChangesSince({});
+
+    expect(requestedUrl("tasks")).toBe(
+      "https://db.example.com/rest/v1/tasks?select=*",
+    );
+  });
+
+  it("asks for rows changed since a minute before each cursor", async () => {
+    await new RemoteStorageAdapter().getChangesSince({
+      tasks: "2030-01-01T00:05:00.000Z",
+      tombstones: "2030-01-01T00:01:30.000Z",
+    });
+
+    expect(requestedUrl("tasks")).toContain(
+      `updated_at=gt.${encodeURIComponent("2030-01-01T00:04:00.000Z")}`,
+    );
+    expect(requestedUrl("deleted_records")).toContain(
+      `deleted_at=gt.${encodeURIComponent("2030-01-01T00:00:30.000Z")}`,
+    );
+  });
+
+  it("moves each cursor to the latest row, keeping it where nothing changed", async () => {
+    const changes = await new RemoteStorageAdapter().getChangesSince({
+      tasks: "2030-01-01T00:05:00.000Z",
+      tags: "2030-01-01T00:02:00.000Z",
+    });
+
+    expect(changes.tasks.map((t) => t.id)).toEqual(["a", "b"]);
+    expect(changes.tombstones).toEqual([
+      { table: "tasks", recordId: "c", deletedAt: "2030-01-01T00:06:00.000Z" },
+    ]);
+    expect(changes.cursors).toMatchObject({
+      tasks: "2030-01-01T00:07:00.000Z",
+      tags: "2030-01-01T00:02:00.000Z",
+      tombstones: "2030-01-01T00:06:00.000Z",
+    });
+    expect(changes.cursors.projects).toBeUndefined();
+  });
+});
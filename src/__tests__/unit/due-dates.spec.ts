@@ -0,0 +1,87 @@
+import {
+  compareByDueDate,
+  describeDueDate,
+  getDueGroup,
+  getDueKey,
+  groupByDueDate,
+} from "@/lib/due-dates";
+import type { Task } from "@/lib/types";
+
+// A Wednesday
+const TODAY = "2030-01-16";
+
+const task = (id: string, overrides: Partial<Task> = {}): Task => ({
+  id,
+  title: id,
+  completed: false,
+  order: 0,
+  isDaily: false,
+  createdAt: "2030-01-01T12:00:00.000Z",
+  ...overrides,
+});
+
+describe("due dates", () => {
+  it("reads the day from dates and database timestamps alike", () => {
+    expect(getDueKey(task("a", { dueDate: "2030-01-18" }))).toBe("2030-01-18");
+    // Midnight UTC is still the evening before in Los Angeles
+    expect(getDueKey(task("a", { dueDate: "2030-01-18T00:00:00+00:00" }))).toBe(
+      "2030-01-18",
+    );
+    expect(getDueKey(task("a"))).toBeNull();
+  });
+
+  it("groups days relative to today, with weeks ending on Sunday", () => {
+    expect(getDueGroup("2030-01-10", TODAY)).toBe("overdue");
+    expect(getDueGroup("2030-01-16", TODAY)).toBe("today");
+    expect(getDueGroup("2030-01-17", TODAY)).toBe("tomorrow");
+    expect(getDueGroup("2030-01-20", TODAY)).toBe("thisWeek");
+    expect(getDueGroup("2030-01-21", TODAY)).toBe("later");
+    // On Sunday the week is over, even the day after tomorrow is later
+    expect(getDueGroup("2030-01-22", "2030-01-20")).toBe("later");
+  });
+
+  it("describes due days", () => {
+    expect(describeDueDate("2030-01-16", TODAY)).toBe("Today");
+    expect(describeDueDate("2030-01-17", TODAY)).toBe("Tomorrow");
+    expect(describeDueDate("2030-01-15", TODAY)).toBe("Yesterday");
+    expect(describeDueDate("2030-01-13", TODAY)).toBe("3 days overdue");
+    expect(describeDueDate("2030-01-19", TODAY)).toBe("Saturday");
+  });
+
+  it("sorts by due date with undated tasks last", () => {
+    const tasks = [
+      task("undated", { order: 0 }),
+      task("later", { dueDate: "2030-02-01", order: 1 }),
+      task("soon", { dueDate: "2030-01-17", order: 2 }),
+      task("soon-too", { dueDate: "2030-01-17", order: 3 }),
+    ];
+
+    expect(tasks.sort(compareByDueDate).map((t) => t.id)).toEqual([
+      "soon",
+      "soon-too",
+      "later",
+      "undated",
+    ]);
+  });
+
+  it("groups unfinished dated tasks for the Upcoming view", () => {
+    const groups = groupByDueDate(
+      [
+        task("overdue", { dueDate: "2030-01-14" }),
+        task("done", { dueDate: "2030-01-14", completed: true }),
+        task("undated"),
+        task("friday", { dueDate: "2030-01-18" }),
+        task("next-month", { dueDate: "2030-02-10" }),
+      ],
+      TODAY,
+    );
+
+    expect(
+      groups.map(({ group, tasks }) => [group, tasks.map((t) => t.id)]),
+    ).toEqual([
+      ["overdue", ["overdue"]],
+      ["thisWeek", ["friday"]],
+      ["later", ["next-month"]],
+    ]);
+  });
+});
@@ -0,0 +1,152 @@
+import {
+  buildTimeReport,
+  finishSession,
+  formatDuration,
+  pauseSession,
+  resumeSession,
+  startSession,
+} from "@/lib/focus-sessions";
+import type { FocusSession, Project, Tag, Task, TaskTag } from "@/lib/types";
+
+const minutes = (n: number) => n * 60 * 1000;
+const START = Date.parse("2030-01-17T17:00:00.000Z"); // 09:00 in California
+
+describe("session tracking", () => {
+  it("counts only the time the timer was running", () => {
+    let tracker = startSession(1500, START);
+    tracker = pauseSession(tracker, START + minutes(10));
+    tracker = resumeSession(tracker, START + minutes(15));
+
+    expect(
+      finishSession(tracker, "task-1", false, START + minutes(30)),
+    ).toEqual({
+      taskId: "task-1",
+      start: "2030-01-17T17:00:00.000Z",
+      end: "2030-01-17T17:30:00.000Z",
+      plannedSeconds: 1500,
+      actualSeconds: 25 * 60,
+      interrupted: false,
+    });
+  });
+
+  it("ignores pausing twice", () => {
+    let tracker = startSession(1500, START);
+    tracker = pauseSession(tracker, START + minutes(5));
+    tracker = pauseSession(tracker, START + minutes(20));
+
+    expect(
+      finishSession(tracker, "task-1", true, START + minutes(25))
+        ?.actualSeconds,
+    ).toBe(5 * 60);
+  });
+
+  it("doesn't log a session the timer never ran for", () => {
+    expect(
+      finishSession(startSession(1500, START), "task-1", true, START),
+    ).toBeNull();
+  });
+});
+
+describe("buildTimeReport", () => {
+  const task = (id: string, title: string, projectId?: string): Task => ({
+    id,
+    title,
+    projectId,
+    completed: false,
+    order: 0,
+    isDaily: false,
+    createdAt: "2030-01-01T00:00:00.000Z",
+  });
+
+  const session = (
+    id: string,
+    taskId: string,
+    start: string,
+    actualSeconds: number,
+    interrupted = false,
+  ): FocusSession => ({
+    id,
+    taskId,
+    start,
+    end: start,
+    plannedSeconds: 1500,
+    actualSeconds,
+    interrupted,
+    createdAt: start,
+  });
+
+  const projects: Project[] = [
+    {
+      id: "project-1",
+      name: "Thesis",
+      completed: false,
+      order: 0,
+      createdAt: "2030-01-01T00:00:00.000Z",
+    },
+  ];
+  const tags: Tag[] = [
+    { id: "tag-1", name: "deep", createdAt: "2030-01-01T00:00:00.000Z" },
+  ];
+  const tasks = [
+    task("task-1", "Write chapter", "project-1"),
+    task("task-2", "Answer email"),
+  ];
+  const taskTags: TaskTag[] = [
+    { taskId: "task-1", tagId: "tag-1", createdAt: "2030-01-01T00:00:00.000Z" },
+  ];
+
+  it("sums time per task, project and tag within the range", () => {
+    const sessions = [
+      session("s1", "task-1", "2030-01-17T17:00:00.000Z", 1500),
+      session("s2", "task-1", "2030-01-17T18:00:00.000Z", 600, true),
+      session("s3", "task-2", "2030-01-17T19:00:00.000Z", 300),
+      // 18:00 on Jan 15 in California, outside the range
+      session("s4", "task-2", "2030-01-16T02:00:00.000Z", 900),
+    ];
+
+    const report = buildTimeReport(sessions, "2030-01-16", "2030-01-17", {
+      tasks,
+      projects,
+      tags,
+      taskTags,
+    });
+
+    expect(report).toMatchObject({
+      totalSeconds: 2400,
+      sessions: 3,
+      completedSessions: 2,
+    });
+    expect(report.byTask).toEqual([
+      { id: "task-1", name: "Write chapter", seconds: 2100, sessions: 2 },
+      { id: "task-2", name: "Answer email", seconds: 300, sessions: 1 },
+    ]);
+    expect(report.byProject).toEqual([
+      { id: "project-1", name: "Thesis", seconds: 2100, sessions: 2 },
+      { id: null, name: "Inbox", seconds: 300, sessions: 1 },
+    ]);
+    expect(report.byTag).toEqual([
+      { id: "tag-1", name: "deep", seconds: 2100, sessions: 2 },
+    ]);
+  });
+
+  it("keeps time spent on tasks that no longer exist", () => {
+    const report = buildTimeReport(
+      [session("s1", "gone", "2030-01-17T17:00:00.000Z", 60)],
+      "2030-01-17",
+      "2030-01-17",
+      { tasks, projects, tags, taskTags },
+    );
+
+    expect(report.byTask).toEqual([
+      { id: "gone", name: "Deleted task", seconds: 60, sessions: 1 },
+    ]);
+  });
+});
+
+describe("formatDuration", () => {
+  it("formats hours, minutes and seconds", () => {
+    expect(formatDuration(3900)).toBe("1h 05m");
+    expect(formatDuration(1500)).toBe("25m");
+    expect(formatDuration(40)).toBe("40s");
+  });
+});
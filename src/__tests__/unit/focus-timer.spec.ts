@@ -0,0 +1,145 @@
+import { EndedSession, FocusTimer, getSecondsLeft } from "@/lib/focus-timer";
+import { POMODORO_SETTINGS_KEY } from "@/lib/pomodoro";
+
+const START = Date.parse("2030-01-17T17:00:00.000Z");
+const minutes = (n: number) => n * 60 * 1000;
+
+// A fresh timer per test, like a newly opened tab
+const openTab = () => {
+  const timer = new FocusTimer();
+  const sessions: EndedSession[] = [];
+  timer.onSessionEnd((session) => sessions.push(session));
+  return { timer, sessions };
+};
+
+describe("FocusTimer", () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: START });
+    // jsdom can't play media
+    jest
+      .spyOn(window.HTMLMediaElement.prototype, "play")
+      .mockResolvedValue(undefined);
+    jest
+      .spyOn(window.HTMLMediaElement.prototype, "pause")
+      .mockImplementation(() => {});
+    jest
+      .spyOn(window.HTMLMediaElement.prototype, "load")
+      .mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+    localStorage.clear();
+  });
+
+  it("counts down from the wall clock and pauses", () => {
+    const { timer } = openTab();
+    timer.load("task-1", "Write", 25, 25 * 60);
+    timer.start();
+
+    jest.advanceTimersByTime(minutes(10));
+    timer.pause();
+    jest.advanceTimersByTime(minutes(5));
+
+    expect(getSecondsLeft(timer.getSnapshot()!)).toBe(15 * 60);
+  });
+
+  it("logs the session and starts the break when the work phase ends", () => {
+    const { timer, sessions } = openTab();
+    timer.load("task-1", "Write", 25, 25 * 60);
+    timer.start();
+
+    jest.advanceTimersByTime(minutes(25));
+
+    expect(sessions).toEqual([
+      expect.objectContaining({
+        taskId: "task-1",
+        actualSeconds: 25 * 60,
+        interrupted: false,
+      }),
+    ]);
+    expect(timer.getSnapshot()).toMatchObject({
+      phase: "shortBreak",
+      completedWork: 1,
+      durationSeconds: 5 * 60,
+      endsAt: START + minutes(30),
+    });
+  });
+
+  it("keeps running after a reload", () => {
+    const first = openTab();
+    first.timer.load("task-1", "Write", 25, 25 * 60);
+    first.timer.start();
+
+    // The page reloads, the old tab's scheduled expiry is gone with it
+    jest.clearAllTimers();
+    jest.setSystemTime(START + minutes(5));
+    const reloaded = openTab();
+    reloaded.timer.load("task-1", "Write", 25, 25 * 60);
+
+    expect(getSecondsLeft(reloaded.timer.getSnapshot()!)).toBe(20 * 60);
+
+    jest.advanceTimersByTime(minutes(20));
+    expect(reloaded.sessions).toHaveLength(1);
+    expect(reloaded.timer.getSnapshot()?.phase).toBe("shortBreak");
+  });
+
+  it("ends a phase missed while no tab was open without starting the next", () => {
+    const first = openTab();
+    first.timer.load("task-1", "Write", 25, 25 * 60);
+    first.timer.start();
+
+    jest.clearAllTimers();
+    jest.setSystemTime(START + minutes(90));
+    const later = openTab();
+    jest.runOnlyPendingTimers();
+
+    expect(later.sessions).toEqual([
+      expect.objectContaining({
+        end: "2030-01-17T17:25:00.000Z",
+        actualSeconds: 25 * 60,
+      }),
+    ]);
+    expect(later.timer.getSnapshot()).toMatchObject({
+      phase: "shortBreak",
+      endsAt: null,
+    });
+  });
+
+  it("waits for a start between phases when auto-advance is off", () => {
+    localStorage.setItem(
+      POMODORO_SETTINGS_KEY,
+      JSON.stringify({ autoAdvance: false }),
+    );
+    const { timer } = openTab();
+    timer.load("task-1", "Write", 25, 25 * 60);
+    timer.start();
+
+    jest.advanceTimersByTime(minutes(25));
+
+    expect(timer.getSnapshot()).toMatchObject({
+      phase: "shortBreak",
+      endsAt: null,
+      remainingSeconds: 5 * 60,
+    });
+  });
+
+  it("ends the session early when switching to another task", () => {
+    const { timer, sessions } = openTab();
+    timer.load("task-1", "Write", 25, 25 * 60);
+    timer.start();
+    jest.advanceTimersByTime(minutes(3));
+
+    timer.load("task-2", "Read", 30, 30 * 60);
+
+    expect(sessions).toEqual([
+      expect.objectContaining({ taskId: "task-1", interrupted: true }),
+    ]);
+    expect(timer.getSnapshot()).toMatchObject({
+      taskId: "task-2",
+      endsAt: null,
+      remainingSeconds: 30 * 60,
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import {
+  addMonths,
+  calculateHabitScore,
+  getBestWeekday,
+  getPeriodRates,
+  getWeekdayRates,
+  getYearHeatmap,
+} from "@/lib/habit-stats";
+import type { CompletionHistory, Task } from "@/lib/types";
+
+// 2030-01-18 is a Friday
+const TODAY = "2030-01-18";
+
+const habit = (
+  completionHistory: CompletionHistory,
+  createdAt = "2030-01-01T12:00:00.000Z",
+): Task => ({
+  id: "habit-1",
+  title: "Meditate",
+  completed: false,
+  order: 0,
+  isDaily: true,
+  completionHistory,
+  createdAt,
+});
+
+describe("getYearHeatmap", () => {
+  it("ends with the current week, Sunday first, without future days", () => {
+    const weeks = getYearHeatmap(habit({ "2030-01-17": true }), TODAY);
+    const lastWeek = weeks[weeks.length - 1];
+
+    expect(weeks).toHaveLength(53);
+    expect(lastWeek[0]?.date).toBe("2030-01-13");
+    expect(lastWeek[4]).toEqual({ date: "2030-01-17", state: "completed" });
+    expect(lastWeek[5]).toEqual({ date: TODAY, state: "pending" });
+    expect(lastWeek[6]).toBeNull();
+  });
+});
+
+describe("getPeriodRates", () => {
+  it("computes weekly rates, oldest first", () => {
+    const task = habit({
+      "2030-01-06": true,
+      "2030-01-07": true,
+      "2030-01-08": "missed",
+      "2030-01-13": true,
+      "2030-01-14": "excused",
+    });
+
+    const [previous, current] = getPeriodRates(task, "week", 2, TODAY);
+
+    expect(previous).toMatchObject({ start: "2030-01-06", end: "2030-01-12" });
+    expect(previous.rate).toBe(29); // 2 of 7
+    // Excused days and the pending today are left out
+    expect(current).toMatchObject({
+      start: "2030-01-13",
+      end: TODAY,
+      completed: 1,
+      total: 4,
+      rate: 25,
+    });
+  });
+
+  it("has no rate for months before the habit existed", () => {
+    const [december, january] = getPeriodRates(habit({}), "month", 2, TODAY);
+
+    expect(december).toMatchObject({ start: "2029-12-01", rate: null });
+    expect(january).toMatchObject({ start: "2030-01-01", rate: 0 });
+  });
+
+  it("shifts months across year boundaries", () => {
+    expect(addMonths("2030-01-01", -1)).toBe("2029-12-01");
+    expect(addMonths("2029-11-01", 14)).toBe("2031-01-01");
+  });
+});
+
+describe("weekday analysis", () => {
+  it("finds the day of the week with the best completion rate", () => {
+    const task = habit(
+      {
+        "2030-01-07": true, // Monday
+        "2030-01-14": true, // Monday
+        "2030-01-08": true, // Tuesday
+      },
+      "2030-01-06T12:00:00.000Z",
+    );
+
+    const rates = getWeekdayRates(task, TODAY);
+
+    expect(rates.find((r) => r.weekday === "MO")).toMatchObject({
+      completed: 2,
+      total: 2,
+      rate: 100,
+    });
+    expect(getBestWeekday(rates)?.weekday).toBe("MO");
+  });
+
+  it("has no best day without any counted days", () => {
+    const task = habit({}, "2030-01-18T20:00:00.000Z");
+
+    expect(getBestWeekday(getWeekdayRates(task, TODAY))).toBeNull();
+  });
+});
+
+describe("calculateHabitScore", () => {
+  it("weighs every counted day of every habit equally", () => {
+    const busy = habit(
+      { "2030-01-16": true, "2030-01-17": true },
+      "2030-01-16T20:00:00.000Z",
+    );
+    const lagging = {
+      ...habit({}, "2030-01-17T20:00:00.000Z"),
+      id: "habit-2",
+    };
+
+    // 2 of 2 days plus 0 of 1 day
+    expect(calculateHabitScore([busy, lagging], TODAY)).toBe(67);
+    expect(calculateHabitScore([], TODAY)).toBeNull();
+  });
+});
@@ -0,0 +1,199 @@
+import { deserialize, serialize } from "node:v8";
+
+import { IDBFactory } from "fake-indexeddb";
+
+import { IndexedDBAdapter } from "@/lib/sync/indexeddb-adapter";
+import type { Task } from "@/lib/types";
+
+const task = (id: string, fields: Partial<Task> = {}): Task => ({
+  id,
+  title: id,
+  completed: false,
+  order: 0,
+  isDaily: false,
+  createdAt: `2030-01-01T00:00:0${id.length}.000Z`,
+  ...fields,
+});
+
+// In-memory stand-in for the BroadcastChannels of several tabs
+class FakeBroadcastChannel extends EventTarget {
+  static channels: FakeBroadcastChannel[] = [];
+  name: string;
+
+  constructor(name: string) {
+    super();
+    this.name = name;
+    FakeBroadcastChannel.channels.push(this);
+  }
+
+  postMessage(data: unknown) {
+    FakeBroadcastChannel.channels
+      .filter((channel) => channel !== this && channel.name === this.name)
+      .forEach((channel) =>
+        channel.dispatchEvent(new MessageEvent("message", { data })),
+      );
+  }
+}
+
+describe("IndexedDBAdapter", () => {
+  beforeAll(() => {
+    // jsdom has neither, and fake-indexeddb clones records with structuredClone
+    global.structuredClone = (value) => deserialize(serialize(value));
+    global.BroadcastChannel =
+      FakeBroadcastChannel as unknown as typeof BroadcastChannel;
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    global.indexedDB = new IDBFactory();
+    window.localStorage.clear();
+    FakeBroadcastChannel.channels = [];
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("updates one task without touching the others", async () => {
+    const adapter = new IndexedDBAdapter();
+    await adapter.addTask(task("a"));
+    await adapter.addTask(task("bb"));
+
+    await adapter.updateTask("a", { title: "renamed", completed: true });
+    await adapter.deleteTask("missing");
+
+    expect(await adapter.getTasks()).toEqual([
+      task("a", { title: "renamed", completed: true }),
+      task("bb"),
+    ]);
+  });
+
+  it("reads one task by its id", async () => {
+    const adapter = new IndexedDBAdapter();
+    await adapter.addTask(task("a", { completed: true }));
+    await adapter.addTask(task("bb"));
+
+    expect(await adapter.getTask("a")).toEqual(task("a", { completed: true }));
+    expect(await adapter.getTask("missing")).toBeUndefined();
+  });
+
+  it("finds tasks by project, parent and completion", async () => {
+    const adapter = new IndexedDBAdapter();
+    await adapter.addTask(task("a", { projectId: "p" }));
+    await adapter.addTask(task("bb", { parentTaskId: "a", completed: true }));
+    await adapter.addTask(task("ccc", { projectId: "p", completed: true }));
+
+    const ids = (tasks: Task[]) => tasks.map((t) => t.id);
+    expect(ids(await adapter.getTasksInProject("p"))).toEqual(["a", "ccc"]);
+    expect(ids(await adapter.getSubtasks("a"))).toEqual(["bb"]);
+    expect(ids(await adapter.getTasksByCompletion(true))).toEqual([
+      "bb",
+      "ccc",
+    ]);
+    expect(ids(await adapter.getTasksByCompletion(false))).toEqual(["a"]);
+  });
+
+  it("adds a task tag only once", async () => {
+    const adapter = new IndexedDBAdapter();
+    await adapter.addTaskTag("a", "t");
+    await adapter.addTaskTag("a", "t");
+    await adapter.removeTaskTag("a", "missing");
+
+    expect(await adapter.getTaskTags()).toMatchObject([
+      { taskId: "a", tagId: "t" },
+    ]);
+  });
+
+  it("moves data over from localStorage once", async () => {
+    window.localStorage.setItem("tasks", JSON.stringify([task("a")]));
+    window.localStorage.setItem(
+      "today",
+      JSON.stringify([{ taskId: "a", order: 0 }]),
+    );
+    window.localStorage.setItem(
+      "sync_cursors",
+      JSON.stringify({ cursors: { tasks: "x" }, pulledAt: 1 }),
+    );
+
+    const adapter = new IndexedDBAdapter();
+    expect(await adapter.getTasks()).toEqual([task("a")]);
+    expect(await adapter.getTodayTasks()).toEqual([{ taskId: "a", order: 0 }]);
+    expect(await adapter.getSyncCursors()).toEqual({
+      cursors: { tasks: "x" },
+      pulledAt: 1,
+    });
+    expect(window.localStorage.getItem("tasks")).toBeNull();
+
+    // Keys written later by an old tab are not moved again
+    window.localStorage.setItem("tasks", JSON.stringify([task("bb")]));
+    expect(await new IndexedDBAdapter().getTasks()).toEqual([task("a")]);
+  });
+
+  it("keeps writes made while data is replaced", async () => {
+    const adapter = new IndexedDBAdapter();
+    await adapter.addTask(task("a"));
+
+    let added: Promise<void> = Promise.resolve();
+    await adapter.replaceData((local) => {
+      added = adapter.addTask(task("added"));
+      return {
+        data: { ...local, tasks: [...local.tasks, task("bb")] },
+        cursors: { cursors: {}, pulledAt: 2 },
+      };
+    });
+    await added;
+
+    expect((await adapter.getTasks()).map((t) => t.id)).toEqual([
+      "a",
+      "bb",
+      "added",
+    ]);
+    expect(await adapter.getSyncCursors()).toEqual({
+      cursors: {},
+      pulledAt: 2,
+    });
+  });
+
+  it("tells other tabs what was written", async () => {
+    const adapter = new IndexedDBAdapter();
+    const otherTab = new IndexedDBAdapter();
+    const listener = jest.fn();
+    const ownListener = jest.fn();
+    otherTab.subscribeToOtherTabs(listener);
+    adapter.subscribeToOtherTabs(ownListener);
+
+    await adapter.addTag({ id: "t", name: "t", createdAt: "" });
+
+    expect(listener).toHaveBeenCalledWith("tags");
+    expect(ownListener).not.toHaveBeenCalled();
+  });
+
+  it("keeps using localStorage when the database can't be opened", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    // Like Firefox in private browsing, which has indexedDB but fails every open
+    jest.spyOn(global.indexedDB, "open").mockImplementation(() => {
+      const request = {
+        error: new DOMException(
+          "Database can't be opened",
+          "InvalidStateError",
+        ),
+      } as IDBOpenDBRequest;
+      setTimeout(() => request.onerror?.(new Event("error")));
+      return request;
+    });
+    window.localStorage.setItem("tasks", JSON.stringify([task("a")]));
+
+    const adapter = new IndexedDBAdapter();
+    expect(await adapter.getTasks()).toEqual([task("a")]);
+
+    await adapter.addTask(task("bb"));
+    await adapter.updateTask("a", { completed: true });
+    expect(await adapter.getTasksByCompletion(true)).toEqual([
+      task("a", { completed: true }),
+    ]);
+    expect(JSON.parse(window.localStorage.getItem("tasks")!)).toEqual([
+      task("a", { completed: true }),
+      task("bb"),
+    ]);
+  });
+});
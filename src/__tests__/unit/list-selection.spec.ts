@@ -0,0 +1,141 @@
+import {
+  clickItem,
+  EMPTY_SELECTION,
+  moveCursor,
+  moveItems,
+  pruneSelection,
+  selectItem,
+} from "@/lib/list-selection";
+
+const ids = ["a", "b", "c", "d", "e"];
+const items = ids.map((id) => ({ id }));
+const order = (list: { id: string }[] | null) =>
+  list?.map((item) => item.id).join("");
+
+describe("moveCursor", () => {
+  it("starts at the first task going down and the last going up", () => {
+    expect(moveCursor(ids, EMPTY_SELECTION, 1).cursorId).toBe("a");
+    expect(moveCursor(ids, EMPTY_SELECTION, -1).cursorId).toBe("e");
+  });
+
+  it("moves one task at a time and stops at either end", () => {
+    const first = selectItem(ids, EMPTY_SELECTION, "a");
+    expect(moveCursor(ids, first, 1).cursorId).toBe("b");
+    expect(moveCursor(ids, first, -1).cursorId).toBe("a");
+
+    const last = selectItem(ids, EMPTY_SELECTION, "e");
+    expect(moveCursor(ids, last, 1).cursorId).toBe("e");
+  });
+
+  it("selects only the cursor task when not extending", () => {
+    const selection = moveCursor(ids, selectItem(ids, EMPTY_SELECTION, "b"), 1);
+    expect(selection.selectedIds).toEqual(["c"]);
+    expect(selection.anchorId).toBe("c");
+  });
+
+  it("extends the selection from the anchor in either direction", () => {
+    let selection = selectItem(ids, EMPTY_SELECTION, "c");
+    selection = moveCursor(ids, selection, 1, true);
+    selection = moveCursor(ids, selection, 1, true);
+    expect(selection.selectedIds).toEqual(["c", "d", "e"]);
+
+    selection = moveCursor(ids, selection, -1, true);
+    selection = moveCursor(ids, selection, -1, true);
+    selection = moveCursor(ids, selection, -1, true);
+    expect(selection.selectedIds).toEqual(["b", "c"]);
+    expect(selection.anchorId).toBe("c");
+  });
+
+  it("clears the selection in an empty list", () => {
+    expect(moveCursor([], selectItem(ids, EMPTY_SELECTION, "a"), 1)).toEqual(
+      EMPTY_SELECTION,
+    );
+  });
+});
+
+describe("selectItem", () => {
+  it("selects a range from the anchor when extending", () => {
+    const selection = selectItem(
+      ids,
+      selectItem(ids, EMPTY_SELECTION, "d"),
+      "b",
+      true,
+    );
+    expect(selection.selectedIds).toEqual(["b", "c", "d"]);
+    expect(selection.cursorId).toBe("b");
+  });
+
+  it("starts from the task itself when there is no anchor", () => {
+    expect(selectItem(ids, EMPTY_SELECTION, "c", true).selectedIds).toEqual([
+      "c",
+    ]);
+  });
+});
+
+describe("pruneSelection", () => {
+  it("drops tasks that have left the list", () => {
+    const selection = selectItem(
+      ids,
+      selectItem(ids, EMPTY_SELECTION, "b"),
+      "d",
+      true,
+    );
+    const pruned = pruneSelection(["a", "b", "c", "e"], selection);
+    expect(pruned.selectedIds).toEqual(["b", "c"]);
+    expect(pruned.cursorId).toBeNull();
+    expect(pruned.anchorId).toBe("b");
+  });
+
+  it("returns the same selection when nothing changed", () => {
+    const selection = selectItem(ids, EMPTY_SELECTION, "b");
+    expect(pruneSelection(ids, selection)).toBe(selection);
+  });
+});
+
+describe("moveItems", () => {
+  it("moves a selected item by one place", () => {
+    expect(order(moveItems(items, ["c"], -1))).toBe("acbde");
+    expect(order(moveItems(items, ["c"], 1))).toBe("abdce");
+  });
+
+  it("moves several selected items together, keeping their order", () => {
+    expect(order(moveItems(items, ["b", "d"], -1))).toBe("badce");
+    expect(order(moveItems(items, ["b", "c"], 1))).toBe("adbce");
+  });
+
+  it("does nothing when a selected item is already at the end", () => {
+    expect(moveItems(items, ["a", "c"], -1)).toBeNull();
+    expect(moveItems(items, ["e"], 1)).toBeNull();
+  });
+
+  it("does nothing when the list doesn't hold every selected item", () => {
+    expect(moveItems(items, ["b", "z"], 1)).toBeNull();
+    expect(moveItems(items, [], 1)).toBeNull();
+  });
+});
+
+describe("clickItem", () => {
+  it("adds a task to the selection and takes it out again", () => {
+    let selection = selectItem(ids, EMPTY_SELECTION, "d");
+    selection = clickItem(ids, selection, "b", "toggle");
+    expect(selection.selectedIds).toEqual(["b", "d"]);
+
+    selection = clickItem(ids, selection, "d", "toggle");
+    expect(selection.selectedIds).toEqual(["b"]);
+    expect(selection.cursorId).toBe("d");
+  });
+
+  it("extends a range from the last task toggled", () => {
+    let selection = selectItem(ids, EMPTY_SELECTION, "a");
+    selection = clickItem(ids, selection, "c", "toggle");
+    selection = clickItem(ids, selection, "e", "extend");
+    expect(selection.selectedIds).toEqual(["c", "d", "e"]);
+  });
+
+  it("selects only the clicked task otherwise", () => {
+    const selection = selectItem(ids, EMPTY_SELECTION, "a");
+    expect(clickItem(ids, selection, "c", "replace").selectedIds).toEqual([
+      "c",
+    ]);
+  });
+});
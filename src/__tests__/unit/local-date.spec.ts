@@ -0,0 +1,117 @@
+import { rekeyCompletionHistory } from "@/lib/date-key-migration";
+import {
+  DAY_START_HOUR_KEY,
+  getDateKey,
+  getTodayKey,
+  toLocalDateKey,
+} from "@/lib/local-date";
+import { calculateStreak } from "@/lib/streak";
+import type { Task } from "@/lib/types";
+
+const dailyTask = (overrides: Partial<Task>): Task => ({
+  id: "task-1",
+  title: "Stretch",
+  completed: false,
+  order: 0,
+  isDaily: true,
+  createdAt: "2030-01-01T12:00:00.000Z",
+  ...overrides,
+});
+
+// Jest runs in America/Los_Angeles, see jest.config.js
+describe("local date keys in Los Angeles", () => {
+  afterEach(() => {
+    window.localStorage.clear();
+    jest.useRealTimers();
+  });
+
+  it("keys an evening by its local date, not the UTC one", () => {
+    // 17:30 on Jan 17 in California, already Jan 18 in UTC
+    const evening = new Date("2030-01-18T01:30:00.000Z");
+
+    expect(toLocalDateKey(evening)).toBe("2030-01-17");
+    expect(getDateKey(evening, 0)).toBe("2030-01-17");
+  });
+
+  it("counts the hours before the day start for the previous day", () => {
+    // 01:30 on Jan 18 in California
+    const lateNight = new Date("2030-01-18T09:30:00.000Z");
+
+    expect(getDateKey(lateNight, 0)).toBe("2030-01-18");
+    expect(getDateKey(lateNight, 2)).toBe("2030-01-17");
+  });
+
+  it("reads the day start hour from settings", () => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date("2030-01-18T09:30:00.000Z"));
+
+    expect(getTodayKey()).toBe("2030-01-18");
+    window.localStorage.setItem(DAY_START_HOUR_KEY, "3");
+    expect(getTodayKey()).toBe("2030-01-17");
+  });
+
+  it("uses wall-clock hours across the spring DST change", () => {
+    // Clocks jump from 02:00 PST to 03:00 PDT on 2030-03-10
+    expect(getDateKey(new Date("2030-03-10T09:30:00.000Z"), 2)).toBe(
+      "2030-03-09",
+    );
+    expect(getDateKey(new Date("2030-03-10T10:30:00.000Z"), 2)).toBe(
+      "2030-03-10",
+    );
+  });
+
+  it("keeps a streak going when today was completed in the evening", () => {
+    jest.useFakeTimers();
+    // 21:00 on Jan 17 in California
+    jest.setSystemTime(new Date("2030-01-18T05:00:00.000Z"));
+
+    const task = dailyTask({
+      completionHistory: { "2030-01-16": true, "2030-01-17": true },
+    });
+
+    expect(calculateStreak(task)).toBe(2);
+  });
+
+  it("moves UTC keys to the local date when re-keying history", () => {
+    const task = dailyTask({
+      // Completed at 19:00 on Jan 17 local time, stored under the UTC date
+      lastCompleted: "2030-01-18T03:00:00.000Z",
+      completionHistory: { "2030-01-16": true, "2030-01-18": true },
+    });
+
+    expect(rekeyCompletionHistory(task, "2030-01-17")).toEqual({
+      "2030-01-16": true,
+      "2030-01-17": true,
+    });
+  });
+
+  it("moves keys later than today back a day", () => {
+    const task = dailyTask({
+      completionHistory: { "2030-01-17": true, "2030-01-18": true },
+    });
+
+    expect(rekeyCompletionHistory(task, "2030-01-17")).toEqual({
+      "2030-01-17": true,
+    });
+  });
+
+  it("leaves histories that are already correct alone", () => {
+    const task = dailyTask({
+      lastCompleted: "2030-01-17T18:00:00.000Z",
+      completionHistory: { "2030-01-16": true, "2030-01-17": true },
+    });
+
+    expect(rekeyCompletionHistory(task, "2030-01-17")).toBeNull();
+  });
+});
+
+describe("local date keys in Tokyo", () => {
+  it("keys an early morning by its local date, not the UTC one", () => {
+    // 01:00 on Jan 18 in Tokyo, still Jan 17 in UTC
+    const earlyMorning = new Date("2030-01-17T16:00:00.000Z");
+
+    expect(toLocalDateKey(earlyMorning, "Asia/Tokyo")).toBe("2030-01-18");
+    expect(getDateKey(earlyMorning, 0, "Asia/Tokyo")).toBe("2030-01-18");
+    expect(getDateKey(earlyMorning, 2, "Asia/Tokyo")).toBe("2030-01-17");
+  });
+});
@@ -0,0 +1,114 @@
+import {
+  DEFAULT_POMODORO_SETTINGS,
+  getBreakSuggestion,
+  getCyclePosition,
+  getNextPhase,
+  getPhaseMinutes,
+  getPomodoroSettings,
+  POMODORO_SETTINGS_KEY,
+  PomodoroState,
+} from "@/lib/pomodoro";
+import type { Task } from "@/lib/types";
+
+const TODAY = "2030-01-18";
+
+const settings = { ...DEFAULT_POMODORO_SETTINGS, longBreakInterval: 3 };
+
+describe("Pomodoro cycles", () => {
+  it("takes a long break after every full cycle of work phases", () => {
+    const phases: string[] = [];
+    let state: PomodoroState = { phase: "work", completedWork: 0 };
+    for (let i = 0; i < 8; i++) {
+      state = getNextPhase(state, settings);
+      phases.push(state.phase);
+    }
+
+    expect(phases).toEqual([
+      "shortBreak",
+      "work",
+      "shortBreak",
+      "work",
+      "longBreak",
+      "work",
+      "shortBreak",
+      "work",
+    ]);
+    expect(state.completedWork).toBe(4);
+  });
+
+  it("counts the position within the cycle", () => {
+    expect(
+      getCyclePosition({ phase: "work", completedWork: 0 }, settings),
+    ).toBe(1);
+    // The long break still belongs to the last work phase of the cycle
+    expect(
+      getCyclePosition({ phase: "longBreak", completedWork: 3 }, settings),
+    ).toBe(3);
+    expect(
+      getCyclePosition({ phase: "work", completedWork: 3 }, settings),
+    ).toBe(1);
+  });
+
+  it("uses the task's own work length", () => {
+    expect(getPhaseMinutes("work", settings, 40)).toBe(40);
+    expect(getPhaseMinutes("shortBreak", settings, 40)).toBe(5);
+  });
+});
+
+describe("getPomodoroSettings", () => {
+  afterEach(() => localStorage.clear());
+
+  it("falls back to the defaults for invalid values", () => {
+    localStorage.setItem(
+      POMODORO_SETTINGS_KEY,
+      JSON.stringify({ workMinutes: 50, shortBreakMinutes: 0, autoAdvance: 1 }),
+    );
+
+    expect(getPomodoroSettings()).toEqual({
+      ...DEFAULT_POMODORO_SETTINGS,
+      workMinutes: 50,
+    });
+  });
+
+  it("ignores a corrupt value", () => {
+    localStorage.setItem(POMODORO_SETTINGS_KEY, "{");
+
+    expect(getPomodoroSettings()).toEqual(DEFAULT_POMODORO_SETTINGS);
+  });
+});
+
+describe("getBreakSuggestion", () => {
+  const task = (id: string, overrides: Partial<Task> = {}): Task => ({
+    id,
+    title: id,
+    completed: false,
+    order: 0,
+    isDaily: false,
+    createdAt: "2030-01-01T12:00:00.000Z",
+    ...overrides,
+  });
+
+  it("suggests the next unfinished task after the current one", () => {
+    const today = [
+      task("a"),
+      task("current"),
+      task("done", { completed: true }),
+      task("daily", { isDaily: true, completionHistory: { [TODAY]: true } }),
+      task("next"),
+    ];
+
+    expect(getBreakSuggestion(today, "current", TODAY)?.id).toBe("next");
+  });
+
+  it("wraps around to the start of the list", () => {
+    const today = [task("a"), task("current")];
+
+    expect(getBreakSuggestion(today, "current", TODAY)?.id).toBe("a");
+  });
+
+  it("skips subtasks of the current task", () => {
+    const today = [task("current"), task("sub", { parentTaskId: "current" })];
+
+    expect(getBreakSuggestion(today, "current", TODAY)).toBeNull();
+  });
+});
@@ -0,0 +1,316 @@
+import {
+  applyCompletion,
+  getCompletionContext,
+  getCompletions,
+  normalizeName,
+  parseDateWord,
+  parseEstimate,
+  parseQuickAdd,
+  parseTime,
+  toTokenName,
+} from "@/lib/quick-add";
+
+// A Wednesday
+const TODAY = "2030-01-16";
+
+const projects = [
+  { id: "p1", name: "Q3 planning" },
+  { id: "p2", name: "Home" },
+];
+
+const parse = (input: string) =>
+  parseQuickAdd(input, { today: TODAY, projects, tags: ["Deep work"] });
+
+describe("parseQuickAdd", () => {
+  it("parses every kind of token in one line", () => {
+    const result = parse(
+      "Write report #work +Q3-planning ~45m !tomorrow 3pm every weekday",
+    );
+
+    expect(result).toMatchObject({
+      title: "Write report",
+      tags: ["work"],
+      projectId: "p1",
+      timePeriod: 45,
+      isDaily: true,
+      recurrence: "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR",
+      // Recurring tasks start on the due date, reminding at its time
+      startDate: "2030-01-17",
+      reminderTime: "15:00",
+    });
+    expect(result.dueDate).toBeUndefined();
+    expect(result.tokens.find((t) => t.kind === "due")?.valid).toBe(true);
+  });
+
+  it("leaves plain text alone", () => {
+    expect(parse("Call the bank")).toEqual({
+      title: "Call the bank",
+      tags: [],
+      isDaily: false,
+      recurrence: null,
+      tokens: [],
+    });
+  });
+
+  it("collapses the whitespace left by tokens", () => {
+    expect(parse("  Buy  #errand   milk ").title).toBe("Buy milk");
+  });
+
+  it("reports where each token is", () => {
+    const input = "Plan #deep-work !jan 20 9am";
+    const { tokens } = parse(input);
+
+    expect(tokens.map((t) => input.slice(t.start, t.end))).toEqual([
+      "#deep-work",
+      "!jan 20 9am",
+    ]);
+  });
+
+  describe("tags", () => {
+    it("collects tags without duplicates", () => {
+      expect(parse("Read #books #Books #fun").tags).toEqual(["books", "fun"]);
+    });
+
+    it("uses the spelling of an existing tag", () => {
+      expect(parse("Focus #deep-work").tags).toEqual(["Deep work"]);
+    });
+
+    it("needs a name after the #", () => {
+      expect(parse("Item # 5").title).toBe("Item # 5");
+      expect(parse("Fix #!").title).toBe("Fix #!");
+    });
+
+    it("only starts at the beginning of a word", () => {
+      expect(parse("Learn C# today").tags).toEqual([]);
+    });
+  });
+
+  describe("projects", () => {
+    it("matches names with hyphens for spaces, in any case", () => {
+      expect(parse("Draft +q3_PLANNING").projectId).toBe("p1");
+    });
+
+    it("keeps the last project", () => {
+      expect(parse("Sweep +Q3-planning +home").projectId).toBe("p2");
+    });
+
+    it("marks unknown projects instead of applying them", () => {
+      const result = parse("Pack +Travel");
+
+      expect(result.projectId).toBeUndefined();
+      expect(result.title).toBe("Pack");
+      expect(result.tokens).toEqual([
+        { kind: "project", start: 5, end: 12, valid: false },
+      ]);
+    });
+  });
+
+  describe("estimates", () => {
+    it.each([
+      ["45m", 45],
+      ["45min", 45],
+      ["1h", 60],
+      ["1h30m", 90],
+      ["1.5h", 90],
+      ["90", 90],
+    ])("reads ~%s", (text, minutes) => {
+      expect(parseEstimate(text)).toBe(minutes);
+      expect(parse(`Run ~${text}`).timePeriod).toBe(minutes);
+    });
+
+    it.each(["", "0", "0m", "h", "soon", "1d"])("rejects ~%s", (text) => {
+      expect(parseEstimate(text)).toBeNull();
+      expect(parse(`Run ~${text}`).title).toBe(`Run ~${text}`);
+    });
+  });
+
+  describe("due dates", () => {
+    it.each([
+      ["today", "2030-01-16"],
+      ["tod", "2030-01-16"],
+      ["tomorrow", "2030-01-17"],
+      ["tom", "2030-01-17"],
+      ["Fri", "2030-01-18"],
+      ["monday", "2030-01-21"],
+      // The weekday of today means a week from now
+      ["wed", "2030-01-23"],
+      ["next-week", "2030-01-21"],
+      ["3d", "2030-01-19"],
+      ["2w", "2030-01-30"],
+      ["2030-03-05", "2030-03-05"],
+      ["3/5", "2030-03-05"],
+      ["3/5/2031", "2031-03-05"],
+      // Dates that have passed this year are next year's
+      ["1/10", "2031-01-10"],
+      ["jan20", "2030-01-20"],
+      ["sept-9", "2030-09-09"],
+    ])("reads !%s", (text, dueDate) => {
+      expect(parseDateWord(text, TODAY)).toBe(dueDate);
+      expect(parse(`Pay rent !${text}`)).toMatchObject({
+        title: "Pay rent",
+        dueDate,
+      });
+    });
+
+    it.each(["2030-02-30", "13/1", "someday", "marker5", "20", ""])(
+      "leaves !%s in the title",
+      (text) => {
+        const result = parse(`Pay rent !${text}`);
+        expect(result.dueDate).toBeUndefined();
+        expect(result.title).toBe(`Pay rent !${text}`);
+      },
+    );
+
+    it("reads dates written as two words", () => {
+      expect(parse("Trip !march 3rd").dueDate).toBe("2030-03-03");
+      expect(parse("Review !next week").dueDate).toBe("2030-01-21");
+    });
+
+    it("takes a time after the date as the reminder time", () => {
+      const result = parse("Call !tomorrow 3pm about it");
+
+      expect(result).toMatchObject({
+        title: "Call about it",
+        dueDate: "2030-01-17",
+        reminderTime: "15:00",
+      });
+    });
+
+    it("reads a time alone as today", () => {
+      expect(parse("Stretch !18:30")).toMatchObject({
+        dueDate: TODAY,
+        reminderTime: "18:30",
+      });
+    });
+
+    it("doesn't take a time that isn't after a date", () => {
+      expect(parse("Lunch at 1pm").reminderTime).toBeUndefined();
+    });
+  });
+
+  describe("times", () => {
+    it.each([
+      ["3pm", "15:00"],
+      ["3PM", "15:00"],
+      ["12am", "00:00"],
+      ["12pm", "12:00"],
+      ["9:05am", "09:05"],
+      ["21:45", "21:45"],
+      ["0:00", "00:00"],
+    ])("reads %s", (text, time) => {
+      expect(parseTime(text)).toBe(time);
+    });
+
+    it.each(["13pm", "0am", "24:00", "9:60", "9", "noon"])(
+      "rejects %s",
+      (text) => {
+        expect(parseTime(text)).toBeNull();
+      },
+    );
+  });
+
+  describe("recurrence", () => {
+    it.each([
+      ["every day", null],
+      ["every other day", "FREQ=DAILY;INTERVAL=2"],
+      ["every 3 days", "FREQ=DAILY;INTERVAL=3"],
+      ["every week", "FREQ=WEEKLY"],
+      ["every 2 weeks", "FREQ=WEEKLY;INTERVAL=2"],
+      ["every month", "FREQ=MONTHLY"],
+      ["every other month", "FREQ=MONTHLY;INTERVAL=2"],
+      ["every weekday", "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR"],
+      ["every weekend", "FREQ=WEEKLY;BYDAY=SU,SA"],
+      ["every mon,wed,fri", "FREQ=WEEKLY;BYDAY=MO,WE,FR"],
+      ["every tuesday and thursday", "FREQ=WEEKLY;BYDAY=TU,TH"],
+      ["every fri, mon", "FREQ=WEEKLY;BYDAY=MO,FR"],
+      ["Every 15th", "FREQ=MONTHLY;BYMONTHDAY=15"],
+    ])("reads %s", (text, recurrence) => {
+      expect(parse(`Water plants ${text}`)).toMatchObject({
+        title: "Water plants",
+        isDaily: true,
+        recurrence,
+      });
+    });
+
+    it("takes a time after the rule as the reminder time", () => {
+      expect(parse("Stand-up every weekday 9:30am")).toMatchObject({
+        title: "Stand-up",
+        reminderTime: "09:30",
+      });
+      expect(parse("Stand-up !monday 8am every weekday 9:30am")).toMatchObject({
+        startDate: "2030-01-21",
+        reminderTime: "09:30",
+      });
+    });
+
+    it("keeps 'every' that isn't followed by a rule", () => {
+      expect(parse("Read every chapter")).toMatchObject({
+        title: "Read every chapter",
+        isDaily: false,
+      });
+      expect(parse("Plan every")).toMatchObject({ isDaily: false });
+      expect(parse("Save every constructor").isDaily).toBe(false);
+    });
+
+    it("stops at the first word that isn't a weekday", () => {
+      expect(parse("Gym every mon and more")).toMatchObject({
+        title: "Gym and more",
+        recurrence: "FREQ=WEEKLY;BYDAY=MO",
+      });
+    });
+  });
+});
+
+describe("names in tokens", () => {
+  it("writes names with hyphens for spaces and compares them loosely", () => {
+    expect(toTokenName(" Q3  planning ")).toBe("Q3-planning");
+    expect(normalizeName("Q3-planning")).toBe(normalizeName("q3 Planning"));
+  });
+});
+
+describe("autocomplete", () => {
+  it("finds the tag or project at the caret", () => {
+    expect(getCompletionContext("Write #wo", 9)).toEqual({
+      kind: "tag",
+      query: "wo",
+      start: 6,
+      end: 9,
+    });
+    expect(getCompletionContext("Write +Q3 now", 8)).toEqual({
+      kind: "project",
+      query: "Q3",
+      start: 6,
+      end: 9,
+    });
+    expect(getCompletionContext("Write #", 7)?.query).toBe("");
+  });
+
+  it("ignores other words and carets before a token", () => {
+    expect(getCompletionContext("Write report", 12)).toBeNull();
+    expect(getCompletionContext("Write ~45m", 10)).toBeNull();
+    expect(getCompletionContext("Write #work", 6)).toBeNull();
+  });
+
+  it("suggests names starting with the query before names containing it", () => {
+    const context = getCompletionContext("#pl", 3)!;
+
+    expect(
+      getCompletions(context, [
+        "Deep planning",
+        "Plants",
+        "Home",
+        "Q3 planning",
+      ]),
+    ).toEqual(["Plants", "Deep planning", "Q3 planning"]);
+  });
+
+  it("replaces the typed name with the chosen one", () => {
+    const input = "Write +q3 #work";
+    const context = getCompletionContext(input, 9)!;
+
+    expect(applyCompletion(input, context, "Q3 planning")).toEqual({
+      value: "Write +Q3-planning #work",
+      caret: 19,
+    });
+  });
+});
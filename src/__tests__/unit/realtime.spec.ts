@@ -0,0 +1,266 @@
+import { LocalStorageAdapter } from "@/lib/sync/local-storage-adapter";
+import {
+  LocalRealtimeChannel,
+  SupabaseRealtimeChannel,
+} from "@/lib/sync/realtime";
+import { SyncQueue } from "@/lib/sync/sync-queue";
+import { SyncWorker } from "@/lib/sync/sync-worker";
+import { IStorageAdapter, OperationType } from "@/lib/sync/types";
+import type { Task } from "@/lib/types";
+
+const task = (id: string, fields: Partial<Task> = {}): Task => ({
+  id,
+  title: id,
+  completed: false,
+  order: 0,
+  isDaily: false,
+  createdAt: "2030-01-01T00:00:00.000Z",
+  ...fields,
+});
+
+describe("SyncWorker with a realtime channel", () => {
+  let channel: LocalRealtimeChannel;
+  let remoteTasks: Task[];
+  let getTasks: jest.Mock;
+  let addTask: jest.Mock;
+  let remote: IStorageAdapter;
+  let worker: SyncWorker | null;
+
+  // Start a worker whose interval never fires during a test
+  const startWorker = (queue: SyncQueue, local: LocalStorageAdapter) => {
+    worker = new SyncWorker(queue, remote, local, 60 * 60 * 1000);
+    worker.start();
+    return worker;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    window.localStorage.clear();
+
+    channel = new LocalRealtimeChannel();
+    remoteTasks = [task("a")];
+    getTasks = jest.fn(async () => remoteTasks);
+    addTask = jest.fn(async () => {});
+    const empty = async () => [];
+    remote = {
+      getTasks,
+      addTask,
+      getProjects: empty,
+      getTags: empty,
+      getTaskTags: empty,
+      getProjectTags: empty,
+      getFocusSessions: empty,
+      getTodayTasks: empty,
+      createRealtimeChannel: () => channel,
+    } as unknown as IStorageAdapter;
+    worker = null;
+  });
+
+  afterEach(() => {
+    worker?.stop();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it("pulls announced changes and lets listeners know", async () => {
+    const local = new LocalStorageAdapter();
+    const listener = jest.fn();
+    startWorker(new SyncQueue(), local).subscribeToRemoteChanges(listener);
+    await jest.advanceTimersByTimeAsync(1000);
+
+    remoteTasks = [task("a"), task("b")];
+    channel.emit({ table: "tasks", type: "INSERT" });
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect((await local.getTasks()).map((t) => t.id)).toEqual(["a", "b"]);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it("takes one pull for a burst of changes", async () => {
+    startWorker(new SyncQueue(), new LocalStorageAdapter());
+    await jest.advanceTimersByTimeAsync(1000);
+    getTasks.mockClear();
+
+    channel.emit({ table: "tasks", type: "UPDATE" });
+    channel.emit({ table: "tasks", type: "UPDATE" });
+    channel.emit({ table: "task_tags", type: "INSERT" });
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(getTasks).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps tasks added while a pull was fetching", async () => {
+    const queue = new SyncQueue();
+    const local = new LocalStorageAdapter();
+    getTasks.mockImplementationOnce(async () => {
+      await local.addTask(task("added"));
+      queue.enqueue(OperationType.ADD_TASK, task("added"));
+      return remoteTasks;
+    });
+
+    await new SyncWorker(queue, remote, local).pullFromRemote();
+
+    expect((await local.getTasks()).map((t) => t.id)).toEqual(["a", "added"]);
+  });
+
+  it("sends queued operations shortly after they are made", async () => {
+    const queue = new SyncQueue();
+    startWorker(queue, new LocalStorageAdapter());
+    await jest.advanceTimersByTimeAsync(1000);
+
+    queue.enqueue(OperationType.ADD_TASK, task("new"));
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(addTask).toHaveBeenCalledWith(task("new"));
+    expect(queue.getPendingCount()).toBe(0);
+  });
+
+  it("disconnects when stopped", () => {
+    startWorker(new SyncQueue(), new LocalStorageAdapter()).stop();
+
+    expect(channel.isConnected()).toBe(false);
+  });
+});
+
+describe("SupabaseRealtimeChannel", () => {
+  // Just enough of a WebSocket to play the server's side
+  class FakeWebSocket {
+    static OPEN = 1;
+    static sockets: FakeWebSocket[] = [];
+    url: string;
+    readyState = 0;
+    sent: { topic: string; event: string; payload: unknown; ref: string }[] =
+      [];
+    onopen: (() => void) | null = null;
+    onmessage: ((event: { data: string }) => void) | null = null;
+    onclose: (() => void) | null = null;
+
+    constructor(url: string) {
+      this.url = url;
+      FakeWebSocket.sockets.push(this);
+    }
+
+    send(data: string) {
+      this.sent.push(JSON.parse(data));
+    }
+
+    close() {
+      this.readyState = 3;
+      this.onclose?.();
+    }
+
+    open() {
+      this.readyState = FakeWebSocket.OPEN;
+      this.onopen?.();
+    }
+
+    receive(message: object) {
+      this.onmessage?.({ data: JSON.stringify(message) });
+    }
+  }
+
+  const realWebSocket = global.WebSocket;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    FakeWebSocket.sockets = [];
+    global.WebSocket = FakeWebSocket as unknown as typeof WebSocket;
+  });
+
+  afterEach(() => {
+    global.WebSocket = realWebSocket;
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it("joins as the user and reports their changes", async () => {
+    const channel = new SupabaseRealtimeChannel(
+      "https://db.example.com",
+      "anon",
+      async () => "user-token",
+    );
+    const onChange = jest.fn();
+    const onConnect = jest.fn();
+    channel.connect({ onChange, onConnect });
+    await jest.advanceTimersByTimeAsync(0);
+
+    const socket = FakeWebSocket.sockets[0];
+    expect(socket.url).toBe(
+      "wss://db.example.com/realtime/v1/websocket?apikey=anon&vsn=1.0.0",
+    );
+    socket.open();
+    const join = socket.sent[0];
+    expect(join.event).toBe("phx_join");
+    expect(join.payload).toMatchObject({ access_token: "user-token" });
+
+    socket.receive({
+      topic: join.topic,
+      event: "phx_reply",
+      payload: { status: "ok", response: {} },
+      ref: join.ref,
+    });
+    socket.receive({
+      topic: join.topic,
+      event: "postgres_changes",
+      payload: { data: { table: "tasks", type: "UPDATE", record: {} } },
+      ref: null,
+    });
+
+    expect(onConnect).toHaveBeenCalledTimes(1);
+    expect(onChange).toHaveBeenCalledWith({ table: "tasks", type: "UPDATE" });
+    channel.disconnect();
+  });
+
+  it("reconnects after the socket closes", async () => {
+    const channel = new SupabaseRealtimeChannel(
+      "https://db.example.com",
+      "anon",
+    );
+    channel.connect({ onChange: jest.fn(), onConnect: jest.fn() });
+    await jest.advanceTimersByTimeAsync(0);
+
+    FakeWebSocket.sockets[0].close();
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(FakeWebSocket.sockets).toHaveLength(2);
+    channel.disconnect();
+  });
+
+  it("opens one socket when connected again while fetching the token", async () => {
+    const tokens: ((token: string) => void)[] = [];
+    const channel = new SupabaseRealtimeChannel(
+      "https://db.example.com",
+      "anon",
+      () => new Promise((resolve) => tokens.push(resolve)),
+    );
+    channel.connect({ onChange: jest.fn(), onConnect: jest.fn() });
+    channel.disconnect();
+    channel.connect({ onChange: jest.fn(), onConnect: jest.fn() });
+
+    tokens[1]("new-token");
+    tokens[0]("old-token");
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(FakeWebSocket.sockets).toHaveLength(1);
+    FakeWebSocket.sockets[0].open();
+    expect(FakeWebSocket.sockets[0].sent[0].payload).toMatchObject({
+      access_token: "new-token",
+    });
+    channel.disconnect();
+  });
+
+  it("waits for a sign-in before connecting", async () => {
+    const channel = new SupabaseRealtimeChannel(
+      "https://db.example.com",
+      "anon",
+      async () => null,
+    );
+    channel.connect({ onChange: jest.fn(), onConnect: jest.fn() });
+    await jest.advanceTimersByTimeAsync(5000);
+
+    expect(FakeWebSocket.sockets).toHaveLength(0);
+    channel.disconnect();
+  });
+});
@@ -0,0 +1,134 @@
+import {
+  describeRecurrence,
+  formatRecurrence,
+  isScheduledOn,
+  parseRecurrence,
+} from "@/lib/recurrence";
+import { calculateLongestStreak, calculateStreak } from "@/lib/streak";
+import type { Task } from "@/lib/types";
+
+const recurringTask = (
+  recurrence: string | null,
+  completed: string[],
+): Task => ({
+  id: "task-1",
+  title: "Gym",
+  completed: false,
+  order: 0,
+  isDaily: true,
+  recurrence,
+  completionHistory: Object.fromEntries(completed.map((d) => [d, true])),
+  // A Monday
+  createdAt: "2030-01-07T09:00:00.000Z",
+});
+
+describe("parseRecurrence", () => {
+  it("round-trips the supported subset", () => {
+    for (const rrule of [
+      "FREQ=DAILY;INTERVAL=3",
+      "FREQ=WEEKLY;BYDAY=MO,WE,FR",
+      "FREQ=MONTHLY;BYMONTHDAY=1",
+      "FREQ=MONTHLY;INTERVAL=2;BYMONTHDAY=-1",
+    ]) {
+      expect(formatRecurrence(parseRecurrence(rrule)!)).toBe(rrule);
+    }
+  });
+
+  it("accepts an RRULE: prefix and any weekday order", () => {
+    expect(parseRecurrence("RRULE:FREQ=WEEKLY;BYDAY=FR,MO")).toEqual({
+      freq: "WEEKLY",
+      interval: 1,
+      byDay: ["MO", "FR"],
+    });
+  });
+
+  it("rejects rules outside the subset", () => {
+    expect(parseRecurrence("FREQ=YEARLY")).toBeNull();
+    expect(parseRecurrence("FREQ=DAILY;INTERVAL=0")).toBeNull();
+    expect(parseRecurrence("FREQ=DAILY;BYDAY=MO")).toBeNull();
+    expect(parseRecurrence("FREQ=WEEKLY;BYDAY=XX")).toBeNull();
+  });
+});
+
+describe("isScheduledOn", () => {
+  const anchor = "2030-01-07"; // Monday
+
+  it("repeats every n days from the start", () => {
+    const rule = parseRecurrence("FREQ=DAILY;INTERVAL=3")!;
+    expect(isScheduledOn(rule, "2030-01-10", anchor)).toBe(true);
+    expect(isScheduledOn(rule, "2030-01-11", anchor)).toBe(false);
+  });
+
+  it("repeats on the given weekdays, skipping weeks for intervals", () => {
+    const rule = parseRecurrence("FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE")!;
+    expect(isScheduledOn(rule, "2030-01-09", anchor)).toBe(true);
+    expect(isScheduledOn(rule, "2030-01-10", anchor)).toBe(false);
+    expect(isScheduledOn(rule, "2030-01-16", anchor)).toBe(false);
+    expect(isScheduledOn(rule, "2030-01-21", anchor)).toBe(true);
+  });
+
+  it("counts negative month days from the end of the month", () => {
+    const rule = parseRecurrence("FREQ=MONTHLY;BYMONTHDAY=-1")!;
+    expect(isScheduledOn(rule, "2030-02-28", anchor)).toBe(true);
+    expect(isScheduledOn(rule, "2030-03-30", anchor)).toBe(false);
+    expect(isScheduledOn(rule, "2030-03-31", anchor)).toBe(true);
+  });
+});
+
+describe("describeRecurrence", () => {
+  it("describes rules in words", () => {
+    const describeRule = (rrule: string) =>
+      describeRecurrence(parseRecurrence(rrule)!);
+
+    expect(describeRule("FREQ=DAILY")).toBe("Every day");
+    expect(describeRule("FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR")).toBe(
+      "Every weekday",
+    );
+    expect(describeRule("FREQ=WEEKLY;BYDAY=MO,WE,FR")).toBe(
+      "Every Mon, Wed and Fri",
+    );
+    expect(describeRule("FREQ=MONTHLY;BYMONTHDAY=1")).toBe(
+      "Monthly on the 1st",
+    );
+  });
+});
+
+describe("streaks with recurrence rules", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    // Friday, 2030-01-18
+    jest.setSystemTime(new Date("2030-01-18T12:00:00.000Z"));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("does not break a Mon/Wed/Fri streak on unscheduled days", () => {
+    const task = recurringTask("FREQ=WEEKLY;BYDAY=MO,WE,FR", [
+      "2030-01-11",
+      "2030-01-14",
+      "2030-01-16",
+      "2030-01-18",
+    ]);
+
+    expect(calculateStreak(task)).toBe(4);
+  });
+
+  it("breaks the streak on a missed scheduled day", () => {
+    const task = recurringTask("FREQ=WEEKLY;BYDAY=MO,WE,FR", [
+      "2030-01-11",
+      "2030-01-14",
+      "2030-01-18",
+    ]);
+
+    expect(calculateStreak(task)).toBe(1);
+    expect(calculateLongestStreak(task)).toBe(2);
+  });
+
+  it("still needs every day for tasks without a rule", () => {
+    const task = recurringTask(null, ["2030-01-16", "2030-01-18"]);
+
+    expect(calculateStreak(task)).toBe(1);
+  });
+});
@@ -0,0 +1,118 @@
+import {
+  getDueReminders,
+  getNextReminderTime,
+  getUpcomingReminders,
+  markReminderFired,
+  snoozeReminder,
+} from "@/lib/reminders";
+import type { Reminder, Task } from "@/lib/types";
+
+// Friday 2030-01-18, 9:00 in the local time zone
+const NOW = new Date(2030, 0, 18, 9, 0);
+
+const task = (id: string, overrides: Partial<Task> = {}): Task => ({
+  id,
+  title: id,
+  completed: false,
+  order: 0,
+  isDaily: false,
+  createdAt: "2030-01-01T12:00:00.000Z",
+  ...overrides,
+});
+
+const oneOff = (at: Date, extra: Partial<Reminder> = {}): Reminder => ({
+  id: "r1",
+  at: at.toISOString(),
+  ...extra,
+});
+
+describe("one-off reminders", () => {
+  it("goes off once at its time", () => {
+    const at = new Date(2030, 0, 18, 10, 30);
+    const reminder = oneOff(at);
+
+    expect(getNextReminderTime(task("a"), reminder, NOW)).toEqual(at);
+
+    const [fired] = markReminderFired([reminder], "r1", at);
+    expect(getNextReminderTime(task("a"), fired, at)).toBeNull();
+  });
+
+  it("is dropped once the task is completed or deleted", () => {
+    const reminder = oneOff(new Date(2030, 0, 18, 10, 30));
+
+    expect(
+      getNextReminderTime(task("a", { completed: true }), reminder, NOW),
+    ).toBeNull();
+    expect(
+      getNextReminderTime(
+        task("a", { deletedAt: "2030-01-17T00:00:00.000Z" }),
+        reminder,
+        NOW,
+      ),
+    ).toBeNull();
+  });
+
+  it("goes off again after a snooze", () => {
+    const at = new Date(2030, 0, 18, 8, 50);
+    const [fired] = markReminderFired([oneOff(at)], "r1", at);
+    const [snoozed] = snoozeReminder([fired], "r1", 10, NOW);
+
+    expect(getNextReminderTime(task("a"), snoozed, NOW)).toEqual(
+      new Date(2030, 0, 18, 9, 10),
+    );
+    // Going off clears the snooze
+    const [refired] = markReminderFired([snoozed], "r1", NOW);
+    expect(refired.snoozedUntil).toBeNull();
+  });
+});
+
+describe("recurring reminders", () => {
+  const reminder: Reminder = { id: "r1", time: "08:00" };
+
+  it("goes off late today if it hasn't yet", () => {
+    expect(
+      getNextReminderTime(task("a", { isDaily: true }), reminder, NOW),
+    ).toEqual(new Date(2030, 0, 18, 8, 0));
+  });
+
+  it("moves on to the next due day once fired or done", () => {
+    const [fired] = markReminderFired([reminder], "r1", NOW);
+    const weekdays = task("a", {
+      isDaily: true,
+      recurrence: "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR",
+    });
+
+    // Friday's reminder went off, the next one is on Monday
+    expect(getNextReminderTime(weekdays, fired, NOW)).toEqual(
+      new Date(2030, 0, 21, 8, 0),
+    );
+
+    const doneToday = task("a", {
+      isDaily: true,
+      completionHistory: { "2030-01-18": true },
+    });
+    expect(getNextReminderTime(doneToday, reminder, NOW)).toEqual(
+      new Date(2030, 0, 19, 8, 0),
+    );
+  });
+});
+
+describe("due reminders", () => {
+  it("lists the reminders due now, soonest first", () => {
+    const tasks = [
+      task("later", { reminders: [oneOff(new Date(2030, 0, 18, 12, 0))] }),
+      task("recurring", {
+        isDaily: true,
+        reminders: [{ id: "r2", time: "07:00" }],
+      }),
+      task("just-now", { reminders: [oneOff(new Date(2030, 0, 18, 8, 59))] }),
+    ];
+
+    expect(
+      getDueReminders(tasks, NOW).map((occurrence) => occurrence.task.id),
+    ).toEqual(["recurring", "just-now"]);
+    expect(
+      getUpcomingReminders(tasks, NOW).map((occurrence) => occurrence.task.id),
+    ).toEqual(["recurring", "just-now", "later"]);
+  });
+});
@@ -0,0 +1,267 @@
+import { canEditTask, getMemberRole, getProjectActivity } from "@/lib/sharing";
+import { isPermanentError } from "@/lib/sync/errors";
+import { LocalStorageAdapter } from "@/lib/sync/local-storage-adapter";
+import { RemoteStorageAdapter } from "@/lib/sync/remote-storage-adapter";
+import { StorageManager } from "@/lib/sync/storage-manager";
+import { setStorageUser } from "@/lib/sync/storage-user";
+import { SyncQueue } from "@/lib/sync/sync-queue";
+import { SyncWorker } from "@/lib/sync/sync-worker";
+import { IStorageAdapter, OperationType } from "@/lib/sync/types";
+import type { Project, ProjectMember, Task } from "@/lib/types";
+
+// Supabase settings the remote adapter reads when it is created
+jest.mock("../../env.mjs", () => ({
+  env: {
+    NEXT_PUBLIC_SUPABASE_URL: "https://db.example.com",
+    NEXT_PUBLIC_SUPABASE_ANON_KEY: "anon-key",
+  },
+}));
+
+const member = (
+  projectId: string,
+  userId: string,
+  role: ProjectMember["role"],
+): ProjectMember => ({ projectId, userId, role, createdAt: "" });
+
+const task = (id: string, fields: Partial<Task> = {}): Task => ({
+  id,
+  title: id,
+  completed: false,
+  order: 0,
+  isDaily: false,
+  createdAt: "2030-01-01T00:00:00.000Z",
+  ...fields,
+});
+
+const project = (id: string): Project => ({
+  id,
+  name: id,
+  completed: false,
+  order: 0,
+  createdAt: "2030-01-01T00:00:00.000Z",
+});
+
+describe("getMemberRole", () => {
+  const members = [
+    member("shared", "alice", "owner"),
+    member("shared", "bob", "viewer"),
+  ];
+
+  it("returns the user's role in a shared project", () => {
+    expect(getMemberRole(members, "shared", "alice")).toBe("owner");
+    expect(getMemberRole(members, "shared", "bob")).toBe("viewer");
+  });
+
+  it("treats projects without members as the user's own", () => {
+    expect(getMemberRole(members, "new", "bob")).toBe("owner");
+    expect(getMemberRole(members, "shared", null)).toBe("owner");
+  });
+});
+
+describe("canEditTask", () => {
+  const members = [
+    member("shared", "alice", "editor"),
+    member("shared", "bob", "viewer"),
+  ];
+
+  it("lets editors change the tasks of a shared project, and not viewers", () => {
+    const shared = task("a", { projectId: "shared" });
+
+    expect(canEditTask(members, shared, "alice")).toBe(true);
+    expect(canEditTask(members, shared, "bob")).toBe(false);
+  });
+
+  it("lets anyone change tasks outside projects", () => {
+    expect(canEditTask(members, task("a"), "bob")).toBe(true);
+    expect(canEditTask(members, task("a", { projectId: null }), "bob")).toBe(
+      true,
+    );
+  });
+});
+
+describe("getProjectActivity", () => {
+  it("lists the last change to each task, newest first", () => {
+    const activity = getProjectActivity([
+      task("added", { createdBy: "alice" }),
+      task("done", {
+        completed: true,
+        createdBy: "alice",
+        updatedBy: "bob",
+        fieldTimestamps: { completed: "2030-01-03T00:00:00.000Z" },
+      }),
+      task("renamed", {
+        createdBy: "alice",
+        updatedBy: "carol",
+        fieldTimestamps: {
+          completed: "2030-01-01T12:00:00.000Z",
+          title: "2030-01-02T00:00:00.000Z",
+        },
+      }),
+    ]);
+
+    expect(
+      activity.map(({ task, userId, action }) => [task.id, userId, action]),
+    ).toEqual([
+      ["done", "bob", "completed"],
+      ["renamed", "carol", "updated"],
+      ["added", "alice", "added"],
+    ]);
+  });
+
+  it("doesn't count moving a task as a change", () => {
+    const [activity] = getProjectActivity([
+      task("moved", {
+        createdBy: "alice",
+        updatedBy: "bob",
+        fieldTimestamps: { order: "2030-01-02T00:00:00.000Z" },
+      }),
+    ]);
+
+    expect(activity).toMatchObject({ userId: "alice", action: "added" });
+  });
+});
+
+describe("SyncWorker with shared projects", () => {
+  let members: ProjectMember[];
+  let remote: IStorageAdapter;
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    window.localStorage.clear();
+    setStorageUser("alice");
+
+    members = [member("mine", "alice", "owner")];
+    const empty = async () => [];
+    remote = {
+      getTasks: async () => [
+        task("inbox"),
+        task("in-mine", { projectId: "mine" }),
+        task("in-left", { projectId: "left" }),
+      ],
+      getProjects: async () => [project("mine"), project("left")],
+      getTags: empty,
+      getTaskTags: empty,
+      getProjectTags: empty,
+      getFocusSessions: empty,
+      getTodayTasks: empty,
+      getProjectMembers: async () => members,
+    } as unknown as IStorageAdapter;
+  });
+
+  afterEach(() => {
+    setStorageUser(null);
+    jest.restoreAllMocks();
+  });
+
+  it("only keeps projects the user is a member of", async () => {
+    const local = new LocalStorageAdapter();
+    await new SyncWorker(new SyncQueue(), remote, local).pullFromRemote();
+
+    expect((await local.getProjects()).map((p) => p.id)).toEqual(["mine"]);
+    expect((await local.getTasks()).map((t) => t.id)).toEqual([
+      "inbox",
+      "in-mine",
+    ]);
+    expect(await local.getProjectMembers()).toEqual(members);
+  });
+
+  it("keeps a new project until it reaches the remote", async () => {
+    const queue = new SyncQueue();
+    const local = new LocalStorageAdapter();
+    await local.addProject(project("draft"));
+    queue.enqueue(OperationType.ADD_PROJECT, project("draft"));
+
+    await new SyncWorker(queue, remote, local).pullFromRemote();
+
+    expect((await local.getProjects()).map((p) => p.id)).toEqual([
+      "mine",
+      "draft",
+    ]);
+  });
+
+  it("keeps everything when there is no signed-in user", async () => {
+    setStorageUser(null);
+    const local = new LocalStorageAdapter();
+    await new SyncWorker(new SyncQueue(), remote, local).pullFromRemote();
+
+    expect(await local.getProjects()).toHaveLength(2);
+  });
+
+  it("keeps the projects of the user who started the pull when they sign out during it", async () => {
+    const signingOut = {
+      ...remote,
+      getProjectMembers: async () => {
+        setStorageUser(null);
+        return members;
+      },
+    } as IStorageAdapter;
+    const local = new LocalStorageAdapter();
+    await new SyncWorker(new SyncQueue(), signingOut, local).pullFromRemote();
+
+    expect((await local.getProjects()).map((p) => p.id)).toEqual(["mine"]);
+  });
+});
+
+describe("Tasks a viewer can't change", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    window.localStorage.clear();
+  });
+
+  afterEach(() => {
+    setStorageUser(null);
+    jest.restoreAllMocks();
+  });
+
+  it("fails an update the remote saved no row for", async () => {
+    const rows: unknown[] = [];
+    const fetchMock = jest.fn(
+      async () => ({ ok: true, json: async () => rows }) as Response,
+    );
+    global.fetch = fetchMock;
+    const remote = new RemoteStorageAdapter();
+
+    const rejected = remote.updateTask("a", { title: "b" });
+    await expect(rejected).rejects.toMatchObject({ status: 404 });
+    expect(isPermanentError(await rejected.catch((error) => error))).toBe(true);
+
+    rows.push({ id: "a", title: "b" });
+    await expect(remote.updateTask("a", { title: "b" })).resolves.toBe(
+      undefined,
+    );
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://db.example.com/rest/v1/tasks?id=eq.a",
+      expect.objectContaining({
+        method: "PATCH",
+        headers: expect.objectContaining({ Prefer: "return=representation" }),
+      }),
+    );
+  });
+
+  it("leaves rolling over the days of shared tasks to their editors", async () => {
+    setStorageUser("bob");
+    const local = new LocalStorageAdapter();
+    const daily = (id: string, projectId?: string) =>
+      task(id, {
+        projectId,
+        isDaily: true,
+        completionHistory: {},
+        createdAt: "2030-01-14T12:00:00.000Z",
+      });
+    await local.addTask(daily("own"));
+    await local.addTask(daily("shared-daily", "shared"));
+    await local.saveProjectMembers([
+      member("shared", "alice", "owner"),
+      member("shared", "bob", "viewer"),
+    ]);
+
+    const updates =
+      await StorageManager.getInstance(false).rolloverDays("2030-01-16");
+
+    expect(updates.map((update) => update.id)).toEqual(["own"]);
+    expect((await local.getTask("shared-daily"))?.completionHistory).toEqual(
+      {},
+    );
+  });
+});
@@ -0,0 +1,250 @@
+import {
+  CHORD_TIMEOUT_MS,
+  DEFAULT_BINDINGS,
+  findConflicts,
+  formatBinding,
+  getShortcutBindings,
+  parseBinding,
+  SHORTCUT_BINDINGS_KEY,
+  ShortcutRegistry,
+  SHORTCUTS,
+  strokeFromEvent,
+  strokeToString,
+} from "@/lib/shortcuts";
+
+const press = (
+  registry: ShortcutRegistry,
+  key: string,
+  init: KeyboardEventInit = {},
+  target: HTMLElement = document.body,
+) => {
+  const event = new KeyboardEvent("keydown", {
+    key,
+    bubbles: true,
+    cancelable: true,
+    ...init,
+  });
+  Object.defineProperty(event, "target", { value: target });
+  registry.handleKeyDown(event);
+  return event;
+};
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+describe("bindings", () => {
+  it("parses strokes and writes them back in a fixed order", () => {
+    expect(parseBinding("shift+mod+Z")).toEqual([
+      { key: "z", ctrlOrCmd: true, shift: true },
+    ]);
+    expect(parseBinding("g t")).toEqual([{ key: "g" }, { key: "t" }]);
+    expect(strokeToString({ key: " ", shift: true })).toBe("shift+space");
+  });
+
+  it.each(["", "ctrl+k", "mod+", "shift", "a b c"])("rejects %j", (text) => {
+    expect(parseBinding(text)).toBeNull();
+  });
+
+  it("leaves Shift out of characters that need it to be typed", () => {
+    const event = new KeyboardEvent("keydown", { key: "?", shiftKey: true });
+    expect(strokeToString(strokeFromEvent(event)!)).toBe("?");
+    expect(parseBinding("shift+?")).toEqual([{ key: "?" }]);
+  });
+
+  it("ignores lone modifier keys", () => {
+    expect(
+      strokeFromEvent(new KeyboardEvent("keydown", { key: "Shift" })),
+    ).toBeNull();
+  });
+
+  it("formats bindings for display", () => {
+    expect(formatBinding("mod+shift+z", false)).toBe("Ctrl+Shift+Z");
+    expect(formatBinding("mod+shift+z", true)).toBe("⇧⌘Z");
+    expect(formatBinding("g t", false)).toBe("G T");
+    expect(formatBinding("space", false)).toBe("Space");
+  });
+});
+
+describe("findConflicts", () => {
+  it("finds no conflicts between the defaults", () => {
+    for (const shortcut of SHORTCUTS) {
+      expect(
+        findConflicts(shortcut.id, shortcut.binding, DEFAULT_BINDINGS),
+      ).toEqual([]);
+    }
+  });
+
+  it("finds the same keys in the same scope", () => {
+    expect(findConflicts("undo", "a", DEFAULT_BINDINGS)).toEqual(["add-task"]);
+  });
+
+  it("finds keys that start another shortcut's chord", () => {
+    expect(findConflicts("add-task", "g", DEFAULT_BINDINGS)).toEqual(
+      expect.arrayContaining(["go-today", "go-inbox"]),
+    );
+    expect(findConflicts("go-today", "s t", DEFAULT_BINDINGS)).toEqual([
+      "scratchpad",
+    ]);
+  });
+
+  it("allows the same keys in another scope", () => {
+    expect(findConflicts("focus-add-task", "s", DEFAULT_BINDINGS)).toEqual([]);
+  });
+});
+
+describe("getShortcutBindings", () => {
+  it("applies valid overrides over the defaults", () => {
+    localStorage.setItem(
+      SHORTCUT_BINDINGS_KEY,
+      JSON.stringify({
+        "add-task": "Shift+N",
+        scratchpad: "not+a+key",
+        removed: "x",
+      }),
+    );
+
+    expect(getShortcutBindings()).toEqual({
+      ...DEFAULT_BINDINGS,
+      "add-task": "shift+n",
+    });
+  });
+
+  it("falls back to the defaults for a corrupt value", () => {
+    localStorage.setItem(SHORTCUT_BINDINGS_KEY, "{");
+    expect(getShortcutBindings()).toEqual(DEFAULT_BINDINGS);
+  });
+});
+
+describe("ShortcutRegistry", () => {
+  let registry: ShortcutRegistry;
+  let unregister: (() => void)[];
+
+  beforeEach(() => {
+    registry = new ShortcutRegistry();
+    unregister = [];
+  });
+
+  afterEach(() => {
+    unregister.forEach((fn) => fn());
+    jest.useRealTimers();
+  });
+
+  const register = (handlers: Parameters<ShortcutRegistry["register"]>[0]) =>
+    unregister.push(registry.register(handlers));
+
+  it("runs the handler bound to the keys", () => {
+    const undo = jest.fn();
+    const redo = jest.fn();
+    register(() => ({ undo, redo }));
+
+    const event = press(registry, "Z", { ctrlKey: true, shiftKey: true });
+
+    expect(redo).toHaveBeenCalledTimes(1);
+    expect(undo).not.toHaveBeenCalled();
+    expect(event.defaultPrevented).toBe(true);
+  });
+
+  it("lets the innermost scope take a key", () => {
+    const exitFocus = jest.fn();
+    const close = jest.fn();
+    register(() => ({ "focus-exit": exitFocus }));
+    register(() => ({ close }));
+
+    press(registry, "Escape");
+
+    expect(close).toHaveBeenCalledTimes(1);
+    expect(exitFocus).not.toHaveBeenCalled();
+  });
+
+  it("gives a shortcut to the latest registration", () => {
+    const closeSidebar = jest.fn();
+    const closeDropdown = jest.fn();
+    register(() => ({ close: closeSidebar }));
+    register(() => ({ close: closeDropdown }));
+
+    press(registry, "Escape");
+
+    expect(closeDropdown).toHaveBeenCalledTimes(1);
+    expect(closeSidebar).not.toHaveBeenCalled();
+  });
+
+  it("skips shortcuts that aren't allowed in input fields", () => {
+    const addTask = jest.fn();
+    const palette = jest.fn();
+    register(() => ({ "add-task": addTask, "command-palette": palette }));
+    const input = document.createElement("input");
+
+    press(registry, "a", {}, input);
+    press(registry, "k", { metaKey: true }, input);
+
+    expect(addTask).not.toHaveBeenCalled();
+    expect(palette).toHaveBeenCalledTimes(1);
+  });
+
+  it("runs chords", () => {
+    const goToday = jest.fn();
+    register(() => ({ "go-today": goToday }));
+
+    press(registry, "g");
+    expect(goToday).not.toHaveBeenCalled();
+    press(registry, "t");
+
+    expect(goToday).toHaveBeenCalledTimes(1);
+  });
+
+  it("forgets the start of a chord after a pause", () => {
+    jest.useFakeTimers();
+    const goToday = jest.fn();
+    register(() => ({ "go-today": goToday }));
+
+    press(registry, "g");
+    jest.advanceTimersByTime(CHORD_TIMEOUT_MS);
+    press(registry, "t");
+
+    expect(goToday).not.toHaveBeenCalled();
+  });
+
+  it("starts over from a key that doesn't continue the chord", () => {
+    const goToday = jest.fn();
+    const addTask = jest.fn();
+    register(() => ({ "go-today": goToday, "add-task": addTask }));
+
+    press(registry, "g");
+    press(registry, "x");
+    press(registry, "a");
+
+    expect(addTask).toHaveBeenCalledTimes(1);
+    expect(goToday).not.toHaveBeenCalled();
+  });
+
+  it("uses and saves the user's bindings", () => {
+    const addTask = jest.fn();
+    const listener = jest.fn();
+    register(() => ({ "add-task": addTask }));
+    registry.subscribe(listener);
+
+    registry.setBinding("add-task", "n");
+    press(registry, "a");
+    press(registry, "n");
+
+    expect(addTask).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalled();
+    expect(JSON.parse(localStorage.getItem(SHORTCUT_BINDINGS_KEY)!)).toEqual({
+      "add-task": "n",
+    });
+
+    registry.resetBinding("add-task");
+    expect(localStorage.getItem(SHORTCUT_BINDINGS_KEY)).toBe("{}");
+  });
+
+  it("stops handling a registration once it is removed", () => {
+    const addTask = jest.fn();
+    const remove = registry.register(() => ({ "add-task": addTask }));
+
+    remove();
+    press(registry, "a");
+
+    expect(addTask).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * @jest-environment node
+ */
+import initSqlJs from "sql.js";
+
+import { RemoteApiError } from "@/lib/sync/errors";
+import { SQLiteAdapter, SQLiteFile } from "@/lib/sync/sqlite-adapter";
+import type { FocusSession, Project, Task } from "@/lib/types";
+
+// The node build of sql.js finds its wasm file by itself
+const loadSqlJs = () => initSqlJs();
+
+// A database file kept in memory, written by the adapter or "another tab"
+class MemoryFile implements SQLiteFile {
+  data: Uint8Array | null = null;
+  writes = 0;
+
+  async read() {
+    return this.data;
+  }
+
+  async write(data: Uint8Array) {
+    this.data = data;
+    this.writes += 1;
+  }
+
+  async lastModified() {
+    return this.writes;
+  }
+}
+
+const task = (id: string, fields: Partial<Task> = {}): Task => ({
+  id,
+  title: id,
+  completed: false,
+  order: 0,
+  isDaily: false,
+  createdAt: `2030-01-01T00:00:0${id.length}.000Z`,
+  updatedAt: "2030-01-02T00:00:00.000Z",
+  ...fields,
+});
+
+const project = (id: string): Project => ({
+  id,
+  name: id,
+  completed: false,
+  order: 0,
+  createdAt: "2030-01-01T00:00:00.000Z",
+  updatedAt: "2030-01-02T00:00:00.000Z",
+});
+
+const session = (id: string, taskId: string): FocusSession => ({
+  id,
+  taskId,
+  start: "2030-01-01T09:00:00.000Z",
+  end: "2030-01-01T09:25:00.000Z",
+  plannedSeconds: 1500,
+  actualSeconds: 1500,
+  interrupted: false,
+  createdAt: "2030-01-01T09:25:00.000Z",
+});
+
+describe("SQLiteAdapter", () => {
+  let file: MemoryFile;
+  let adapter: SQLiteAdapter;
+
+  beforeEach(() => {
+    file = new MemoryFile();
+    adapter = new SQLiteAdapter(file, loadSqlJs);
+  });
+
+  it("creates the tables in a new file", async () => {
+    expect(await adapter.getTasks()).toEqual([]);
+
+    const SQL = await loadSqlJs();
+    const db = new SQL.Database(file.data!);
+    const [{ values }] = db.exec(
+      "SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name",
+    );
+    expect(values.flat()).toEqual([
+      "focus_sessions",
+      "project_tags",
+      "projects",
+      "tags",
+      "task_tags",
+      "tasks",
+      "today_tasks",
+    ]);
+    expect(db.exec("PRAGMA user_version")[0].values[0][0]).toBe(15);
+  });
+
+  it("stores tasks with all their fields", async () => {
+    const stored = task("a", {
+      description: "notes",
+      completed: true,
+      recurrence: null,
+      completionHistory: { "2030-01-01": true },
+      reminders: [{ id: "r", at: "2030-01-01T08:00:00.000Z" }],
+      fieldTimestamps: { title: "2030-01-01T00:00:00.000Z" },
+      deletedAt: null,
+    });
+    await adapter.addProject(project("p"));
+    await adapter.addTask(stored);
+    await adapter.updateTask("a", { projectId: "p", title: "renamed" });
+
+    expect(await adapter.getTasks()).toEqual([
+      { ...stored, projectId: "p", title: "renamed", assigneeId: null },
+    ]);
+  });
+
+  it("keeps fields stamped later than an update, like the remote", async () => {
+    await adapter.addTask(
+      task("a", {
+        title: "renamed later",
+        fieldTimestamps: { title: "2030-01-03T00:00:00.000Z" },
+      }),
+    );
+
+    await adapter.updateTask("a", {
+      title: "renamed earlier",
+      completed: true,
+      fieldTimestamps: {
+        title: "2030-01-02T00:00:00.000Z",
+        completed: "2030-01-02T00:00:00.000Z",
+      },
+    });
+
+    expect(await adapter.getTasks()).toMatchObject([
+      {
+        title: "renamed later",
+        completed: true,
+        fieldTimestamps: {
+          title: "2030-01-03T00:00:00.000Z",
+          completed: "2030-01-02T00:00:00.000Z",
+        },
+      },
+    ]);
+  });
+
+  it("merges completion histories day by day", async () => {
+    await adapter.addTask(
+      task("a", {
+        isDaily: true,
+        completionHistory: { "2030-01-13": "skipped", "2030-01-14": true },
+        fieldTimestamps: {
+          "completionHistory.2030-01-14": "2030-01-15T00:00:00.000Z",
+        },
+      }),
+    );
+
+    // Written by a device that hadn't seen those days: it removed the 14th earlier,
+    // and its day rollover marked the 13th missed
+    await adapter.updateTask("a", {
+      completionHistory: { "2030-01-13": "missed", "2030-01-15": true },
+      fieldTimestamps: {
+        "completionHistory.2030-01-14": "2030-01-14T00:00:00.000Z",
+        "completionHistory.2030-01-15": "2030-01-16T00:00:00.000Z",
+      },
+    });
+
+    const [stored] = await adapter.getTasks();
+    expect(stored.completionHistory).toEqual({
+      "2030-01-13": "skipped",
+      "2030-01-14": true,
+      "2030-01-15": true,
+    });
+    expect(stored.fieldTimestamps).toEqual({
+      "completionHistory.2030-01-14": "2030-01-15T00:00:00.000Z",
+      "completionHistory.2030-01-15": "2030-01-16T00:00:00.000Z",
+    });
+  });
+
+  it("deletes what belongs to a deleted task", async () => {
+    await adapter.addTask(task("a"));
+    await adapter.addTask(task("bb", { parentTaskId: "a" }));
+    await adapter.addTag({ id: "t", name: "t", createdAt: "" });
+    await adapter.addTaskTag("a", "t");
+    await adapter.saveTodayTasks([{ taskId: "a", order: 0 }]);
+    await adapter.addFocusSession(session("s", "a"));
+
+    await adapter.deleteTask("a");
+
+    expect(await adapter.getTasks()).toEqual([]);
+    expect(await adapter.getTaskTags()).toEqual([]);
+    expect(await adapter.getTodayTasks()).toEqual([]);
+    expect(await adapter.getFocusSessions()).toEqual([]);
+  });
+
+  it("rejects rows pointing at missing records for good", async () => {
+    const error = await adapter
+      .addTask(task("a", { projectId: "missing" }))
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(RemoteApiError);
+    expect(error.status).toBe(409);
+    expect(await adapter.getTasks()).toEqual([]);
+  });
+
+  it("reads the file again when something else wrote it", async () => {
+    await adapter.addTask(task("a"));
+    const otherTab = new SQLiteAdapter(file, loadSqlJs);
+    await otherTab.addTask(task("bb"));
+
+    expect((await adapter.getTasks()).map((t) => t.id)).toEqual(["a", "bb"]);
+  });
+
+  it("copies in missing rows without overwriting the file's", async () => {
+    await adapter.addTask(task("a", { title: "from file" }));
+
+    await adapter.addMissing({
+      tasks: [
+        task("a", { title: "from device" }),
+        task("bb", { projectId: "gone" }),
+      ],
+      projects: [],
+      tags: [],
+      taskTags: [],
+      projectTags: [],
+      focusSessions: [],
+      todayTasks: [{ taskId: "bb", order: 0 }],
+    });
+
+    expect(await adapter.getTasks()).toMatchObject([
+      task("a", { title: "from file" }),
+      task("bb", { projectId: "gone" }),
+    ]);
+    expect(await adapter.getTodayTasks()).toEqual([{ taskId: "bb", order: 0 }]);
+  });
+});
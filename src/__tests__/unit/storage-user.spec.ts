@@ -0,0 +1,48 @@
+import { LocalStorageAdapter } from "@/lib/sync/local-storage-adapter";
+import { setStorageUser, userKey } from "@/lib/sync/storage-user";
+import { SyncQueue } from "@/lib/sync/sync-queue";
+import { OperationType } from "@/lib/sync/types";
+import { Task } from "@/lib/types";
+
+const task = (id: string) => ({ id, title: id }) as Task;
+
+describe("per-user local storage", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    window.localStorage.clear();
+  });
+
+  afterEach(() => {
+    setStorageUser(null);
+    jest.restoreAllMocks();
+  });
+
+  it("uses the keys as they are without a user", () => {
+    expect(userKey("tasks")).toBe("tasks");
+  });
+
+  it("keeps each user's tasks apart", async () => {
+    const adapter = new LocalStorageAdapter();
+
+    setStorageUser("alice");
+    await adapter.addTask(task("a"));
+    setStorageUser("bob");
+    await adapter.addTask(task("b"));
+
+    expect((await adapter.getTasks()).map((t) => t.id)).toEqual(["b"]);
+    setStorageUser("alice");
+    expect((await adapter.getTasks()).map((t) => t.id)).toEqual(["a"]);
+    setStorageUser(null);
+    expect(await adapter.getTasks()).toEqual([]);
+  });
+
+  it("keeps each user's sync queue apart", () => {
+    setStorageUser("alice");
+    new SyncQueue().enqueue(OperationType.DELETE_TASK, { id: "a" });
+
+    setStorageUser("bob");
+    expect(new SyncQueue().getAllOperations()).toHaveLength(0);
+    setStorageUser("alice");
+    expect(new SyncQueue().getAllOperations()).toHaveLength(1);
+  });
+});
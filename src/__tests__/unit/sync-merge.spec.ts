@@ -0,0 +1,662 @@
+import { planDayRollover } from "@/lib/day-rollover";
+import { LocalStorageAdapter } from "@/lib/sync/local-storage-adapter";
+import {
+  mergeCompletionHistory,
+  mergeRecord,
+  stampUpdates,
+} from "@/lib/sync/merge";
+import { SyncQueue } from "@/lib/sync/sync-queue";
+import { SyncWorker } from "@/lib/sync/sync-worker";
+import { IStorageAdapter, OperationType } from "@/lib/sync/types";
+import type {
+  FieldTimestamps,
+  FocusSession,
+  Project,
+  ProjectTag,
+  Tag,
+  Task,
+  TaskTag,
+  TodayTask,
+} from "@/lib/types";
+
+/**
+ * Deep copy a value the way it would round-trip through the network
+ */
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value)) as T;
+
+/**
+ * Apply an update to a stored record like the merge_field_timestamps trigger:
+ * every field keeps its later stamp, and the stored value when that stamp is stored.
+ * Completion histories are merged day by day.
+ */
+const mergeWrite = <T extends Task | Project | Tag>(
+  stored: T,
+  updates: Partial<T>,
+): T => {
+  const merged: Record<string, unknown> = { ...stored, ...clone(updates) };
+  const fieldTimestamps: FieldTimestamps = {
+    ...(merged.fieldTimestamps as FieldTimestamps),
+  };
+  for (const [field, stamp] of Object.entries(stored.fieldTimestamps || {})) {
+    const written = fieldTimestamps[field];
+    if (!written || Date.parse(written) < Date.parse(stamp)) {
+      fieldTimestamps[field] = stamp;
+      if (!field.startsWith("completionHistory")) {
+        merged[field] = stored[field as keyof T];
+      }
+    }
+  }
+  if ("completionHistory" in updates) {
+    merged.completionHistory = mergeCompletionHistory(
+      (updates as Partial<Task>).completionHistory,
+      updates.fieldTimestamps,
+      (stored as Task).completionHistory,
+      stored.fieldTimestamps,
+    ).history;
+  }
+  return { ...merged, fieldTimestamps } as unknown as T;
+};
+
+/**
+ * In-memory stand-in for the PostgREST backend.
+ * Like the database triggers, every write bumps updatedAt to the server clock
+ * and field timestamps are merged rather than replaced.
+ */
+class InMemoryRemote implements IStorageAdapter {
+  tasks: Task[] = [];
+  projects: Project[] = [];
+  tags: Tag[] = [];
+  taskTags: TaskTag[] = [];
+  projectTags: ProjectTag[] = [];
+  todayTasks: TodayTask[] = [];
+  focusSessions: FocusSession[] = [];
+  private clock = 0;
+
+  private touch() {
+    this.clock += 1;
+    return new Date(Date.UTC(2030, 0, 1, 0, 0, this.clock)).toISOString();
+  }
+
+  async getTasks() {
+    return clone(this.tasks);
+  }
+  async addTask(task: Task) {
+    this.tasks.push({ ...clone(task), updatedAt: this.touch() });
+  }
+  async updateTask(id: string, updates: Partial<Task>) {
+    this.tasks = this.tasks.map((t) =>
+      t.id === id ? { ...mergeWrite(t, updates), updatedAt: this.touch() } : t,
+    );
+  }
+  async deleteTask(id: string) {
+    this.tasks = this.tasks.filter((t) => t.id !== id);
+  }
+  async reorderTasks(tasks: Task[]) {
+    for (const task of tasks) {
+      await this.updateTask(task.id, {
+        order: task.order,
+        fieldTimestamps: task.fieldTimestamps,
+      });
+    }
+  }
+
+  async getProjects() {
+    return clone(this.projects);
+  }
+  async addProject(project: Project) {
+    this.projects.push(clone(project));
+  }
+  async updateProject(id: string, updates: Partial<Project>) {
+    this.projects = this.projects.map((p) =>
+      p.id === id ? mergeWrite(p, updates) : p,
+    );
+  }
+  async deleteProject(id: string) {
+    this.projects = this.projects.filter((p) => p.id !== id);
+  }
+  async reorderProjects() {}
+
+  async getTags() {
+    return clone(this.tags);
+  }
+  async addTag(tag: Tag) {
+    this.tags.push(clone(tag));
+  }
+  async updateTag(id: string, updates: Partial<Tag>) {
+    this.tags = this.tags.map((t) =>
+      t.id === id ? mergeWrite(t, updates) : t,
+    );
+  }
+  async deleteTag(id: string) {
+    this.tags = this.tags.filter((t) => t.id !== id);
+  }
+
+  async getTaskTags() {
+    return clone(this.taskTags);
+  }
+  async addTaskTag(taskId: string, tagId: string) {
+    this.taskTags.push({ taskId, tagId, createdAt: this.touch() });
+  }
+  async removeTaskTag(taskId: string, tagId: string) {
+    this.taskTags = this.taskTags.filter(
+      (tt) => !(tt.taskId === taskId && tt.tagId === tagId),
+    );
+  }
+
+  async getProjectTags() {
+    return clone(this.projectTags);
+  }
+  async addProjectTag(projectId: string, tagId: string) {
+    this.projectTags.push({ projectId, tagId, createdAt: this.touch() });
+  }
+  async removeProjectTag(projectId: string, tagId: string) {
+    this.projectTags = this.projectTags.filter(
+      (pt) => !(pt.projectId === projectId && pt.tagId === tagId),
+    );
+  }
+
+  async getTodayTasks() {
+    return clone(this.todayTasks);
+  }
+  async saveTodayTasks(todayTasks: TodayTask[]) {
+    this.todayTasks = clone(todayTasks);
+  }
+
+  async getFocusSessions() {
+    return clone(this.focusSessions);
+  }
+  async addFocusSession(session: FocusSession) {
+    this.focusSessions.push(clone(session));
+  }
+  async deleteFocusSession(id: string) {
+    this.focusSessions = this.focusSessions.filter((s) => s.id !== id);
+  }
+}
+
+/**
+ * A device with its own localStorage snapshot and sync queue.
+ * Only one device is "active" in the shared jsdom localStorage at a time.
+ */
+class Device {
+  private storage: Record<string, string> = {};
+
+  constructor(private remote: IStorageAdapter) {}
+
+  private async run<T>(
+    fn: (ctx: {
+      queue: SyncQueue;
+      local: LocalStorageAdapter;
+      worker: SyncWorker;
+    }) => Promise<T>,
+  ): Promise<T> {
+    window.localStorage.clear();
+    for (const [key, value] of Object.entries(this.storage)) {
+      window.localStorage.setItem(key, value);
+    }
+
+    const queue = new SyncQueue();
+    const local = new LocalStorageAdapter();
+    const worker = new SyncWorker(queue, this.remote, local);
+    try {
+      return await fn({ queue, local, worker });
+    } finally {
+      this.storage = {};
+      for (let i = 0; i < window.localStorage.length; i++) {
+        const key = window.localStorage.key(i)!;
+        this.storage[key] = window.localStorage.getItem(key)!;
+      }
+    }
+  }
+
+  addTask(task: Task) {
+    return this.run(async ({ queue, local }) => {
+      await local.addTask(task);
+      queue.enqueue(OperationType.ADD_TASK, task);
+    });
+  }
+
+  editTask(id: string, updates: Partial<Task>, at: string) {
+    return this.run(async ({ queue, local }) => {
+      const existing = (await local.getTasks()).find((t) => t.id === id);
+      const stamped = stampUpdates(updates, existing, at);
+      await local.updateTask(id, stamped);
+      queue.enqueue(OperationType.UPDATE_TASK, { id, updates: stamped });
+    });
+  }
+
+  /** Mark the days before today that have no entry as missed, like the day rollover */
+  rollover(today: string, since: string, at: string) {
+    return this.run(async ({ queue, local }) => {
+      const tasks = await local.getTasks();
+      for (const { id, completionHistory } of planDayRollover(
+        tasks,
+        today,
+        since,
+      )) {
+        const existing = tasks.find((t) => t.id === id);
+        const stamped = stampUpdates<Task>({ completionHistory }, existing, at);
+        await local.updateTask(id, stamped);
+        queue.enqueue(OperationType.UPDATE_TASK, { id, updates: stamped });
+      }
+    });
+  }
+
+  deleteTask(id: string) {
+    return this.run(async ({ queue, local }) => {
+      await local.deleteTask(id);
+      queue.enqueue(OperationType.DELETE_TASK, { id });
+    });
+  }
+
+  logFocusSession(session: FocusSession) {
+    return this.run(async ({ queue, local }) => {
+      await local.addFocusSession(session);
+      queue.enqueue(OperationType.ADD_FOCUS_SESSION, session);
+    });
+  }
+
+  deleteFocusSession(id: string) {
+    return this.run(async ({ queue, local }) => {
+      await local.deleteFocusSession(id);
+      queue.enqueue(OperationType.DELETE_FOCUS_SESSION, { id });
+    });
+  }
+
+  pull() {
+    return this.run(({ worker }) => worker.pullFromRemote());
+  }
+
+  push() {
+    return this.run(async ({ queue, worker }) => {
+      while (queue.getPendingCount() > 0) {
+        await worker.processQueue();
+      }
+    });
+  }
+
+  /** Pull then push, the order used on app start */
+  async sync() {
+    await this.pull();
+    await this.push();
+  }
+
+  tasks() {
+    return this.run(({ local }) => local.getTasks());
+  }
+
+  focusSessions() {
+    return this.run(({ local }) => local.getFocusSessions());
+  }
+
+  pendingCount() {
+    return this.run(async ({ queue }) => queue.getPendingCount());
+  }
+}
+
+const T0 = "2030-01-01T00:00:00.000Z";
+const T1 = "2030-01-01T01:00:00.000Z";
+const T2 = "2030-01-01T02:00:00.000Z";
+
+const baseTask: Task = {
+  id: "task-1",
+  title: "Write report",
+  completed: false,
+  order: 1,
+  isDaily: false,
+  createdAt: T0,
+};
+
+/**
+ * Strip server-managed metadata so local and remote copies can be compared
+ */
+const dataOf = (tasks: Task[]) =>
+  tasks.map((task) => ({ ...task, updatedAt: undefined }));
+
+describe("Field-level sync merge", () => {
+  let remote: InMemoryRemote;
+  let phone: Device;
+  let laptop: Device;
+
+  beforeEach(async () => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    window.localStorage.clear();
+
+    remote = new InMemoryRemote();
+    phone = new Device(remote);
+    laptop = new Device(remote);
+
+    await phone.addTask(baseTask);
+    await phone.sync();
+    await laptop.sync();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const expectConverged = async () => {
+    await phone.sync();
+    await laptop.sync();
+    await phone.sync();
+
+    const remoteTasks = dataOf(await remote.getTasks());
+    expect(dataOf(await phone.tasks())).toEqual(remoteTasks);
+    expect(dataOf(await laptop.tasks())).toEqual(remoteTasks);
+    expect(await phone.pendingCount()).toBe(0);
+    expect(await laptop.pendingCount()).toBe(0);
+    return remoteTasks;
+  };
+
+  it("keeps edits to different fields from both devices", async () => {
+    await phone.editTask("task-1", { title: "Write final report" }, T1);
+    await laptop.editTask("task-1", { completed: true }, T2);
+
+    await laptop.sync();
+    await phone.sync();
+
+    const [task] = await expectConverged();
+    expect(task.title).toBe("Write final report");
+    expect(task.completed).toBe(true);
+  });
+
+  it("lets the later edit of the same field win, whichever device syncs first", async () => {
+    await phone.editTask("task-1", { title: "From phone" }, T2);
+    await laptop.editTask("task-1", { title: "From laptop" }, T1);
+
+    await laptop.sync();
+    await phone.sync();
+
+    const [task] = await expectConverged();
+    expect(task.title).toBe("From phone");
+  });
+
+  it("drops a queued edit that lost to a newer remote edit", async () => {
+    await phone.editTask("task-1", { title: "From phone" }, T1);
+    await laptop.editTask("task-1", { title: "From laptop" }, T2);
+
+    await laptop.sync();
+    await phone.pull();
+
+    expect(await phone.pendingCount()).toBe(0);
+    expect((await phone.tasks())[0].title).toBe("From laptop");
+
+    const [task] = await expectConverged();
+    expect(task.title).toBe("From laptop");
+  });
+
+  it("breaks ties between equal timestamps the same way on every device", async () => {
+    await phone.editTask("task-1", { title: "Alpha" }, T1);
+    await laptop.editTask("task-1", { title: "Beta" }, T1);
+
+    await phone.sync();
+    await laptop.sync();
+
+    const [task] = await expectConverged();
+    expect(task.title).toBe("Beta");
+  });
+
+  it("keeps the newer remote edit when a stale edit is pushed before pulling", async () => {
+    await phone.editTask("task-1", { title: "From phone" }, T1);
+    await laptop.editTask("task-1", { title: "From laptop" }, T2);
+
+    await laptop.sync();
+    // The remote keeps the value with the later stamp
+    await phone.push();
+    expect((await remote.getTasks())[0].title).toBe("From laptop");
+
+    const [task] = await expectConverged();
+    expect(task.title).toBe("From laptop");
+  });
+
+  it("keeps a newer edit when another device pushes its stale stamp for that field", async () => {
+    await phone.editTask("task-1", { description: "Draft notes" }, T0);
+    await phone.sync();
+    await laptop.sync();
+
+    // The laptop's edit reaches the remote, then the phone pushes an edit to
+    // another field while still holding the old description and its stamp
+    await laptop.editTask("task-1", { description: "Add charts" }, T2);
+    await laptop.push();
+    await phone.editTask("task-1", { title: "Write final report" }, T1);
+    await phone.push();
+    await phone.pull();
+
+    expect((await phone.tasks())[0].description).toBe("Add charts");
+    const [task] = await expectConverged();
+    expect(task.description).toBe("Add charts");
+    expect(task.title).toBe("Write final report");
+  });
+
+  it("applies remote deletes and keeps tasks still waiting to be added", async () => {
+    const newTask: Task = { ...baseTask, id: "task-2", title: "Call Sam" };
+
+    await phone.deleteTask("task-1");
+    await phone.sync();
+
+    await laptop.editTask("task-1", { title: "Edited after delete" }, T2);
+    await laptop.addTask(newTask);
+    await laptop.pull();
+
+    expect((await laptop.tasks()).map((t) => t.id)).toEqual(["task-2"]);
+
+    const tasks = await expectConverged();
+    expect(tasks.map((t) => t.id)).toEqual(["task-2"]);
+  });
+});
+
+describe("Completion history sync", () => {
+  let remote: InMemoryRemote;
+  let phone: Device;
+  let laptop: Device;
+
+  const habit: Task = {
+    ...baseTask,
+    id: "habit",
+    title: "Stretch",
+    isDaily: true,
+    createdAt: "2030-01-01T12:00:00.000Z",
+  };
+
+  const historyOf = async (device: Device) =>
+    (await device.tasks()).find((t) => t.id === "habit")?.completionHistory;
+
+  beforeEach(async () => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    window.localStorage.clear();
+
+    remote = new InMemoryRemote();
+    phone = new Device(remote);
+    laptop = new Device(remote);
+
+    await phone.addTask(habit);
+    await phone.sync();
+    await laptop.sync();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("keeps a completion over another device's missed mark for the same day", async () => {
+    await laptop.editTask(
+      "habit",
+      { completionHistory: { "2030-01-02": true } },
+      "2030-01-02T20:00:00.000Z",
+    );
+    await laptop.sync();
+
+    // The phone was offline and rolls over the next morning without the completion
+    await phone.rollover(
+      "2030-01-03",
+      "2030-01-02",
+      "2030-01-03T07:00:00.000Z",
+    );
+    expect(await historyOf(phone)).toEqual({ "2030-01-02": "missed" });
+    await phone.sync();
+    await laptop.sync();
+
+    expect(await historyOf(phone)).toEqual({ "2030-01-02": true });
+    expect(await historyOf(laptop)).toEqual({ "2030-01-02": true });
+    expect(remote.tasks[0].completionHistory).toEqual({ "2030-01-02": true });
+  });
+
+  it("keeps a completion when the missed mark reaches the remote first", async () => {
+    await laptop.editTask(
+      "habit",
+      { completionHistory: { "2030-01-02": true } },
+      "2030-01-02T20:00:00.000Z",
+    );
+    await phone.rollover(
+      "2030-01-03",
+      "2030-01-02",
+      "2030-01-03T07:00:00.000Z",
+    );
+    await phone.push();
+    await laptop.sync();
+    await phone.sync();
+
+    expect(await historyOf(phone)).toEqual({ "2030-01-02": true });
+    expect(await historyOf(laptop)).toEqual({ "2030-01-02": true });
+  });
+
+  it("collects days completed on different devices", async () => {
+    await phone.editTask(
+      "habit",
+      { completionHistory: { "2030-01-02": true } },
+      "2030-01-02T20:00:00.000Z",
+    );
+    await laptop.editTask(
+      "habit",
+      { completionHistory: { "2030-01-03": true } },
+      "2030-01-03T20:00:00.000Z",
+    );
+
+    await phone.sync();
+    await laptop.sync();
+    await phone.sync();
+
+    const both = { "2030-01-02": true, "2030-01-03": true };
+    expect(await historyOf(phone)).toEqual(both);
+    expect(await historyOf(laptop)).toEqual(both);
+    expect(await phone.pendingCount()).toBe(0);
+    expect(await laptop.pendingCount()).toBe(0);
+  });
+
+  it("lets a later change to a day win, including clearing it", async () => {
+    await phone.editTask(
+      "habit",
+      { completionHistory: { "2030-01-02": true } },
+      "2030-01-02T20:00:00.000Z",
+    );
+    await phone.sync();
+    await laptop.sync();
+
+    await laptop.editTask(
+      "habit",
+      { completionHistory: {} },
+      "2030-01-03T08:00:00.000Z",
+    );
+    await phone.editTask(
+      "habit",
+      { completionHistory: { "2030-01-02": true, "2030-01-03": "skipped" } },
+      "2030-01-03T09:00:00.000Z",
+    );
+    await phone.sync();
+    await laptop.sync();
+    await phone.sync();
+
+    expect(await historyOf(laptop)).toEqual({ "2030-01-03": "skipped" });
+    expect(await historyOf(phone)).toEqual({ "2030-01-03": "skipped" });
+  });
+});
+
+describe("Focus session sync", () => {
+  let remote: InMemoryRemote;
+  let phone: Device;
+  let laptop: Device;
+
+  const session = (id: string): FocusSession => ({
+    id,
+    taskId: "task-1",
+    start: T1,
+    end: T2,
+    plannedSeconds: 1500,
+    actualSeconds: 1500,
+    interrupted: false,
+    createdAt: T2,
+  });
+
+  beforeEach(async () => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    window.localStorage.clear();
+
+    remote = new InMemoryRemote();
+    phone = new Device(remote);
+    laptop = new Device(remote);
+
+    await phone.addTask(baseTask);
+    await phone.sync();
+    await laptop.sync();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("collects sessions logged on different devices", async () => {
+    await phone.logFocusSession(session("session-1"));
+    await laptop.logFocusSession(session("session-2"));
+
+    await phone.sync();
+    await laptop.sync();
+    await phone.sync();
+
+    const ids = (sessions: FocusSession[]) => sessions.map((s) => s.id).sort();
+    expect(ids(await phone.focusSessions())).toEqual([
+      "session-1",
+      "session-2",
+    ]);
+    expect(ids(await laptop.focusSessions())).toEqual([
+      "session-1",
+      "session-2",
+    ]);
+  });
+
+  it("keeps a deleted session deleted and drops sessions of deleted tasks", async () => {
+    await phone.logFocusSession(session("session-1"));
+    await phone.logFocusSession(session("session-2"));
+    await phone.sync();
+    await laptop.sync();
+
+    await laptop.deleteFocusSession("session-1");
+    await phone.pull();
+    expect(await phone.focusSessions()).toHaveLength(2);
+
+    await laptop.sync();
+    await phone.sync();
+    expect((await phone.focusSessions()).map((s) => s.id)).toEqual([
+      "session-2",
+    ]);
+
+    await laptop.deleteTask("task-1");
+    await laptop.sync();
+    await phone.sync();
+    expect(await phone.focusSessions()).toEqual([]);
+  });
+});
+
+describe("mergeRecord", () => {
+  it("prefers the remote value for fields neither side has stamped", () => {
+    const local = { ...baseTask, title: "Local" };
+    const remote = { ...baseTask, title: "Remote" };
+
+    expect(mergeRecord(local, remote).merged.title).toBe("Remote");
+  });
+
+  it("picks the same winner regardless of which side is local", () => {
+    const a = { ...baseTask, title: "A", fieldTimestamps: { title: T1 } };
+    const b = { ...baseTask, title: "B", fieldTimestamps: { title: T1 } };
+
+    expect(mergeRecord(a, b).merged).toEqual(mergeRecord(b, a).merged);
+  });
+});
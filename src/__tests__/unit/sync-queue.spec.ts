@@ -0,0 +1,403 @@
+import { isPermanentError, RemoteApiError } from "@/lib/sync/errors";
+import { LocalStorageAdapter } from "@/lib/sync/local-storage-adapter";
+import { getRetryDelay, SyncQueue, unbatch } from "@/lib/sync/sync-queue";
+import { SyncWorker } from "@/lib/sync/sync-worker";
+import { IStorageAdapter, OperationType } from "@/lib/sync/types";
+
+const update = (id: string, title: string) => ({
+  id,
+  updates: { title },
+});
+
+describe("SyncQueue batches", () => {
+  let queue: SyncQueue;
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    window.localStorage.clear();
+    queue = new SyncQueue();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("queues everything enqueued during a batch as one operation", async () => {
+    await queue.batch(async () => {
+      queue.enqueue(OperationType.UPDATE_TASK, update("a", "A"));
+      queue.enqueue(OperationType.UPDATE_TASK, update("b", "B"));
+      queue.enqueue(OperationType.ADD_TASK_TAG, { taskId: "a", tagId: "t" });
+    });
+
+    const [operation, ...rest] = queue.getAllOperations();
+    expect(rest).toHaveLength(0);
+    expect(operation.type).toBe(OperationType.BATCH);
+    expect(unbatch(operation).map((op) => op.type)).toEqual([
+      OperationType.UPDATE_TASK,
+      OperationType.UPDATE_TASK,
+      OperationType.ADD_TASK_TAG,
+    ]);
+  });
+
+  it("doesn't wrap a single operation, and queues nothing for an empty batch", async () => {
+    await queue.batch(async () => {});
+    expect(queue.getAllOperations()).toHaveLength(0);
+
+    await queue.batch(async () => {
+      queue.enqueue(OperationType.DELETE_TASK, { id: "a" });
+    });
+    expect(queue.getAllOperations().map((op) => op.type)).toEqual([
+      OperationType.DELETE_TASK,
+    ]);
+  });
+
+  it("joins a batch started inside another one", async () => {
+    await queue.batch(async () => {
+      queue.enqueue(OperationType.DELETE_TASK, { id: "a" });
+      await queue.batch(async () => {
+        queue.enqueue(OperationType.DELETE_TASK, { id: "b" });
+      });
+    });
+
+    const operations = queue.getAllOperations();
+    expect(operations).toHaveLength(1);
+    expect(unbatch(operations[0])).toHaveLength(2);
+  });
+
+  it("queues the operations made before a batch fails", async () => {
+    await expect(
+      queue.batch(async () => {
+        queue.enqueue(OperationType.DELETE_TASK, { id: "a" });
+        throw new Error("boom");
+      }),
+    ).rejects.toThrow("boom");
+
+    expect(queue.getPendingCount()).toBe(1);
+  });
+
+  it("rewrites operations inside batches", async () => {
+    await queue.batch(async () => {
+      queue.enqueue(OperationType.UPDATE_TASK, update("a", "A"));
+      queue.enqueue(OperationType.UPDATE_TASK, update("b", "B"));
+    });
+
+    queue.rewrite(OperationType.UPDATE_TASK, (payload) =>
+      (payload as { id: string }).id === "a" ? null : payload,
+    );
+    expect(unbatch(queue.getAllOperations()[0])).toEqual([
+      { type: OperationType.UPDATE_TASK, payload: update("b", "B") },
+    ]);
+
+    // A batch left with nothing in it is dropped
+    queue.rewrite(OperationType.UPDATE_TASK, () => null);
+    expect(queue.getAllOperations()).toHaveLength(0);
+  });
+
+  it("persists batches across reloads", async () => {
+    await queue.batch(async () => {
+      queue.enqueue(OperationType.DELETE_TASK, { id: "a" });
+      queue.enqueue(OperationType.DELETE_TASK, { id: "b" });
+    });
+
+    expect(new SyncQueue().getAllOperations()).toEqual(
+      queue.getAllOperations(),
+    );
+  });
+});
+
+describe("SyncWorker batches", () => {
+  let queue: SyncQueue;
+  let deleted: string[];
+  let failOn: string | null;
+  let worker: SyncWorker;
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    window.localStorage.clear();
+
+    queue = new SyncQueue();
+    deleted = [];
+    failOn = null;
+    const remote = {
+      deleteTask: async (id: string) => {
+        if (id === failOn) throw new Error("Server error");
+        deleted.push(id);
+      },
+    } as unknown as IStorageAdapter;
+    worker = new SyncWorker(queue, remote, new LocalStorageAdapter());
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("syncs the operations of a batch in order", async () => {
+    await queue.batch(async () => {
+      for (const id of ["a", "b", "c"]) {
+        queue.enqueue(OperationType.DELETE_TASK, { id });
+      }
+    });
+
+    await worker.processQueue();
+
+    expect(deleted).toEqual(["a", "b", "c"]);
+    expect(queue.getAllOperations()).toHaveLength(0);
+  });
+
+  it("resumes a failed batch after the operations already synced", async () => {
+    await queue.batch(async () => {
+      for (const id of ["a", "b", "c"]) {
+        queue.enqueue(OperationType.DELETE_TASK, { id });
+      }
+    });
+
+    failOn = "b";
+    await worker.processQueue();
+    expect(deleted).toEqual(["a"]);
+    expect(queue.getFailedCount()).toBe(1);
+
+    failOn = null;
+    queue.retryFailed();
+    await worker.processQueue();
+    expect(deleted).toEqual(["a", "b", "c"]);
+    expect(queue.getAllOperations()).toHaveLength(0);
+  });
+});
+
+describe("SyncWorker bulk upserts", () => {
+  let queue: SyncQueue;
+  let requests: string[];
+  let worker: SyncWorker;
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    window.localStorage.clear();
+
+    queue = new SyncQueue();
+    requests = [];
+    const remote = {
+      upsertTasks: async (tasks: { id: string }[]) => {
+        requests.push(`upsert ${tasks.map((task) => task.id).join(",")}`);
+      },
+      updateTask: async (id: string) => {
+        requests.push(`update ${id}`);
+      },
+    } as unknown as IStorageAdapter;
+    worker = new SyncWorker(queue, remote, new LocalStorageAdapter());
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("sends consecutive adds of the same kind in one request", async () => {
+    queue.enqueue(OperationType.ADD_TASK, { id: "a" });
+    queue.enqueue(OperationType.ADD_TASK, { id: "b" });
+    queue.enqueue(OperationType.UPDATE_TASK, update("x", "X"));
+    queue.enqueue(OperationType.ADD_TASK, { id: "c" });
+
+    await worker.processQueue();
+
+    expect(requests).toEqual(["upsert a,b", "update x", "upsert c"]);
+    expect(queue.getAllOperations()).toHaveLength(0);
+  });
+
+  it("sends the adds inside a batch together", async () => {
+    await queue.batch(async () => {
+      queue.enqueue(OperationType.ADD_TASK, { id: "a" });
+      queue.enqueue(OperationType.ADD_TASK, { id: "b" });
+    });
+
+    await worker.processQueue();
+
+    expect(requests).toEqual(["upsert a,b"]);
+  });
+
+  it("doesn't compact new changes into operations being sent", async () => {
+    queue.enqueue(OperationType.UPDATE_TASK, update("x", "X"));
+    queue.markProcessing(queue.getAllOperations().map((op) => op.id));
+    queue.enqueue(OperationType.UPDATE_TASK, update("x", "Y"));
+
+    expect(queue.getAllOperations()).toHaveLength(2);
+    // Until the page is reloaded, when they are sent again
+    expect(new SyncQueue().getPendingCount()).toBe(2);
+  });
+});
+
+describe("getRetryDelay", () => {
+  it("doubles with each attempt up to a cap", () => {
+    const full = (retries: number) => getRetryDelay(retries, () => 1);
+    expect(full(1)).toBe(5000);
+    expect(full(2)).toBe(10000);
+    expect(full(3)).toBe(20000);
+    expect(full(20)).toBe(10 * 60 * 1000);
+  });
+
+  it("is jittered down to half the delay", () => {
+    expect(getRetryDelay(2, () => 0)).toBe(5000);
+    expect(getRetryDelay(2, () => 0.5)).toBe(7500);
+  });
+});
+
+describe("isPermanentError", () => {
+  it("treats requests the server rejected as permanent", () => {
+    expect(isPermanentError(new RemoteApiError(400, "bad request"))).toBe(true);
+    expect(isPermanentError(new RemoteApiError(409, "conflict"))).toBe(true);
+  });
+
+  it("treats outages, rate limits and network errors as temporary", () => {
+    expect(isPermanentError(new RemoteApiError(503, "unavailable"))).toBe(
+      false,
+    );
+    expect(isPermanentError(new RemoteApiError(429, "slow down"))).toBe(false);
+    expect(isPermanentError(new TypeError("Failed to fetch"))).toBe(false);
+  });
+});
+
+describe("SyncQueue retries", () => {
+  const NOW = 1_000_000;
+  let queue: SyncQueue;
+  let id: string;
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    window.localStorage.clear();
+    queue = new SyncQueue();
+    queue.enqueue(OperationType.DELETE_TASK, { id: "a" });
+    id = queue.getAllOperations()[0].id;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("waits for the backoff before sending a failed operation again", () => {
+    queue.markFailed(id, new RemoteApiError(500, "boom"), NOW);
+
+    const [operation] = queue.getAllOperations();
+    expect(operation.status).toBe("failed");
+    expect(operation.lastError).toBe("API error (500): boom");
+    expect(queue.getNextBatch(10, NOW)).toHaveLength(0);
+    expect(queue.getNextBatch(10, operation.nextAttemptAt)).toHaveLength(1);
+  });
+
+  it("keeps later operations behind one waiting for its retry", () => {
+    queue.enqueue(OperationType.DELETE_TASK, { id: "b" });
+    queue.markFailed(id, new RemoteApiError(503, "unavailable"), NOW);
+
+    const { nextAttemptAt } = queue.getAllOperations()[0];
+    expect(queue.getNextBatch(10, NOW)).toHaveLength(0);
+    expect(
+      queue.getNextBatch(10, nextAttemptAt).map((op) => op.payload),
+    ).toEqual([{ id: "a" }, { id: "b" }]);
+  });
+
+  it("dead-letters an operation the server rejects", () => {
+    queue.markFailed(id, new RemoteApiError(400, "invalid"), NOW);
+
+    expect(queue.getDeadLetters()).toHaveLength(1);
+    expect(queue.getNextBatch(10, Infinity)).toHaveLength(0);
+  });
+
+  it("dead-letters an operation that keeps failing", () => {
+    for (let attempt = 0; attempt < 8; attempt++) {
+      queue.markFailed(id, new Error("Failed to fetch"), NOW);
+    }
+
+    expect(queue.getDeadLetters()).toHaveLength(1);
+  });
+
+  it("retries or discards an operation on request", () => {
+    queue.markFailed(id, new RemoteApiError(400, "invalid"), NOW);
+
+    queue.retry(id);
+    expect(queue.getAllOperations()[0]).toMatchObject({
+      status: "pending",
+      retries: 0,
+    });
+
+    queue.discard(id);
+    expect(queue.getAllOperations()).toHaveLength(0);
+  });
+
+  it("tells subscribers about changes", () => {
+    const listener = jest.fn();
+    const unsubscribe = queue.subscribe(listener);
+
+    queue.markFailed(id, new Error("boom"));
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    unsubscribe();
+    queue.retry(id);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("SyncWorker failures", () => {
+  let queue: SyncQueue;
+  let worker: SyncWorker;
+  let sentTaskTags: jest.Mock;
+  let unavailable: boolean;
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    window.localStorage.clear();
+
+    queue = new SyncQueue();
+    sentTaskTags = jest.fn(async () => {});
+    unavailable = false;
+    const remote = {
+      // The server rejects any request that includes task "bad"
+      upsertTasks: async (tasks: { id: string }[]) => {
+        if (unavailable) {
+          throw new RemoteApiError(503, "unavailable");
+        }
+        if (tasks.some((task) => task.id === "bad")) {
+          throw new RemoteApiError(400, "invalid task");
+        }
+      },
+      upsertTaskTags: sentTaskTags,
+    } as unknown as IStorageAdapter;
+    worker = new SyncWorker(queue, remote, new LocalStorageAdapter());
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("dead-letters only the operations a rejected bulk request was at fault for", async () => {
+    for (const id of ["a", "bad", "c"]) {
+      queue.enqueue(OperationType.ADD_TASK, { id });
+    }
+
+    await worker.processQueue();
+
+    expect(queue.getAllOperations()).toEqual([
+      expect.objectContaining({ payload: { id: "bad" }, status: "dead" }),
+    ]);
+  });
+
+  it("holds back operations queued after one that is to be retried", async () => {
+    unavailable = true;
+    queue.enqueue(OperationType.ADD_TASK, { id: "a" });
+    queue.enqueue(OperationType.ADD_TASK_TAG, { taskId: "a", tagId: "t" });
+
+    await worker.processQueue();
+
+    expect(sentTaskTags).not.toHaveBeenCalled();
+    expect(queue.getAllOperations().map((op) => op.status)).toEqual([
+      "failed",
+      "pending",
+    ]);
+
+    unavailable = false;
+    const { nextAttemptAt } = queue.getAllOperations()[0];
+    jest.spyOn(Date, "now").mockReturnValue(nextAttemptAt!);
+    await worker.processQueue();
+
+    expect(sentTaskTags).toHaveBeenCalledWith([{ taskId: "a", tagId: "t" }]);
+    expect(queue.getAllOperations()).toHaveLength(0);
+  });
+});
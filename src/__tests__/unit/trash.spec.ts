@@ -0,0 +1,110 @@
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  getTrashedIds,
+  getTrashRetentionDays,
+  isTrashExpired,
+  setTrashRetentionDays,
+  TRASH_RETENTION_KEY,
+  withSubtasks,
+} from "@/lib/trash";
+import type { Project, Tag, Task } from "@/lib/types";
+
+const NOW = new Date("2030-01-31T12:00:00.000Z");
+
+const task = (id: string, overrides: Partial<Task> = {}): Task => ({
+  id,
+  title: id,
+  completed: false,
+  order: 0,
+  isDaily: false,
+  createdAt: "2030-01-01T12:00:00.000Z",
+  ...overrides,
+});
+
+const project = (id: string, overrides: Partial<Project> = {}): Project => ({
+  id,
+  name: id,
+  completed: false,
+  order: 0,
+  createdAt: "2030-01-01T12:00:00.000Z",
+  ...overrides,
+});
+
+const tag = (id: string, overrides: Partial<Tag> = {}): Tag => ({
+  id,
+  name: id,
+  createdAt: "2030-01-01T12:00:00.000Z",
+  ...overrides,
+});
+
+describe("trash", () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  it("reads the retention period, falling back to the default when unset or invalid", () => {
+    expect(getTrashRetentionDays()).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+
+    setTrashRetentionDays(7);
+    expect(getTrashRetentionDays()).toBe(7);
+    setTrashRetentionDays(0);
+    expect(getTrashRetentionDays()).toBe(0);
+
+    window.localStorage.setItem(TRASH_RETENTION_KEY, "-1");
+    expect(getTrashRetentionDays()).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+    window.localStorage.setItem(TRASH_RETENTION_KEY, "soon");
+    expect(getTrashRetentionDays()).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+  });
+
+  it("expires items once they have been trashed longer than the retention period", () => {
+    expect(isTrashExpired("2030-01-24T11:00:00.000Z", 7, NOW)).toBe(true);
+    expect(isTrashExpired("2030-01-24T13:00:00.000Z", 7, NOW)).toBe(false);
+    // 0 keeps items until the trash is emptied
+    expect(isTrashExpired("2020-01-01T00:00:00.000Z", 0, NOW)).toBe(false);
+  });
+
+  it("expands tasks with their nested subtasks", () => {
+    const tasks = [
+      task("a"),
+      task("b", { parentTaskId: "a" }),
+      task("c", { parentTaskId: "b" }),
+      task("d", { parentTaskId: "c" }),
+      task("other"),
+    ];
+
+    expect(withSubtasks(tasks, ["b"]).sort()).toEqual(["b", "c", "d"]);
+    expect(withSubtasks(tasks, ["other"])).toEqual(["other"]);
+  });
+
+  it("collects trashed items with the tasks that can't exist without them", () => {
+    const old = "2030-01-01T12:00:00.000Z";
+    const recent = "2030-01-30T12:00:00.000Z";
+    const tasks = [
+      task("trashed", { deletedAt: old }),
+      task("nested", { parentTaskId: "trashed" }),
+      task("in-project", { projectId: "p1" }),
+      task("nested-in-project", { parentTaskId: "in-project" }),
+      task("recent", { deletedAt: recent }),
+      task("kept"),
+    ];
+    const projects = [project("p1", { deletedAt: old }), project("p2")];
+    const tags = [tag("t1", { deletedAt: old }), tag("t2")];
+
+    const all = getTrashedIds(tasks, projects, tags);
+    expect(all.taskIds.sort()).toEqual([
+      "in-project",
+      "nested",
+      "nested-in-project",
+      "recent",
+      "trashed",
+    ]);
+    expect(all.projectIds).toEqual(["p1"]);
+    expect(all.tagIds).toEqual(["t1"]);
+
+    const expired = getTrashedIds(tasks, projects, tags, (deletedAt) =>
+      isTrashExpired(deletedAt, 7, NOW),
+    );
+    expect(expired.taskIds).not.toContain("recent");
+    expect(expired.taskIds).toContain("nested-in-project");
+  });
+});
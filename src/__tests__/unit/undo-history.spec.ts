@@ -0,0 +1,118 @@
+import { UndoHistory } from "@/lib/undo-history";
+
+/**
+ * A value changed through the history, like a task field changed through useTasks
+ */
+const setup = () => {
+  const history = new UndoHistory();
+  const state = { value: 0 };
+
+  const set = async (value: number) => {
+    const previous = state.value;
+    state.value = value;
+    history.record(
+      `Set to ${value}`,
+      () => set(previous),
+      () => set(value),
+    );
+  };
+
+  return { history, state, set };
+};
+
+describe("UndoHistory", () => {
+  it("undoes and redoes single changes in order", async () => {
+    const { history, state, set } = setup();
+    await set(1);
+    await set(2);
+
+    await history.undo();
+    expect(state.value).toBe(1);
+    await history.undo();
+    expect(state.value).toBe(0);
+    await history.undo();
+    expect(state.value).toBe(0);
+
+    await history.redo();
+    await history.redo();
+    expect(state.value).toBe(2);
+    expect(history.getSnapshot()).toMatchObject({
+      canUndo: true,
+      canRedo: false,
+    });
+  });
+
+  it("groups the changes of a transaction into one action", async () => {
+    const { history, state, set } = setup();
+    const applied: number[] = [];
+    await history.transact("Set twice", async () => {
+      await set(1);
+      await set(2);
+    });
+    history.subscribe(() => applied.push(state.value));
+
+    await history.undo();
+    expect(state.value).toBe(0);
+    expect(history.getSnapshot().canUndo).toBe(false);
+
+    await history.redo();
+    expect(state.value).toBe(2);
+    expect(history.getSnapshot().lastEvent?.entry.label).toBe("Set twice");
+    expect(applied).toEqual([0, 2]);
+  });
+
+  it("doesn't record the changes an undo or redo makes", async () => {
+    const { history, state, set } = setup();
+    await set(1);
+
+    await history.undo();
+    await history.redo();
+    await history.undo();
+
+    expect(state.value).toBe(0);
+    expect(history.getSnapshot()).toMatchObject({
+      canUndo: false,
+      canRedo: true,
+    });
+  });
+
+  it("drops undone actions once a new change is made", async () => {
+    const { history, state, set } = setup();
+    await set(1);
+    await history.undo();
+
+    await set(5);
+    await history.redo();
+
+    expect(state.value).toBe(5);
+    expect(history.getSnapshot().canRedo).toBe(false);
+  });
+
+  it("keeps an action that is undone again while an undo is running", async () => {
+    const history = new UndoHistory();
+    let finishFirst: () => void = () => {};
+    const undone: string[] = [];
+    const entry = (label: string, wait = false) =>
+      history.record(
+        label,
+        () =>
+          new Promise<void>((resolve) => {
+            undone.push(label);
+            if (wait) finishFirst = resolve;
+            else resolve();
+          }),
+        async () => {},
+      );
+    entry("first");
+    entry("second", true);
+
+    const running = history.undo();
+    await history.undo();
+    finishFirst();
+    await running;
+    expect(undone).toEqual(["second"]);
+
+    await history.undo();
+    expect(undone).toEqual(["second", "first"]);
+  });
+});
@@ -4,6 +4,7 @@ import type { Metadata } from "next";
 import { notFound } from "next/navigation";
 import { hasLocale, NextIntlClientProvider } from "next-intl";
 
+import { AuthGate } from "@/components/auth-gate";
 import { ThemeProvider } from "@/components/theme-provider";
 import { ThemeSwitcher } from "@/components/theme-switcher";
 import { routing } from "@/i18n/routing";
@@ -67,7 +68,7 @@ const RootLayout = async ({
         <ReduxProvider>
           <NextIntlClientProvider>
             <ThemeProvider attribute="class">
-              {children}
+              <AuthGate>{children}</AuthGate>
               {/* <LangSwitcher className="absolute right-5 bottom-16 z-10" /> */}
               <ThemeSwitcher className="absolute right-5 bottom-5 z-10" />
             </ThemeProvider>
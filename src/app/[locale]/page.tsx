@@ -1,30 +1,83 @@
 "use client";
 
+import { useTheme } from "next-themes";
 import { useEffect, useState } from "react";
 
 import { AddTaskModal } from "@/components/add-task-modal";
 import { AllTasksView } from "@/components/all-tasks-view";
 import { ArchivedView } from "@/components/archived-view";
+import { AssignedView } from "@/components/assigned-view";
+import { CommandPalette } from "@/components/command-palette";
 import { DailyTasksView } from "@/components/daily-tasks-view";
 import { FocusMode } from "@/components/focus-mode";
+import { FocusReportView } from "@/components/focus-report-view";
+import { FocusTimerIndicator } from "@/components/focus-timer-indicator";
+import { HabitsView } from "@/components/habits-view";
 import { InboxView } from "@/components/inbox-view";
 import { NextStepsView } from "@/components/next-steps-view";
 import { ProjectView } from "@/components/project-view";
+import { ReminderAlerts } from "@/components/reminder-alerts";
 import { ScratchpadModal } from "@/components/scratchpad-modal";
+import { ShortcutsDialog } from "@/components/shortcuts-dialog";
 import { Sidebar } from "@/components/sidebar";
 import { TaskDetailSidebar } from "@/components/task-detail-sidebar";
 import { TodayView } from "@/components/today-view";
+import { TrashView } from "@/components/trash-view";
+import { UndoToast } from "@/components/undo-toast";
+import { UpcomingView } from "@/components/upcoming-view";
+import { useShortcutBindings, useShortcuts } from "@/hooks/use-shortcuts";
 import { useTasks } from "@/hooks/use-tasks";
-import { createShortcutHandler } from "@/lib/keyboard-utils";
+import { useUndoHistory } from "@/hooks/use-undo-history";
+import { Command, commandFromShortcut } from "@/lib/command-palette";
+import {
+  formatBinding,
+  getShortcut,
+  ShortcutHandlers,
+  ShortcutId,
+} from "@/lib/shortcuts";
 import { Task } from "@/lib/types";
 
+// Built-in views, in sidebar order. Any other currentView is a project id.
+// Views marked sharedOnly need a signed-in user who can share projects.
+const VIEWS: {
+  id: string;
+  label: string;
+  shortcut?: ShortcutId;
+  sharedOnly?: boolean;
+}[] = [
+  { id: "today", label: "Today", shortcut: "go-today" },
+  { id: "inbox", label: "Inbox", shortcut: "go-inbox" },
+  { id: "upcoming", label: "Upcoming", shortcut: "go-upcoming" },
+  { id: "assigned", label: "Assigned to me", sharedOnly: true },
+  { id: "next-steps", label: "Next Steps", shortcut: "go-next-steps" },
+  { id: "daily-tasks", label: "Recurring", shortcut: "go-daily-tasks" },
+  { id: "habits", label: "Habits", shortcut: "go-habits" },
+  { id: "focus-report", label: "Focus Time", shortcut: "go-focus-report" },
+  { id: "all-tasks", label: "All Tasks", shortcut: "go-all-tasks" },
+  { id: "archived", label: "Archived" },
+  { id: "trash", label: "Trash" },
+];
+
 const HomePage = () => {
   const [currentView, setCurrentView] = useState<string>("today");
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
   const [focusTask, setFocusTask] = useState<Task | null>(null);
   const [scratchpadOpen, setScratchpadOpen] = useState(false);
   const [addTaskModalOpen, setAddTaskModalOpen] = useState(false);
-  const { tasks, updateTask } = useTasks();
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  const [shortcutsOpen, setShortcutsOpen] = useState(false);
+  const {
+    tasks,
+    updateTask,
+    getActiveProjects,
+    clearToday,
+    syncNow,
+    canShare,
+  } = useTasks();
+  const { undo, redo } = useUndoHistory();
+  const { resolvedTheme, setTheme } = useTheme();
+
+  const { bindings } = useShortcutBindings();
 
   // Keep selectedTask in sync with the latest task data
   useEffect(() => {
@@ -36,29 +89,6 @@ const HomePage = () => {
     }
   }, [tasks, selectedTask?.id]);
 
-  useEffect(() => {
-    // Don't register global shortcuts when in focus mode
-    if (focusTask) return;
-
-    const handleKeyDown = createShortcutHandler([
-      {
-        key: "s",
-        handler: () => setScratchpadOpen(true),
-        allowInInput: false,
-        description: "Open scratchpad",
-      },
-      {
-        key: "a",
-        handler: () => setAddTaskModalOpen(true),
-        allowInInput: false,
-        description: "Open add task modal",
-      },
-    ]);
-
-    window.addEventListener("keydown", handleKeyDown);
-    return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [focusTask]);
-
   const handleTaskClick = (task: Task) => {
     setSelectedTask(task);
   };
@@ -76,20 +106,120 @@ const HomePage = () => {
     setFocusTask(null);
   };
 
+  // Back into focus mode from the timer running in the background
+  const handleOpenFocusTimer = (taskId: string) => {
+    const task = tasks.find((t) => t.id === taskId);
+    if (task) {
+      handleTaskDoubleClick(task);
+    }
+  };
+
+  // Show the task a reminder is for, over whatever is open
+  const handleOpenReminderTask = (taskId: string) => {
+    const task = tasks.find((t) => t.id === taskId);
+    if (task) {
+      setFocusTask(null);
+      setSelectedTask(task);
+    }
+  };
+
+  // Leave whatever is open for another view or project
+  const handleNavigate = (view: string) => {
+    setFocusTask(null);
+    setSelectedTask(null);
+    setCurrentView(view);
+  };
+
+  const handleOpenTask = (task: Task) => {
+    setFocusTask(null);
+    handleTaskClick(task);
+  };
+
+  // Shortcuts outside focus mode
+  const viewShortcuts: ShortcutHandlers = {
+    scratchpad: () => setScratchpadOpen(true),
+    "add-task": () => setAddTaskModalOpen(true),
+  };
+  for (const view of VIEWS) {
+    if (view.shortcut) {
+      viewShortcuts[view.shortcut] = () => handleNavigate(view.id);
+    }
+  }
+
+  // Work everywhere, including focus mode
+  const appShortcuts: ShortcutHandlers = {
+    undo,
+    redo,
+    "command-palette": () => setPaletteOpen((open) => !open),
+    shortcuts: () => setShortcutsOpen((open) => !open),
+  };
+
+  useShortcuts(viewShortcuts, !focusTask && !shortcutsOpen);
+  useShortcuts(appShortcuts);
+
+  // Shortcuts that are also commands, in the order the palette lists them
+  const shortcutCommands: ShortcutId[] = [
+    "add-task",
+    "scratchpad",
+    "undo",
+    "redo",
+    "shortcuts",
+  ];
+
+  const commands: Command[] = [
+    ...VIEWS.filter((view) => !view.sharedOnly || canShare()).map(
+      (view): Command => ({
+        id: `view:${view.id}`,
+        title: `Go to ${view.label}`,
+        group: "Navigation",
+        shortcut: view.shortcut && formatBinding(bindings[view.shortcut]),
+        run: () => handleNavigate(view.id),
+      }),
+    ),
+    ...getActiveProjects().map(
+      (project): Command => ({
+        id: `project:${project.id}`,
+        title: project.name,
+        group: "Projects",
+        keywords: ["project"],
+        run: () => handleNavigate(project.id),
+      }),
+    ),
+    ...shortcutCommands.map((id) =>
+      commandFromShortcut(getShortcut(id), bindings[id], () =>
+        (viewShortcuts[id] ?? appShortcuts[id])?.(new KeyboardEvent("keydown")),
+      ),
+    ),
+    {
+      id: "clear-today",
+      title: "Clear Today",
+      group: "Actions",
+      keywords: ["empty", "reset"],
+      run: () => void clearToday(),
+    },
+    {
+      id: "sync-now",
+      title: "Sync now",
+      group: "Actions",
+      keywords: ["refresh"],
+      run: () =>
+        void syncNow().catch((err) => console.error("Sync failed:", err)),
+    },
+    {
+      id: "toggle-theme",
+      title: "Toggle theme",
+      group: "Actions",
+      keywords: ["dark", "light", "mode"],
+      run: () => setTheme(resolvedTheme === "dark" ? "light" : "dark"),
+    },
+  ];
+
   // Determine default project based on current view
   const getDefaultProjectId = () => {
     // If viewing a specific project, return that project ID
-    if (
-      currentView !== "today" &&
-      currentView !== "all-tasks" &&
-      currentView !== "inbox" &&
-      currentView !== "next-steps" &&
-      currentView !== "daily-tasks" &&
-      currentView !== "archived"
-    ) {
-      return currentView;
-    }
-    return undefined;
+    return VIEWS.some((view) => view.id === currentView)
+      ? undefined
+      : currentView;
   };
 
   // Determine if we're creating a daily task
@@ -122,6 +252,22 @@ const HomePage = () => {
         />
       );
     }
+    if (currentView === "upcoming") {
+      return (
+        <UpcomingView
+          onTaskClick={handleTaskClick}
+          onTaskDoubleClick={handleTaskDoubleClick}
+        />
+      );
+    }
+    if (currentView === "assigned") {
+      return (
+        <AssignedView
+          onTaskClick={handleTaskClick}
+          onTaskDoubleClick={handleTaskDoubleClick}
+        />
+      );
+    }
     if (currentView === "next-steps") {
       return (
         <NextStepsView
@@ -138,6 +284,12 @@ const HomePage = () => {
         />
       );
     }
+    if (currentView === "habits") {
+      return <HabitsView />;
+    }
+    if (currentView === "focus-report") {
+      return <FocusReportView />;
+    }
     if (currentView === "archived") {
       return (
         <ArchivedView
@@ -146,6 +298,9 @@ const HomePage = () => {
         />
       );
     }
+    if (currentView === "trash") {
+      return <TrashView />;
+    }
     return (
       <ProjectView
         projectId={currentView}
@@ -182,6 +337,20 @@ const HomePage = () => {
         defaultProjectId={getDefaultProjectId()}
         isDaily={getIsDaily()}
       />
+      <FocusTimerIndicator
+        hidden={focusTask !== null}
+        onOpen={handleOpenFocusTimer}
+      />
+      <ShortcutsDialog open={shortcutsOpen} onOpenChange={setShortcutsOpen} />
+      <CommandPalette
+        open={paletteOpen}
+        onOpenChange={setPaletteOpen}
+        commands={commands}
+        onOpenTask={handleOpenTask}
+        onFocusTask={handleTaskDoubleClick}
+      />
+      <ReminderAlerts onOpenTask={handleOpenReminderTask} />
+      <UndoToast />
     </div>
   );
 };
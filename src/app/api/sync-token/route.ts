@@ -0,0 +1,28 @@
+import { auth } from "@/auth";
+import { env } from "@/env.mjs";
+import { createSyncToken } from "@/lib/auth/sync-token";
+
+/**
+ * Issue the signed-in user a token for the remote store,
+ * which only lets them read and write their own rows and the projects shared with them
+ */
+export async function GET() {
+  const session = await auth();
+  const user = session?.user;
+  if (!user?.id) {
+    return Response.json({ error: "Not signed in" }, { status: 401 });
+  }
+  if (!env.SUPABASE_JWT_SECRET) {
+    return Response.json(
+      { error: "SUPABASE_JWT_SECRET is not set" },
+      { status: 500 },
+    );
+  }
+
+  return Response.json(
+    createSyncToken(
+      { id: user.id, email: user.email, name: user.name },
+      env.SUPABASE_JWT_SECRET,
+    ),
+  );
+}
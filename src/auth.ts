@@ -0,0 +1,36 @@
+import { DrizzleAdapter } from "@auth/drizzle-adapter";
+import { neon } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-http";
+import NextAuth from "next-auth";
+import type { Adapter } from "next-auth/adapters";
+import type { Provider } from "next-auth/providers";
+import GitHub from "next-auth/providers/github";
+import Google from "next-auth/providers/google";
+import Resend from "next-auth/providers/resend";
+
+import { env } from "@/env.mjs";
+
+/**
+ * The sign-in methods that have credentials set: email magic links sent through Resend,
+ * and GitHub and Google OAuth. Auth.js reads each provider's AUTH_* secrets itself.
+ */
+const getProviders = (): Provider[] => [
+  ...(env.AUTH_RESEND_KEY ? [Resend({ from: env.AUTH_EMAIL_FROM })] : []),
+  ...(env.AUTH_GITHUB_ID ? [GitHub] : []),
+  ...(env.AUTH_GOOGLE_ID ? [Google] : []),
+];
+
+// Configured on first use, so local-only setups without a database still build
+export const { handlers, auth, signIn, signOut } = NextAuth(() => ({
+  // Users, accounts, sessions and magic link tokens go in the auth tables (see drizzle/).
+  // The adapter is built against its own copy of @auth/core, hence the cast.
+  adapter: DrizzleAdapter(drizzle(neon(env.DATABASE_URL ?? ""))) as Adapter,
+  providers: getProviders(),
+  callbacks: {
+    session({ session, user }) {
+      // The id rows on the remote store are owned by
+      session.user.id = user.id;
+      return session;
+    },
+  },
+}));
@@ -0,0 +1,36 @@
+"use client";
+
+import { LogOut } from "lucide-react";
+import { signOut, useSession } from "next-auth/react";
+
+import { Button } from "@/components/ui/button";
+import { accessTokens } from "@/lib/auth/access-token";
+
+/**
+ * The signed-in account, with a way to sign out or switch to another one.
+ * Each account's tasks stay on this device under their own keys.
+ */
+export const AccountSettings = () => {
+  const { data: session } = useSession();
+
+  const handleSignOut = async () => {
+    accessTokens.clear();
+    await signOut();
+  };
+
+  return (
+    <div className="flex items-center justify-between gap-4">
+      <div className="flex-shrink-0">
+        <h3 className="text-sm font-medium">Account</h3>
+        <p className="text-muted-foreground text-xs">
+          Signed in as {session?.user?.email ?? session?.user?.name}
+        </p>
+      </div>
+
+      <Button variant="outline" size="sm" onClick={handleSignOut}>
+        <LogOut className="h-4 w-4" />
+        Sign out
+      </Button>
+    </div>
+  );
+};
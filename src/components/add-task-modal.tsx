@@ -2,6 +2,7 @@
 
 import { useEffect, useRef, useState } from "react";
 
+import { QuickAddInput } from "@/components/quick-add-input";
 import { TagInput } from "@/components/tag-input";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -13,8 +14,18 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
+import { useShortcuts } from "@/hooks/use-shortcuts";
 import { useTasks } from "@/hooks/use-tasks";
-import { createShortcutHandler } from "@/lib/keyboard-utils";
+import { describeDueDate } from "@/lib/due-dates";
+import { getTodayKey } from "@/lib/local-date";
+import { parseQuickAdd, QuickAddResult } from "@/lib/quick-add";
+import {
+  DAILY_RULE,
+  describeRecurrence,
+  parseRecurrence,
+} from "@/lib/recurrence";
+import { atTimeOn } from "@/lib/reminders";
+import { Reminder } from "@/lib/types";
 
 interface AddTaskModalProps {
   isOpen: boolean;
@@ -23,13 +34,58 @@ interface AddTaskModalProps {
   isDaily?: boolean;
 }
 
+// A time typed with the due date or recurrence becomes a reminder
+const getQuickAddReminders = (
+  parsed: QuickAddResult,
+  isRecurring: boolean,
+): Reminder[] | undefined => {
+  const time = parsed.reminderTime;
+  if (!time) return undefined;
+  if (isRecurring) return [{ id: crypto.randomUUID(), time }];
+  if (!parsed.dueDate) return undefined;
+  return [
+    {
+      id: crypto.randomUUID(),
+      at: atTimeOn(parsed.dueDate, time).toISOString(),
+    },
+  ];
+};
+
+// What the tokens in the title will set, shown under it
+const describeQuickAdd = (
+  parsed: QuickAddResult,
+  today: string,
+  projectName?: string,
+) => {
+  const time =
+    parsed.reminderTime &&
+    atTimeOn(today, parsed.reminderTime).toLocaleTimeString(undefined, {
+      hour: "numeric",
+      minute: "2-digit",
+    });
+  return [
+    projectName && `Project: ${projectName}`,
+    parsed.tags.length > 0 && `Tags: ${parsed.tags.join(", ")}`,
+    parsed.timePeriod && `Estimate: ${parsed.timePeriod}m`,
+    parsed.dueDate && `Due: ${describeDueDate(parsed.dueDate, today)}`,
+    parsed.isDaily &&
+      describeRecurrence(parseRecurrence(parsed.recurrence) ?? DAILY_RULE),
+    parsed.startDate &&
+      parsed.startDate > today &&
+      `Starts: ${describeDueDate(parsed.startDate, today)}`,
+    time && `Reminder at ${time}`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+};
+
 export const AddTaskModal = ({
   isOpen,
   onClose,
   defaultProjectId,
   isDaily = false,
 }: AddTaskModalProps) => {
-  const { projects, addTask, addToToday } = useTasks();
+  const { projects, tags, addTask, addToToday, getOrCreateTag } = useTasks();
   const [newTaskTitle, setNewTaskTitle] = useState("");
   const [newTaskProject, setNewTaskProject] = useState<string>(
     defaultProjectId || "",
@@ -53,6 +109,14 @@ export const AddTaskModal = ({
   // Filter out completed projects
   const activeProjects = projects.filter((p) => !p.completed);
 
+  // The title line can carry the other fields as tokens, e.g. "#tag +project ~30m"
+  const today = getTodayKey();
+  const parsed = parseQuickAdd(newTaskTitle, {
+    today,
+    projects: activeProjects,
+    tags: tags.map((tag) => tag.name),
+  });
+
   // Update default project when prop changes
   useEffect(() => {
     if (defaultProjectId) {
@@ -116,21 +180,36 @@ export const AddTaskModal = ({
   };
 
   const handleSaveNewTask = async () => {
-    if (!newTaskTitle.trim() || isSaving) return;
+    if (!parsed.title || isSaving) return;
 
     try {
       setIsSaving(true);
 
+      // Tags typed in the title come on top of the ones picked below
+      const tagIds = [...selectedTags];
+      for (const name of parsed.tags) {
+        const tag = await getOrCreateTag(name);
+        if (!tagIds.includes(tag.id)) tagIds.push(tag.id);
+      }
+      const isRecurring = parsed.isDaily || isDailyTask;
+
       const taskId = await addTask(
-        newTaskTitle.trim(),
-        newTaskProject && newTaskProject !== "none"
-          ? newTaskProject
-          : undefined,
-        undefined, // no due date
-        isDailyTask, // is daily (from state)
-        timePeriod ? Number(timePeriod) : undefined, // time period
+        parsed.title,
+        parsed.projectId ??
+          (newTaskProject && newTaskProject !== "none"
+            ? newTaskProject
+            : undefined),
+        parsed.dueDate,
+        isRecurring,
+        parsed.timePeriod ?? (timePeriod ? Number(timePeriod) : undefined),
         newTaskDescription.trim() || undefined,
-        selectedTags.length > 0 ? selectedTags : undefined, // tags
+        tagIds.length > 0 ? tagIds : undefined,
+        undefined,
+        {
+          recurrence: parsed.recurrence,
+          reminders: getQuickAddReminders(parsed, isRecurring),
+          startDate: parsed.startDate,
+        },
       );
 
       // Add to Today list if checkbox is checked
@@ -160,32 +239,19 @@ export const AddTaskModal = ({
     }
   };
 
+  // Escape in the confirmation dialog closes the modal
+  useShortcuts({ close: () => resetModal() }, showExitConfirmation);
+
   // Auto-focus Keep Editing button when confirmation dialog opens
-  // and handle Escape key for closing the dialog
   useEffect(() => {
     if (!showExitConfirmation) return;
 
-    const handleKeyDown = createShortcutHandler([
-      {
-        key: "Escape",
-        handler: () => resetModal(),
-        allowInInput: true,
-        description: "Close add task modal",
-      },
-    ]);
-
-    document.addEventListener("keydown", handleKeyDown);
-
     if (keepEditingButtonRef.current) {
       setTimeout(() => {
         keepEditingButtonRef.current?.focus();
       }, 50);
     }
-
-    return () => {
-      document.removeEventListener("keydown", handleKeyDown);
-    };
-  }, [showExitConfirmation, resetModal]);
+  }, [showExitConfirmation]);
 
   if (!isOpen) return null;
 
@@ -247,14 +313,29 @@ export const AddTaskModal = ({
               >
                 Title
               </label>
-              <Input
+              <QuickAddInput
                 id="task-title"
-                ref={titleInputRef}
+                inputRef={titleInputRef}
                 value={newTaskTitle}
-                onChange={(e) => setNewTaskTitle(e.target.value)}
+                onChange={setNewTaskTitle}
                 onKeyDown={handleDialogKeyDown}
-                placeholder="Task title..."
+                tokens={parsed.tokens}
+                placeholder="Task title... #tag +project ~30m !tomorrow 3pm every weekday"
               />
+              {parsed.tokens.length > 0 && (
+                <p
+                  style={{
+                    fontSize: "12px",
+                    color: "var(--muted-foreground, #6b7280)",
+                  }}
+                >
+                  {describeQuickAdd(
+                    parsed,
+                    today,
+                    activeProjects.find((p) => p.id === parsed.projectId)?.name,
+                  )}
+                </p>
+              )}
             </div>
             <div style={{ display: "grid", gap: "8px" }}>
               <label
@@ -328,7 +409,7 @@ export const AddTaskModal = ({
                   cursor: "pointer",
                 }}
               >
-                Daily Task
+                Recurring Task
               </label>
             </div>
 
@@ -379,7 +460,7 @@ export const AddTaskModal = ({
             </Button>
             <Button
               onClick={handleSaveNewTask}
-              disabled={!newTaskTitle.trim() || isSaving}
+              disabled={!parsed.title || isSaving}
               style={
                 highlightSave ? { boxShadow: "0 0 0 2px var(--ring)" } : {}
               }
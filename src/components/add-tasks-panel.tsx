@@ -5,6 +5,8 @@ import { useEffect, useState } from "react";
 
 import { Button } from "@/components/ui/button";
 import { useTasks } from "@/hooks/use-tasks";
+import { isCompletedOn } from "@/lib/completion";
+import { getTodayKey } from "@/lib/local-date";
 import { Task } from "@/lib/types";
 import { cn } from "@/lib/utils";
 
@@ -26,9 +28,8 @@ const DraggableTaskItem = ({
   onAddToToday,
 }: DraggableTaskItemProps) => {
   const inToday = isInToday;
-  const today = new Date().toISOString().split("T")[0];
-  const isCompletedToday =
-    task.isDaily && task.completionHistory?.[today] === true;
+  const today = getTodayKey();
+  const isCompletedToday = isCompletedOn(task, today);
   const isDisabled = inToday || isCompletedToday;
 
   return (
@@ -104,14 +105,13 @@ export const AddTasksPanel = ({ onClose }: AddTasksPanelProps) => {
 
   const handleDragStart = (e: React.DragEvent, taskId: string) => {
     // Prevent dragging if task is in Today view or is a completed daily task
-    const today = new Date().toISOString().split("T")[0];
+    const today = getTodayKey();
     const allTasks = [...inboxTasks, ...dailyTasks];
     projects.forEach((p) => {
       allTasks.push(...getProjectTasks(p.id).filter((t) => !t.completed));
     });
     const task = allTasks.find((t) => t.id === taskId);
-    const isCompletedToday =
-      task?.isDaily && task?.completionHistory?.[today] === true;
+    const isCompletedToday = !!task && isCompletedOn(task, today);
 
     if (isInToday(taskId) || isCompletedToday) {
       e.preventDefault();
@@ -205,7 +205,7 @@ export const AddTasksPanel = ({ onClose }: AddTasksPanelProps) => {
               ) : (
                 <ChevronDown className="h-4 w-4" />
               )}
-              <span className="flex-1 text-left">Daily Tasks</span>
+              <span className="flex-1 text-left">Recurring Tasks</span>
               {dailyInTodayCount > 0 && (
                 <span className="bg-muted rounded-full px-2 py-0.5 text-xs">
                   {dailyInTodayCount}
@@ -3,8 +3,11 @@
 import { ChevronDown, ChevronRight, Filter, X } from "lucide-react";
 import { useState } from "react";
 
+import { BulkActionBar } from "@/components/bulk-action-bar";
 import { TaskItem } from "@/components/task-item";
+import { useTaskListNavigation } from "@/hooks/use-task-list-navigation";
 import { useTasks } from "@/hooks/use-tasks";
+import { compareByDueDate } from "@/lib/due-dates";
 import { Task } from "@/lib/types";
 
 interface AllTasksViewProps {
@@ -51,11 +54,7 @@ export const AllTasksView = ({
     })
     .sort((a, b) => {
       if (sortBy === "dueDate") {
-        // Tasks without due dates go to the end
-        if (!a.dueDate && !b.dueDate) return a.order - b.order;
-        if (!a.dueDate) return 1;
-        if (!b.dueDate) return -1;
-        return new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime();
+        return compareByDueDate(a, b);
       } else if (sortBy === "createdAt") {
         return (
           new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
@@ -67,6 +66,16 @@ export const AllTasksView = ({
 
   const allTasks = filteredAndSortedTasks;
 
+  // Moving tasks with the keyboard only makes sense where dragging does
+  const canReorder = !groupByProject && sortBy === "order";
+  const { listRef, getItemProps, selectedTasks, clearSelection } =
+    useTaskListNavigation({
+      onToggle: (id, completed) => updateTask(id, { completed }),
+      onFocus: onTaskDoubleClick,
+      reorderGroups: canReorder ? [allTasks] : undefined,
+      onReorder: reorderTasks,
+    });
+
   const handleDragStart = (task: Task) => {
     setDraggedTask(task);
   };
@@ -152,13 +161,14 @@ export const AllTasksView = ({
         onUpdate={updateTask}
         onClick={onTaskClick}
         onDoubleClick={onTaskDoubleClick}
+        {...getItemProps(task)}
       />
     </div>
   );
 
   return (
     <div className="flex-1 p-6">
-      <div className="mx-auto max-w-4xl">
+      <div ref={listRef} className="mx-auto max-w-4xl">
         <div className="mb-6 flex items-center justify-between">
           <h1 className="text-2xl font-bold">All Tasks</h1>
         </div>
@@ -255,11 +265,11 @@ export const AllTasksView = ({
           ) : groupByProject ? (
             // Grouped view
             <>
-              {/* Daily Tasks */}
+              {/* Recurring Tasks */}
               {groupedTasks?.["daily-tasks"] && (
                 <div className="mb-6">
                   <h3 className="text-muted-foreground mb-3 px-2 text-sm font-semibold">
-                    Daily Tasks
+                    Recurring Tasks
                   </h3>
                   <div className="space-y-2">
                     {groupedTasks["daily-tasks"].map(renderTask)}
@@ -332,6 +342,7 @@ export const AllTasksView = ({
                         onUpdate={updateTask}
                         onClick={onTaskClick}
                         onDoubleClick={onTaskDoubleClick}
+                        {...getItemProps(task)}
                       />
                     </div>
                   ))}
@@ -340,6 +351,7 @@ export const AllTasksView = ({
           </div>
         )}
       </div>
+      <BulkActionBar tasks={selectedTasks} onClear={clearSelection} />
     </div>
   );
 };
@@ -3,7 +3,9 @@
 import { Check } from "lucide-react";
 import { useState } from "react";
 
+import { BulkActionBar } from "@/components/bulk-action-bar";
 import { TaskItem } from "@/components/task-item";
+import { useTaskListNavigation } from "@/hooks/use-task-list-navigation";
 import { useTasks } from "@/hooks/use-tasks";
 import { Task } from "@/lib/types";
 import { cn } from "@/lib/utils";
@@ -72,6 +74,13 @@ export const ArchivedView = ({
   const getProjectTasks = (projectId: string) =>
     tasks.filter((t) => t.projectId === projectId);
 
+  // Archived tasks are listed by completion date, so the keys don't reorder them
+  const { listRef, getItemProps, selectedTasks, clearSelection } =
+    useTaskListNavigation({
+      onToggle: (id, completed) => updateTask(id, { completed }),
+      onFocus: (task) => onTaskDoubleClick?.(task),
+    });
+
   return (
     <div className="p-6">
       <div className="mb-6">
@@ -82,7 +91,7 @@ export const ArchivedView = ({
         </p>
       </div>
 
-      <div className="space-y-8">
+      <div ref={listRef} className="space-y-8">
         {/* Completed Projects */}
         {completedProjects.length > 0 && (
           <div className="space-y-4">
@@ -139,6 +148,7 @@ export const ArchivedView = ({
                               onDelete={deleteTask}
                               onClick={onTaskClick}
                               onDoubleClick={onTaskDoubleClick}
+                              {...getItemProps(task)}
                             />
                           </div>
                         ))}
@@ -180,12 +190,14 @@ export const ArchivedView = ({
                   onDelete={deleteTask}
                   onClick={onTaskClick}
                   onDoubleClick={onTaskDoubleClick}
+                  {...getItemProps(task)}
                 />
               </div>
             ))
           )}
         </div>
       </div>
+      <BulkActionBar tasks={selectedTasks} onClear={clearSelection} />
     </div>
   );
 };
@@ -0,0 +1,85 @@
+"use client";
+
+import { BulkActionBar } from "@/components/bulk-action-bar";
+import { TaskItem } from "@/components/task-item";
+import { useTaskListNavigation } from "@/hooks/use-task-list-navigation";
+import { useTasks } from "@/hooks/use-tasks";
+import { Task } from "@/lib/types";
+
+interface AssignedViewProps {
+  onTaskClick: (task: Task) => void;
+  onTaskDoubleClick: (task: Task) => void;
+}
+
+export const AssignedView = ({
+  onTaskClick,
+  onTaskDoubleClick,
+}: AssignedViewProps) => {
+  const { projects, getAssignedTasks, updateTask, deleteTask } = useTasks();
+
+  // Grouped by project, in sidebar order
+  const assignedTasks = getAssignedTasks();
+  const groups = projects
+    .map((project) => ({
+      project,
+      tasks: assignedTasks
+        .filter((task) => task.projectId === project.id)
+        .sort((a, b) => a.order - b.order),
+    }))
+    .filter((group) => group.tasks.length > 0);
+
+  // Tasks belong to other people's lists, so they are reordered in their projects
+  const { listRef, getItemProps, selectedTasks, clearSelection } =
+    useTaskListNavigation({
+      onToggle: (id, completed) => updateTask(id, { completed }),
+      onFocus: onTaskDoubleClick,
+    });
+
+  return (
+    <div className="flex-1 p-6">
+      <div className="mx-auto max-w-4xl">
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold">Assigned to me</h1>
+          <p className="text-muted-foreground">
+            Open tasks assigned to you in shared projects
+          </p>
+        </div>
+
+        {groups.length === 0 ? (
+          <div className="text-muted-foreground py-12 text-center">
+            <p>Nothing assigned to you.</p>
+            <p className="text-sm">
+              Tasks assigned to you in shared projects will show here.
+            </p>
+          </div>
+        ) : (
+          <div ref={listRef} className="space-y-8">
+            {groups.map(({ project, tasks: groupTasks }) => (
+              <div key={project.id} className="space-y-2">
+                <h2 className="text-lg font-semibold">
+                  {project.name}
+                  <span className="text-muted-foreground ml-2 text-sm font-normal">
+                    {groupTasks.length}
+                  </span>
+                </h2>
+                {groupTasks.map((task) => (
+                  <TaskItem
+                    key={task.id}
+                    task={task}
+                    onToggle={(id, completed) => updateTask(id, { completed })}
+                    onDelete={deleteTask}
+                    onUpdate={updateTask}
+                    onClick={onTaskClick}
+                    onDoubleClick={onTaskDoubleClick}
+                    {...getItemProps(task)}
+                  />
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+      <BulkActionBar tasks={selectedTasks} onClear={clearSelection} />
+    </div>
+  );
+};
@@ -0,0 +1,34 @@
+"use client";
+
+import { SessionProvider, useSession } from "next-auth/react";
+
+import { SignInScreen } from "@/components/sign-in-screen";
+import { env } from "@/env.mjs";
+import { setStorageUser } from "@/lib/sync/storage-user";
+
+const SignedIn = ({ children }: { children: React.ReactNode }) => {
+  const { data: session, status } = useSession();
+
+  if (status === "loading") return null;
+
+  const userId = session?.user?.id;
+  if (!userId) return <SignInScreen />;
+
+  // Set during render so it is in place before any child loads data in an effect
+  setStorageUser(userId);
+  return <>{children}</>;
+};
+
+/**
+ * Require signing in when tasks sync to a remote server, and keep each
+ * account's local data apart. Local-only storage needs no account.
+ */
+export const AuthGate = ({ children }: { children: React.ReactNode }) => {
+  if (env.NEXT_PUBLIC_STORAGE_TYPE !== "remote") return <>{children}</>;
+
+  return (
+    <SessionProvider>
+      <SignedIn>{children}</SignedIn>
+    </SessionProvider>
+  );
+};
@@ -0,0 +1,171 @@
+"use client";
+
+import { Check, Sun, Trash2, X } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useTasks } from "@/hooks/use-tasks";
+import { isDoneOn } from "@/lib/completion";
+import { getTodayKey } from "@/lib/local-date";
+import { Task } from "@/lib/types";
+
+interface BulkActionBarProps {
+  tasks: Task[];
+  onClear: () => void;
+}
+
+/**
+ * Actions on every task selected in a list, shown once more than one is selected
+ */
+export const BulkActionBar = ({ tasks, onClear }: BulkActionBarProps) => {
+  const {
+    tags,
+    getActiveProjects,
+    getTaskTagIds,
+    isInToday,
+    moveTasksToProject,
+    setTasksDueDate,
+    completeTasks,
+    deleteTasks,
+    addTagToTasks,
+    removeTagFromTasks,
+    setTasksInToday,
+    isTaskEditable,
+  } = useTasks();
+
+  if (tasks.length < 2) return null;
+
+  const ids = tasks.map((task) => task.id);
+  const today = getTodayKey();
+  const allDone = tasks.every((task) => isDoneOn(task, today));
+  const allInToday = ids.every(isInToday);
+  // Today is the user's own list, the rest changes tasks a viewer may not change
+  const editable = tasks.every(isTaskEditable);
+  // Tags on any of the selected tasks can be removed
+  const usedTagIds = new Set(ids.flatMap(getTaskTagIds));
+  const usedTags = tags.filter((tag) => usedTagIds.has(tag.id));
+
+  const handleDelete = async () => {
+    await deleteTasks(ids);
+    onClear();
+  };
+
+  return (
+    <div
+      role="toolbar"
+      aria-label="Selected tasks"
+      className="bg-background fixed bottom-20 left-1/2 z-40 flex -translate-x-1/2 flex-wrap items-center gap-2 rounded-lg border p-2 shadow-lg"
+    >
+      <span className="px-2 text-sm font-medium">{tasks.length} selected</span>
+
+      {!editable && <Badge variant="outline">View only</Badge>}
+
+      {editable && (
+        <>
+          <select
+            value=""
+            onChange={(e) =>
+              moveTasksToProject(
+                ids,
+                e.target.value === "none" ? null : e.target.value,
+              )
+            }
+            className="rounded-md border p-2 text-sm"
+            aria-label="Move to project"
+          >
+            <option value="" disabled hidden>
+              Move to...
+            </option>
+            <option value="none">No project</option>
+            {getActiveProjects().map((project) => (
+              <option key={project.id} value={project.id}>
+                {project.name}
+              </option>
+            ))}
+          </select>
+
+          <select
+            value=""
+            onChange={(e) => addTagToTasks(ids, e.target.value)}
+            className="rounded-md border p-2 text-sm"
+            aria-label="Add tag"
+            disabled={tags.length === 0}
+          >
+            <option value="" disabled hidden>
+              Add tag...
+            </option>
+            {tags.map((tag) => (
+              <option key={tag.id} value={tag.id}>
+                {tag.name}
+              </option>
+            ))}
+          </select>
+
+          {usedTags.length > 0 && (
+            <select
+              value=""
+              onChange={(e) => removeTagFromTasks(ids, e.target.value)}
+              className="rounded-md border p-2 text-sm"
+              aria-label="Remove tag"
+            >
+              <option value="" disabled hidden>
+                Remove tag...
+              </option>
+              {usedTags.map((tag) => (
+                <option key={tag.id} value={tag.id}>
+                  {tag.name}
+                </option>
+              ))}
+            </select>
+          )}
+
+          <input
+            type="date"
+            value=""
+            onChange={(e) => setTasksDueDate(ids, e.target.value || null)}
+            className="rounded-md border p-1.5 text-sm"
+            aria-label="Set due date"
+            title="Set due date"
+          />
+        </>
+      )}
+
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setTasksInToday(ids, !allInToday)}
+      >
+        <Sun className="h-4 w-4" />
+        {allInToday ? "Remove from Today" : "Add to Today"}
+      </Button>
+
+      {editable && (
+        <>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => completeTasks(ids, !allDone)}
+          >
+            <Check className="h-4 w-4" />
+            {allDone ? "Reopen" : "Complete"}
+          </Button>
+
+          <Button variant="outline" size="sm" onClick={handleDelete}>
+            <Trash2 className="h-4 w-4" />
+            Delete
+          </Button>
+        </>
+      )}
+
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8"
+        onClick={onClear}
+        aria-label="Clear selection"
+      >
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+};
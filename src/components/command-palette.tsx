@@ -0,0 +1,220 @@
+"use client";
+
+import { CheckCircle2, Circle, Search } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useTasks } from "@/hooks/use-tasks";
+import { Command, fuzzySearch, searchCommands } from "@/lib/command-palette";
+import { formatShortcut } from "@/lib/keyboard-utils";
+import { Task } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  commands: Command[];
+  onOpenTask: (task: Task) => void;
+  onFocusTask: (task: Task) => void;
+}
+
+type Item =
+  | { kind: "command"; command: Command }
+  | { kind: "task"; task: Task };
+
+const MAX_COMMANDS = 10;
+const MAX_TASKS = 8;
+
+/**
+ * Ctrl+K palette: jump to a view or project, run a command, or find a task.
+ * Tasks open in the detail sidebar, or in focus mode with Shift+Enter.
+ */
+export const CommandPalette = ({
+  open,
+  onOpenChange,
+  commands,
+  onOpenTask,
+  onFocusTask,
+}: CommandPaletteProps) => {
+  const { tasks, addToToday, isInToday } = useTasks();
+  const [query, setQuery] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Start over each time the palette opens
+  useEffect(() => {
+    if (open) {
+      setQuery("");
+      setActiveIndex(0);
+    }
+  }, [open]);
+
+  const matchingCommands = searchCommands(commands, query).slice(
+    0,
+    query.trim() ? MAX_COMMANDS : undefined,
+  );
+  // Unfinished tasks before finished ones with the same score
+  const matchingTasks = query.trim()
+    ? fuzzySearch(
+        [...tasks].sort((a, b) => Number(a.completed) - Number(b.completed)),
+        query,
+        (task) => [task.title, task.description],
+        MAX_TASKS,
+      )
+    : [];
+
+  const items: Item[] = [
+    ...matchingCommands.map((command) => ({
+      kind: "command" as const,
+      command,
+    })),
+    ...matchingTasks.map((task) => ({ kind: "task" as const, task })),
+  ];
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex]);
+
+  const runItem = (
+    item: Item,
+    event?: { shiftKey: boolean; altKey: boolean },
+  ) => {
+    onOpenChange(false);
+    if (item.kind === "command") {
+      item.command.run();
+    } else if (event?.altKey) {
+      if (!isInToday(item.task.id)) addToToday(item.task.id);
+    } else if (event?.shiftKey) {
+      onFocusTask(item.task);
+    } else {
+      onOpenTask(item.task);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      if (items.length === 0) return;
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setActiveIndex((activeIndex + step + items.length) % items.length);
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      const item = items[activeIndex];
+      if (item) runItem(item, e);
+    }
+  };
+
+  // Headings go above the first item of each group
+  const getGroup = (item: Item) =>
+    item.kind === "task" ? "Tasks" : item.command.group;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="top-[20%] translate-y-0 gap-0 overflow-hidden p-0 sm:max-w-xl">
+        <DialogTitle className="sr-only">Command palette</DialogTitle>
+        <DialogDescription className="sr-only">
+          Search for views, projects, commands and tasks
+        </DialogDescription>
+        <div className="flex items-center gap-2 border-b px-4">
+          <Search className="text-muted-foreground h-4 w-4" />
+          <input
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setActiveIndex(0);
+            }}
+            onKeyDown={handleKeyDown}
+            placeholder="Type a command or search tasks..."
+            className="h-12 flex-1 bg-transparent text-sm outline-none"
+            role="combobox"
+            aria-expanded={true}
+            aria-controls="command-palette-list"
+            aria-activedescendant={
+              items.length > 0 ? `command-palette-${activeIndex}` : undefined
+            }
+          />
+        </div>
+
+        <div
+          ref={listRef}
+          id="command-palette-list"
+          role="listbox"
+          className="max-h-80 overflow-y-auto p-2"
+        >
+          {items.length === 0 && (
+            <p className="text-muted-foreground py-6 text-center text-sm">
+              No results
+            </p>
+          )}
+          {items.map((item, index) => {
+            const group = getGroup(item);
+            const showHeading =
+              index === 0 || getGroup(items[index - 1]) !== group;
+            return (
+              <div key={item.kind === "task" ? item.task.id : item.command.id}>
+                {showHeading && (
+                  <div className="text-muted-foreground px-2 pt-2 pb-1 text-xs font-medium">
+                    {group}
+                  </div>
+                )}
+                <div
+                  id={`command-palette-${index}`}
+                  data-index={index}
+                  role="option"
+                  aria-selected={index === activeIndex}
+                  tabIndex={-1}
+                  onMouseMove={() => setActiveIndex(index)}
+                  onClick={(e) => runItem(item, e)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") runItem(item, e);
+                  }}
+                  className={cn(
+                    "flex cursor-pointer items-center justify-between gap-2 rounded-md px-2 py-2 text-sm",
+                    index === activeIndex && "bg-muted",
+                  )}
+                >
+                  {item.kind === "command" ? (
+                    <>
+                      <span>{item.command.title}</span>
+                      {item.command.shortcut && (
+                        <kbd className="text-muted-foreground rounded border px-1.5 text-xs">
+                          {item.command.shortcut}
+                        </kbd>
+                      )}
+                    </>
+                  ) : (
+                    <span className="flex min-w-0 items-center gap-2">
+                      {item.task.completed ? (
+                        <CheckCircle2 className="h-4 w-4 flex-shrink-0 text-green-600" />
+                      ) : (
+                        <Circle className="text-muted-foreground h-4 w-4 flex-shrink-0" />
+                      )}
+                      <span className="truncate">{item.task.title}</span>
+                    </span>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {matchingTasks.length > 0 && (
+          <div className="text-muted-foreground flex gap-4 border-t px-4 py-2 text-xs">
+            <span>↵ Open</span>
+            <span>{formatShortcut({ key: "Enter", shift: true })} Focus</span>
+            <span>
+              {formatShortcut({ key: "Enter", alt: true })} Add to Today
+            </span>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -3,50 +3,73 @@
 import { ChevronLeft, ChevronRight, Flame, Trash2 } from "lucide-react";
 import { useState } from "react";
 
+import { countCompletions, DayState, getDayState } from "@/lib/completion";
+import { addDays, getTodayKey, keyToLocalDate } from "@/lib/local-date";
 import { calculateStreak } from "@/lib/streak";
-import { Task } from "@/lib/types";
+import { DayStatus, Task } from "@/lib/types";
+import { cn } from "@/lib/utils";
 
 interface CompletionCalendarProps {
   task: Task;
-  onToggleDate?: (date: string, completed: boolean) => void;
+  onSetDay?: (date: string, entry: true | DayStatus | null) => void;
   onClearProgress?: () => void;
 }
 
+export const DAY_STYLES: Record<
+  DayState,
+  { label: string; className: string }
+> = {
+  completed: { label: "Completed", className: "border-green-600 bg-green-500" },
+  missed: { label: "Missed", className: "border-red-500 bg-red-200" },
+  skipped: { label: "Skipped", className: "border-amber-500 bg-amber-200" },
+  excused: { label: "Excused", className: "border-blue-400 bg-blue-100" },
+  frozen: { label: "Frozen", className: "border-cyan-500 bg-cyan-100" },
+  pending: { label: "Incomplete", className: "bg-muted border-border" },
+  unscheduled: {
+    label: "Not scheduled",
+    className: "border-border border-dashed",
+  },
+};
+
+// Clicking a day cycles through what can be recorded for it
+const NEXT_ENTRY: Record<DayState, true | DayStatus | null> = {
+  pending: true,
+  unscheduled: true,
+  missed: true,
+  completed: "skipped",
+  skipped: "excused",
+  excused: "frozen",
+  frozen: null,
+};
+
 export function CompletionCalendar({
   task,
-  onToggleDate,
+  onSetDay,
   onClearProgress,
 }: CompletionCalendarProps) {
   const [offset, setOffset] = useState(0);
 
   if (!task.isDaily) return null;
-  const completionHistory = task.completionHistory || {};
-
-  const getTotalCompletions = () => {
-    return Object.keys(completionHistory).length;
-  };
 
   // Generate 7 days ending at (today - offset)
-  const endDate = new Date();
-  endDate.setDate(endDate.getDate() - offset);
+  const today = getTodayKey();
+  const endDate = addDays(today, -offset);
 
   const days: {
     date: string;
-    completed: boolean;
+    state: DayState;
     dayOfMonth: number;
     dayOfWeek: string;
     isToday: boolean;
   }[] = [];
 
   for (let i = 6; i >= 0; i--) {
-    const date = new Date(endDate);
-    date.setDate(date.getDate() - i);
-    const dateStr = date.toISOString().split("T")[0];
-    const today = new Date().toISOString().split("T")[0];
+    const dateStr = addDays(endDate, -i);
+    const date = keyToLocalDate(dateStr);
 
     days.push({
       date: dateStr,
-      completed: completionHistory[dateStr] === true,
+      state: getDayState(task, dateStr),
       dayOfMonth: date.getDate(),
       dayOfWeek: date.toLocaleDateString("en-US", { weekday: "short" }),
       isToday: dateStr === today,
@@ -54,8 +77,8 @@ export function CompletionCalendar({
   }
 
   const handleDayClick = (day: (typeof days)[0]) => {
-    if (onToggleDate) {
-      onToggleDate(day.date, !day.completed);
+    if (onSetDay) {
+      onSetDay(day.date, NEXT_ENTRY[day.state]);
     }
   };
 
@@ -77,10 +100,10 @@ export function CompletionCalendar({
           <div className="flex items-center gap-2">
             <Flame className="h-5 w-5 text-orange-500" />
             <div className="text-l font-medium">{calculateStreak(task)}</div>
-            <div className="text-m font-medium">Day Streak</div>
+            <div className="text-m font-medium">Streak</div>
           </div>
           <div className="text-muted-foreground text-sm">
-            • {getTotalCompletions()} total
+            • {countCompletions(task)} total
           </div>
         </div>
         {onClearProgress && (
@@ -111,12 +134,12 @@ export function CompletionCalendar({
               {/* Dot */}
               <button
                 onClick={() => handleDayClick(day)}
-                className={`h-5 w-5 rounded-full border-2 transition-all hover:scale-110 ${
-                  day.completed
-                    ? "border-green-600 bg-green-500"
-                    : "bg-muted border-border"
-                } ${day.isToday ? "ring-primary ring-2 ring-offset-1" : ""}`}
-                title={`${day.date}${day.completed ? " ✓" : ""}`}
+                className={cn(
+                  "h-5 w-5 rounded-full border-2 transition-all hover:scale-110",
+                  DAY_STYLES[day.state].className,
+                  day.isToday && "ring-primary ring-2 ring-offset-1",
+                )}
+                title={`${day.date}: ${DAY_STYLES[day.state].label}`}
               />
               {/* Day of month */}
               <div
@@ -146,16 +169,19 @@ export function CompletionCalendar({
       </div>
 
       {/* Legend */}
-      <div className="text-muted-foreground mt-3 flex items-center justify-center gap-4 text-xs">
-        <div className="flex items-center gap-1">
-          <div className="bg-muted border-border h-3 w-3 rounded-full border-2" />
-          <span>Incomplete</span>
-        </div>
-        <div className="flex items-center gap-1">
-          <div className="h-3 w-3 rounded-full border-2 border-green-600 bg-green-500" />
-          <span>Completed</span>
-        </div>
+      <div className="text-muted-foreground mt-3 flex flex-wrap items-center justify-center gap-x-4 gap-y-1 text-xs">
+        {Object.values(DAY_STYLES).map(({ label, className }) => (
+          <div key={label} className="flex items-center gap-1">
+            <div className={cn("h-3 w-3 rounded-full border-2", className)} />
+            <span>{label}</span>
+          </div>
+        ))}
       </div>
+      {onSetDay && (
+        <p className="text-muted-foreground text-center text-xs">
+          Click a day to mark it completed, skipped, excused or frozen
+        </p>
+      )}
     </div>
   );
 }
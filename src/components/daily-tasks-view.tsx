@@ -3,7 +3,10 @@
 import { GripVertical } from "lucide-react";
 import { useState } from "react";
 
+import { BulkActionBar } from "@/components/bulk-action-bar";
 import { TaskItem } from "@/components/task-item";
+import { Button } from "@/components/ui/button";
+import { useTaskListNavigation } from "@/hooks/use-task-list-navigation";
 import { useTasks } from "@/hooks/use-tasks";
 import { Task } from "@/lib/types";
 
@@ -18,6 +21,7 @@ export const DailyTasksView = ({
 }: DailyTasksViewProps) => {
   const {
     getDailyTasks,
+    getRecurringTasksDueToday,
     updateTask,
     deleteTask,
     markDailyTaskComplete,
@@ -27,10 +31,16 @@ export const DailyTasksView = ({
   } = useTasks();
 
   const [draggedTask, setDraggedTask] = useState<string | null>(null);
+  const [showAll, setShowAll] = useState(false);
 
-  const dailyTasks = getDailyTasks()
+  // Only tasks with an occurrence today, unless showing every recurring task
+  const allRecurringCount = getDailyTasks().filter(
+    (task) => !task.parentTaskId,
+  ).length;
+  const dailyTasks = (showAll ? getDailyTasks() : getRecurringTasksDueToday())
     .filter((task) => !task.parentTaskId)
     .sort((a, b) => a.order - b.order);
+  const notDueCount = allRecurringCount - dailyTasks.length;
 
   const handleDragStart = (e: React.DragEvent, taskId: string) => {
     setDraggedTask(taskId);
@@ -69,29 +79,56 @@ export const DailyTasksView = ({
     }
   };
 
+  // Tasks are reordered within the project they are listed under
+  const { listRef, getItemProps, selectedTasks, clearSelection } =
+    useTaskListNavigation({
+      onToggle: handleToggle,
+      onFocus: onTaskDoubleClick,
+      reorderGroups: [
+        dailyTasks.filter((task) => !task.projectId),
+        ...projects.map((project) =>
+          dailyTasks.filter((task) => task.projectId === project.id),
+        ),
+      ],
+      onReorder: reorderTasks,
+    });
+
   return (
     <div className="flex-1 p-6">
       <div className="mx-auto max-w-4xl">
         <div className="mb-6 flex items-center justify-between">
           <div>
-            <h1 className="text-2xl font-bold">Daily Tasks</h1>
+            <h1 className="text-2xl font-bold">Recurring</h1>
             <p className="text-muted-foreground">
-              Tasks that recur daily or otherwise.
+              {showAll
+                ? "All tasks that repeat on a schedule."
+                : "Recurring tasks due today."}
             </p>
           </div>
+          {(showAll || notDueCount > 0) && (
+            <Button variant="outline" onClick={() => setShowAll(!showAll)}>
+              {showAll ? "Show due today" : `Show all (${allRecurringCount})`}
+            </Button>
+          )}
         </div>
 
-        <div className="space-y-6">
+        <div ref={listRef} className="space-y-6">
           {dailyTasks.length === 0 ? (
             <div className="text-muted-foreground py-12 text-center">
-              <p>No daily tasks yet.</p>
-              <p className="text-sm">
-                Add tasks that you want to complete every day!
-              </p>
+              {allRecurringCount === 0 ? (
+                <>
+                  <p>No recurring tasks yet.</p>
+                  <p className="text-sm">
+                    Add tasks that you want to repeat every day, week or month!
+                  </p>
+                </>
+              ) : (
+                <p>Nothing is due today.</p>
+              )}
             </div>
           ) : (
             (() => {
-              // Group daily tasks by project
+              // Group recurring tasks by project
               const generalTasks = dailyTasks.filter((task) => !task.projectId);
               const tasksByProject = projects.reduce(
                 (acc, project) => {
@@ -111,11 +148,11 @@ export const DailyTasksView = ({
 
               return (
                 <>
-                  {/* General daily tasks (no project) */}
+                  {/* General recurring tasks (no project) */}
                   {generalTasks.length > 0 && (
                     <div>
                       <h3 className="text-muted-foreground mb-3 text-lg font-medium">
-                        General Daily Tasks
+                        General
                       </h3>
                       <div className="space-y-2">
                         {generalTasks.map((task, index) => (
@@ -139,6 +176,7 @@ export const DailyTasksView = ({
                                 onClick={onTaskClick}
                                 onDoubleClick={onTaskDoubleClick}
                                 isDaily={true}
+                                {...getItemProps(task)}
                               />
                             </div>
                           </div>
@@ -147,11 +185,11 @@ export const DailyTasksView = ({
                     </div>
                   )}
 
-                  {/* Daily tasks grouped by project */}
+                  {/* Recurring tasks grouped by project */}
                   {Object.values(tasksByProject).map(({ project, tasks }) => (
                     <div key={project.id}>
                       <h3 className="text-muted-foreground mb-3 text-lg font-medium">
-                        {project.name} - Daily Tasks
+                        {project.name}
                       </h3>
                       <div className="space-y-2">
                         {tasks.map((task, index) => (
@@ -175,6 +213,7 @@ export const DailyTasksView = ({
                                 onClick={onTaskClick}
                                 onDoubleClick={onTaskDoubleClick}
                                 isDaily={true}
+                                {...getItemProps(task)}
                               />
                             </div>
                           </div>
@@ -188,6 +227,7 @@ export const DailyTasksView = ({
           )}
         </div>
       </div>
+      <BulkActionBar tasks={selectedTasks} onClear={clearSelection} />
     </div>
   );
 };
@@ -2,14 +2,25 @@
 
 import { Check, Minus, Pause, Play, Plus, RotateCcw, X } from "lucide-react";
 import { useEffect, useRef, useState } from "react";
-import { useTimer } from "react-timer-hook";
 
 import { AddTaskModal } from "@/components/add-task-modal";
 import { CompletionAnimation } from "@/components/completion-animation";
 import { SubtaskList } from "@/components/subtask-list";
 import { Button } from "@/components/ui/button";
+import { useFocusTimer } from "@/hooks/use-focus-timer";
+import { useShortcuts } from "@/hooks/use-shortcuts";
 import { useTasks } from "@/hooks/use-tasks";
-import { createShortcutHandler } from "@/lib/keyboard-utils";
+import { getDueKey } from "@/lib/due-dates";
+import { focusTimer } from "@/lib/focus-timer";
+import { keyToLocalDate } from "@/lib/local-date";
+import {
+  getBreakSuggestion,
+  getCyclePosition,
+  getPomodoroSettings,
+  isBreak,
+  PHASE_LABELS,
+  PomodoroState,
+} from "@/lib/pomodoro";
 import { Task } from "@/lib/types";
 
 interface FocusModeProps {
@@ -19,8 +30,15 @@ interface FocusModeProps {
 }
 
 export const FocusMode = ({ task, onClose, onUpdate }: FocusModeProps) => {
-  const { projects, tasks, addTask, updateTask, deleteTask, reorderTasks } =
-    useTasks();
+  const {
+    projects,
+    tasks,
+    addTask,
+    updateTask,
+    deleteTask,
+    reorderTasks,
+    getTodayTasksList,
+  } = useTasks();
   const [title, setTitle] = useState(task.title);
   const [description, setDescription] = useState(task.description || "");
 
@@ -29,9 +47,45 @@ export const FocusMode = ({ task, onClose, onUpdate }: FocusModeProps) => {
     .filter((t) => t.parentTaskId === task.id)
     .sort((a, b) => a.order - b.order);
 
-  const [timerMinutes, setTimerMinutes] = useState(task.timePeriod || 25);
-  const audioRef = useRef<HTMLAudioElement | null>(null);
-  const [audioLoaded, setAudioLoaded] = useState(false);
+  const [pomodoroSettings] = useState(getPomodoroSettings);
+  // The task's own timer length wins over the default work length
+  const defaultWorkMinutes = task.timePeriod || pomodoroSettings.workMinutes;
+
+  // The timer lives outside focus mode, so it keeps running after closing it
+  const { timer: sharedTimer, secondsLeft } = useFocusTimer();
+  // Until it has been loaded, the timer may still be on another task
+  const timer = sharedTimer?.taskId === task.id ? sharedTimer : null;
+  const isRunning = timer !== null && timer.endsAt !== null;
+
+  // Load from the latest task, but only when focus mode opens: edits to the
+  // task shouldn't reset the timer
+  const loadedTaskRef = useRef({ task, defaultWorkMinutes });
+  useEffect(() => {
+    loadedTaskRef.current = { task, defaultWorkMinutes };
+  });
+
+  useEffect(() => {
+    const { task: opened, defaultWorkMinutes: workMinutes } =
+      loadedTaskRef.current;
+    focusTimer.load(
+      opened.id,
+      opened.title,
+      workMinutes,
+      opened.timeLeft ?? workMinutes * 60,
+    );
+  }, [task.id]);
+
+  const pomodoro: PomodoroState = timer ?? { phase: "work", completedWork: 0 };
+  const onBreak = isBreak(pomodoro.phase);
+  const workMinutes = timer?.workMinutes ?? defaultWorkMinutes;
+  // Length of the current phase
+  const timerMinutes = timer ? timer.durationSeconds / 60 : defaultWorkMinutes;
+  const totalSeconds = timer
+    ? secondsLeft
+    : (task.timeLeft ?? defaultWorkMinutes * 60);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+
   const timeInputRef = useRef<HTMLInputElement | null>(null);
   const descriptionRef = useRef<HTMLTextAreaElement | null>(null);
   const titleRef = useRef<HTMLTextAreaElement | null>(null);
@@ -54,22 +108,6 @@ export const FocusMode = ({ task, onClose, onUpdate }: FocusModeProps) => {
     }
   }, [description]);
 
-  // Initialize timer with saved time or default
-  const getExpiryTimestamp = (seconds: number) => {
-    const time = new Date();
-    time.setSeconds(time.getSeconds() + seconds);
-    return time;
-  };
-
-  const initialSeconds = task.timeLeft ?? (task.timePeriod || 25) * 60;
-
-  const { totalSeconds, seconds, minutes, isRunning, start, pause, restart } =
-    useTimer({
-      expiryTimestamp: getExpiryTimestamp(initialSeconds),
-      autoStart: false,
-      onExpire: () => playNotificationSound(),
-    });
-
   // Add task dialog state
   const [showAddTaskDialog, setShowAddTaskDialog] = useState(false);
   const [showFocusModeExitConfirmation, setShowFocusModeExitConfirmation] =
@@ -77,132 +115,48 @@ export const FocusMode = ({ task, onClose, onUpdate }: FocusModeProps) => {
   const [showCompletionAnimation, setShowCompletionAnimation] = useState(false);
   const exitButtonRef = useRef<HTMLButtonElement>(null);
 
-  // Initialize audio element
-  useEffect(() => {
-    // Using a simple beep sound data URL as fallback
-    // Users can replace this with their own MP3 file
-    audioRef.current = new Audio();
-    // Default system beep sound (simple tone)
-    audioRef.current.src = "/media/timer-end-sound.mp3";
-
-    // Preload the audio
-    audioRef.current.load();
-
-    // Mark as loaded when ready
-    audioRef.current.addEventListener("canplaythrough", () => {
-      setAudioLoaded(true);
-    });
-
-    return () => {
-      if (audioRef.current) {
-        audioRef.current.pause();
-        audioRef.current = null;
-      }
-    };
-  }, []);
-
-  // Keyboard shortcuts
-  useEffect(() => {
-    // Don't handle keys if exit confirmation is showing
-    if (showFocusModeExitConfirmation) return;
-
-    const handleKeyDown = createShortcutHandler([
-      {
-        key: "a",
-        handler: () => {
-          if (!showAddTaskDialog) {
-            setShowAddTaskDialog(true);
-          }
-        },
-        allowInInput: false,
-        description: "Add new task",
-      },
-      {
-        key: "Escape",
-        handler: (e) => {
-          const target = e.target as HTMLElement;
-          const isInInput =
-            target.tagName === "INPUT" || target.tagName === "TEXTAREA";
-
-          if (!showAddTaskDialog) {
-            if (isInInput) {
-              // Blur the input field when Escape is pressed
-              (target as HTMLInputElement | HTMLTextAreaElement).blur();
-            } else {
-              // Show exit confirmation if not in an input field
-              setShowFocusModeExitConfirmation(true);
-            }
-          }
-        },
-        allowInInput: true, // Allow Escape in input fields for blur functionality
-        preventDefault: false, // Let Escape work naturally
+  // Keyboard shortcuts, off while the exit confirmation is showing
+  useShortcuts(
+    {
+      "focus-add-task": () => {
+        if (!showAddTaskDialog) {
+          setShowAddTaskDialog(true);
+        }
       },
-      {
-        key: " ",
-        handler: () => {
-          if (isRunningRef.current) {
-            pause();
-            pausedTimeRef.current = totalSecondsRef.current;
-          } else if (pausedTimeRef.current !== null) {
-            restart(getExpiryTimestamp(pausedTimeRef.current), true);
-            pausedTimeRef.current = null;
+      "focus-exit": (e) => {
+        const target = e.target as HTMLElement;
+        const isInInput =
+          target.tagName === "INPUT" || target.tagName === "TEXTAREA";
+
+        if (!showAddTaskDialog) {
+          if (isInInput) {
+            // Blur the input field when Escape is pressed
+            (target as HTMLInputElement | HTMLTextAreaElement).blur();
           } else {
-            // Start fresh
-            start();
+            // Show exit confirmation if not in an input field
+            setShowFocusModeExitConfirmation(true);
           }
-        },
-        allowInInput: false,
-        description: "Play/pause timer",
-      },
-    ]);
-
-    document.addEventListener("keydown", handleKeyDown);
-    return () => document.removeEventListener("keydown", handleKeyDown);
-  }, [showAddTaskDialog, showFocusModeExitConfirmation, pause, restart, start]);
-
-  const playNotificationSound = () => {
-    if (audioRef.current && audioLoaded) {
-      // Reset to start if already played
-      audioRef.current.currentTime = 0;
-      audioRef.current.play().catch((err) => {
-        console.error("Failed to play notification sound:", err);
-        // Fallback to system notification if audio fails
-        if ("Notification" in window && Notification.permission === "granted") {
-          new Notification("Timer Complete!", {
-            body: `Finished working on: ${task.title}`,
-          });
         }
-      });
-    }
-  };
+      },
+      "focus-toggle-timer": () => focusTimer.toggle(),
+    },
+    !showFocusModeExitConfirmation,
+  );
 
   const handleTimerChange = (delta: number) => {
     const newMinutes = Math.max(1, Math.min(60, timerMinutes + delta));
-    setTimerMinutes(newMinutes);
-    if (!isRunning) {
-      restart(getExpiryTimestamp(newMinutes * 60), false);
-      pausedTimeRef.current = null;
-    }
+    focusTimer.setTime(newMinutes * 60, newMinutes);
   };
 
   const handleSecondsChange = (delta: number) => {
     const newSeconds = Math.max(0, Math.min(3600, totalSeconds + delta));
-    const newMinutes = Math.ceil(newSeconds / 60);
-    setTimerMinutes(newMinutes);
-    if (!isRunning) {
-      restart(getExpiryTimestamp(newSeconds), false);
-      pausedTimeRef.current = null;
-    }
+    focusTimer.setTime(newSeconds, Math.ceil(newSeconds / 60));
   };
 
   const handleTimerInputChange = (value: string) => {
     const numValue = parseInt(value, 10);
     if (!isNaN(numValue) && numValue >= 1 && numValue <= 60) {
-      setTimerMinutes(numValue);
-      if (!isRunning) {
-        restart(getExpiryTimestamp(numValue * 60), false);
-        pausedTimeRef.current = null;
-      }
+      focusTimer.setTime(numValue * 60, numValue);
     }
   };
 
@@ -210,15 +164,6 @@ export const FocusMode = ({ task, onClose, onUpdate }: FocusModeProps) => {
     "minutes" | "seconds" | null
   >(null);
   const [pendingInput, setPendingInput] = useState("");
-  const pausedTimeRef = useRef<number | null>(null);
-  const isRunningRef = useRef(isRunning);
-  const totalSecondsRef = useRef(totalSeconds);
-
-  // Keep the refs in sync
-  useEffect(() => {
-    isRunningRef.current = isRunning;
-    totalSecondsRef.current = totalSeconds;
-  }, [isRunning, totalSeconds]);
 
   const handleTimeLeftClick = () => {
     const input = timeInputRef.current;
@@ -287,7 +232,7 @@ export const FocusMode = ({ task, onClose, onUpdate }: FocusModeProps) => {
         // First digit of minutes
         const newValue = `${newInput.padStart(2, "0")}:${currentSecs}`;
         input.value = newValue;
-        handleTimeLeftChange(newValue, true);
+        handleTimeLeftChange(newValue);
         setTimeout(() => input.setSelectionRange(1, 1), 0);
       } else if (newInput.length === 2) {
         // Second digit of minutes
@@ -295,7 +240,7 @@ export const FocusMode = ({ task, onClose, onUpdate }: FocusModeProps) => {
         if (mins <= 59) {
           const newValue = `${newInput}:${currentSecs}`;
           input.value = newValue;
-          handleTimeLeftChange(newValue, true);
+          handleTimeLeftChange(newValue);
           setTimeout(() => input.setSelectionRange(2, 2), 0);
         }
       } else if (newInput.length > 2) {
@@ -308,7 +253,7 @@ export const FocusMode = ({ task, onClose, onUpdate }: FocusModeProps) => {
         if (mins <= 59 && secs <= 59) {
           const newValue = `${minsStr}:${secsStr.padStart(2, "0")}`;
           input.value = newValue;
-          handleTimeLeftChange(newValue, true);
+          handleTimeLeftChange(newValue);
           setEditingSection("seconds");
           setPendingInput(secsStr);
           setTimeout(
@@ -327,7 +272,7 @@ export const FocusMode = ({ task, onClose, onUpdate }: FocusModeProps) => {
         // First digit of seconds
         const newValue = `${currentMins}:${newInput.padStart(2, "0")}`;
         input.value = newValue;
-        handleTimeLeftChange(newValue, true);
+        handleTimeLeftChange(newValue);
         setTimeout(() => input.setSelectionRange(4, 4), 0);
       } else if (newInput.length >= 2) {
         // Second digit of seconds
@@ -335,7 +280,7 @@ export const FocusMode = ({ task, onClose, onUpdate }: FocusModeProps) => {
         if (secs <= 59) {
           const newValue = `${currentMins}:${newInput.slice(0, 2)}`;
           input.value = newValue;
-          handleTimeLeftChange(newValue, true);
+          handleTimeLeftChange(newValue);
           setTimeout(() => input.setSelectionRange(5, 5), 0);
           setPendingInput(newInput.slice(0, 2));
         }
@@ -343,7 +288,7 @@ export const FocusMode = ({ task, onClose, onUpdate }: FocusModeProps) => {
     }
   };
 
-  const handleTimeLeftChange = (value: string, wasUserEdit = false) => {
+  const handleTimeLeftChange = (value: string) => {
     // Parse MM:SS format
     const parts = value.split(":");
     if (parts.length === 2) {
@@ -358,38 +303,38 @@ export const FocusMode = ({ task, onClose, onUpdate }: FocusModeProps) => {
         secs <= 59
       ) {
         const newTotalSeconds = mins * 60 + secs;
-        setTimerMinutes(Math.ceil(newTotalSeconds / 60));
-
-        // Only restart the timer if user is manually editing
-        if (wasUserEdit) {
-          restart(getExpiryTimestamp(newTotalSeconds), false);
-          pausedTimeRef.current = null;
-        }
+        focusTimer.setTime(newTotalSeconds, Math.ceil(newTotalSeconds / 60));
       }
     }
   };
 
   const handleReset = () => {
-    restart(getExpiryTimestamp(timerMinutes * 60), false);
-    pausedTimeRef.current = null;
+    focusTimer.reset();
   };
 
+  // A running timer keeps going in the background, a paused one is put away
+  // with the time left saved on the task
   const handleSave = async () => {
+    if (!isRunning) {
+      focusTimer.stop();
+    }
     await onUpdate(task.id, {
       title: title.trim() || task.title,
       description: description.trim() || undefined,
-      timePeriod: timerMinutes,
-      timeLeft: totalSeconds,
+      timePeriod: workMinutes,
+      // After a break the next session starts with a full work phase
+      timeLeft: isRunning || onBreak ? undefined : totalSeconds,
     });
     onClose();
   };
 
   const handleDone = async () => {
+    focusTimer.stop();
     // Save title, description and timer, then mark as complete
     await onUpdate(task.id, {
       title: title.trim() || task.title,
       description: description.trim() || undefined,
-      timePeriod: timerMinutes,
+      timePeriod: workMinutes,
       timeLeft: undefined, // Clear saved time when completing task
       completed: true,
     });
@@ -412,23 +357,13 @@ export const FocusMode = ({ task, onClose, onUpdate }: FocusModeProps) => {
   }, [showFocusModeExitConfirmation]);
 
   // Handle keyboard events in focus mode exit confirmation dialog
-  useEffect(() => {
-    if (!showFocusModeExitConfirmation) return;
-
-    const handleExitDialogKeyDown = (e: KeyboardEvent) => {
-      if (e.key === "Enter") {
-        e.preventDefault();
-        handleSave();
-      } else if (e.key === "Escape") {
-        e.preventDefault();
-        setShowFocusModeExitConfirmation(false);
-      }
-    };
-
-    document.addEventListener("keydown", handleExitDialogKeyDown);
-    return () =>
-      document.removeEventListener("keydown", handleExitDialogKeyDown);
-  }, [showFocusModeExitConfirmation, handleSave]);
+  useShortcuts(
+    {
+      confirm: () => handleSave(),
+      close: () => setShowFocusModeExitConfirmation(false),
+    },
+    showFocusModeExitConfirmation,
+  );
 
   const formatTime = (mins: number, secs: number) => {
     return `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
@@ -438,6 +373,13 @@ export const FocusMode = ({ task, onClose, onUpdate }: FocusModeProps) => {
   const percentage =
     maxSeconds > 0 ? ((maxSeconds - totalSeconds) / maxSeconds) * 100 : 0;
   const circumference = 2 * Math.PI * 150; // Updated to match new radius
+  const phaseColor = onBreak ? "#22c55e" : "#f97316";
+  const cyclePosition = getCyclePosition(pomodoro, pomodoroSettings);
+
+  // Suggest what to pick up once the break is over
+  const breakSuggestion = onBreak
+    ? getBreakSuggestion(getTodayTasksList(), task.id)
+    : null;
   const strokeDashoffset = circumference - (percentage / 100) * circumference;
 
   return (
@@ -490,6 +432,51 @@ export const FocusMode = ({ task, onClose, onUpdate }: FocusModeProps) => {
             width: "100%",
           }}
         >
+          {/* Pomodoro phase and cycle counter */}
+          <div
+            style={{
+              display: "flex",
+              flexDirection: "column",
+              alignItems: "center",
+              gap: "8px",
+              marginBottom: "24px",
+            }}
+          >
+            <div className="text-lg font-medium" style={{ color: phaseColor }}>
+              {PHASE_LABELS[pomodoro.phase]}
+            </div>
+            <div
+              style={{ display: "flex", gap: "6px" }}
+              role="img"
+              aria-label={`Pomodoro ${cyclePosition} of ${pomodoroSettings.longBreakInterval}`}
+            >
+              {Array.from(
+                { length: pomodoroSettings.longBreakInterval },
+                (_, i) => (
+                  <span
+                    key={i}
+                    className={
+                      i < cyclePosition - (onBreak ? 0 : 1)
+                        ? "bg-orange-500"
+                        : i === cyclePosition - 1
+                          ? "border-2 border-orange-500"
+                          : "bg-muted"
+                    }
+                    style={{
+                      width: "10px",
+                      height: "10px",
+                      borderRadius: "9999px",
+                    }}
+                  />
+                ),
+              )}
+            </div>
+            <div className="text-muted-foreground text-sm">
+              {pomodoro.completedWork}{" "}
+              {pomodoro.completedWork === 1 ? "pomodoro" : "pomodoros"} done
+            </div>
+          </div>
+
           {/* Circular Timer */}
           <div
             style={{
@@ -526,7 +513,7 @@ export const FocusMode = ({ task, onClose, onUpdate }: FocusModeProps) => {
                 cx="160"
                 cy="160"
                 r="150"
-                stroke="#f97316"
+                stroke={phaseColor}
                 strokeWidth="12"
                 fill="none"
                 strokeDasharray={circumference}
@@ -649,39 +636,10 @@ export const FocusMode = ({ task, onClose, onUpdate }: FocusModeProps) => {
           {/* Play/Pause and Reset buttons */}
           <div style={{ display: "flex", gap: "16px", marginBottom: "32px" }}>
             <Button
-              onClick={() => {
-                // Preload audio on first user interaction
-                if (!isRunning && audioRef.current && !audioLoaded) {
-                  audioRef.current
-                    .play()
-                    .then(() => {
-                      audioRef.current?.pause();
-                      if (audioRef.current) {
-                        audioRef.current.currentTime = 0;
-                      }
-                      setAudioLoaded(true);
-                    })
-                    .catch(() => {
-                      // Audio preload failed, but continue anyway
-                      setAudioLoaded(false);
-                    });
-                }
-                if (isRunning) {
-                  // Pause the timer
-                  pause();
-                  pausedTimeRef.current = totalSecondsRef.current;
-                } else if (pausedTimeRef.current !== null) {
-                  // Resume from paused state - restart with saved time
-                  restart(getExpiryTimestamp(pausedTimeRef.current), true);
-                  pausedTimeRef.current = null;
-                } else {
-                  // Start fresh
-                  start();
-                }
-              }}
+              onClick={() => focusTimer.toggle()}
               size="lg"
               style={{
-                backgroundColor: "#f97316",
+                backgroundColor: phaseColor,
                 color: "white",
                 paddingLeft: "48px",
                 paddingRight: "48px",
@@ -719,6 +677,35 @@ export const FocusMode = ({ task, onClose, onUpdate }: FocusModeProps) => {
               Reset
             </Button>
           </div>
+
+          {/* Break screen */}
+          {onBreak && (
+            <div
+              className="rounded-lg border p-4"
+              style={{ width: "100%", maxWidth: "448px" }}
+            >
+              <div className="text-muted-foreground text-sm">
+                Up next from Today
+              </div>
+              {breakSuggestion ? (
+                <div className="mt-1 truncate font-medium">
+                  {breakSuggestion.title}
+                </div>
+              ) : (
+                <div className="mt-1 text-sm">
+                  Nothing else left on today&apos;s list.
+                </div>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                className="mt-3"
+                onClick={() => focusTimer.skip()}
+              >
+                Skip break
+              </Button>
+            </div>
+          )}
         </div>
 
         {/* Instructions */}
@@ -809,7 +796,7 @@ export const FocusMode = ({ task, onClose, onUpdate }: FocusModeProps) => {
               {task.dueDate && (
                 <div style={{ marginBottom: "8px" }}>
                   <span style={{ fontWeight: "500" }}>Due:</span>{" "}
-                  {new Date(task.dueDate).toLocaleDateString()}
+                  {keyToLocalDate(getDueKey(task)!).toLocaleDateString()}
                 </div>
               )}
               {task.projectId && (
@@ -875,7 +862,7 @@ export const FocusMode = ({ task, onClose, onUpdate }: FocusModeProps) => {
             onAddSubtask={async (title) => {
               const subtaskId = await addTask(
                 title,
-                task.projectId,
+                task.projectId ?? undefined,
                 undefined,
                 false,
                 undefined,
@@ -907,7 +894,7 @@ export const FocusMode = ({ task, onClose, onUpdate }: FocusModeProps) => {
       <AddTaskModal
         isOpen={showAddTaskDialog}
         onClose={() => setShowAddTaskDialog(false)}
-        defaultProjectId={task.projectId}
+        defaultProjectId={task.projectId ?? undefined}
       />
 
       {/* Exit Confirmation Dialog for Focus Mode */}
@@ -0,0 +1,263 @@
+"use client";
+
+import { Trash2 } from "lucide-react";
+import { useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useTasks } from "@/hooks/use-tasks";
+import {
+  buildTimeReport,
+  formatDuration,
+  getSessionDateKey,
+  TimeEntry,
+} from "@/lib/focus-sessions";
+import { addDays, getTodayKey } from "@/lib/local-date";
+
+// Quick ranges, as the number of days ending today
+const PRESETS = [
+  { label: "Today", days: 1 },
+  { label: "7 days", days: 7 },
+  { label: "30 days", days: 30 },
+  { label: "90 days", days: 90 },
+];
+
+// Number of sessions listed under the totals
+const RECENT_SESSIONS = 20;
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+interface TimeTableProps {
+  title: string;
+  entries: TimeEntry[];
+  totalSeconds: number;
+  emptyText: string;
+}
+
+const TimeTable = ({
+  title,
+  entries,
+  totalSeconds,
+  emptyText,
+}: TimeTableProps) => (
+  <section className="space-y-2">
+    <h3 className="text-muted-foreground text-sm font-medium">{title}</h3>
+    {entries.length === 0 ? (
+      <p className="text-muted-foreground text-sm">{emptyText}</p>
+    ) : (
+      <table className="w-full text-sm">
+        <thead className="sr-only">
+          <tr>
+            <th>Name</th>
+            <th>Sessions</th>
+            <th>Time</th>
+          </tr>
+        </thead>
+        <tbody>
+          {entries.map((entry) => (
+            <tr key={entry.id ?? "none"} className="border-b last:border-b-0">
+              <td className="py-2 pr-3">
+                <div className="truncate">{entry.name}</div>
+                <div className="bg-muted mt-1 h-1.5 rounded-full">
+                  <div
+                    className="h-full rounded-full bg-orange-500"
+                    style={{
+                      width: `${totalSeconds > 0 ? (entry.seconds / totalSeconds) * 100 : 0}%`,
+                    }}
+                  />
+                </div>
+              </td>
+              <td className="text-muted-foreground w-24 py-2 text-right">
+                {entry.sessions} {entry.sessions === 1 ? "session" : "sessions"}
+              </td>
+              <td className="w-20 py-2 text-right font-medium tabular-nums">
+                {formatDuration(entry.seconds)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </section>
+);
+
+export const FocusReportView = () => {
+  const {
+    focusSessions,
+    tasks,
+    projects,
+    tags,
+    taskTags,
+    trashedTasks,
+    trashedProjects,
+    trashedTags,
+    deleteFocusSession,
+  } = useTasks();
+
+  // Time spent on items in the trash still counts
+  const allTasks = [...tasks, ...trashedTasks];
+
+  const today = getTodayKey();
+  const [from, setFrom] = useState(addDays(today, -6));
+  const [to, setTo] = useState(today);
+
+  const report = buildTimeReport(focusSessions, from, to, {
+    tasks: allTasks,
+    projects: [...projects, ...trashedProjects],
+    tags: [...tags, ...trashedTags],
+    taskTags,
+  });
+
+  const recentSessions = focusSessions
+    .filter((session) => {
+      const dateKey = getSessionDateKey(session);
+      return dateKey >= from && dateKey <= to;
+    })
+    .sort((a, b) => b.start.localeCompare(a.start))
+    .slice(0, RECENT_SESSIONS);
+
+  const getTaskTitle = (taskId: string) =>
+    allTasks.find((t) => t.id === taskId)?.title ?? "Deleted task";
+
+  return (
+    <div className="flex-1 overflow-y-auto p-6">
+      <div className="mx-auto max-w-4xl space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold">Focus Time</h1>
+          <p className="text-muted-foreground">
+            Time spent in focus mode, per task, project and tag.
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {PRESETS.map(({ label, days }) => {
+            const presetFrom = addDays(today, -(days - 1));
+            const active = from === presetFrom && to === today;
+            return (
+              <Button
+                key={label}
+                variant={active ? "secondary" : "ghost"}
+                size="sm"
+                aria-pressed={active}
+                onClick={() => {
+                  setFrom(presetFrom);
+                  setTo(today);
+                }}
+              >
+                {label}
+              </Button>
+            );
+          })}
+          <div className="ml-auto flex items-center gap-2 text-sm">
+            <Input
+              type="date"
+              aria-label="From"
+              value={from}
+              max={to}
+              onChange={(e) => e.target.value && setFrom(e.target.value)}
+              className="w-40"
+            />
+            <span className="text-muted-foreground">to</span>
+            <Input
+              type="date"
+              aria-label="To"
+              value={to}
+              min={from}
+              onChange={(e) => e.target.value && setTo(e.target.value)}
+              className="w-40"
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-3 gap-3">
+          <div className="rounded-lg border p-3">
+            <div className="text-muted-foreground text-xs">Focused</div>
+            <div className="text-xl font-semibold">
+              {formatDuration(report.totalSeconds)}
+            </div>
+          </div>
+          <div className="rounded-lg border p-3">
+            <div className="text-muted-foreground text-xs">Sessions</div>
+            <div className="text-xl font-semibold">{report.sessions}</div>
+          </div>
+          <div className="rounded-lg border p-3">
+            <div className="text-muted-foreground text-xs">Ran to the end</div>
+            <div className="text-xl font-semibold">
+              {report.completedSessions}
+            </div>
+          </div>
+        </div>
+
+        {report.sessions === 0 ? (
+          <div className="text-muted-foreground py-12 text-center">
+            <p>No focus sessions in this period.</p>
+            <p className="text-sm">
+              Double-click a task to start a focus session.
+            </p>
+          </div>
+        ) : (
+          <>
+            <TimeTable
+              title="By task"
+              entries={report.byTask}
+              totalSeconds={report.totalSeconds}
+              emptyText="No tasks."
+            />
+            <TimeTable
+              title="By project"
+              entries={report.byProject}
+              totalSeconds={report.totalSeconds}
+              emptyText="No projects."
+            />
+            <TimeTable
+              title="By tag"
+              entries={report.byTag}
+              totalSeconds={report.totalSeconds}
+              emptyText="None of these tasks have tags."
+            />
+
+            <section className="space-y-2">
+              <h3 className="text-muted-foreground text-sm font-medium">
+                Sessions
+              </h3>
+              <ul className="space-y-1">
+                {recentSessions.map((session) => (
+                  <li
+                    key={session.id}
+                    className="flex items-center justify-between gap-3 rounded-md border p-2 text-sm"
+                  >
+                    <div className="min-w-0">
+                      <p className="truncate">{getTaskTitle(session.taskId)}</p>
+                      <p className="text-muted-foreground text-xs">
+                        {formatTime(session.start)} ·{" "}
+                        {formatDuration(session.actualSeconds)} of{" "}
+                        {formatDuration(session.plannedSeconds)}
+                        {session.interrupted && " · stopped early"}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="text-muted-foreground hover:text-destructive h-8 w-8 flex-shrink-0"
+                      onClick={() => deleteFocusSession(session.id)}
+                      title="Delete session"
+                      aria-label={`Delete session on "${getTaskTitle(session.taskId)}"`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
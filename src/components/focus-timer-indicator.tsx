@@ -0,0 +1,96 @@
+"use client";
+
+import { Pause, Play, Square } from "lucide-react";
+import { useEffect, useRef } from "react";
+
+import { useFocusTimer } from "@/hooks/use-focus-timer";
+import { useTasks } from "@/hooks/use-tasks";
+import { focusTimer } from "@/lib/focus-timer";
+import { isBreak, PHASE_LABELS } from "@/lib/pomodoro";
+
+interface FocusTimerIndicatorProps {
+  /** Hide the indicator while focus mode shows the timer itself */
+  hidden: boolean;
+  onOpen: (taskId: string) => void;
+}
+
+const formatTime = (totalSeconds: number) => {
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")}`;
+};
+
+/**
+ * Shows the focus timer while it runs outside focus mode, and logs the sessions
+ * that end in this tab
+ */
+export const FocusTimerIndicator = ({
+  hidden,
+  onOpen,
+}: FocusTimerIndicatorProps) => {
+  const { logFocusSession } = useTasks();
+  const { timer, isRunning, secondsLeft } = useFocusTimer();
+
+  // Log through the latest logFocusSession without resubscribing every render
+  const logFocusSessionRef = useRef(logFocusSession);
+  useEffect(() => {
+    logFocusSessionRef.current = logFocusSession;
+  });
+
+  useEffect(
+    () =>
+      focusTimer.onSessionEnd((session) => {
+        void logFocusSessionRef.current(session);
+      }),
+    [],
+  );
+
+  if (hidden || !timer) return null;
+
+  return (
+    <div
+      role="status"
+      className="bg-background fixed bottom-6 left-6 z-30 flex items-center gap-1 rounded-full border py-1 pr-1 pl-4 shadow-lg"
+    >
+      <button
+        onClick={() => onOpen(timer.taskId)}
+        className="flex items-center gap-2 text-sm"
+        title="Open focus mode"
+      >
+        <span
+          className={
+            isBreak(timer.phase)
+              ? "font-medium text-green-600"
+              : "font-medium text-orange-500"
+          }
+        >
+          {PHASE_LABELS[timer.phase]}
+        </span>
+        <span className="font-semibold tabular-nums">
+          {formatTime(secondsLeft)}
+        </span>
+        <span className="text-muted-foreground max-w-48 truncate">
+          {timer.taskTitle}
+        </span>
+      </button>
+      <button
+        onClick={() => focusTimer.toggle()}
+        className="hover:bg-muted rounded-full p-2"
+        aria-label={isRunning ? "Pause timer" : "Resume timer"}
+      >
+        {isRunning ? (
+          <Pause className="h-4 w-4" />
+        ) : (
+          <Play className="h-4 w-4" />
+        )}
+      </button>
+      <button
+        onClick={() => focusTimer.stop()}
+        className="hover:bg-muted rounded-full p-2"
+        aria-label="Stop timer"
+      >
+        <Square className="h-4 w-4" />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,403 @@
+"use client";
+
+import { Flame, Trophy } from "lucide-react";
+import { useMemo, useRef, useState } from "react";
+
+import { DAY_STYLES } from "@/components/completion-calendar";
+import { Button } from "@/components/ui/button";
+import { useTasks } from "@/hooks/use-tasks";
+import {
+  calculateHabitScore,
+  getBestWeekday,
+  getPeriodRates,
+  getWeekdayRates,
+  getYearHeatmap,
+  HeatmapCell,
+  Period,
+  PeriodRate,
+} from "@/lib/habit-stats";
+import { getTodayKey, keyToLocalDate } from "@/lib/local-date";
+import {
+  describeRecurrence,
+  getRecurrenceRule,
+  Weekday,
+} from "@/lib/recurrence";
+import {
+  calculateCompletionRate,
+  calculateLongestStreak,
+  calculateStreak,
+} from "@/lib/streak";
+import { Task } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+  SU: "Sunday",
+  MO: "Monday",
+  TU: "Tuesday",
+  WE: "Wednesday",
+  TH: "Thursday",
+  FR: "Friday",
+  SA: "Saturday",
+};
+
+// Number of weeks or months shown in the completion rate chart
+const PERIOD_COUNT = 12;
+
+const formatDate = (dateKey: string, options: Intl.DateTimeFormatOptions) =>
+  keyToLocalDate(dateKey).toLocaleDateString("en-US", options);
+
+const formatRate = (rate: number | null) => (rate === null ? "–" : `${rate}%`);
+
+const formatPeriod = (period: Period, { start }: PeriodRate) =>
+  period === "week"
+    ? formatDate(start, { month: "short", day: "numeric" })
+    : formatDate(start, { month: "short" });
+
+interface StatProps {
+  label: string;
+  value: React.ReactNode;
+}
+
+const Stat = ({ label, value }: StatProps) => (
+  <div className="rounded-lg border p-3">
+    <div className="text-muted-foreground text-xs">{label}</div>
+    <div className="text-xl font-semibold">{value}</div>
+  </div>
+);
+
+interface RateBarsProps {
+  label: string;
+  bars: { key: string; label: string; title: string; rate: number | null }[];
+  highlightKey?: string;
+}
+
+const RateBars = ({ label, bars, highlightKey }: RateBarsProps) => (
+  <ul className="flex h-32 items-end gap-1" aria-label={label}>
+    {bars.map((bar) => (
+      <li
+        key={bar.key}
+        className="flex h-full flex-1 flex-col items-center justify-end gap-1"
+        title={bar.title}
+      >
+        <div
+          className={cn(
+            "w-full rounded-t",
+            bar.key === highlightKey ? "bg-green-600" : "bg-green-400",
+            bar.rate === null && "bg-muted",
+          )}
+          style={{ height: `${Math.max(bar.rate ?? 0, 2)}%` }}
+        />
+        <span className="text-muted-foreground truncate text-[10px]">
+          {bar.label}
+        </span>
+        <span className="sr-only">{bar.title}</span>
+      </li>
+    ))}
+  </ul>
+);
+
+interface HeatmapProps {
+  task: Task;
+  today: string;
+}
+
+const Heatmap = ({ task, today }: HeatmapProps) => {
+  const weeks = useMemo(() => getYearHeatmap(task, today), [task, today]);
+  const gridRef = useRef<HTMLDivElement>(null);
+
+  // Roving focus: only the active day is in the tab order
+  const lastWeek = weeks.length - 1;
+  const [active, setActive] = useState({
+    week: lastWeek,
+    day: weeks[lastWeek].findIndex((cell) => cell?.date === today),
+  });
+  const activeCell = weeks[active.week]?.[active.day];
+
+  const describeCell = (cell: HeatmapCell) =>
+    `${formatDate(cell.date, {
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+    })}: ${DAY_STYLES[cell.state].label}`;
+
+  const moveTo = (week: number, day: number) => {
+    if (week < 0 || week > lastWeek || day < 0 || day > 6) return;
+    if (!weeks[week][day]) return; // Days after today
+    setActive({ week, day });
+    gridRef.current
+      ?.querySelector<HTMLElement>(`[data-cell="${week}-${day}"]`)
+      ?.focus();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const moves: Record<string, [number, number]> = {
+      ArrowLeft: [active.week - 1, active.day],
+      ArrowRight: [active.week + 1, active.day],
+      ArrowUp: [active.week, active.day - 1],
+      ArrowDown: [active.week, active.day + 1],
+      Home: [0, active.day],
+      End: [lastWeek, active.day],
+    };
+    const target = moves[e.key];
+    if (!target) return;
+
+    e.preventDefault();
+    // End lands on the last day that isn't in the future
+    if (e.key === "End" && !weeks[lastWeek][active.day]) {
+      moveTo(lastWeek - 1, active.day);
+    } else {
+      moveTo(...target);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="overflow-x-auto pb-1">
+        <div
+          ref={gridRef}
+          role="grid"
+          tabIndex={-1}
+          aria-label={`${task.title}: completions over the last year`}
+          className="flex gap-[3px]"
+          onKeyDown={handleKeyDown}
+        >
+          {weeks.map((week, weekIndex) => (
+            <div key={weekIndex} role="row" className="flex flex-col gap-[3px]">
+              {week.map((cell, dayIndex) =>
+                cell ? (
+                  <div
+                    key={cell.date}
+                    role="gridcell"
+                    data-cell={`${weekIndex}-${dayIndex}`}
+                    tabIndex={
+                      weekIndex === active.week && dayIndex === active.day
+                        ? 0
+                        : -1
+                    }
+                    onFocus={() =>
+                      setActive({ week: weekIndex, day: dayIndex })
+                    }
+                    aria-label={describeCell(cell)}
+                    title={describeCell(cell)}
+                    className={cn(
+                      "focus-visible:ring-primary h-3 w-3 rounded-sm border outline-none focus-visible:ring-2",
+                      DAY_STYLES[cell.state].className,
+                    )}
+                  />
+                ) : (
+                  <div key={dayIndex} role="gridcell" className="h-3 w-3" />
+                ),
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+      <p className="text-muted-foreground text-xs" aria-live="polite">
+        {activeCell
+          ? describeCell(activeCell)
+          : "Use the arrow keys to move between days"}
+      </p>
+    </div>
+  );
+};
+
+interface HabitDetailsProps {
+  task: Task;
+  today: string;
+}
+
+const HabitDetails = ({ task, today }: HabitDetailsProps) => {
+  const [period, setPeriod] = useState<Period>("week");
+
+  const periodRates = getPeriodRates(task, period, PERIOD_COUNT, today);
+  const weekdayRates = getWeekdayRates(task, today);
+  const bestWeekday = getBestWeekday(weekdayRates);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-xl font-semibold">{task.title}</h2>
+        <p className="text-muted-foreground text-sm">
+          {describeRecurrence(getRecurrenceRule(task))}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+        <Stat
+          label="Current streak"
+          value={
+            <span className="flex items-center gap-1">
+              <Flame className="h-5 w-5 text-orange-500" />
+              {calculateStreak(task)}
+            </span>
+          }
+        />
+        <Stat label="Longest streak" value={calculateLongestStreak(task)} />
+        <Stat
+          label="Last 30 days"
+          value={`${calculateCompletionRate(task)}%`}
+        />
+        <Stat
+          label="Best day"
+          value={bestWeekday ? WEEKDAY_NAMES[bestWeekday.weekday] : "–"}
+        />
+      </div>
+
+      <section className="space-y-2">
+        <h3 className="text-muted-foreground text-sm font-medium">Last year</h3>
+        {/* Remount when the habit changes so focus starts at today again */}
+        <Heatmap key={task.id} task={task} today={today} />
+      </section>
+
+      <section className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h3 className="text-muted-foreground text-sm font-medium">
+            Completion rate
+          </h3>
+          <div className="flex gap-1" role="group" aria-label="Period">
+            {(["week", "month"] as const).map((option) => (
+              <Button
+                key={option}
+                variant={period === option ? "secondary" : "ghost"}
+                size="sm"
+                aria-pressed={period === option}
+                onClick={() => setPeriod(option)}
+              >
+                {option === "week" ? "Weekly" : "Monthly"}
+              </Button>
+            ))}
+          </div>
+        </div>
+        <RateBars
+          label={`${period === "week" ? "Weekly" : "Monthly"} completion rate`}
+          bars={periodRates.map((rate) => ({
+            key: rate.start,
+            label: formatPeriod(period, rate),
+            title: `${formatPeriod(period, rate)}: ${formatRate(rate.rate)} (${rate.completed}/${rate.total})`,
+            rate: rate.rate,
+          }))}
+        />
+      </section>
+
+      <section className="space-y-2">
+        <h3 className="text-muted-foreground text-sm font-medium">
+          By day of the week
+        </h3>
+        <RateBars
+          label="Completion rate by day of the week"
+          highlightKey={bestWeekday?.weekday}
+          bars={weekdayRates.map((rate) => ({
+            key: rate.weekday,
+            label: WEEKDAY_NAMES[rate.weekday].slice(0, 3),
+            title: `${WEEKDAY_NAMES[rate.weekday]}: ${formatRate(rate.rate)} (${rate.completed}/${rate.total})`,
+            rate: rate.rate,
+          }))}
+        />
+      </section>
+    </div>
+  );
+};
+
+export const HabitsView = () => {
+  const { getDailyTasks } = useTasks();
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const habits = getDailyTasks()
+    .filter((task) => !task.parentTaskId)
+    .sort((a, b) => a.order - b.order);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = habits.find((t) => t.id === selectedId) ?? habits[0];
+
+  const today = getTodayKey();
+  const score = calculateHabitScore(habits, today);
+
+  const handleListKeyDown = (e: React.KeyboardEvent) => {
+    const index = habits.findIndex((t) => t.id === selected?.id);
+    const targets: Record<string, number> = {
+      ArrowUp: Math.max(index - 1, 0),
+      ArrowDown: Math.min(index + 1, habits.length - 1),
+      Home: 0,
+      End: habits.length - 1,
+    };
+    const target = targets[e.key];
+    if (target === undefined) return;
+
+    e.preventDefault();
+    setSelectedId(habits[target].id);
+    listRef.current
+      ?.querySelector<HTMLElement>(`[data-habit="${habits[target].id}"]`)
+      ?.focus();
+  };
+
+  return (
+    <div className="flex-1 overflow-y-auto p-6">
+      <div className="mx-auto max-w-5xl">
+        <div className="mb-6 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold">Habits</h1>
+            <p className="text-muted-foreground">
+              How your recurring tasks are going.
+            </p>
+          </div>
+          {habits.length > 0 && (
+            <div className="flex items-center gap-2 rounded-lg border px-4 py-2">
+              <Trophy className="h-5 w-5 text-amber-500" />
+              <div>
+                <div className="text-xl font-semibold">{formatRate(score)}</div>
+                <div className="text-muted-foreground text-xs">
+                  All habits, last 30 days
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {habits.length === 0 ? (
+          <div className="text-muted-foreground py-12 text-center">
+            <p>No habits yet.</p>
+            <p className="text-sm">
+              Make a task recurring to start tracking it here.
+            </p>
+          </div>
+        ) : (
+          <div className="flex flex-col gap-6 md:flex-row">
+            <ul
+              ref={listRef}
+              role="listbox"
+              aria-label="Habits"
+              className="space-y-1 md:w-64 md:flex-shrink-0"
+            >
+              {habits.map((task) => (
+                <li
+                  key={task.id}
+                  role="option"
+                  data-habit={task.id}
+                  aria-selected={task.id === selected?.id}
+                  tabIndex={task.id === selected?.id ? 0 : -1}
+                  onClick={() => setSelectedId(task.id)}
+                  onKeyDown={handleListKeyDown}
+                  className={cn(
+                    "hover:bg-muted focus-visible:ring-primary flex cursor-pointer items-center justify-between gap-2 rounded-md p-2 outline-none focus-visible:ring-2",
+                    task.id === selected?.id && "bg-muted font-medium",
+                  )}
+                >
+                  <span className="truncate">{task.title}</span>
+                  <span className="text-muted-foreground flex flex-shrink-0 items-center gap-1 text-xs">
+                    <Flame className="h-3 w-3 text-orange-500" />
+                    {calculateStreak(task)}
+                    <span>· {calculateCompletionRate(task)}%</span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+
+            <div className="min-w-0 flex-1">
+              {selected && <HabitDetails task={selected} today={today} />}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
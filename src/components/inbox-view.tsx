@@ -3,7 +3,9 @@
 import { ChevronDown, ChevronRight } from "lucide-react";
 import { useState } from "react";
 
+import { BulkActionBar } from "@/components/bulk-action-bar";
 import { TaskItem } from "@/components/task-item";
+import { useTaskListNavigation } from "@/hooks/use-task-list-navigation";
 import { useTasks } from "@/hooks/use-tasks";
 import { Task } from "@/lib/types";
 
@@ -16,16 +18,24 @@ export const InboxView = ({
   onTaskClick,
   onTaskDoubleClick,
 }: InboxViewProps) => {
-  const { getInboxTasks, updateTask, deleteTask } = useTasks();
+  const { getInboxTasks, updateTask, deleteTask, reorderTasks } = useTasks();
   const [showCompletedTasks, setShowCompletedTasks] = useState(false);
 
   const allInboxTasks = getInboxTasks().filter((task) => !task.parentTaskId);
   const inboxTasks = allInboxTasks.filter((task) => !task.completed);
   const completedTasks = allInboxTasks.filter((task) => task.completed);
 
+  const { listRef, getItemProps, selectedTasks, clearSelection } =
+    useTaskListNavigation({
+      onToggle: (id, completed) => updateTask(id, { completed }),
+      onFocus: onTaskDoubleClick,
+      reorderGroups: [inboxTasks],
+      onReorder: reorderTasks,
+    });
+
   return (
     <div className="flex-1 p-6">
-      <div className="mx-auto max-w-4xl">
+      <div ref={listRef} className="mx-auto max-w-4xl">
         <div className="mb-6 flex items-center justify-between">
           <h1 className="text-2xl font-bold">Inbox</h1>
         </div>
@@ -53,6 +63,7 @@ export const InboxView = ({
                   onUpdate={updateTask}
                   onClick={onTaskClick}
                   onDoubleClick={onTaskDoubleClick}
+                  {...getItemProps(task)}
                 />
               </div>
             ))
@@ -85,6 +96,7 @@ export const InboxView = ({
                     onUpdate={updateTask}
                     onClick={onTaskClick}
                     onDoubleClick={onTaskDoubleClick}
+                    {...getItemProps(task)}
                   />
                 ))}
               </div>
@@ -92,6 +104,7 @@ export const InboxView = ({
           </div>
         )}
       </div>
+      <BulkActionBar tasks={selectedTasks} onClear={clearSelection} />
     </div>
   );
 };
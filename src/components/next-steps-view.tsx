@@ -3,9 +3,17 @@
 import { Plus } from "lucide-react";
 import { useState } from "react";
 
+import { BulkActionBar } from "@/components/bulk-action-bar";
 import { TaskItem } from "@/components/task-item";
 import { Button } from "@/components/ui/button";
+import { useTaskListNavigation } from "@/hooks/use-task-list-navigation";
 import { useTasks } from "@/hooks/use-tasks";
+import {
+  compareByDueDate,
+  getNextStepsOrder,
+  NextStepsOrder,
+  setNextStepsOrder,
+} from "@/lib/due-dates";
 import { Task } from "@/lib/types";
 
 interface NextStepsViewProps {
@@ -20,7 +28,7 @@ export const NextStepsView = ({
   const {
     projects,
     getProjectTasks,
-    getDailyTasks,
+    getRecurringTasksDueToday,
     addTask,
     updateTask,
     deleteTask,
@@ -30,20 +38,23 @@ export const NextStepsView = ({
   const [isAddingTask, setIsAddingTask] = useState(false);
   const [taskTitle, setTaskTitle] = useState("");
   const [selectedProject, setSelectedProject] = useState("");
+  const [order, setOrder] = useState<NextStepsOrder>(getNextStepsOrder);
 
-  // Get incomplete daily tasks
-  const incompleteDailyTasks = getDailyTasks().filter(
+  // Get incomplete recurring tasks due today
+  const incompleteDailyTasks = getRecurringTasksDueToday().filter(
     (task) => !task.completed,
   );
 
-  // Get the first incomplete task from each project
+  // Get the first incomplete task from each project, or the one due soonest
   const nextSteps = projects
     .map((project) => {
-      const projectTasks = getProjectTasks(project.id);
-      const firstIncompleteTask = projectTasks.find((task) => !task.completed);
+      const incompleteTasks = getProjectTasks(project.id).filter(
+        (task) => !task.completed,
+      );
+      if (order === "dueDate") incompleteTasks.sort(compareByDueDate);
       return {
         project,
-        nextTask: firstIncompleteTask,
+        nextTask: incompleteTasks[0],
       };
     })
     .filter((item) => item.nextTask); // Only show projects that have incomplete tasks
@@ -56,6 +67,22 @@ export const NextStepsView = ({
     }
   };
 
+  const { listRef, getItemProps, selectedTasks, clearSelection } =
+    useTaskListNavigation({
+      onToggle: (id, completed) =>
+        handleToggle(
+          id,
+          completed,
+          incompleteDailyTasks.some((task) => task.id === id),
+        ),
+      onFocus: onTaskDoubleClick,
+    });
+
+  const handleOrderChange = (value: NextStepsOrder) => {
+    setOrder(value);
+    setNextStepsOrder(value);
+  };
+
   const handleAddTask = (e: React.FormEvent) => {
     e.preventDefault();
     if (taskTitle.trim() && selectedProject) {
@@ -76,13 +103,26 @@ export const NextStepsView = ({
               Today&apos;s tasks and first steps from each project
             </p>
           </div>
-          <Button
-            onClick={() => setIsAddingTask(true)}
-            className="flex cursor-pointer items-center gap-2"
-          >
-            <Plus className="h-4 w-4" />
-            Add Task
-          </Button>
+          <div className="flex items-center gap-2">
+            <select
+              value={order}
+              onChange={(e) =>
+                handleOrderChange(e.target.value as NextStepsOrder)
+              }
+              className="rounded-md border p-2 text-sm"
+              aria-label="Pick each project's next step"
+            >
+              <option value="order">First in project</option>
+              <option value="dueDate">Earliest due</option>
+            </select>
+            <Button
+              onClick={() => setIsAddingTask(true)}
+              className="flex cursor-pointer items-center gap-2"
+            >
+              <Plus className="h-4 w-4" />
+              Add Task
+            </Button>
+          </div>
         </div>
 
         {isAddingTask && (
@@ -146,7 +186,7 @@ export const NextStepsView = ({
           </form>
         )}
 
-        <div className="space-y-8">
+        <div ref={listRef} className="space-y-8">
           {/* Project Next Steps Section */}
           {nextSteps.length > 0 && (
             <div className="space-y-4">
@@ -170,6 +210,7 @@ export const NextStepsView = ({
                         onClick={onTaskClick}
                         onDoubleClick={onTaskDoubleClick}
                         isDaily={nextTask.isDaily}
+                        {...getItemProps(nextTask)}
                       />
                     )}
                   </div>
@@ -197,6 +238,7 @@ export const NextStepsView = ({
                     onClick={onTaskClick}
                     onDoubleClick={onTaskDoubleClick}
                     isDaily={true}
+                    {...getItemProps(task)}
                   />
                 ))}
               </div>
@@ -214,6 +256,7 @@ export const NextStepsView = ({
           )}
         </div>
       </div>
+      <BulkActionBar tasks={selectedTasks} onClear={clearSelection} />
     </div>
   );
 };
@@ -0,0 +1,104 @@
+"use client";
+
+import { Check, X } from "lucide-react";
+import { useSession } from "next-auth/react";
+import { useCallback, useEffect, useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { useTasks } from "@/hooks/use-tasks";
+import { ROLE_LABELS } from "@/lib/sharing";
+import { ProjectInvite } from "@/lib/types";
+
+interface ProjectInvitesProps {
+  onViewChange: (view: string) => void;
+}
+
+/**
+ * Invitations to other people's projects waiting for the signed-in user to answer
+ */
+export const ProjectInvites = ({ onViewChange }: ProjectInvitesProps) => {
+  const { getProjectInvites, acceptInvite, deleteInvite } = useTasks();
+  const { data: session } = useSession();
+  const [invites, setInvites] = useState<ProjectInvite[]>([]);
+  const [answering, setAnswering] = useState<string | null>(null);
+  const email = session?.user?.email?.toLowerCase();
+
+  // Owners also get back the invites they sent, so keep only those sent to this user
+  const loadInvites = useCallback(async () => {
+    const all = await getProjectInvites();
+    setInvites(all.filter((invite) => invite.email.toLowerCase() === email));
+  }, [getProjectInvites, email]);
+
+  useEffect(() => {
+    if (!email) return;
+    loadInvites().catch((err) =>
+      console.error("Failed to load project invites:", err),
+    );
+  }, [email, loadInvites]);
+
+  const answer = async (invite: ProjectInvite, accept: boolean) => {
+    setAnswering(invite.id);
+    try {
+      if (accept) {
+        await acceptInvite(invite.id);
+        onViewChange(invite.projectId);
+      } else {
+        await deleteInvite(invite.id);
+      }
+      await loadInvites();
+    } catch (err) {
+      console.error("Failed to answer project invite:", err);
+    } finally {
+      setAnswering(null);
+    }
+  };
+
+  if (invites.length === 0) return null;
+
+  return (
+    <div className="pt-4">
+      <h3 className="text-muted-foreground mb-2 text-sm font-medium">
+        Invitations
+      </h3>
+      <div className="space-y-1">
+        {invites.map((invite) => (
+          <div
+            key={invite.id}
+            className="flex items-center justify-between gap-1 rounded-md border p-2 text-sm"
+          >
+            <div className="min-w-0">
+              <div className="truncate font-medium">{invite.projectName}</div>
+              <div className="text-muted-foreground text-xs">
+                as {ROLE_LABELS[invite.role].toLowerCase()}
+              </div>
+            </div>
+            <div className="flex flex-shrink-0 items-center">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => answer(invite, true)}
+                disabled={answering !== null}
+                aria-label="Join project"
+                title="Join project"
+              >
+                <Check className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => answer(invite, false)}
+                disabled={answering !== null}
+                aria-label="Decline invite"
+                title="Decline invite"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -6,17 +6,37 @@ import {
   ChevronRight,
   GripVertical,
   Trash2,
+  Users,
 } from "lucide-react";
 import { useState } from "react";
 import ReactMarkdown from "react-markdown";
 
+import { BulkActionBar } from "@/components/bulk-action-bar";
+import { ShareProjectDialog } from "@/components/share-project-dialog";
 import { TagSelector } from "@/components/tag-selector";
 import { TaskItem } from "@/components/task-item";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { useTaskListNavigation } from "@/hooks/use-task-list-navigation";
 import { useTasks } from "@/hooks/use-tasks";
+import {
+  canEdit,
+  canManage,
+  getMemberName,
+  getProjectActivity,
+  ProjectActivity,
+} from "@/lib/sharing";
 import { Task } from "@/lib/types";
 import { cn } from "@/lib/utils";
 
+const formatActivityTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
 interface ProjectViewProps {
   projectId: string;
   onTaskClick: (task: Task) => void;
@@ -41,6 +61,10 @@ export const ProjectView = ({
     reorderTasks,
     addTagToProject,
     removeTagFromProject,
+    canShare,
+    currentUserId,
+    getProjectMembers,
+    getProjectRole,
   } = useTasks();
   const [draggedTask, setDraggedTask] = useState<string | null>(null);
   const [isEditingProjectName, setIsEditingProjectName] = useState(false);
@@ -49,9 +73,16 @@ export const ProjectView = ({
   const [editDescription, setEditDescription] = useState("");
   const [isDescriptionExpanded, setIsDescriptionExpanded] = useState(false);
   const [showCompletedTasks, setShowCompletedTasks] = useState(false);
+  const [isSharing, setIsSharing] = useState(false);
 
   const project = projects.find((p) => p.id === projectId);
 
+  // What this user may do here when the project is shared
+  const members = getProjectMembers(projectId);
+  const role = getProjectRole(projectId);
+  const editable = canEdit(role);
+  const isShared = members.length > 1;
+
   const allProjectTasks = getProjectTasks(projectId).filter(
     (task) => !task.parentTaskId,
   );
@@ -60,6 +91,16 @@ export const ProjectView = ({
 
   const completedTasks = allProjectTasks.filter((task) => task.completed);
 
+  const { listRef, getItemProps, selectedTasks, clearSelection } =
+    useTaskListNavigation({
+      onToggle: (id, completed) => {
+        if (editable) updateTask(id, { completed });
+      },
+      onFocus: onTaskDoubleClick,
+      reorderGroups: editable ? [projectTasks] : undefined,
+      onReorder: reorderTasks,
+    });
+
   console.log("[ProjectView] Rendering:", {
     projectId,
     totalTasks: allProjectTasks.length,
@@ -104,11 +145,7 @@ export const ProjectView = ({
   };
 
   const handleDeleteProject = () => {
-    if (
-      confirm(
-        `Are you sure you want to delete "${project.name}" and all its tasks?`,
-      )
-    ) {
+    if (confirm(`Move "${project.name}" and all its tasks to the trash?`)) {
       deleteProject(projectId);
       onViewChange("inbox");
     }
@@ -120,6 +157,7 @@ export const ProjectView = ({
   };
 
   const handleProjectNameClick = () => {
+    if (!editable) return;
     setIsEditingProjectName(true);
     setEditProjectName(project.name);
   };
@@ -137,6 +175,7 @@ export const ProjectView = ({
   };
 
   const handleDescriptionClick = () => {
+    if (!editable) return;
     setIsEditingDescription(true);
     setEditDescription(project.description || "");
   };
@@ -166,6 +205,13 @@ export const ProjectView = ({
     removeTagFromProject(projectId, tagId);
   };
 
+  const getActivityName = (activity: ProjectActivity) =>
+    activity.userId === currentUserId
+      ? "You"
+      : getMemberName(
+          members.find((member) => member.userId === activity.userId),
+        );
+
   return (
     <div className="flex-1 p-6">
       <div className="mx-auto max-w-4xl">
@@ -173,6 +219,7 @@ export const ProjectView = ({
           <div className="flex items-center gap-3">
             <button
               onClick={handleCompleteProject}
+              disabled={!editable}
               className={cn(
                 "h-5 w-5 flex-shrink-0 rounded border transition-colors",
                 project.completed
@@ -224,16 +271,29 @@ export const ProjectView = ({
               </div>
             )}
             <div className="flex items-center gap-2">
-              <Button
-                variant="ghost"
-                size="icon"
-                className="text-muted-foreground hover:text-destructive h-8 w-8"
-                onClick={handleDeleteProject}
-              >
-                <Trash2 className="h-4 w-4" />
-              </Button>
+              {!editable && <Badge variant="outline">View only</Badge>}
+              {canManage(role) && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="text-muted-foreground hover:text-destructive h-8 w-8"
+                  onClick={handleDeleteProject}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
             </div>
           </div>
+          {canShare() && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsSharing(true)}
+            >
+              <Users className="h-4 w-4" />
+              {isShared ? `Shared with ${members.length - 1}` : "Share"}
+            </Button>
+          )}
         </div>
 
         {/* Project Description */}
@@ -321,18 +381,20 @@ export const ProjectView = ({
         </div>
 
         {/* Project Tags */}
-        <div className="mb-6 flex items-center gap-3">
-          <div className="flex-shrink-0 text-sm font-medium">Tags:</div>
-          <TagSelector
-            currentTags={projectTags
-              .filter((pt) => pt.projectId === projectId)
-              .map((pt) => pt.tagId)}
-            onAddTag={handleAddProjectTag}
-            onRemoveTag={handleRemoveProjectTag}
-          />
-        </div>
+        {editable && (
+          <div className="mb-6 flex items-center gap-3">
+            <div className="flex-shrink-0 text-sm font-medium">Tags:</div>
+            <TagSelector
+              currentTags={projectTags
+                .filter((pt) => pt.projectId === projectId)
+                .map((pt) => pt.tagId)}
+              onAddTag={handleAddProjectTag}
+              onRemoveTag={handleRemoveProjectTag}
+            />
+          </div>
+        )}
 
-        <div className="space-y-8">
+        <div ref={listRef} className="space-y-8">
           {/* Active Tasks */}
           <div className="space-y-2">
             {projectTasks.length === 0 ? (
@@ -344,15 +406,17 @@ export const ProjectView = ({
               projectTasks.map((task, index) => (
                 <div
                   key={task.id}
-                  draggable
+                  draggable={editable}
                   onDragStart={(e) => handleDragStart(e, task.id)}
                   onDragOver={handleDragOver}
                   onDrop={(e) => handleDrop(e, index)}
                   className="group relative"
                 >
-                  <div className="absolute top-1/2 left-1 z-10 -translate-y-1/2 cursor-grab opacity-0 transition-opacity group-hover:opacity-100 active:cursor-grabbing">
-                    <GripVertical className="text-muted-foreground h-4 w-4" />
-                  </div>
+                  {editable && (
+                    <div className="absolute top-1/2 left-1 z-10 -translate-y-1/2 cursor-grab opacity-0 transition-opacity group-hover:opacity-100 active:cursor-grabbing">
+                      <GripVertical className="text-muted-foreground h-4 w-4" />
+                    </div>
+                  )}
                   <div className="pl-6">
                     <TaskItem
                       task={task}
@@ -363,6 +427,8 @@ export const ProjectView = ({
                       onUpdate={updateTask}
                       onClick={onTaskClick}
                       onDoubleClick={onTaskDoubleClick}
+                      readOnly={!editable}
+                      {...getItemProps(task)}
                     />
                   </div>
                 </div>
@@ -398,6 +464,8 @@ export const ProjectView = ({
                         onUpdate={updateTask}
                         onClick={onTaskClick}
                         onDoubleClick={onTaskDoubleClick}
+                        readOnly={!editable}
+                        {...getItemProps(task)}
                       />
                     </div>
                   ))}
@@ -405,8 +473,42 @@ export const ProjectView = ({
               )}
             </div>
           )}
+
+          {/* Who did what, once other people work on the project */}
+          {isShared && allProjectTasks.length > 0 && (
+            <div className="space-y-2 border-t pt-4">
+              <h2 className="text-muted-foreground text-sm font-semibold">
+                Activity
+              </h2>
+              <ul className="space-y-1 text-sm">
+                {getProjectActivity(allProjectTasks).map((activity) => (
+                  <li key={activity.task.id} className="flex gap-2">
+                    <span className="min-w-0 flex-1 truncate">
+                      <span className="font-medium">
+                        {getActivityName(activity)}
+                      </span>{" "}
+                      {activity.action} &ldquo;
+                      {activity.task.title}&rdquo;
+                    </span>
+                    <span className="text-muted-foreground flex-shrink-0 text-xs">
+                      {formatActivityTime(activity.at)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
       </div>
+      <BulkActionBar tasks={selectedTasks} onClear={clearSelection} />
+      {canShare() && (
+        <ShareProjectDialog
+          project={project}
+          open={isSharing}
+          onOpenChange={setIsSharing}
+          onLeave={() => onViewChange("inbox")}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,203 @@
+"use client";
+
+import { useRef, useState } from "react";
+
+import { Input } from "@/components/ui/input";
+import { useTasks } from "@/hooks/use-tasks";
+import {
+  applyCompletion,
+  getCompletionContext,
+  getCompletions,
+  normalizeName,
+  QuickAddToken,
+  QuickAddTokenKind,
+} from "@/lib/quick-add";
+import { cn } from "@/lib/utils";
+
+interface QuickAddInputProps {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+  onKeyDown: (e: React.KeyboardEvent<HTMLInputElement>) => void;
+  tokens: QuickAddToken[];
+  inputRef?: React.RefObject<HTMLInputElement | null>;
+  placeholder?: string;
+}
+
+const TOKEN_STYLES: Record<QuickAddTokenKind, string> = {
+  tag: "bg-blue-100 text-blue-700 dark:bg-blue-900/50 dark:text-blue-300",
+  project:
+    "bg-purple-100 text-purple-700 dark:bg-purple-900/50 dark:text-purple-300",
+  estimate:
+    "bg-amber-100 text-amber-700 dark:bg-amber-900/50 dark:text-amber-300",
+  due: "bg-red-100 text-red-700 dark:bg-red-900/50 dark:text-red-300",
+  recurrence:
+    "bg-green-100 text-green-700 dark:bg-green-900/50 dark:text-green-300",
+};
+
+// Split the text into plain and token parts for the highlight layer
+const getSegments = (value: string, tokens: QuickAddToken[]) => {
+  const segments: { text: string; token?: QuickAddToken }[] = [];
+  let position = 0;
+  for (const token of [...tokens].sort((a, b) => a.start - b.start)) {
+    if (token.start > position) {
+      segments.push({ text: value.slice(position, token.start) });
+    }
+    segments.push({ text: value.slice(token.start, token.end), token });
+    position = token.end;
+  }
+  if (position < value.length) segments.push({ text: value.slice(position) });
+  return segments;
+};
+
+/**
+ * Single-line task input that highlights quick-add tokens and completes tag and
+ * project names. The text is drawn by a layer behind the transparent input, so the
+ * caret and selection stay the input's own.
+ */
+export const QuickAddInput = ({
+  id,
+  value,
+  onChange,
+  onKeyDown,
+  tokens,
+  inputRef,
+  placeholder,
+}: QuickAddInputProps) => {
+  const { tags, getActiveProjects } = useTasks();
+  const [caret, setCaret] = useState<number | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [dismissed, setDismissed] = useState(false);
+  const highlightRef = useRef<HTMLDivElement>(null);
+
+  const context = caret === null ? null : getCompletionContext(value, caret);
+  const names = !context
+    ? []
+    : context.kind === "tag"
+      ? tags.map((tag) => tag.name)
+      : getActiveProjects().map((project) => project.name);
+  const suggestions = context ? getCompletions(context, names) : [];
+  // Nothing to offer once the name is typed out in full
+  const isComplete =
+    suggestions.length === 1 &&
+    normalizeName(suggestions[0]) === normalizeName(context?.query ?? "");
+  const showSuggestions = !dismissed && suggestions.length > 0 && !isComplete;
+
+  const updateCaret = (input: HTMLInputElement) => {
+    setCaret(input.selectionStart);
+    if (highlightRef.current) {
+      highlightRef.current.scrollLeft = input.scrollLeft;
+    }
+  };
+
+  const handleComplete = (name: string) => {
+    if (!context) return;
+    const completed = applyCompletion(value, context, name);
+    onChange(completed.value);
+    setCaret(completed.caret);
+    requestAnimationFrame(() => {
+      inputRef?.current?.setSelectionRange(completed.caret, completed.caret);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (showSuggestions) {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setActiveIndex(
+          (activeIndex + step + suggestions.length) % suggestions.length,
+        );
+        return;
+      }
+      if (e.key === "Enter" || e.key === "Tab") {
+        e.preventDefault();
+        handleComplete(
+          suggestions[Math.min(activeIndex, suggestions.length - 1)],
+        );
+        return;
+      }
+      if (e.key === "Escape") {
+        e.preventDefault();
+        setDismissed(true);
+        return;
+      }
+    }
+    onKeyDown(e);
+  };
+
+  return (
+    <div className="relative">
+      <div
+        ref={highlightRef}
+        aria-hidden="true"
+        className="pointer-events-none absolute inset-0 flex h-10 items-center overflow-hidden rounded-md border border-transparent px-3 py-2 text-sm whitespace-pre"
+      >
+        {getSegments(value, tokens).map((segment, index) => (
+          <span
+            key={index}
+            className={cn(
+              segment.token && "rounded-sm",
+              segment.token &&
+                (segment.token.valid
+                  ? TOKEN_STYLES[segment.token.kind]
+                  : "text-muted-foreground line-through"),
+            )}
+          >
+            {segment.text}
+          </span>
+        ))}
+      </div>
+      <Input
+        id={id}
+        ref={inputRef}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setDismissed(false);
+          setActiveIndex(0);
+          updateCaret(e.target);
+        }}
+        onSelect={(e) => updateCaret(e.currentTarget)}
+        onScroll={(e) => updateCaret(e.currentTarget)}
+        onBlur={() => setCaret(null)}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder}
+        autoComplete="off"
+        className="caret-foreground relative bg-transparent text-transparent"
+        role="combobox"
+        aria-expanded={showSuggestions}
+        aria-controls={`${id}-suggestions`}
+      />
+      {showSuggestions && (
+        <ul
+          id={`${id}-suggestions`}
+          role="listbox"
+          className="bg-background absolute top-full left-0 z-10 mt-1 w-64 overflow-hidden rounded-md border shadow-md"
+        >
+          {suggestions.map((name, index) => (
+            <li
+              key={name}
+              role="option"
+              aria-selected={index === activeIndex}
+              className={cn(
+                "cursor-pointer px-3 py-1.5 text-sm",
+                index === activeIndex && "bg-muted",
+              )}
+              // Keep the focus in the input
+              onMouseDown={(e) => {
+                e.preventDefault();
+                handleComplete(name);
+              }}
+            >
+              <span className="text-muted-foreground">
+                {context?.kind === "tag" ? "#" : "+"}
+              </span>
+              {name}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
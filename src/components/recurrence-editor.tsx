@@ -0,0 +1,162 @@
+"use client";
+
+import {
+  DAILY_RULE,
+  describeRecurrence,
+  formatRecurrence,
+  parseRecurrence,
+  RecurrenceRule,
+  Weekday,
+  WEEKDAYS,
+  WORKWEEK,
+} from "@/lib/recurrence";
+import { cn } from "@/lib/utils";
+
+type Preset = "daily" | "weekdays" | "weekly" | "every-n-days" | "monthly";
+
+interface RecurrenceEditorProps {
+  value?: string | null;
+  onChange: (recurrence: string | null) => void;
+}
+
+// Monday first, the way most calendars show a week
+const WEEK_ORDER: Weekday[] = [...WEEKDAYS.slice(1), WEEKDAYS[0]];
+
+const getPreset = (rule: RecurrenceRule): Preset => {
+  if (rule.freq === "MONTHLY") return "monthly";
+  if (rule.freq === "DAILY") {
+    return rule.interval === 1 ? "daily" : "every-n-days";
+  }
+  return describeRecurrence(rule) === "Every weekday" ? "weekdays" : "weekly";
+};
+
+const getPresetRule = (preset: Preset): RecurrenceRule => {
+  const todayIndex = new Date().getDay();
+  switch (preset) {
+    case "daily":
+      return DAILY_RULE;
+    case "weekdays":
+      return { freq: "WEEKLY", interval: 1, byDay: WORKWEEK };
+    case "weekly":
+      return { freq: "WEEKLY", interval: 1, byDay: [WEEKDAYS[todayIndex]] };
+    case "every-n-days":
+      return { freq: "DAILY", interval: 2 };
+    case "monthly":
+      return {
+        freq: "MONTHLY",
+        interval: 1,
+        byMonthDay: [new Date().getDate()],
+      };
+  }
+};
+
+export const RecurrenceEditor = ({
+  value,
+  onChange,
+}: RecurrenceEditorProps) => {
+  const rule = parseRecurrence(value) ?? DAILY_RULE;
+  const preset = getPreset(rule);
+
+  // Every day is the default, so it is stored as no rule at all
+  const update = (next: RecurrenceRule) => {
+    const rrule = formatRecurrence(next);
+    onChange(rrule === formatRecurrence(DAILY_RULE) ? null : rrule);
+  };
+
+  const toggleWeekday = (day: Weekday) => {
+    const current = rule.byDay ?? [];
+    const byDay = current.includes(day)
+      ? current.filter((d) => d !== day)
+      : WEEKDAYS.filter((d) => d === day || current.includes(d));
+    // A weekly rule needs at least one day
+    if (byDay.length === 0) return;
+    update({ ...rule, freq: "WEEKLY", byDay });
+  };
+
+  return (
+    <div className="space-y-2">
+      <select
+        aria-label="Repeats"
+        value={preset}
+        onChange={(e) => update(getPresetRule(e.target.value as Preset))}
+        className="w-full rounded-md border p-2 text-sm"
+      >
+        <option value="daily">Every day</option>
+        <option value="weekdays">Every weekday</option>
+        <option value="weekly">On specific days of the week</option>
+        <option value="every-n-days">Every few days</option>
+        <option value="monthly">Monthly</option>
+      </select>
+
+      {preset === "weekly" && (
+        <div className="flex gap-1">
+          {WEEK_ORDER.map((day) => (
+            <button
+              key={day}
+              type="button"
+              onClick={() => toggleWeekday(day)}
+              aria-pressed={rule.byDay?.includes(day) ?? false}
+              className={cn(
+                "h-8 w-8 rounded-full border text-xs font-medium transition-colors",
+                rule.byDay?.includes(day)
+                  ? "bg-primary text-primary-foreground border-primary"
+                  : "hover:bg-muted",
+              )}
+            >
+              {day.charAt(0) + day.charAt(1).toLowerCase()}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {preset === "every-n-days" && (
+        <label className="flex items-center gap-2 text-sm">
+          Every
+          <input
+            type="number"
+            min="2"
+            value={rule.interval}
+            onChange={(e) => {
+              const interval = Number(e.target.value);
+              if (Number.isInteger(interval) && interval >= 2) {
+                update({ freq: "DAILY", interval });
+              }
+            }}
+            className="w-16 rounded-md border p-1"
+          />
+          days
+        </label>
+      )}
+
+      {preset === "monthly" && (
+        <label className="flex items-center gap-2 text-sm">
+          On day
+          <select
+            value={rule.byMonthDay?.[0] ?? new Date().getDate()}
+            onChange={(e) =>
+              update({
+                freq: "MONTHLY",
+                interval: rule.interval,
+                byMonthDay: [Number(e.target.value)],
+              })
+            }
+            className="rounded-md border p-1"
+          >
+            {Array.from({ length: 31 }, (_, i) => i + 1).map((day) => (
+              <option key={day} value={day}>
+                {day}
+              </option>
+            ))}
+            <option value={-1}>Last day</option>
+          </select>
+        </label>
+      )}
+
+      {preset !== "daily" && (
+        <p className="text-muted-foreground text-xs">
+          {describeRecurrence(rule)}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,238 @@
+"use client";
+
+import { Bell, X } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { useTasks } from "@/hooks/use-tasks";
+import {
+  onReminderAction,
+  ReminderAction,
+  scheduleNotifications,
+  showNotification,
+} from "@/lib/notifications";
+import {
+  DEFAULT_SNOOZE_MINUTES,
+  getDueReminders,
+  getUpcomingReminders,
+  ReminderOccurrence,
+  SNOOZE_OPTIONS,
+} from "@/lib/reminders";
+
+interface ReminderAlertsProps {
+  onOpenTask: (taskId: string) => void;
+}
+
+interface ReminderAlert {
+  taskId: string;
+  reminderId: string;
+  title: string;
+}
+
+// Look again at least this often, timers drift while the computer sleeps
+const MAX_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+const getTag = (reminderId: string) => `reminder-${reminderId}`;
+
+const getBody = ({ task }: ReminderOccurrence) =>
+  task.isDaily ? "Recurring task reminder" : "Task reminder";
+
+/**
+ * Makes reminders go off: shows a desktop notification and an in-app alert for each
+ * reminder that is due, hands the upcoming ones to the service worker, and handles
+ * the Snooze and Done actions from both
+ */
+export const ReminderAlerts = ({ onOpenTask }: ReminderAlertsProps) => {
+  const {
+    tasks,
+    updateTask,
+    markDailyTaskComplete,
+    markRemindersFired,
+    snoozeTaskReminder,
+  } = useTasks();
+  const [alerts, setAlerts] = useState<ReminderAlert[]>([]);
+  const [checkedAt, setCheckedAt] = useState(() => Date.now());
+
+  // Reach the latest task methods from effects without re-running them every render
+  const markRemindersFiredRef = useRef(markRemindersFired);
+  const handleActionRef = useRef<
+    (action: ReminderAction, taskId: string, reminderId: string) => void
+  >(() => {});
+
+  const dismiss = (reminderId: string) => {
+    setAlerts((prev) => prev.filter((a) => a.reminderId !== reminderId));
+  };
+
+  const handleAction = (
+    action: ReminderAction,
+    taskId: string,
+    reminderId: string,
+  ) => {
+    dismiss(reminderId);
+    if (action === "open") {
+      onOpenTask(taskId);
+      return;
+    }
+    if (action === "snooze") {
+      void snoozeTaskReminder(taskId, reminderId, DEFAULT_SNOOZE_MINUTES);
+      return;
+    }
+
+    const task = tasks.find((t) => t.id === taskId);
+    if (!task) return;
+    if (task.isDaily) {
+      markDailyTaskComplete(taskId);
+    } else {
+      updateTask(taskId, { completed: true });
+    }
+  };
+
+  useEffect(() => {
+    markRemindersFiredRef.current = markRemindersFired;
+    handleActionRef.current = handleAction;
+  });
+
+  useEffect(
+    () =>
+      onReminderAction(({ action, taskId, reminderId }) =>
+        handleActionRef.current(action, taskId, reminderId),
+      ),
+    [],
+  );
+
+  // Tabs in the background get their timers throttled, so check on coming back
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (!document.hidden) setCheckedAt(Date.now());
+    };
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () =>
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+  }, []);
+
+  useEffect(() => {
+    const now = new Date();
+    const due = getDueReminders(tasks, now);
+
+    if (due.length > 0) {
+      due.forEach((occurrence) => {
+        void showNotification(occurrence.task.title, {
+          body: getBody(occurrence),
+          tag: getTag(occurrence.reminder.id),
+          data: {
+            taskId: occurrence.task.id,
+            reminderId: occurrence.reminder.id,
+          },
+          actions: [
+            { action: "snooze", title: "Snooze 10 min" },
+            { action: "done", title: "Mark done" },
+          ],
+        });
+      });
+
+      setAlerts((prev) => [
+        ...prev.filter(
+          (a) => !due.some(({ reminder }) => reminder.id === a.reminderId),
+        ),
+        ...due.map(({ task, reminder }) => ({
+          taskId: task.id,
+          reminderId: reminder.id,
+          title: task.title,
+        })),
+      ]);
+
+      // Marking them fired changes the tasks, which runs this check again
+      const byTask = new Map<string, string[]>();
+      due.forEach(({ task, reminder }) =>
+        byTask.set(task.id, [...(byTask.get(task.id) ?? []), reminder.id]),
+      );
+      byTask.forEach((reminderIds, taskId) => {
+        void markRemindersFiredRef.current(taskId, reminderIds);
+      });
+      return;
+    }
+
+    const upcoming = getUpcomingReminders(tasks, now);
+    void scheduleNotifications(
+      upcoming.map((occurrence) => ({
+        tag: getTag(occurrence.reminder.id),
+        title: occurrence.task.title,
+        body: getBody(occurrence),
+        at: occurrence.at.getTime(),
+        taskId: occurrence.task.id,
+        reminderId: occurrence.reminder.id,
+      })),
+    );
+
+    const delay =
+      upcoming.length > 0
+        ? Math.min(
+            upcoming[0].at.getTime() - now.getTime(),
+            MAX_CHECK_INTERVAL_MS,
+          )
+        : MAX_CHECK_INTERVAL_MS;
+    const timeout = setTimeout(() => setCheckedAt(Date.now()), delay);
+    return () => clearTimeout(timeout);
+  }, [tasks, checkedAt]);
+
+  if (alerts.length === 0) return null;
+
+  return (
+    <div className="fixed top-6 right-6 z-50 flex w-80 flex-col gap-2">
+      {alerts.map((alert) => (
+        <div
+          key={alert.reminderId}
+          role="alert"
+          className="bg-background rounded-lg border p-3 shadow-lg"
+        >
+          <div className="mb-2 flex items-start gap-2">
+            <Bell className="mt-0.5 h-4 w-4 flex-shrink-0 text-orange-500" />
+            <button
+              onClick={() =>
+                handleAction("open", alert.taskId, alert.reminderId)
+              }
+              className="flex-1 text-left text-sm font-medium hover:underline"
+            >
+              {alert.title}
+            </button>
+            <button
+              onClick={() => dismiss(alert.reminderId)}
+              className="text-muted-foreground hover:text-foreground"
+              aria-label="Dismiss reminder"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {SNOOZE_OPTIONS.map((option) => (
+              <Button
+                key={option.minutes}
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  dismiss(alert.reminderId);
+                  void snoozeTaskReminder(
+                    alert.taskId,
+                    alert.reminderId,
+                    option.minutes,
+                  );
+                }}
+              >
+                Snooze {option.label}
+              </Button>
+            ))}
+            <Button
+              size="sm"
+              className="bg-emerald-500 hover:bg-emerald-600"
+              onClick={() =>
+                handleAction("done", alert.taskId, alert.reminderId)
+              }
+            >
+              Done
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,106 @@
+"use client";
+
+import { Bell, X } from "lucide-react";
+import { useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { requestNotificationPermission } from "@/lib/notifications";
+import { describeReminder } from "@/lib/reminders";
+import { Reminder } from "@/lib/types";
+
+interface ReminderEditorProps {
+  reminders?: Reminder[];
+  /** Recurring tasks get a time of day, other tasks a date and time */
+  isDaily: boolean;
+  onChange: (reminders: Reminder[]) => void;
+}
+
+// Value for a datetime-local input, in local time
+const toLocalInput = (date: Date) => {
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+export const ReminderEditor = ({
+  reminders = [],
+  isDaily,
+  onChange,
+}: ReminderEditorProps) => {
+  const [value, setValue] = useState("");
+
+  // Reminders that belong to the other kind of task are kept, but not shown
+  const shown = reminders.filter((reminder) =>
+    isDaily ? reminder.time : reminder.at,
+  );
+
+  const handleAdd = () => {
+    if (!value) return;
+    // Adding a reminder is a user gesture, the chance to ask for permission
+    void requestNotificationPermission();
+
+    const reminder: Reminder = isDaily
+      ? { id: crypto.randomUUID(), time: value }
+      : { id: crypto.randomUUID(), at: new Date(value).toISOString() };
+    onChange([...reminders, reminder]);
+    setValue("");
+  };
+
+  const handleRemove = (id: string) => {
+    onChange(reminders.filter((reminder) => reminder.id !== id));
+  };
+
+  return (
+    <div>
+      {shown.length > 0 && (
+        <ul className="mb-2 space-y-1">
+          {shown.map((reminder) => (
+            <li
+              key={reminder.id}
+              className="flex items-center justify-between rounded-md border px-3 py-1.5 text-sm"
+            >
+              <span>
+                {describeReminder(reminder)}
+                {reminder.snoozedUntil && (
+                  <span className="text-muted-foreground ml-2 text-xs">
+                    snoozed until{" "}
+                    {new Date(reminder.snoozedUntil).toLocaleTimeString(
+                      undefined,
+                      { hour: "numeric", minute: "2-digit" },
+                    )}
+                  </span>
+                )}
+              </span>
+              <button
+                onClick={() => handleRemove(reminder.id)}
+                className="text-muted-foreground hover:text-foreground"
+                aria-label="Remove reminder"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex items-center gap-2">
+        <input
+          type={isDaily ? "time" : "datetime-local"}
+          value={value}
+          min={isDaily ? undefined : toLocalInput(new Date())}
+          onChange={(e) => setValue(e.target.value)}
+          className="flex-1 rounded-md border p-2 text-sm"
+          aria-label={isDaily ? "Reminder time" : "Reminder date and time"}
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleAdd}
+          disabled={!value}
+          className="hover:cursor-pointer"
+        >
+          <Bell className="mr-1 h-4 w-4" />
+          Add
+        </Button>
+      </div>
+    </div>
+  );
+};
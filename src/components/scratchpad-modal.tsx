@@ -5,7 +5,7 @@ import { useCallback, useEffect, useRef, useState } from "react";
 
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import { createShortcutHandler } from "@/lib/keyboard-utils";
+import { useShortcuts } from "@/hooks/use-shortcuts";
 
 interface ScratchpadModalProps {
   open: boolean;
@@ -58,47 +58,27 @@ export function ScratchpadModal({ open, onOpenChange }: ScratchpadModalProps) {
   );
 
   // Handle keyboard shortcuts
-  useEffect(() => {
-    if (!open) return;
-
-    const handleKeyDown = createShortcutHandler([
-      {
-        key: "Escape",
-        handler: () => {
-          if (showExitConfirmation) {
-            // In confirmation dialog: Escape keeps editing
-            handleKeepEditing();
-          } else {
-            // In main scratchpad: Escape closes (with confirmation if content)
-            handleOpenChange(false);
-          }
-        },
-        allowInInput: true,
-        description: "Close scratchpad or cancel confirmation",
+  useShortcuts(
+    {
+      close: () => {
+        if (showExitConfirmation) {
+          // In confirmation dialog: Escape keeps editing
+          handleKeepEditing();
+        } else {
+          // In main scratchpad: Escape closes (with confirmation if content)
+          handleOpenChange(false);
+        }
       },
-      {
-        key: "Enter",
-        handler: () => {
-          if (showExitConfirmation) {
-            // In confirmation dialog: Enter discards
-            handleDiscard();
-          }
-          // Don't handle Enter in the main scratchpad - let it work normally in textarea
-        },
-        allowInInput: false, // Only allow when NOT in input (i.e., when confirmation is showing)
-        description: "Discard scratchpad changes",
+      // Not handled in input fields, so Enter still types new lines in the textarea
+      confirm: () => {
+        if (showExitConfirmation) {
+          // In confirmation dialog: Enter discards
+          handleDiscard();
+        }
       },
-    ]);
-
-    document.addEventListener("keydown", handleKeyDown);
-    return () => document.removeEventListener("keydown", handleKeyDown);
-  }, [
+    },
     open,
-    showExitConfirmation,
-    handleKeepEditing,
-    handleOpenChange,
-    handleDiscard,
-  ]);
+  );
 
   // Auto-focus textarea when scratchpad opens
   useEffect(() => {
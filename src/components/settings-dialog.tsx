@@ -1,8 +1,10 @@
 "use client";
 
-import { FileIcon, FilePlus } from "lucide-react";
+import { FileIcon, FilePlus, X } from "lucide-react";
 import { useEffect, useState } from "react";
 
+import { AccountSettings } from "@/components/account-settings";
+import { SyncPanel } from "@/components/sync-panel";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -11,89 +13,120 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { env } from "@/env.mjs";
+import { useDatabaseFile } from "@/hooks/use-database-file";
+import {
+  DEFAULT_DAY_START_HOUR,
+  getDayStartHour,
+  MAX_DAY_START_HOUR,
+  setDayStartHour,
+} from "@/lib/local-date";
+import {
+  DEFAULT_POMODORO_SETTINGS,
+  getPomodoroSettings,
+  PomodoroSettings,
+  setPomodoroSettings,
+} from "@/lib/pomodoro";
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  getTrashRetentionDays,
+  setTrashRetentionDays,
+} from "@/lib/trash";
 
 interface SettingsDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
 }
 
-const DB_PATH_KEY = "intentionality_db_path";
+// Options for how long items stay in the trash (0 = never purge)
+const TRASH_RETENTION_OPTIONS = [
+  { days: 7, label: "After 7 days" },
+  { days: 30, label: "After 30 days" },
+  { days: 90, label: "After 90 days" },
+  { days: 0, label: "Never" },
+];
+
+// Hours a new day can start at, for people who finish their dailies after midnight
+const DAY_START_OPTIONS = Array.from(
+  { length: MAX_DAY_START_HOUR + 1 },
+  (_, hour) => ({
+    hour,
+    label: hour === 0 ? "Midnight" : `${hour}:00 AM`,
+  }),
+);
+
+// Phase lengths offered for Pomodoro cycles, in minutes
+const POMODORO_OPTIONS: {
+  key: "workMinutes" | "shortBreakMinutes" | "longBreakMinutes";
+  title: string;
+  description: string;
+  minutes: number[];
+}[] = [
+  {
+    key: "workMinutes",
+    title: "Focus Length",
+    description: "Used for tasks without their own timer length",
+    minutes: [15, 20, 25, 30, 45, 50, 60],
+  },
+  {
+    key: "shortBreakMinutes",
+    title: "Short Break",
+    description: "Break after each focus session",
+    minutes: [3, 5, 10, 15],
+  },
+  {
+    key: "longBreakMinutes",
+    title: "Long Break",
+    description: "Break after a full cycle of focus sessions",
+    minutes: [10, 15, 20, 25, 30],
+  },
+];
+
+const LONG_BREAK_INTERVAL_OPTIONS = [2, 3, 4, 5, 6];
 
 export const SettingsDialog = ({
   open,
   onOpenChange,
 }: SettingsDialogProps) => {
-  const [dbPath, setDbPath] = useState<string | null>(null);
+  const databaseFile = useDatabaseFile();
+  const [trashRetentionDays, setTrashRetentionDaysState] = useState(
+    DEFAULT_TRASH_RETENTION_DAYS,
+  );
+  const [dayStartHour, setDayStartHourState] = useState(DEFAULT_DAY_START_HOUR);
+  const [pomodoroSettings, setPomodoroSettingsState] = useState(
+    DEFAULT_POMODORO_SETTINGS,
+  );
 
-  // Load database path from localStorage on mount
+  // Load trash retention, day start and Pomodoro settings from localStorage on mount
   useEffect(() => {
-    const savedPath = localStorage.getItem(DB_PATH_KEY);
-    setDbPath(savedPath);
+    setTrashRetentionDaysState(getTrashRetentionDays());
+    setDayStartHourState(getDayStartHour());
+    setPomodoroSettingsState(getPomodoroSettings());
   }, []);
 
-  // Save database path to localStorage
-  const saveDbPath = (path: string | null) => {
-    if (path) {
-      localStorage.setItem(DB_PATH_KEY, path);
-    } else {
-      localStorage.removeItem(DB_PATH_KEY);
-    }
-    setDbPath(path);
+  const handleTrashRetentionChange = (value: string) => {
+    const days = Number(value);
+    setTrashRetentionDays(days);
+    setTrashRetentionDaysState(days);
   };
 
-  const handleSelectExistingFile = async () => {
-    try {
-      // @ts-expect-error - File System Access API may not be in TypeScript types
-      const [fileHandle] = await window.showOpenFilePicker({
-        types: [
-          {
-            description: "SQLite Database",
-            accept: {
-              "application/x-sqlite3": [".db", ".sqlite", ".sqlite3"],
-            },
-          },
-        ],
-        multiple: false,
-      });
-
-      if (fileHandle) {
-        // For now, we'll store the file name. In a full implementation,
-        // you'd store a handle or path that can be used to access the file
-        saveDbPath(fileHandle.name);
-      }
-    } catch (err) {
-      // User cancelled or browser doesn't support File System Access API
-      console.log("File selection cancelled or not supported:", err);
-    }
+  const handleDayStartChange = (value: string) => {
+    const hour = Number(value);
+    setDayStartHour(hour);
+    setDayStartHourState(hour);
   };
 
-  const handleCreateNewFile = async () => {
-    try {
-      // @ts-expect-error - File System Access API may not be in TypeScript types
-      const fileHandle = await window.showSaveFilePicker({
-        suggestedName: "intentionality.db",
-        types: [
-          {
-            description: "SQLite Database",
-            accept: {
-              "application/x-sqlite3": [".db", ".sqlite", ".sqlite3"],
-            },
-          },
-        ],
-      });
-
-      if (fileHandle) {
-        // Create an empty file
-        const writable = await fileHandle.createWritable();
-        await writable.close();
-
-        // Store the file name
-        saveDbPath(fileHandle.name);
-      }
-    } catch (err) {
-      // User cancelled or browser doesn't support File System Access API
-      console.log("File creation cancelled or not supported:", err);
-    }
+  const handlePomodoroChange = (updates: Partial<PomodoroSettings>) => {
+    const settings = { ...pomodoroSettings, ...updates };
+    setPomodoroSettings(settings);
+    setPomodoroSettingsState(settings);
   };
 
   return (
@@ -107,43 +140,214 @@ export const SettingsDialog = ({
         </DialogHeader>
 
         <div className="space-y-6 py-4">
-          {/* Task Database Location Setting */}
+          {/* Task Database Location Setting, a SQLite file to sync with in local mode */}
+          {env.NEXT_PUBLIC_STORAGE_TYPE !== "remote" &&
+            databaseFile.isSupported && (
+              <div className="flex items-center justify-between gap-4">
+                <div className="flex-shrink-0">
+                  <h3 className="text-sm font-medium">
+                    Task Database Location
+                  </h3>
+                  <p className="text-muted-foreground text-xs">
+                    {databaseFile.error ??
+                      "Keep a copy of your tasks in a SQLite file"}
+                  </p>
+                </div>
+
+                <div className="flex flex-1 items-center gap-2">
+                  <div className="bg-muted flex-1 rounded-md border px-3 py-2 text-sm">
+                    {databaseFile.fileName || (
+                      <span className="text-muted-foreground italic">
+                        No database selected
+                      </span>
+                    )}
+                  </div>
+
+                  {databaseFile.needsAccess && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={databaseFile.allowAccess}
+                      title="Allow this app to read and write the database file again"
+                    >
+                      Allow access
+                    </Button>
+                  )}
+
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => databaseFile.chooseFile(false)}
+                    title="Select existing database"
+                  >
+                    <FileIcon className="h-4 w-4" />
+                  </Button>
+
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => databaseFile.chooseFile(true)}
+                    title="Create new database"
+                  >
+                    <FilePlus className="h-4 w-4" />
+                  </Button>
+
+                  {databaseFile.fileName && (
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={databaseFile.stopUsingFile}
+                      title="Stop using this database"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )}
+
+          {/* Trash Retention Setting */}
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex-shrink-0">
+              <h3 className="text-sm font-medium">Empty Trash</h3>
+              <p className="text-muted-foreground text-xs">
+                Permanently delete items that have been in the trash
+              </p>
+            </div>
+
+            <Select
+              value={String(trashRetentionDays)}
+              onValueChange={handleTrashRetentionChange}
+            >
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TRASH_RETENTION_OPTIONS.map((option) => (
+                  <SelectItem key={option.days} value={String(option.days)}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Day Start Setting */}
           <div className="flex items-center justify-between gap-4">
             <div className="flex-shrink-0">
-              <h3 className="text-sm font-medium">Task Database Location</h3>
+              <h3 className="text-sm font-medium">Day Starts At</h3>
               <p className="text-muted-foreground text-xs">
-                Choose where to store your task database
+                Completions before this time count for the previous day
               </p>
             </div>
 
-            <div className="flex flex-1 items-center gap-2">
-              <div className="bg-muted flex-1 rounded-md border px-3 py-2 text-sm">
-                {dbPath || (
-                  <span className="text-muted-foreground italic">
-                    No database selected
-                  </span>
-                )}
+            <Select
+              value={String(dayStartHour)}
+              onValueChange={handleDayStartChange}
+            >
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DAY_START_OPTIONS.map((option) => (
+                  <SelectItem key={option.hour} value={String(option.hour)}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Pomodoro Settings */}
+          {POMODORO_OPTIONS.map(({ key, title, description, minutes }) => (
+            <div key={key} className="flex items-center justify-between gap-4">
+              <div className="flex-shrink-0">
+                <h3 className="text-sm font-medium">{title}</h3>
+                <p className="text-muted-foreground text-xs">{description}</p>
               </div>
 
-              <Button
-                variant="outline"
-                size="icon"
-                onClick={handleSelectExistingFile}
-                title="Select existing database"
-              >
-                <FileIcon className="h-4 w-4" />
-              </Button>
-
-              <Button
-                variant="outline"
-                size="icon"
-                onClick={handleCreateNewFile}
-                title="Create new database"
+              <Select
+                value={String(pomodoroSettings[key])}
+                onValueChange={(value) =>
+                  handlePomodoroChange({ [key]: Number(value) })
+                }
               >
-                <FilePlus className="h-4 w-4" />
-              </Button>
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {minutes.map((option) => (
+                    <SelectItem key={option} value={String(option)}>
+                      {option} minutes
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex-shrink-0">
+              <h3 className="text-sm font-medium">Long Break Every</h3>
+              <p className="text-muted-foreground text-xs">
+                Number of focus sessions in a cycle
+              </p>
             </div>
+
+            <Select
+              value={String(pomodoroSettings.longBreakInterval)}
+              onValueChange={(value) =>
+                handlePomodoroChange({ longBreakInterval: Number(value) })
+              }
+            >
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LONG_BREAK_INTERVAL_OPTIONS.map((count) => (
+                  <SelectItem key={count} value={String(count)}>
+                    {count} sessions
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex-shrink-0">
+              <h3 className="text-sm font-medium">Next Phase</h3>
+              <p className="text-muted-foreground text-xs">
+                Whether breaks and focus sessions start on their own
+              </p>
+            </div>
+
+            <Select
+              value={pomodoroSettings.autoAdvance ? "auto" : "manual"}
+              onValueChange={(value) =>
+                handlePomodoroChange({ autoAdvance: value === "auto" })
+              }
+            >
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="auto">Start automatically</SelectItem>
+                <SelectItem value="manual">Wait for me</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Account and sync queue, when syncing to a remote server */}
+          {env.NEXT_PUBLIC_STORAGE_TYPE === "remote" && (
+            <>
+              <AccountSettings />
+              <SyncPanel />
+            </>
+          )}
+
+          {/* Changes waiting to be written to the database file */}
+          {env.NEXT_PUBLIC_STORAGE_TYPE !== "remote" &&
+            databaseFile.fileName && <SyncPanel />}
         </div>
       </DialogContent>
     </Dialog>
@@ -0,0 +1,274 @@
+"use client";
+
+import { Mail, UserMinus, X } from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useTasks } from "@/hooks/use-tasks";
+import { canManage, getMemberName, ROLE_LABELS } from "@/lib/sharing";
+import { Project, ProjectInvite, ProjectRole } from "@/lib/types";
+
+interface ShareProjectDialogProps {
+  project: Project;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onLeave: () => void;
+}
+
+const INVITE_ROLES: ProjectInvite["role"][] = ["editor", "viewer"];
+
+/**
+ * Members of a project and their roles, with invites for owners to send and cancel
+ */
+export const ShareProjectDialog = ({
+  project,
+  open,
+  onOpenChange,
+  onLeave,
+}: ShareProjectDialogProps) => {
+  const {
+    currentUserId,
+    getProjectMembers,
+    getProjectRole,
+    getProjectInvites,
+    inviteToProject,
+    deleteInvite,
+    setMemberRole,
+    removeMember,
+  } = useTasks();
+  const [invites, setInvites] = useState<ProjectInvite[]>([]);
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<ProjectInvite["role"]>("editor");
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const members = getProjectMembers(project.id);
+  const isOwner = canManage(getProjectRole(project.id));
+
+  const loadInvites = useCallback(async () => {
+    const all = await getProjectInvites();
+    setInvites(all.filter((invite) => invite.projectId === project.id));
+  }, [getProjectInvites, project.id]);
+
+  useEffect(() => {
+    if (open && isOwner) {
+      loadInvites().catch((err) => setError(String(err)));
+    }
+  }, [open, isOwner, loadInvites]);
+
+  // Run a change on the remote, showing what went wrong if it fails
+  const run = async (change: () => Promise<void>) => {
+    setError(null);
+    setIsSaving(true);
+    try {
+      await change();
+    } catch (err) {
+      console.error("Failed to update sharing:", err);
+      setError("Couldn't reach the server. Check your connection and retry.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+
+    run(async () => {
+      await inviteToProject(project.id, email, role);
+      setEmail("");
+      await loadInvites();
+    });
+  };
+
+  const handleCancelInvite = (id: string) =>
+    run(async () => {
+      await deleteInvite(id);
+      await loadInvites();
+    });
+
+  const handleRoleChange = (userId: string, value: string) =>
+    run(() => setMemberRole(project.id, userId, value as ProjectRole));
+
+  const handleRemove = (userId: string) => {
+    const leaving = userId === currentUserId;
+    const message = leaving
+      ? `Leave "${project.name}"? It will be removed from your devices.`
+      : "Remove this member from the project?";
+    if (!confirm(message)) return;
+
+    run(async () => {
+      await removeMember(project.id, userId);
+      if (leaving) {
+        onOpenChange(false);
+        onLeave();
+      }
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Share &ldquo;{project.name}&rdquo;</DialogTitle>
+          <DialogDescription>
+            Members see the project with its tasks and tags. Your Inbox stays
+            personal.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 py-2">
+          <ul className="space-y-2">
+            {members.map((member) => {
+              const isSelf = member.userId === currentUserId;
+              return (
+                <li
+                  key={member.userId}
+                  className="flex items-center justify-between gap-2"
+                >
+                  <div className="min-w-0">
+                    <div className="truncate text-sm font-medium">
+                      {getMemberName(member)}
+                      {isSelf && " (you)"}
+                    </div>
+                    {member.name && member.email && (
+                      <div className="text-muted-foreground truncate text-xs">
+                        {member.email}
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="flex flex-shrink-0 items-center gap-1">
+                    {isOwner && !isSelf ? (
+                      <Select
+                        value={member.role}
+                        onValueChange={(value) =>
+                          handleRoleChange(member.userId, value)
+                        }
+                        disabled={isSaving}
+                      >
+                        <SelectTrigger className="h-8 w-[110px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(ROLE_LABELS) as ProjectRole[]).map(
+                            (value) => (
+                              <SelectItem key={value} value={value}>
+                                {ROLE_LABELS[value]}
+                              </SelectItem>
+                            ),
+                          )}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Badge variant="outline">
+                        {ROLE_LABELS[member.role]}
+                      </Badge>
+                    )}
+                    {((isOwner && !isSelf) ||
+                      (isSelf && member.role !== "owner")) && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => handleRemove(member.userId)}
+                        disabled={isSaving}
+                        aria-label={isSelf ? "Leave project" : "Remove member"}
+                        title={isSelf ? "Leave project" : "Remove member"}
+                      >
+                        <UserMinus className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+
+          {isOwner && (
+            <div className="space-y-3 border-t pt-4">
+              <form onSubmit={handleInvite} className="flex gap-2">
+                <Input
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="Email address"
+                  aria-label="Email address to invite"
+                  required
+                />
+                <Select
+                  value={role}
+                  onValueChange={(value) =>
+                    setRole(value as ProjectInvite["role"])
+                  }
+                >
+                  <SelectTrigger className="w-[110px] flex-shrink-0">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {INVITE_ROLES.map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {ROLE_LABELS[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button type="submit" disabled={isSaving || !email.trim()}>
+                  Invite
+                </Button>
+              </form>
+
+              {invites.length > 0 && (
+                <ul className="space-y-1">
+                  {invites.map((invite) => (
+                    <li
+                      key={invite.id}
+                      className="text-muted-foreground flex items-center justify-between gap-2 text-sm"
+                    >
+                      <span className="flex min-w-0 items-center gap-2">
+                        <Mail className="h-4 w-4 flex-shrink-0" />
+                        <span className="truncate">{invite.email}</span>
+                        <Badge variant="outline">
+                          {ROLE_LABELS[invite.role]}
+                        </Badge>
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => handleCancelInvite(invite.id)}
+                        disabled={isSaving}
+                        aria-label="Cancel invite"
+                        title="Cancel invite"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {error && <p className="text-destructive text-sm">{error}</p>}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
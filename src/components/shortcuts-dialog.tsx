@@ -0,0 +1,243 @@
+"use client";
+
+import { RotateCcw } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useShortcutBindings } from "@/hooks/use-shortcuts";
+import {
+  DEFAULT_BINDINGS,
+  findConflicts,
+  formatBinding,
+  getShortcut,
+  MAX_CHORD_LENGTH,
+  SCOPE_LABELS,
+  SHORTCUT_SCOPES,
+  ShortcutId,
+  SHORTCUTS,
+  strokeFromEvent,
+  strokeToString,
+} from "@/lib/shortcuts";
+import { cn } from "@/lib/utils";
+
+interface ShortcutsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const Keys = ({ binding }: { binding: string }) => (
+  <span className="flex gap-1">
+    {formatBinding(binding)
+      .split(" ")
+      .map((stroke, index) => (
+        <kbd
+          key={index}
+          className="bg-muted rounded border px-1.5 py-0.5 font-mono text-xs"
+        >
+          {stroke}
+        </kbd>
+      ))}
+  </span>
+);
+
+/**
+ * Cheatsheet of every keyboard shortcut, opened with "?".
+ * Clicking a shortcut records new keys for it; up to two strokes make a chord.
+ */
+export const ShortcutsDialog = ({
+  open,
+  onOpenChange,
+}: ShortcutsDialogProps) => {
+  const { bindings, setBinding, resetBinding, resetAll } =
+    useShortcutBindings();
+  const [recordingId, setRecordingId] = useState<ShortcutId | null>(null);
+  const [recorded, setRecorded] = useState<string[]>([]);
+  const recorderRef = useRef<HTMLDivElement>(null);
+
+  // Stop recording when the dialog closes
+  useEffect(() => {
+    if (!open) {
+      setRecordingId(null);
+      setRecorded([]);
+    }
+  }, [open]);
+
+  useEffect(() => {
+    if (recordingId) recorderRef.current?.focus();
+  }, [recordingId]);
+
+  const recordedBinding = recorded.join(" ");
+  const conflicts = recordingId
+    ? findConflicts(recordingId, recordedBinding, bindings)
+    : [];
+
+  const startRecording = (id: ShortcutId) => {
+    setRecordingId(id);
+    setRecorded([]);
+  };
+
+  const stopRecording = () => {
+    setRecordingId(null);
+    setRecorded([]);
+  };
+
+  const handleSave = () => {
+    if (!recordingId || recorded.length === 0 || conflicts.length > 0) return;
+    setBinding(recordingId, recordedBinding);
+    stopRecording();
+  };
+
+  // Keys pressed while recording are kept from every other shortcut.
+  // Tab still moves the focus, so Save can be reached from the keyboard.
+  const handleRecordKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Tab") return;
+    e.preventDefault();
+    e.stopPropagation();
+
+    const stroke = strokeFromEvent(e.nativeEvent);
+    if (!stroke) return;
+    const step = strokeToString(stroke);
+    setRecorded((current) =>
+      current.length >= MAX_CHORD_LENGTH ? [step] : [...current, step],
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="max-h-[85vh] overflow-y-auto sm:max-w-[600px]"
+        // Escape is recorded like any other key
+        onEscapeKeyDown={(e) => {
+          if (recordingId) e.preventDefault();
+        }}
+      >
+        <DialogHeader>
+          <DialogTitle>Keyboard Shortcuts</DialogTitle>
+          <DialogDescription>
+            Click a shortcut to change its keys
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 py-2">
+          {SHORTCUT_SCOPES.map((scope) => (
+            <div key={scope} className="space-y-1">
+              <h3 className="text-muted-foreground text-xs font-medium uppercase">
+                {SCOPE_LABELS[scope]}
+              </h3>
+              {SHORTCUTS.filter((shortcut) => shortcut.scope === scope).map(
+                (shortcut) => {
+                  const binding = bindings[shortcut.id];
+                  const isRecording = recordingId === shortcut.id;
+                  const isCustom = binding !== DEFAULT_BINDINGS[shortcut.id];
+
+                  if (isRecording) {
+                    return (
+                      <div
+                        key={shortcut.id}
+                        className="bg-muted/50 space-y-2 rounded-md p-2"
+                      >
+                        <div className="flex items-center justify-between gap-4">
+                          <span className="text-sm">
+                            {shortcut.description}
+                          </span>
+                          <div
+                            ref={recorderRef}
+                            tabIndex={0}
+                            role="textbox"
+                            aria-label={`New keys for ${shortcut.description}`}
+                            onKeyDown={handleRecordKeyDown}
+                            className="focus-visible:ring-ring/50 flex min-h-8 min-w-32 items-center justify-center rounded-md border border-dashed px-2 text-xs outline-none focus-visible:ring-[3px]"
+                          >
+                            {recorded.length > 0 ? (
+                              <Keys binding={recordedBinding} />
+                            ) : (
+                              <span className="text-muted-foreground">
+                                Press keys...
+                              </span>
+                            )}
+                          </div>
+                        </div>
+                        {conflicts.length > 0 && (
+                          <p className="text-destructive text-xs">
+                            Already used by{" "}
+                            {conflicts
+                              .map((id) => getShortcut(id).description)
+                              .join(", ")}
+                          </p>
+                        )}
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={stopRecording}
+                          >
+                            Cancel
+                          </Button>
+                          <Button
+                            size="sm"
+                            onClick={handleSave}
+                            disabled={
+                              recorded.length === 0 || conflicts.length > 0
+                            }
+                          >
+                            Save
+                          </Button>
+                        </div>
+                      </div>
+                    );
+                  }
+
+                  return (
+                    <div
+                      key={shortcut.id}
+                      className="flex items-center justify-between gap-4 rounded-md px-2 py-1"
+                    >
+                      <span className="text-sm">{shortcut.description}</span>
+                      <div className="flex items-center gap-1">
+                        {isCustom && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7"
+                            onClick={() => resetBinding(shortcut.id)}
+                            title="Reset to default"
+                          >
+                            <RotateCcw className="h-3 w-3" />
+                          </Button>
+                        )}
+                        <button
+                          type="button"
+                          onClick={() => startRecording(shortcut.id)}
+                          className={cn(
+                            "hover:bg-muted rounded-md px-1 py-1",
+                            isCustom && "text-primary",
+                          )}
+                          title="Change shortcut"
+                        >
+                          <Keys binding={binding} />
+                        </button>
+                      </div>
+                    </div>
+                  );
+                },
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end">
+          <Button variant="outline" size="sm" onClick={resetAll}>
+            Reset all
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -9,10 +9,12 @@ import {
   Plus,
   Settings,
   Tag,
+  Trash,
   Trash2,
 } from "lucide-react";
 import { useState } from "react";
 
+import { ProjectInvites } from "@/components/project-invites";
 import { SettingsDialog } from "@/components/settings-dialog";
 import { Button } from "@/components/ui/button";
 import { useTasks } from "@/hooks/use-tasks";
@@ -36,6 +38,7 @@ export const Sidebar = ({ currentView, onViewChange }: SidebarProps) => {
     deleteTag,
     addToToday,
     isInToday,
+    canShare,
   } = useTasks();
   const [isAddingProject, setIsAddingProject] = useState(false);
   const [projectName, setProjectName] = useState("");
@@ -258,6 +261,28 @@ export const Sidebar = ({ currentView, onViewChange }: SidebarProps) => {
           Inbox
         </button>
 
+        <button
+          onClick={() => onViewChange("upcoming")}
+          className={cn(
+            "hover:bg-muted w-full cursor-pointer rounded-md p-2 text-left transition-colors",
+            currentView === "upcoming" && "bg-muted font-medium",
+          )}
+        >
+          Upcoming
+        </button>
+
+        {canShare() && (
+          <button
+            onClick={() => onViewChange("assigned")}
+            className={cn(
+              "hover:bg-muted w-full cursor-pointer rounded-md p-2 text-left transition-colors",
+              currentView === "assigned" && "bg-muted font-medium",
+            )}
+          >
+            Assigned to me
+          </button>
+        )}
+
         {/* <button
           onClick={() => onViewChange("next-steps")}
           className={cn(
@@ -275,7 +300,27 @@ export const Sidebar = ({ currentView, onViewChange }: SidebarProps) => {
             currentView === "daily-tasks" && "bg-muted font-medium",
           )}
         >
-          Dailies
+          Recurring
+        </button>
+
+        <button
+          onClick={() => onViewChange("habits")}
+          className={cn(
+            "hover:bg-muted w-full cursor-pointer rounded-md p-2 text-left transition-colors",
+            currentView === "habits" && "bg-muted font-medium",
+          )}
+        >
+          Habits
+        </button>
+
+        <button
+          onClick={() => onViewChange("focus-report")}
+          className={cn(
+            "hover:bg-muted w-full cursor-pointer rounded-md p-2 text-left transition-colors",
+            currentView === "focus-report" && "bg-muted font-medium",
+          )}
+        >
+          Focus Time
         </button>
 
         <button
@@ -288,6 +333,8 @@ export const Sidebar = ({ currentView, onViewChange }: SidebarProps) => {
           All Tasks
         </button>
 
+        {canShare() && <ProjectInvites onViewChange={onViewChange} />}
+
         <div className="pt-4">
           <div className="mb-2 flex items-center justify-between">
             <h3 className="text-muted-foreground text-sm font-medium">
@@ -523,7 +570,7 @@ export const Sidebar = ({ currentView, onViewChange }: SidebarProps) => {
                       onClick={() => {
                         if (
                           confirm(
-                            `Delete tag "${tag.name}"? This will remove it from all tasks and projects.`,
+                            `Move tag "${tag.name}" to the trash? It will be hidden from all tasks and projects until restored.`,
                           )
                         ) {
                           deleteTag(tag.id);
@@ -640,6 +687,16 @@ export const Sidebar = ({ currentView, onViewChange }: SidebarProps) => {
         >
           Archived
         </button>
+        <button
+          onClick={() => onViewChange("trash")}
+          className={cn(
+            "hover:bg-muted flex w-full items-center gap-2 rounded-md p-2 text-left transition-colors",
+            currentView === "trash" && "bg-muted font-medium",
+          )}
+        >
+          <Trash className="h-4 w-4" />
+          <span>Trash</span>
+        </button>
       </div>
 
       {/* Settings button */}
@@ -0,0 +1,88 @@
+"use client";
+
+import { Mail } from "lucide-react";
+import { getProviders, signIn } from "next-auth/react";
+import { FormEvent, useEffect, useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+type Provider = NonNullable<Awaited<ReturnType<typeof getProviders>>>[string];
+
+/**
+ * Sign in with any of the providers the server has configured:
+ * a magic link by email, or OAuth
+ */
+export const SignInScreen = () => {
+  const [providers, setProviders] = useState<Provider[]>([]);
+  const [email, setEmail] = useState("");
+  const [emailSent, setEmailSent] = useState(false);
+
+  useEffect(() => {
+    void getProviders().then((found) =>
+      setProviders(Object.values(found ?? {})),
+    );
+  }, []);
+
+  const emailProvider = providers.find((provider) => provider.type === "email");
+  const oauthProviders = providers.filter(
+    (provider) => provider.type === "oauth" || provider.type === "oidc",
+  );
+
+  const handleEmailSignIn = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!emailProvider || !email.trim()) return;
+    await signIn(emailProvider.id, { email: email.trim(), redirect: false });
+    setEmailSent(true);
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center p-4">
+      <div className="w-full max-w-sm space-y-6 rounded-lg border p-6 shadow-sm">
+        <div className="space-y-1 text-center">
+          <h1 className="text-xl font-semibold">Sign in</h1>
+          <p className="text-muted-foreground text-sm">
+            Your tasks sync across every device you sign in on
+          </p>
+        </div>
+
+        {emailProvider &&
+          (emailSent ? (
+            <p className="text-center text-sm">
+              Check your inbox for a sign-in link sent to {email}
+            </p>
+          ) : (
+            <form onSubmit={handleEmailSignIn} className="space-y-2">
+              <Input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="you@example.com"
+                aria-label="Email"
+                required
+              />
+              <Button type="submit" className="w-full">
+                <Mail className="h-4 w-4" />
+                Email me a sign-in link
+              </Button>
+            </form>
+          ))}
+
+        {oauthProviders.length > 0 && (
+          <div className="space-y-2">
+            {oauthProviders.map((provider) => (
+              <Button
+                key={provider.id}
+                variant="outline"
+                className="w-full"
+                onClick={() => signIn(provider.id)}
+              >
+                Continue with {provider.name}
+              </Button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,174 @@
+"use client";
+
+import { RefreshCw, RotateCcw, X } from "lucide-react";
+import { useState } from "react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useSyncStatus } from "@/hooks/use-sync-status";
+import { OperationType, QueuedOperation } from "@/lib/sync/types";
+
+const OPERATION_LABELS: Record<OperationType, string> = {
+  [OperationType.ADD_TASK]: "Add task",
+  [OperationType.UPDATE_TASK]: "Update task",
+  [OperationType.DELETE_TASK]: "Delete task",
+  [OperationType.REORDER_TASKS]: "Reorder tasks",
+  [OperationType.ADD_PROJECT]: "Add project",
+  [OperationType.UPDATE_PROJECT]: "Update project",
+  [OperationType.DELETE_PROJECT]: "Delete project",
+  [OperationType.REORDER_PROJECTS]: "Reorder projects",
+  [OperationType.ADD_TAG]: "Add tag",
+  [OperationType.UPDATE_TAG]: "Update tag",
+  [OperationType.DELETE_TAG]: "Delete tag",
+  [OperationType.ADD_TASK_TAG]: "Tag task",
+  [OperationType.REMOVE_TASK_TAG]: "Untag task",
+  [OperationType.ADD_PROJECT_TAG]: "Tag project",
+  [OperationType.REMOVE_PROJECT_TAG]: "Untag project",
+  [OperationType.ADD_TODAY_TASK]: "Add to Today",
+  [OperationType.REMOVE_TODAY_TASK]: "Remove from Today",
+  [OperationType.REORDER_TODAY_TASKS]: "Save Today",
+  [OperationType.ADD_FOCUS_SESSION]: "Log focus session",
+  [OperationType.DELETE_FOCUS_SESSION]: "Delete focus session",
+  [OperationType.BATCH]: "Bulk change",
+};
+
+const describeOperation = (operation: QueuedOperation) =>
+  operation.type === OperationType.BATCH
+    ? `${OPERATION_LABELS[operation.type]} (${(operation.payload as unknown[]).length} changes)`
+    : OPERATION_LABELS[operation.type];
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString(undefined, {
+    hour: "numeric",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+
+const StatusBadge = ({ operation }: { operation: QueuedOperation }) => {
+  switch (operation.status) {
+    case "processing":
+      return <Badge variant="secondary">Sending</Badge>;
+    case "failed":
+      return (
+        <Badge variant="outline">
+          Retrying at {formatTime(operation.nextAttemptAt ?? Date.now())}
+        </Badge>
+      );
+    case "dead":
+      return <Badge variant="destructive">Failed</Badge>;
+    default:
+      return <Badge variant="outline">Pending</Badge>;
+  }
+};
+
+/**
+ * Changes waiting to reach the server, with the errors the failed ones hit
+ */
+export const SyncPanel = () => {
+  const { status, syncNow, retryAll, retryOperation, discardOperation } =
+    useSyncStatus();
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  if (!status) return null;
+
+  const handleSyncNow = async () => {
+    setIsSyncing(true);
+    try {
+      await syncNow();
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const { operations } = status;
+  const summary =
+    operations.length === 0
+      ? "Everything is synced"
+      : [
+          `${status.pending} pending`,
+          status.failed > 0 && `${status.failed} retrying`,
+          status.dead > 0 && `${status.dead} failed`,
+        ]
+          .filter(Boolean)
+          .join(", ");
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex-shrink-0">
+          <h3 className="text-sm font-medium">Sync</h3>
+          <p className="text-muted-foreground text-xs">{summary}</p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          {status.failed + status.dead > 0 && (
+            <Button variant="outline" size="sm" onClick={retryAll}>
+              <RotateCcw className="h-4 w-4" />
+              Retry all
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleSyncNow}
+            disabled={isSyncing || !status.isRunning}
+          >
+            <RefreshCw
+              className={`h-4 w-4 ${isSyncing ? "animate-spin" : ""}`}
+            />
+            Sync now
+          </Button>
+        </div>
+      </div>
+
+      {operations.length > 0 && (
+        <ul className="max-h-60 space-y-1 overflow-y-auto">
+          {operations.map((operation) => (
+            <li
+              key={operation.id}
+              className="flex items-center justify-between gap-2 rounded-md border px-3 py-1.5 text-sm"
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span>{describeOperation(operation)}</span>
+                  <StatusBadge operation={operation} />
+                </div>
+                <div className="text-muted-foreground truncate text-xs">
+                  {formatTime(operation.timestamp)}
+                  {operation.lastError && ` · ${operation.lastError}`}
+                </div>
+              </div>
+
+              {operation.status !== "processing" && (
+                <div className="flex flex-shrink-0 items-center gap-1">
+                  {operation.status !== "pending" && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => retryOperation(operation.id)}
+                      aria-label="Retry"
+                      title="Retry"
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => discardOperation(operation.id)}
+                    aria-label="Discard"
+                    title="Discard: keep this change on this device only"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
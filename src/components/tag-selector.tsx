@@ -1,11 +1,11 @@
 "use client";
 
 import { Plus, X } from "lucide-react";
-import { useEffect, useState } from "react";
+import { useState } from "react";
 
 import { Button } from "@/components/ui/button";
+import { useShortcuts } from "@/hooks/use-shortcuts";
 import { useTasks } from "@/hooks/use-tasks";
-import { createShortcutHandler } from "@/lib/keyboard-utils";
 
 interface TagSelectorProps {
   currentTags: string[];
@@ -52,21 +52,7 @@ export const TagSelector = ({
   };
 
   // Handle escape key to close dropdown
-  useEffect(() => {
-    if (!showDropdown && !showInput) return;
-
-    const handleKeyDown = createShortcutHandler([
-      {
-        key: "Escape",
-        handler: () => handleCancel(),
-        allowInInput: true,
-        description: "Close tag dropdown",
-      },
-    ]);
-
-    document.addEventListener("keydown", handleKeyDown);
-    return () => document.removeEventListener("keydown", handleKeyDown);
-  }, [showDropdown, showInput]);
+  useShortcuts({ close: () => handleCancel() }, showDropdown || showInput);
 
   // Get tag objects for current tags
   const currentTagObjects = currentTags
@@ -1,15 +1,23 @@
 "use client";
 
-import { Calendar, Clock, Trash2, X } from "lucide-react";
-import { useCallback, useEffect, useState } from "react";
+import { Bell, Calendar, Clock, Trash2, X } from "lucide-react";
+import { useCallback, useEffect, useRef, useState } from "react";
 
 import { CompletionCalendar } from "@/components/completion-calendar";
 import { FocusMode } from "@/components/focus-mode";
+import { RecurrenceEditor } from "@/components/recurrence-editor";
+import { ReminderEditor } from "@/components/reminder-editor";
 import { TagSelector } from "@/components/tag-selector";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { useShortcuts } from "@/hooks/use-shortcuts";
 import { useTasks } from "@/hooks/use-tasks";
-import { createShortcutHandler } from "@/lib/keyboard-utils";
-import { Task } from "@/lib/types";
+import { setDayEntry } from "@/lib/completion";
+import { getDueKey } from "@/lib/due-dates";
+import { getTodayKey } from "@/lib/local-date";
+import { describeRecurrence, getRecurrenceRule } from "@/lib/recurrence";
+import { getMemberName } from "@/lib/sharing";
+import { DayStatus, Task } from "@/lib/types";
 import { cn } from "@/lib/utils";
 
 interface TaskDetailSidebarProps {
@@ -33,25 +41,48 @@ export const TaskDetailSidebar = ({
     addTagToTask,
     removeTagFromTask,
     deleteTask,
+    currentUserId,
+    getProjectMembers,
+    isTaskEditable,
   } = useTasks();
+  // Viewers of a shared project see its tasks without being able to change them
+  const editable = !task || isTaskEditable(task);
   const [title, setTitle] = useState(task?.title || "");
   const [description, setDescription] = useState(task?.description || "");
   const [dueDate, setDueDate] = useState(task?.dueDate || "");
-  const [timePeriod, setTimePeriod] = useState(task?.timePeriod || "");
+  const [timePeriod, setTimePeriod] = useState(
+    task?.timePeriod?.toString() || "",
+  );
   const [isDaily, setIsDaily] = useState(task?.isDaily || false);
   const [projectId, setProjectId] = useState(task?.projectId || "");
   const [showFocusMode, setShowFocusMode] = useState(false);
 
-  // Update state when task changes
+  // Update state when task changes.
+  // When the same task changes elsewhere (such as on another device), fields being
+  // edited here keep their draft and only the untouched ones follow.
+  const previousTask = useRef(task);
   useEffect(() => {
-    if (task) {
-      setTitle(task.title || "");
-      setDescription(task.description || "");
-      setDueDate(task.dueDate || "");
-      setTimePeriod(task.timePeriod?.toString() || "");
-      setIsDaily(task.isDaily || false);
-      setProjectId(task.projectId || "");
-    }
+    const previous = previousTask.current;
+    previousTask.current = task;
+    if (!task) return;
+
+    const isSameTask = previous?.id === task.id;
+    const follow =
+      <V,>(before: V, after: V) =>
+      (draft: V) =>
+        isSameTask && draft !== before ? draft : after;
+
+    setTitle(follow(previous?.title || "", task.title || ""));
+    setDescription(follow(previous?.description || "", task.description || ""));
+    setDueDate(follow(previous?.dueDate || "", task.dueDate || ""));
+    setTimePeriod(
+      follow(
+        previous?.timePeriod?.toString() || "",
+        task.timePeriod?.toString() || "",
+      ),
+    );
+    setIsDaily(follow(previous?.isDaily || false, task.isDaily || false));
+    setProjectId(follow(previous?.projectId || "", task.projectId || ""));
   }, [task]);
 
   // Auto-resize textarea on mount and when title changes
@@ -67,7 +98,7 @@ export const TaskDetailSidebar = ({
 
   const handleClose = useCallback(() => {
     // Save any pending changes before closing
-    if (task) {
+    if (task && editable) {
       const updates: Partial<Task> = {
         title: title.trim(),
         description: description.trim() || undefined,
@@ -81,6 +112,7 @@ export const TaskDetailSidebar = ({
     onClose();
   }, [
     task,
+    editable,
     title,
     description,
     dueDate,
@@ -91,23 +123,8 @@ export const TaskDetailSidebar = ({
     onClose,
   ]);
 
-  useEffect(() => {
-    if (!task) return;
-
-    const handleKeyDown = createShortcutHandler([
-      {
-        key: "Escape",
-        handler: () => handleClose(),
-        allowInInput: true, // Allow Escape to close even when in input fields
-        description: "Close task detail sidebar",
-      },
-    ]);
-
-    document.addEventListener("keydown", handleKeyDown);
-    return () => {
-      document.removeEventListener("keydown", handleKeyDown);
-    };
-  }, [task, handleClose]);
+  // Focus mode opened from here handles Escape itself
+  useShortcuts({ close: () => handleClose() }, !!task && !showFocusMode);
 
   if (!task) return null;
 
@@ -158,19 +175,11 @@ export const TaskDetailSidebar = ({
     removeTagFromTask(task.id, tagId);
   };
 
-  const handleToggleDate = (date: string, completed: boolean) => {
+  const handleSetDay = (date: string, entry: true | DayStatus | null) => {
     if (!task) return;
-    const updatedHistory = {
-      ...(task.completionHistory || {}),
-    };
-
-    if (completed) {
-      updatedHistory[date] = true;
-    } else {
-      delete updatedHistory[date];
-    }
-
-    onUpdate(task.id, { completionHistory: updatedHistory });
+    onUpdate(task.id, {
+      completionHistory: setDayEntry(task.completionHistory, date, entry),
+    });
   };
 
   const handleClearProgress = () => {
@@ -184,13 +193,13 @@ export const TaskDetailSidebar = ({
     }
   };
 
+  const dueKey = getDueKey(task);
+  const isOverdue =
+    !task.completed && dueKey !== null && dueKey < getTodayKey();
+
   const handleDelete = () => {
     if (!task) return;
-    if (
-      window.confirm(
-        "Are you sure you want to delete this task? This cannot be undone.",
-      )
-    ) {
+    if (window.confirm("Move this task to the trash?")) {
       deleteTask(task.id);
       onClose();
     }
@@ -221,6 +230,7 @@ export const TaskDetailSidebar = ({
               id="task-title"
               value={title}
               onChange={(e) => setTitle(e.target.value)}
+              readOnly={!editable}
               className="text-med flex-1 resize-none overflow-hidden rounded-sm font-semibold hover:cursor-text"
               rows={1}
               onInput={(e) => {
@@ -242,158 +252,217 @@ export const TaskDetailSidebar = ({
             <span className="font-sm">Created: </span>
             {new Date(task.createdAt).toLocaleDateString()}
           </div>
+          {!editable && (
+            <Badge variant="outline" className="mb-2">
+              View only
+            </Badge>
+          )}
+
+          {/* Every field below is disabled for viewers */}
+          <fieldset disabled={!editable}>
+            {/* Tags */}
+            <div className="mb-3">
+              <TagSelector
+                currentTags={getTaskTags(task.id)}
+                onAddTag={handleAddTag}
+                onRemoveTag={handleRemoveTag}
+              />
+            </div>
 
-          {/* Tags */}
-          <div className="mb-3">
-            <TagSelector
-              currentTags={getTaskTags(task.id)}
-              onAddTag={handleAddTag}
-              onRemoveTag={handleRemoveTag}
-            />
-          </div>
+            {/* Project Assignment */}
+            <div className="mb-4">
+              <label
+                htmlFor="task-project"
+                className="mb-2 block text-sm font-medium"
+              >
+                Project
+              </label>
+              <select
+                id="task-project"
+                value={projectId}
+                onChange={(e) => setProjectId(e.target.value)}
+                className="w-full rounded-md border p-3"
+              >
+                <option value="">No project</option>
+                {getActiveProjects().map((project) => (
+                  <option key={project.id} value={project.id}>
+                    {project.name}
+                  </option>
+                ))}
+              </select>
+            </div>
 
-          {/* Project Assignment */}
-          <div className="mb-4">
-            <label
-              htmlFor="task-project"
-              className="mb-2 block text-sm font-medium"
-            >
-              Project
-            </label>
-            <select
-              id="task-project"
-              value={projectId}
-              onChange={(e) => setProjectId(e.target.value)}
-              className="w-full rounded-md border p-3"
-            >
-              <option value="">No project</option>
-              {getActiveProjects().map((project) => (
-                <option key={project.id} value={project.id}>
-                  {project.name}
-                </option>
-              ))}
-            </select>
-          </div>
+            {/* Assignee - only in projects shared with other people */}
+            {projectId && getProjectMembers(projectId).length > 1 && (
+              <div className="mb-4">
+                <label
+                  htmlFor="task-assignee"
+                  className="mb-2 block text-sm font-medium"
+                >
+                  Assignee
+                </label>
+                <select
+                  id="task-assignee"
+                  value={task.assigneeId ?? ""}
+                  onChange={(e) =>
+                    onUpdate(task.id, { assigneeId: e.target.value || null })
+                  }
+                  className="w-full rounded-md border p-3"
+                >
+                  <option value="">Nobody</option>
+                  {getProjectMembers(projectId).map((member) => (
+                    <option key={member.userId} value={member.userId}>
+                      {getMemberName(member)}
+                      {member.userId === currentUserId && " (you)"}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
 
-          <div className="mb-6">
-            <div className="mb-3">
-              {/* Due Date - only for non-daily tasks */}
-              {!task.isDaily && (
-                <div>
-                  <label
-                    htmlFor="task-due-date"
-                    className="mb-2 block flex items-center gap-2 text-sm font-medium"
-                  >
-                    <Calendar className="h-4 w-4" />
-                    Due Date
-                  </label>
-                  <input
-                    id="task-due-date"
-                    type="date"
-                    value={
-                      dueDate
-                        ? typeof dueDate === "string"
-                          ? dueDate.split("T")[0]
-                          : ""
-                        : ""
-                    }
-                    onChange={(e) => setDueDate(e.target.value)}
-                    className="w-full rounded-md border p-3"
-                  />
-                  {dueDate && (
-                    <button
-                      onClick={() => setDueDate("")}
-                      className="text-muted-foreground hover:text-foreground mt-1 text-xs"
+            <div className="mb-6">
+              <div className="mb-3">
+                {/* Due Date - only for non-daily tasks */}
+                {!task.isDaily && (
+                  <div>
+                    <label
+                      htmlFor="task-due-date"
+                      className="mb-2 block flex items-center gap-2 text-sm font-medium"
                     >
-                      Remove due date
-                    </button>
-                  )}
-                </div>
-              )}
+                      <Calendar className="h-4 w-4" />
+                      Due Date
+                    </label>
+                    <input
+                      id="task-due-date"
+                      type="date"
+                      value={
+                        dueDate
+                          ? typeof dueDate === "string"
+                            ? dueDate.split("T")[0]
+                            : ""
+                          : ""
+                      }
+                      onChange={(e) => setDueDate(e.target.value)}
+                      className="w-full rounded-md border p-3"
+                    />
+                    {dueDate && (
+                      <button
+                        onClick={() => setDueDate("")}
+                        className="text-muted-foreground hover:text-foreground mt-1 text-xs"
+                      >
+                        Remove due date
+                      </button>
+                    )}
+                  </div>
+                )}
 
-              {/* Streak and Calendar for Daily Tasks */}
-              {task.isDaily && (
-                <div className="rounded-lg border p-4">
-                  <CompletionCalendar
-                    task={task}
-                    onToggleDate={handleToggleDate}
-                    onClearProgress={handleClearProgress}
+                {/* Streak and Calendar for Daily Tasks */}
+                {task.isDaily && (
+                  <div className="rounded-lg border p-4">
+                    <CompletionCalendar
+                      task={task}
+                      onSetDay={handleSetDay}
+                      onClearProgress={handleClearProgress}
+                    />
+                  </div>
+                )}
+              </div>
+
+              {/* Daily Task Toggle */}
+              <div>
+                <label className="flex cursor-pointer items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={isDaily}
+                    onChange={(e) => {
+                      setIsDaily(e.target.checked);
+                      // Update task but preserve completion history
+                      onUpdate(task.id, {
+                        isDaily: e.target.checked,
+                        completionHistory: task.completionHistory || {},
+                      });
+                    }}
+                    className="rounded"
                   />
-                </div>
-              )}
+                  <span className="text-sm font-medium">Recurring task</span>
+                </label>
+                {task.completionHistory &&
+                  Object.keys(task.completionHistory).length > 0 && (
+                    <p className="text-muted-foreground mt-1 ml-7 text-xs">
+                      Completion history will be preserved
+                    </p>
+                  )}
+                {isDaily && (
+                  <div className="mt-2 ml-7">
+                    <RecurrenceEditor
+                      value={task.recurrence}
+                      onChange={(recurrence) =>
+                        onUpdate(task.id, { recurrence })
+                      }
+                    />
+                  </div>
+                )}
+              </div>
             </div>
 
-            {/* Daily Task Toggle */}
-            <div>
-              <label className="flex cursor-pointer items-center gap-2">
+            {/* Time Period */}
+            <div className="mb-3">
+              <label
+                htmlFor="task-time-period"
+                className="mb-2 block flex items-center gap-2 text-sm font-medium"
+              >
+                <Clock className="h-4 w-4" />
+                Estimate
+              </label>
+              <div className="flex items-center gap-2">
                 <input
-                  type="checkbox"
-                  checked={isDaily}
-                  onChange={(e) => {
-                    setIsDaily(e.target.checked);
-                    // Update task but preserve completion history
-                    onUpdate(task.id, {
-                      isDaily: e.target.checked,
-                      completionHistory: task.completionHistory || {},
-                    });
-                  }}
-                  className="rounded"
+                  id="task-time-period"
+                  type="number"
+                  value={timePeriod}
+                  onChange={(e) => setTimePeriod(e.target.value)}
+                  placeholder="0"
+                  min="0"
+                  className="flex-1 rounded-md border p-3"
                 />
-                <span className="text-sm font-medium">Daily task</span>
-              </label>
-              {task.completionHistory &&
-                Object.keys(task.completionHistory).length > 0 && (
-                  <p className="text-muted-foreground mt-1 ml-7 text-xs">
-                    Completion history will be preserved
-                  </p>
-                )}
+                <span className="text-muted-foreground text-sm">minutes</span>
+              </div>
+              {task.timePeriod && (
+                <div className="text-muted-foreground mt-1 text-xs">
+                  Estimated time: {formatTime(task.timePeriod)}
+                </div>
+              )}
             </div>
-          </div>
 
-          {/* Time Period */}
-          <div className="mb-3">
-            <label
-              htmlFor="task-time-period"
-              className="mb-2 block flex items-center gap-2 text-sm font-medium"
-            >
-              <Clock className="h-4 w-4" />
-              Estimate
-            </label>
-            <div className="flex items-center gap-2">
-              <input
-                id="task-time-period"
-                type="number"
-                value={timePeriod}
-                onChange={(e) => setTimePeriod(e.target.value)}
-                placeholder="0"
-                min="0"
-                className="flex-1 rounded-md border p-3"
+            {/* Reminders */}
+            <div className="mb-3">
+              <div className="mb-2 flex items-center gap-2 text-sm font-medium">
+                <Bell className="h-4 w-4" />
+                Reminders
+              </div>
+              <ReminderEditor
+                reminders={task.reminders}
+                isDaily={task.isDaily}
+                onChange={(reminders) => onUpdate(task.id, { reminders })}
               />
-              <span className="text-muted-foreground text-sm">minutes</span>
             </div>
-            {task.timePeriod && (
-              <div className="text-muted-foreground mt-1 text-xs">
-                Estimated time: {formatTime(task.timePeriod)}
-              </div>
-            )}
-          </div>
 
-          {/* Description */}
-          <div className="mb-6">
-            <label
-              htmlFor="task-description"
-              className="mb-2 block text-sm font-medium"
-            >
-              Description
-            </label>
-            <textarea
-              id="task-description"
-              value={description}
-              onChange={(e) => setDescription(e.target.value)}
-              placeholder="Add a description..."
-              className="h-32 w-full resize-none rounded-md border p-3"
-            />
-          </div>
+            {/* Description */}
+            <div className="mb-6">
+              <label
+                htmlFor="task-description"
+                className="mb-2 block text-sm font-medium"
+              >
+                Description
+              </label>
+              <textarea
+                id="task-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Add a description..."
+                className="h-32 w-full resize-none rounded-md border p-3"
+              />
+            </div>
+          </fieldset>
 
           {/* Focus Mode and Save Buttons */}
           <div className="space-y-3 border-t pt-4">
@@ -417,12 +486,14 @@ export const TaskDetailSidebar = ({
             >
               {isInToday(task.id) ? "Remove from Today" : "Add to Today"}
             </Button>
-            <Button
-              onClick={handleSave}
-              className="w-full bg-emerald-500 hover:cursor-pointer"
-            >
-              Save Changes
-            </Button>
+            {editable && (
+              <Button
+                onClick={handleSave}
+                className="w-full bg-emerald-500 hover:cursor-pointer"
+              >
+                Save Changes
+              </Button>
+            )}
           </div>
 
           {/* Task Info */}
@@ -461,7 +532,7 @@ export const TaskDetailSidebar = ({
 
               {task.isDaily && (
                 <div className="inline-block rounded bg-blue-100 px-2 py-1 text-xs font-medium text-blue-800">
-                  Daily Task
+                  {describeRecurrence(getRecurrenceRule(task))}
                 </div>
               )}
 
@@ -469,30 +540,30 @@ export const TaskDetailSidebar = ({
                 <div
                   className={cn(
                     "inline-block rounded px-2 py-1 text-xs font-medium",
-                    new Date(task.dueDate) < new Date()
+                    isOverdue
                       ? "bg-red-100 text-red-800"
                       : "bg-gray-100 text-gray-800",
                   )}
                 >
-                  {new Date(task.dueDate) < new Date()
-                    ? "Overdue"
-                    : "Has Due Date"}
+                  {isOverdue ? "Overdue" : "Has Due Date"}
                 </div>
               )}
             </div>
           </div>
 
           {/* Delete Task Button */}
-          <div className="mt-4 border-t pt-4">
-            <Button
-              onClick={handleDelete}
-              variant="destructive"
-              className="w-full hover:cursor-pointer"
-            >
-              <Trash2 className="mr-2 h-4 w-4" />
-              Delete Task
-            </Button>
-          </div>
+          {editable && (
+            <div className="mt-4 border-t pt-4">
+              <Button
+                onClick={handleDelete}
+                variant="destructive"
+                className="w-full hover:cursor-pointer"
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                Delete Task
+              </Button>
+            </div>
+          )}
         </div>
       </div>
     </>
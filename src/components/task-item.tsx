@@ -1,6 +1,6 @@
 "use client";
 
-import { Calendar, RefreshCw, Trash2 } from "lucide-react";
+import { Calendar, RefreshCw, Trash2, UserRound } from "lucide-react";
 import { useEffect, useState } from "react";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
@@ -13,6 +13,12 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { useTasks } from "@/hooks/use-tasks";
+import { isCompletedOn } from "@/lib/completion";
+import { describeDueDate, getDueKey } from "@/lib/due-dates";
+import { SelectMode } from "@/lib/list-selection";
+import { getTodayKey } from "@/lib/local-date";
+import { describeRecurrence, getRecurrenceRule } from "@/lib/recurrence";
+import { getMemberName } from "@/lib/sharing";
 import { Tag, Task } from "@/lib/types";
 import { cn } from "@/lib/utils";
 
@@ -26,6 +32,13 @@ interface TaskItemProps {
   isDaily?: boolean;
   hideDelete?: boolean;
   showProjectName?: boolean;
+  // For viewers of a shared project: the task can be opened but not changed
+  readOnly?: boolean;
+  // Keyboard navigation, see useTaskListNavigation
+  selected?: boolean;
+  editing?: boolean;
+  onEditEnd?: () => void;
+  onSelect?: (task: Task, mode: SelectMode) => void;
 }
 
 const formatTime = (minutes: number) => {
@@ -47,17 +60,21 @@ export const TaskItem = ({
   isDaily = false,
   hideDelete = false,
   showProjectName = false,
+  readOnly = false,
+  selected = false,
+  editing = false,
+  onEditEnd,
+  onSelect,
 }: TaskItemProps) => {
-  const { tags, getTaskTagIds, projects } = useTasks();
+  const { tags, getTaskTagIds, projects, getProjectMembers, currentUserId } =
+    useTasks();
   const [isEditingTitle, setIsEditingTitle] = useState(false);
   const [editTitle, setEditTitle] = useState(task.title);
   const [clickTimeout, setClickTimeout] = useState<NodeJS.Timeout | null>(null);
-  const isDue = task.dueDate && new Date(task.dueDate) < new Date();
-
   // For daily tasks, check if completed today
-  const today = new Date().toISOString().split("T")[0];
-  const isCompletedToday =
-    task.isDaily && task.completionHistory?.[today] === true;
+  const today = getTodayKey();
+  const dueKey = getDueKey(task);
+  const isCompletedToday = isCompletedOn(task, today);
   const displayCompleted = task.isDaily ? isCompletedToday : task.completed;
 
   const getTagsForTask = (): Tag[] => {
@@ -66,6 +83,16 @@ export const TaskItem = ({
     return tags.filter((tag) => tts.includes(tag.id));
   };
 
+  const getAssigneeName = (): string | undefined => {
+    if (!task.assigneeId || !task.projectId) return undefined;
+    if (task.assigneeId === currentUserId) return "You";
+    return getMemberName(
+      getProjectMembers(task.projectId).find(
+        (member) => member.userId === task.assigneeId,
+      ),
+    );
+  };
+
   const getProjectName = (): string | undefined => {
     if (!task.projectId) return undefined;
     const project = projects.find((p) => p.id === task.projectId);
@@ -85,7 +112,13 @@ export const TaskItem = ({
     setIsEditingTitle(false);
   }, [task.id]);
 
+  // Editing started from the keyboard
+  useEffect(() => {
+    if (editing && !readOnly) setIsEditingTitle(true);
+  }, [editing, readOnly]);
+
   const handleTitleClick = (e: React.MouseEvent | React.KeyboardEvent) => {
+    if (readOnly) return;
     e.stopPropagation();
     setIsEditingTitle(true);
   };
@@ -95,16 +128,25 @@ export const TaskItem = ({
       onUpdate(task.id, { title: editTitle.trim() });
     }
     setIsEditingTitle(false);
+    onEditEnd?.();
   };
 
   const handleTitleCancel = () => {
     setEditTitle(task.title);
     setIsEditingTitle(false);
+    onEditEnd?.();
   };
 
-  const handleClick = () => {
+  const handleClick = (e: React.MouseEvent) => {
     if (isEditingTitle) return;
 
+    // Shift- and Cmd/Ctrl-click change the selection instead of opening the task
+    if ((e.shiftKey || e.metaKey || e.ctrlKey) && onSelect) {
+      onSelect(task, e.shiftKey ? "extend" : "toggle");
+      return;
+    }
+    onSelect?.(task, "replace");
+
     // Clear any existing timeout
     if (clickTimeout) {
       clearTimeout(clickTimeout);
@@ -148,9 +190,12 @@ export const TaskItem = ({
   return (
     <div
       className={cn(
-        "hover:bg-muted/50 flex cursor-pointer items-center gap-3 rounded-lg border p-3 transition-colors",
+        "hover:bg-muted/50 focus-visible:ring-ring/50 flex cursor-pointer items-center gap-3 rounded-lg border p-3 transition-colors outline-none focus-visible:ring-[3px]",
         displayCompleted && "opacity-60",
+        selected && "border-primary bg-primary/5",
       )}
+      data-task-id={task.id}
+      aria-pressed={selected}
       onClick={handleClick}
       onDoubleClick={handleDoubleClick}
       onKeyDown={(e) => {
@@ -171,6 +216,7 @@ export const TaskItem = ({
           onToggle(task.id, e.target.checked);
         }}
         onClick={(e) => e.stopPropagation()}
+        disabled={readOnly}
         className="rounded"
       />
 
@@ -224,15 +270,28 @@ export const TaskItem = ({
           </div>
         )}
         <div className="mt-1 flex flex-wrap items-center gap-2">
-          {task.dueDate && (
+          {dueKey && (
             <div
               className={cn(
-                "flex items-center gap-1 text-xs",
-                isDue ? "text-red-500" : "text-muted-foreground",
+                "flex items-center gap-1 rounded px-2 py-1 text-xs",
+                displayCompleted
+                  ? "text-muted-foreground"
+                  : dueKey < today
+                    ? "bg-red-100 text-red-700"
+                    : dueKey === today
+                      ? "bg-orange-100 text-orange-700"
+                      : "text-muted-foreground bg-muted",
               )}
             >
               <Calendar className="h-3 w-3" />
-              {new Date(task.dueDate).toLocaleDateString()}
+              {describeDueDate(dueKey, today)}
+            </div>
+          )}
+
+          {getAssigneeName() && (
+            <div className="text-muted-foreground bg-muted flex items-center gap-1 rounded px-2 py-1 text-xs">
+              <UserRound className="h-3 w-3" />
+              {getAssigneeName()}
             </div>
           )}
 
@@ -276,11 +335,13 @@ export const TaskItem = ({
                 <RefreshCw className="h-3 w-3 cursor-default text-blue-400" />
               </div>
             </TooltipTrigger>
-            <TooltipContent>Daily Task</TooltipContent>
+            <TooltipContent>
+              {describeRecurrence(getRecurrenceRule(task))}
+            </TooltipContent>
           </Tooltip>
         </TooltipProvider>
       )}
-      {!hideDelete && (
+      {!hideDelete && !readOnly && (
         <Button
           variant="ghost"
           size="icon"
@@ -3,9 +3,11 @@
 import { GripVertical, Plus, Trash2, X } from "lucide-react";
 import { useState } from "react";
 
+import { BulkActionBar } from "@/components/bulk-action-bar";
 import { Button } from "@/components/ui/button";
+import { useTaskListNavigation } from "@/hooks/use-task-list-navigation";
 import { useTasks } from "@/hooks/use-tasks";
-import { Task } from "@/lib/types";
+import { Task, TodayTask } from "@/lib/types";
 
 import { AddTasksPanel } from "./add-tasks-panel";
 import { TaskItem } from "./task-item";
@@ -51,10 +53,28 @@ export const TodayView = ({
     }
   };
 
+  // Today entries of tasks that aren't listed keep their place at the end
+  const handleReorder = (reordered: Task[]) => {
+    const position = (entry: TodayTask) => {
+      const index = reordered.findIndex((t) => t.id === entry.taskId);
+      return index === -1 ? reordered.length : index;
+    };
+    reorderTodayTasks(
+      [...todayTasks].sort((a, b) => position(a) - position(b)),
+    );
+  };
+
+  const { listRef, getItemProps, selectedTasks, clearSelection } =
+    useTaskListNavigation({
+      onToggle: handleToggle,
+      onFocus: onTaskDoubleClick,
+      reorderGroups: [tasks],
+      onReorder: handleReorder,
+    });
+
+  // No confirmation needed, the undo toast can bring it back
   const handleDelete = (id: string) => {
-    if (window.confirm("Are you sure you want to delete this task?")) {
-      deleteTask(id);
-    }
+    deleteTask(id);
   };
 
   const handleRemoveFromToday = (taskId: string) => {
@@ -62,11 +82,7 @@ export const TodayView = ({
   };
 
   const handleClearToday = () => {
-    if (
-      window.confirm("Are you sure you want to clear all tasks from Today?")
-    ) {
-      clearToday();
-    }
+    clearToday();
   };
 
   const handleDragStart = (e: React.DragEvent, taskId: string) => {
@@ -167,7 +183,7 @@ export const TodayView = ({
               </p>
             </div>
           ) : (
-            <div className="space-y-2">
+            <div ref={listRef} className="space-y-2">
               {tasks.map((task, index) => (
                 <div
                   key={task.id}
@@ -211,6 +227,7 @@ export const TodayView = ({
                       onDoubleClick={onTaskDoubleClick}
                       hideDelete={true}
                       showProjectName={true}
+                      {...getItemProps(task)}
                     />
                   </div>
 
@@ -239,6 +256,7 @@ export const TodayView = ({
       {isAddTasksPanelOpen && (
         <AddTasksPanel onClose={() => setIsAddTasksPanelOpen(false)} />
       )}
+      <BulkActionBar tasks={selectedTasks} onClear={clearSelection} />
     </div>
   );
 };
@@ -0,0 +1,214 @@
+"use client";
+
+import { RotateCcw, Trash2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { useTasks } from "@/hooks/use-tasks";
+import { getTrashRetentionDays } from "@/lib/trash";
+import { Project, Task } from "@/lib/types";
+
+interface TrashRowProps {
+  title: string;
+  details?: string;
+  deletedAt: string;
+  onRestore: () => void;
+  onDeletePermanently: () => void;
+}
+
+const formatDeletedAt = (deletedAt: string) =>
+  new Date(deletedAt).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+
+const TrashRow = ({
+  title,
+  details,
+  deletedAt,
+  onRestore,
+  onDeletePermanently,
+}: TrashRowProps) => (
+  <div className="flex items-center justify-between gap-3 rounded-lg border p-3">
+    <div className="min-w-0 flex-1">
+      <p className="truncate font-medium">{title}</p>
+      <p className="text-muted-foreground text-xs">
+        {details && `${details} · `}Deleted {formatDeletedAt(deletedAt)}
+      </p>
+    </div>
+    <div className="flex flex-shrink-0 items-center gap-1">
+      <Button variant="outline" size="sm" onClick={onRestore}>
+        <RotateCcw className="h-4 w-4" />
+        Restore
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="text-muted-foreground hover:text-destructive h-8 w-8"
+        onClick={onDeletePermanently}
+        title="Delete permanently"
+        aria-label={`Delete "${title}" permanently`}
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  </div>
+);
+
+export const TrashView = () => {
+  const {
+    trashedTasks,
+    trashedProjects,
+    trashedTags,
+    restoreTask,
+    restoreProject,
+    restoreTag,
+    deleteTaskPermanently,
+    deleteProjectPermanently,
+    deleteTagPermanently,
+    emptyTrash,
+  } = useTasks();
+
+  const retentionDays = getTrashRetentionDays();
+  const byDeletedAt = <T extends { deletedAt?: string | null }>(a: T, b: T) =>
+    new Date(b.deletedAt!).getTime() - new Date(a.deletedAt!).getTime();
+
+  // Tasks trashed together with their project or parent task are listed under it
+  const isTrashedWithParent = (task: Task) =>
+    trashedProjects.some(
+      (p) => p.id === task.projectId && p.deletedAt === task.deletedAt,
+    ) ||
+    trashedTasks.some(
+      (t) => t.id === task.parentTaskId && t.deletedAt === task.deletedAt,
+    );
+
+  const tasks = trashedTasks
+    .filter((task) => !isTrashedWithParent(task))
+    .sort(byDeletedAt);
+  const projects = [...trashedProjects].sort(byDeletedAt);
+  const tags = [...trashedTags].sort(byDeletedAt);
+  const isEmpty =
+    tasks.length === 0 && projects.length === 0 && tags.length === 0;
+
+  const getTaskDetails = (task: Task) => {
+    const subtaskCount = trashedTasks.filter(
+      (t) => t.parentTaskId === task.id && t.deletedAt === task.deletedAt,
+    ).length;
+    return subtaskCount > 0
+      ? `${subtaskCount} subtask${subtaskCount !== 1 ? "s" : ""}`
+      : undefined;
+  };
+
+  const getProjectDetails = (project: Project) => {
+    const taskCount = trashedTasks.filter(
+      (t) => t.projectId === project.id && t.deletedAt === project.deletedAt,
+    ).length;
+    return `Project · ${taskCount} task${taskCount !== 1 ? "s" : ""}`;
+  };
+
+  const handleDeletePermanently = (name: string, onConfirm: () => void) => {
+    if (
+      window.confirm(`Permanently delete "${name}"? This cannot be undone.`)
+    ) {
+      onConfirm();
+    }
+  };
+
+  const handleEmptyTrash = () => {
+    if (
+      window.confirm(
+        "Permanently delete everything in the trash? This cannot be undone.",
+      )
+    ) {
+      emptyTrash();
+    }
+  };
+
+  return (
+    <div className="flex-1 p-6">
+      <div className="mb-6 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Trash</h1>
+          <p className="text-muted-foreground mt-1">
+            {retentionDays > 0
+              ? `Items are permanently deleted after ${retentionDays} days`
+              : "Items stay here until you delete them"}
+          </p>
+        </div>
+        {!isEmpty && (
+          <Button variant="outline" onClick={handleEmptyTrash}>
+            <Trash2 className="h-4 w-4" />
+            Empty Trash
+          </Button>
+        )}
+      </div>
+
+      {isEmpty ? (
+        <div className="text-muted-foreground py-12 text-center">
+          Trash is empty
+        </div>
+      ) : (
+        <div className="space-y-8">
+          {projects.length > 0 && (
+            <div className="space-y-2">
+              <h2 className="text-xl font-semibold">Projects</h2>
+              {projects.map((project) => (
+                <TrashRow
+                  key={project.id}
+                  title={project.name}
+                  details={getProjectDetails(project)}
+                  deletedAt={project.deletedAt!}
+                  onRestore={() => restoreProject(project.id)}
+                  onDeletePermanently={() =>
+                    handleDeletePermanently(project.name, () =>
+                      deleteProjectPermanently(project.id),
+                    )
+                  }
+                />
+              ))}
+            </div>
+          )}
+
+          {tasks.length > 0 && (
+            <div className="space-y-2">
+              <h2 className="text-xl font-semibold">Tasks</h2>
+              {tasks.map((task) => (
+                <TrashRow
+                  key={task.id}
+                  title={task.title}
+                  details={getTaskDetails(task)}
+                  deletedAt={task.deletedAt!}
+                  onRestore={() => restoreTask(task.id)}
+                  onDeletePermanently={() =>
+                    handleDeletePermanently(task.title, () =>
+                      deleteTaskPermanently(task.id),
+                    )
+                  }
+                />
+              ))}
+            </div>
+          )}
+
+          {tags.length > 0 && (
+            <div className="space-y-2">
+              <h2 className="text-xl font-semibold">Tags</h2>
+              {tags.map((tag) => (
+                <TrashRow
+                  key={tag.id}
+                  title={tag.name}
+                  deletedAt={tag.deletedAt!}
+                  onRestore={() => restoreTag(tag.id)}
+                  onDeletePermanently={() =>
+                    handleDeletePermanently(tag.name, () =>
+                      deleteTagPermanently(tag.id),
+                    )
+                  }
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
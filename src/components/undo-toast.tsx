@@ -0,0 +1,75 @@
+"use client";
+
+import { X } from "lucide-react";
+import { useEffect, useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { useUndoHistory } from "@/hooks/use-undo-history";
+
+const TOAST_DURATION_MS = 5000;
+
+/**
+ * Announces notable actions with an Undo button, and undone actions with a Redo button
+ */
+export const UndoToast = () => {
+  const { lastEvent, undo, redo } = useUndoHistory();
+  const [visibleId, setVisibleId] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!lastEvent) return;
+    // Only actions that ask for it are announced, but undo/redo always is
+    if (lastEvent.kind === "done" && !lastEvent.entry.notify) {
+      setVisibleId(null);
+      return;
+    }
+
+    setVisibleId(lastEvent.id);
+    const timeout = setTimeout(() => setVisibleId(null), TOAST_DURATION_MS);
+    return () => clearTimeout(timeout);
+  }, [lastEvent]);
+
+  if (!lastEvent || visibleId !== lastEvent.id) return null;
+
+  const { kind, entry } = lastEvent;
+  const message =
+    kind === "undone"
+      ? `Undid: ${entry.label}`
+      : kind === "redone"
+        ? `Redid: ${entry.label}`
+        : entry.label;
+
+  return (
+    <div
+      role="status"
+      className="bg-foreground text-background fixed bottom-6 left-1/2 z-50 flex -translate-x-1/2 items-center gap-3 rounded-lg py-2 pr-2 pl-4 shadow-lg"
+    >
+      <span className="text-sm">{message}</span>
+      {kind === "undone" ? (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="hover:bg-background/10 hover:text-background"
+          onClick={redo}
+        >
+          Redo
+        </Button>
+      ) : (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="hover:bg-background/10 hover:text-background"
+          onClick={undo}
+        >
+          Undo
+        </Button>
+      )}
+      <button
+        onClick={() => setVisibleId(null)}
+        className="hover:bg-background/10 rounded p-1"
+        aria-label="Dismiss"
+      >
+        <X className="h-4 w-4" />
+      </button>
+    </div>
+  );
+};
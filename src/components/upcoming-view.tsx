@@ -0,0 +1,81 @@
+"use client";
+
+import { BulkActionBar } from "@/components/bulk-action-bar";
+import { TaskItem } from "@/components/task-item";
+import { useTaskListNavigation } from "@/hooks/use-task-list-navigation";
+import { useTasks } from "@/hooks/use-tasks";
+import { groupByDueDate } from "@/lib/due-dates";
+import { getTodayKey } from "@/lib/local-date";
+import { Task } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+interface UpcomingViewProps {
+  onTaskClick: (task: Task) => void;
+  onTaskDoubleClick: (task: Task) => void;
+}
+
+export const UpcomingView = ({
+  onTaskClick,
+  onTaskDoubleClick,
+}: UpcomingViewProps) => {
+  const { tasks, updateTask, deleteTask } = useTasks();
+
+  const groups = groupByDueDate(tasks, getTodayKey());
+
+  // Sorted by due date, so there is nothing to reorder
+  const { listRef, getItemProps, selectedTasks, clearSelection } =
+    useTaskListNavigation({
+      onToggle: (id, completed) => updateTask(id, { completed }),
+      onFocus: onTaskDoubleClick,
+    });
+
+  return (
+    <div className="flex-1 p-6">
+      <div className="mx-auto max-w-4xl">
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold">Upcoming</h1>
+          <p className="text-muted-foreground">Tasks with a due date</p>
+        </div>
+
+        {groups.length === 0 ? (
+          <div className="text-muted-foreground py-12 text-center">
+            <p>Nothing coming up.</p>
+            <p className="text-sm">Tasks with a due date will show here.</p>
+          </div>
+        ) : (
+          <div ref={listRef} className="space-y-8">
+            {groups.map(({ group, label, tasks: groupTasks }) => (
+              <div key={group} className="space-y-2">
+                <h2
+                  className={cn(
+                    "text-lg font-semibold",
+                    group === "overdue" && "text-red-500",
+                  )}
+                >
+                  {label}
+                  <span className="text-muted-foreground ml-2 text-sm font-normal">
+                    {groupTasks.length}
+                  </span>
+                </h2>
+                {groupTasks.map((task) => (
+                  <TaskItem
+                    key={task.id}
+                    task={task}
+                    onToggle={(id, completed) => updateTask(id, { completed })}
+                    onDelete={deleteTask}
+                    onUpdate={updateTask}
+                    onClick={onTaskClick}
+                    onDoubleClick={onTaskDoubleClick}
+                    showProjectName={true}
+                    {...getItemProps(task)}
+                  />
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+      <BulkActionBar tasks={selectedTasks} onClear={clearSelection} />
+    </div>
+  );
+};
@@ -6,20 +6,35 @@ export const env = createEnv({
     APP_URL: z.string().optional(),
     GOOGLE_SITE_VERIFICATION_ID: z.string().optional(),
     DATABASE_URL: z.string().optional(),
+    // Sign-in providers (see src/auth.ts); Auth.js also reads AUTH_SECRET and the OAuth secrets
+    AUTH_GITHUB_ID: z.string().optional(),
+    AUTH_GOOGLE_ID: z.string().optional(),
+    AUTH_RESEND_KEY: z.string().optional(),
+    AUTH_EMAIL_FROM: z.string().optional(),
+    // Secret PostgREST/Supabase verifies user tokens with
+    SUPABASE_JWT_SECRET: z.string().optional(),
   },
   client: {
     NEXT_PUBLIC_STORAGE_TYPE: z.enum(["local", "remote"]).default("local"),
     NEXT_PUBLIC_SUPABASE_URL: z.string().optional(),
     NEXT_PUBLIC_SUPABASE_ANON_KEY: z.string().optional(),
     NEXT_PUBLIC_SYNC_INTERVAL_MS: z.coerce.number().default(5000),
+    // Turn off for a PostgREST server without Supabase Realtime next to it
+    NEXT_PUBLIC_SYNC_REALTIME: z.enum(["true", "false"]).default("true"),
   },
   runtimeEnv: {
     APP_URL: process.env.APP_URL,
     GOOGLE_SITE_VERIFICATION_ID: process.env.GOOGLE_SITE_VERIFICATION_ID,
     DATABASE_URL: process.env.DATABASE_URL,
+    AUTH_GITHUB_ID: process.env.AUTH_GITHUB_ID,
+    AUTH_GOOGLE_ID: process.env.AUTH_GOOGLE_ID,
+    AUTH_RESEND_KEY: process.env.AUTH_RESEND_KEY,
+    AUTH_EMAIL_FROM: process.env.AUTH_EMAIL_FROM,
+    SUPABASE_JWT_SECRET: process.env.SUPABASE_JWT_SECRET,
     NEXT_PUBLIC_STORAGE_TYPE: process.env.NEXT_PUBLIC_STORAGE_TYPE,
     NEXT_PUBLIC_SUPABASE_URL: process.env.NEXT_PUBLIC_SUPABASE_URL,
     NEXT_PUBLIC_SUPABASE_ANON_KEY: process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY,
     NEXT_PUBLIC_SYNC_INTERVAL_MS: process.env.NEXT_PUBLIC_SYNC_INTERVAL_MS,
+    NEXT_PUBLIC_SYNC_REALTIME: process.env.NEXT_PUBLIC_SYNC_REALTIME,
   },
 });
@@ -0,0 +1,73 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import { getStorageManager } from "@/hooks/use-tasks";
+import {
+  allowDatabaseFileAccess,
+  chooseDatabaseFile,
+  forgetDatabaseFile,
+  getDatabaseFileName,
+  isDatabaseFileSupported,
+  needsDatabaseFileAccess,
+} from "@/lib/sync/sqlite-file";
+
+/**
+ * The database file chosen in Settings, and ways to choose another one or stop using it.
+ * The app syncs with the file from the next page load, so changing it reloads the page.
+ */
+export const useDatabaseFile = () => {
+  const [isSupported, setIsSupported] = useState(false);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [needsAccess, setNeedsAccess] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setIsSupported(isDatabaseFileSupported());
+    setFileName(getDatabaseFileName());
+    if (isDatabaseFileSupported()) {
+      needsDatabaseFileAccess()
+        .then(setNeedsAccess)
+        .catch((err) => console.error("Failed to check file access:", err));
+    }
+  }, []);
+
+  const chooseFile = async (create: boolean) => {
+    setError(null);
+    try {
+      const local = await getStorageManager().exportData();
+      if (await chooseDatabaseFile(create, local)) {
+        window.location.reload();
+      }
+    } catch (err) {
+      console.error("Failed to use database file:", err);
+      setError("Couldn't save your tasks in that file");
+    }
+  };
+
+  const allowAccess = async () => {
+    if (await allowDatabaseFileAccess()) {
+      setNeedsAccess(false);
+      // Send what was queued while the file couldn't be written
+      const manager = getStorageManager();
+      manager.retryFailed();
+      await manager.pullFromRemote();
+      await manager.syncNow();
+    }
+  };
+
+  const stopUsingFile = async () => {
+    await forgetDatabaseFile();
+    window.location.reload();
+  };
+
+  return {
+    isSupported,
+    fileName,
+    needsAccess,
+    error,
+    chooseFile,
+    allowAccess,
+    stopUsingFile,
+  };
+};
@@ -0,0 +1,37 @@
+"use client";
+
+import { useEffect, useState, useSyncExternalStore } from "react";
+
+import { focusTimer, getSecondsLeft } from "@/lib/focus-timer";
+
+// How often the countdown re-renders while running
+const TICK_MS = 250;
+
+const getServerSnapshot = () => null;
+
+/**
+ * Subscribe to the focus timer shared by all tabs, with a ticking countdown
+ */
+export const useFocusTimer = () => {
+  const timer = useSyncExternalStore(
+    focusTimer.subscribe,
+    focusTimer.getSnapshot,
+    getServerSnapshot,
+  );
+  const isRunning = timer !== null && timer.endsAt !== null;
+  // Re-render on every tick, the time left is read from the clock
+  const [, setTick] = useState(0);
+
+  useEffect(() => {
+    if (!isRunning) return;
+
+    const interval = setInterval(() => setTick((tick) => tick + 1), TICK_MS);
+    return () => clearInterval(interval);
+  }, [isRunning]);
+
+  return {
+    timer,
+    isRunning,
+    secondsLeft: timer ? getSecondsLeft(timer) : 0,
+  };
+};
@@ -0,0 +1,48 @@
+"use client";
+
+import { useEffect, useRef, useSyncExternalStore } from "react";
+
+import {
+  DEFAULT_BINDINGS,
+  ShortcutBindings,
+  ShortcutHandlers,
+  ShortcutId,
+  shortcutRegistry,
+} from "@/lib/shortcuts";
+
+const getServerSnapshot = (): ShortcutBindings => DEFAULT_BINDINGS;
+
+const setBinding = (id: ShortcutId, binding: string) =>
+  shortcutRegistry.setBinding(id, binding);
+const resetBinding = (id: ShortcutId) => shortcutRegistry.resetBinding(id);
+const resetAll = () => shortcutRegistry.resetAll();
+
+/**
+ * Handle shortcuts from the central registry while enabled.
+ * The latest handlers are always used, so they don't need to be memoized.
+ */
+export const useShortcuts = (handlers: ShortcutHandlers, enabled = true) => {
+  const handlersRef = useRef(handlers);
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+    return shortcutRegistry.register(() => handlersRef.current);
+  }, [enabled]);
+};
+
+/**
+ * Subscribe to the current shortcut bindings, including the user's overrides
+ */
+export const useShortcutBindings = () => {
+  const bindings = useSyncExternalStore(
+    shortcutRegistry.subscribe,
+    shortcutRegistry.getSnapshot,
+    getServerSnapshot,
+  );
+
+  return { bindings, setBinding, resetBinding, resetAll };
+};
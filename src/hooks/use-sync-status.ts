@@ -0,0 +1,34 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import { getStorageManager } from "@/hooks/use-tasks";
+import { SyncStatus } from "@/lib/sync/types";
+
+const syncNow = () => getStorageManager().syncNow();
+const retryAll = () => getStorageManager().retryFailed();
+const retryOperation = (id: string) => getStorageManager().retryOperation(id);
+const discardOperation = (id: string) =>
+  getStorageManager().discardOperation(id);
+
+/**
+ * Subscribe to the sync queue: what is waiting to reach the server and what failed
+ */
+export const useSyncStatus = () => {
+  const [status, setStatus] = useState<SyncStatus | null>(null);
+
+  useEffect(() => {
+    const manager = getStorageManager();
+    const refresh = () => setStatus(manager.getSyncStatus());
+    refresh();
+    return manager.subscribeToSync(refresh);
+  }, []);
+
+  return {
+    status,
+    syncNow,
+    retryAll,
+    retryOperation,
+    discardOperation,
+  };
+};
@@ -0,0 +1,169 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+
+import { useShortcuts } from "@/hooks/use-shortcuts";
+import { useTasks } from "@/hooks/use-tasks";
+import { isDoneOn } from "@/lib/completion";
+import {
+  clickItem,
+  EMPTY_SELECTION,
+  ListSelection,
+  moveCursor,
+  moveItems,
+  pruneSelection,
+  SelectMode,
+} from "@/lib/list-selection";
+import { getTodayKey } from "@/lib/local-date";
+import { Task } from "@/lib/types";
+
+interface TaskListNavigationOptions {
+  onToggle: (id: string, completed: boolean) => void;
+  onFocus: (task: Task) => void;
+  // The groups of tasks Alt+Up/Down reorder within, each in its current order,
+  // and how to save a group's new order. Lists sorted some other way leave these out.
+  reorderGroups?: Task[][];
+  onReorder?: (tasks: Task[]) => void;
+}
+
+// Ids of the TaskItems rendered in a list, in page order
+const getListIds = (list: HTMLElement | null) => {
+  const elements = list?.querySelectorAll<HTMLElement>("[data-task-id]") ?? [];
+  return [
+    ...new Set(Array.from(elements, (element) => element.dataset.taskId!)),
+  ];
+};
+
+/**
+ * Keyboard navigation for a task list: j/k move a cursor through the tasks,
+ * Shift extends the selection, and single keys act on the selected tasks.
+ * The list is read from the TaskItems rendered inside listRef, in page order,
+ * so grouped and collapsible lists work without flattening them first.
+ * Render a BulkActionBar with selectedTasks to act on a selection by mouse.
+ */
+export const useTaskListNavigation = ({
+  onToggle,
+  onFocus,
+  reorderGroups,
+  onReorder,
+}: TaskListNavigationOptions) => {
+  const { tasks, isInToday, setInToday, completeTasks } = useTasks();
+  const listRef = useRef<HTMLDivElement>(null);
+  const [selection, setSelection] = useState<ListSelection>(EMPTY_SELECTION);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const getIds = () => getListIds(listRef.current);
+
+  const focusRow = (id: string) => {
+    listRef.current
+      ?.querySelector<HTMLElement>(`[data-task-id="${id}"]`)
+      ?.focus();
+  };
+
+  // The selection as it stands, without tasks that have left the list
+  const getCurrent = () => pruneSelection(getIds(), selection);
+
+  // Forget tasks that were deleted or moved out of the list
+  useEffect(() => {
+    const current = pruneSelection(getListIds(listRef.current), selection);
+    if (current !== selection) setSelection(current);
+  }, [selection, tasks]);
+
+  const selectedTasks = selection.selectedIds
+    .map((id) => tasks.find((task) => task.id === id))
+    .filter((task): task is Task => task !== undefined);
+
+  const getSelectedTasks = () =>
+    getCurrent()
+      .selectedIds.map((id) => tasks.find((task) => task.id === id))
+      .filter((task): task is Task => task !== undefined);
+
+  const getCursorTask = () => {
+    const { cursorId } = getCurrent();
+    return tasks.find((task) => task.id === cursorId);
+  };
+
+  const move = (delta: number, extend: boolean) => {
+    const ids = getIds();
+    const next = moveCursor(ids, pruneSelection(ids, selection), delta, extend);
+    setSelection(next);
+    if (next.cursorId) focusRow(next.cursorId);
+  };
+
+  const toggleComplete = () => {
+    const selected = getSelectedTasks();
+    if (selected.length === 0) return;
+
+    // Complete them all, unless they all are already
+    const completed = !selected.every((task) => isDoneOn(task, getTodayKey()));
+    if (selected.length === 1) {
+      onToggle(selected[0].id, completed);
+      return;
+    }
+    void completeTasks(
+      selected.map((task) => task.id),
+      completed,
+    );
+  };
+
+  const toggleToday = () => {
+    const ids = getSelectedTasks().map((task) => task.id);
+    if (ids.length === 0) return;
+    void setInToday(ids, !ids.every(isInToday));
+  };
+
+  const moveSelected = (delta: -1 | 1) => {
+    if (!reorderGroups || !onReorder) return;
+    const current = getCurrent();
+    // Only the group holding every selected task can move them
+    const moved = reorderGroups
+      .map((group) => moveItems(group, current.selectedIds, delta))
+      .find((group) => group !== null);
+    if (!moved) return;
+    onReorder(moved);
+    // The rows re-render in their new places, keep the cursor in view
+    if (current.cursorId) {
+      const { cursorId } = current;
+      requestAnimationFrame(() => focusRow(cursorId));
+    }
+  };
+
+  const clearSelection = () => setSelection(EMPTY_SELECTION);
+
+  useShortcuts({
+    "list-next": () => move(1, false),
+    "list-previous": () => move(-1, false),
+    "list-extend-next": () => move(1, true),
+    "list-extend-previous": () => move(-1, true),
+    "list-toggle-complete": toggleComplete,
+    "list-edit": () => {
+      const task = getCursorTask();
+      if (task) setEditingId(task.id);
+    },
+    "list-focus": () => {
+      const task = getCursorTask();
+      if (task) onFocus(task);
+    },
+    "list-today": toggleToday,
+    "list-move-up": () => moveSelected(-1),
+    "list-move-down": () => moveSelected(1),
+    "list-clear-selection": clearSelection,
+  });
+
+  /**
+   * Props for the TaskItem of a task in this list
+   */
+  const getItemProps = (task: Task) => ({
+    selected: selection.selectedIds.includes(task.id),
+    editing: editingId === task.id,
+    onEditEnd: () => {
+      if (editingId !== task.id) return;
+      setEditingId(null);
+      focusRow(task.id);
+    },
+    onSelect: (selected: Task, mode: SelectMode) =>
+      setSelection(clickItem(getIds(), selection, selected.id, mode)),
+  });
+
+  return { listRef, getItemProps, selectedTasks, clearSelection };
+};
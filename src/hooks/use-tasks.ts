@@ -1,20 +1,61 @@
 "use client";
 
-import { useEffect, useRef } from "react";
+import { useCallback, useEffect, useMemo, useRef } from "react";
 import { flushSync } from "react-dom";
 
 import { env } from "@/env.mjs";
+import { accessTokens } from "@/lib/auth/access-token";
+import { setDayEntry } from "@/lib/completion";
+import {
+  markDateKeyMigrationDone,
+  needsDateKeyMigration,
+  rekeyCompletionHistory,
+} from "@/lib/date-key-migration";
+import {
+  getLastRollover,
+  scheduleDayRollover,
+  setLastRollover,
+} from "@/lib/day-rollover";
+import { getTodayKey, keyToLocalDate } from "@/lib/local-date";
+import { isTaskDueOn } from "@/lib/recurrence";
+import { markReminderFired, snoozeReminder } from "@/lib/reminders";
+import { canEditTask, getMemberRole } from "@/lib/sharing";
 import { RemoteStorageAdapter } from "@/lib/sync/remote-storage-adapter";
+import {
+  createDatabaseFileAdapter,
+  getDatabaseFileName,
+} from "@/lib/sync/sqlite-file";
 import { StorageManager } from "@/lib/sync/storage-manager";
+import { getStorageUser } from "@/lib/sync/storage-user";
+import type { LocalCollection } from "@/lib/sync/types";
+import {
+  getTrashedIds,
+  getTrashRetentionDays,
+  isTrashExpired,
+  TrashedIds,
+  withSubtasks,
+} from "@/lib/trash";
 import {
+  DayStatus,
+  FocusSession,
   Project,
+  ProjectInvite,
+  ProjectRole,
   ProjectTag,
   Tag,
   Task,
   TaskTag,
   TodayTask,
 } from "@/lib/types";
+import { undoHistory } from "@/lib/undo-history";
 import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import {
+  addFocusSession as addFocusSessionAction,
+  deleteFocusSession as deleteFocusSessionAction,
+  removeFocusSessionsByTask,
+  setFocusSessions,
+} from "@/store/slices/focusSessionsSlice";
+import { setProjectMembers } from "@/store/slices/projectMembersSlice";
 import {
   addProject as addProjectAction,
   deleteProject as deleteProjectAction,
@@ -38,7 +79,6 @@ import {
 import {
   addTask as addTaskAction,
   deleteTask as deleteTaskAction,
-  deleteTasksByProject,
   reorderTasks as reorderTasksAction,
   setTasks,
   updateTask as updateTaskAction,
@@ -58,38 +98,142 @@ import {
   setTodayTasks,
 } from "@/store/slices/todayTasksSlice";
 
+/**
+ * Get the values an update is about to overwrite, so the update can be undone.
+ * Returns null when the update would not change anything.
+ */
+const getPreviousValues = <T extends object>(
+  item: T,
+  updates: Partial<T>,
+): Partial<T> | null => {
+  const previous: Partial<T> = {};
+  let changed = false;
+
+  for (const key of Object.keys(updates) as (keyof T)[]) {
+    if (JSON.stringify(item[key]) !== JSON.stringify(updates[key])) {
+      changed = true;
+    }
+    // Empty fields are cleared with null, as undefined is dropped before reaching the remote
+    previous[key] = (item[key] ?? null) as T[keyof T];
+  }
+
+  return changed ? previous : null;
+};
+
+/**
+ * Describe a task update for the undo history
+ */
+const describeTaskUpdate = (updates: Partial<Task>): string => {
+  if (updates.completed !== undefined) {
+    return updates.completed ? "Task completed" : "Task reopened";
+  }
+  if (updates.completionHistory !== undefined) {
+    return "Task progress updated";
+  }
+  if (updates.reminders !== undefined) {
+    return "Reminders updated";
+  }
+  return "Task updated";
+};
+
 // Global flag to track if initial data load has been done
 // This ensures we only do the initial sync once across all hook instances
 let hasGloballyInitialized = false;
 
+// Helper to get the global singleton storage manager
+// Remote requests are made as the signed-in user (see AuthGate).
+// Without a server, a database file chosen in Settings is synced with instead.
+export const getStorageManager = () => {
+  const remoteAdapter =
+    env.NEXT_PUBLIC_STORAGE_TYPE === "remote"
+      ? new RemoteStorageAdapter(
+          getStorageUser() ? () => accessTokens.getToken() : undefined,
+        )
+      : getDatabaseFileName()
+        ? createDatabaseFileAdapter()
+        : undefined;
+  const syncIntervalMs = env.NEXT_PUBLIC_SYNC_INTERVAL_MS;
+
+  return StorageManager.getInstance(
+    remoteAdapter !== undefined,
+    remoteAdapter,
+    syncIntervalMs,
+  );
+};
+
 export const useTasks = () => {
   const dispatch = useAppDispatch();
-  const tasks = useAppSelector((state) => state.tasks.items);
-  const projects = useAppSelector((state) => state.projects.items);
+  const allTasks = useAppSelector((state) => state.tasks.items);
+  const allProjects = useAppSelector((state) => state.projects.items);
   const todayTasks = useAppSelector((state) => state.todayTasks.items);
-  const tags = useAppSelector((state) => state.tags.items);
+  const allTags = useAppSelector((state) => state.tags.items);
   const taskTags = useAppSelector((state) => state.taskTags.items);
   const projectTags = useAppSelector((state) => state.projectTags.items);
+  const focusSessions = useAppSelector((state) => state.focusSessions.items);
+  const projectMembers = useAppSelector((state) => state.projectMembers.items);
+
+  // Trashed items stay in the store but are hidden everywhere except the Trash view
+  const tasks = useMemo(() => allTasks.filter((t) => !t.deletedAt), [allTasks]);
+  const projects = useMemo(
+    () => allProjects.filter((p) => !p.deletedAt),
+    [allProjects],
+  );
+  const tags = useMemo(() => allTags.filter((t) => !t.deletedAt), [allTags]);
+  const trashedTasks = useMemo(
+    () => allTasks.filter((t) => t.deletedAt),
+    [allTasks],
+  );
+  const trashedProjects = useMemo(
+    () => allProjects.filter((p) => p.deletedAt),
+    [allProjects],
+  );
+  const trashedTags = useMemo(
+    () => allTags.filter((t) => t.deletedAt),
+    [allTags],
+  );
 
   console.log("[useTasks] Hook executed, tasks.length:", tasks.length);
 
   // Track if THIS hook instance has initialized
   const hasInitializedRef = useRef(false);
 
-  // Helper to get the global singleton storage manager
-  const getStorageManager = () => {
-    const enableRemoteSync = env.NEXT_PUBLIC_STORAGE_TYPE === "remote";
-    const remoteAdapter = enableRemoteSync
-      ? new RemoteStorageAdapter()
-      : undefined;
-    const syncIntervalMs = env.NEXT_PUBLIC_SYNC_INTERVAL_MS;
-
-    return StorageManager.getInstance(
-      enableRemoteSync,
-      remoteAdapter,
-      syncIntervalMs,
+  // Permanently delete items (used when emptying or purging the trash)
+  const deleteItemsPermanently = useCallback(
+    async ({ taskIds, projectIds, tagIds }: TrashedIds) => {
+      for (const id of taskIds) {
+        dispatch(deleteTaskAction(id));
+        dispatch(removeTaskTagsByTask(id));
+        dispatch(removeFocusSessionsByTask(id));
+        await getStorageManager().deleteTask(id);
+      }
+      for (const id of projectIds) {
+        dispatch(deleteProjectAction(id));
+        dispatch(removeProjectTagsByProject(id));
+        await getStorageManager().deleteProject(id);
+      }
+      for (const id of tagIds) {
+        dispatch(deleteTagAction(id));
+        dispatch(removeTaskTagsByTag(id));
+        dispatch(removeProjectTagsByTag(id));
+        await getStorageManager().deleteTag(id);
+      }
+    },
+    [dispatch],
+  );
+
+  // Mark days that ended without an entry as missed.
+  // Runs on load and at every day boundary; days before the last run stay as they are.
+  const rolloverDays = useCallback(async () => {
+    const today = getTodayKey();
+    const updates = await getStorageManager().rolloverDays(
+      today,
+      getLastRollover() ?? undefined,
     );
-  };
+    for (const { id, completionHistory } of updates) {
+      dispatch(updateTaskAction({ id, updates: { completionHistory } }));
+    }
+    setLastRollover(today);
+  }, [dispatch]);
 
   useEffect(() => {
     // Prevent re-initialization if this hook instance already initialized
@@ -115,10 +259,8 @@ export const useTasks = () => {
     hasGloballyInitialized = true;
     const storageManager = getStorageManager();
 
-    const loadData = async () => {
-      console.log("[useTasks] Starting initial data load (FIRST TIME ONLY)...");
-
-      // Step 1: Load data from localStorage immediately for instant UI
+    // Load everything from storage into Redux
+    const loadFromStorage = async () => {
       const [
         loadedTasks,
         loadedProjects,
@@ -126,6 +268,8 @@ export const useTasks = () => {
         loadedTags,
         loadedTaskTags,
         loadedProjectTags,
+        loadedFocusSessions,
+        loadedProjectMembers,
       ] = await Promise.all([
         getStorageManager().getTasks(),
         getStorageManager().getProjects(),
@@ -133,6 +277,8 @@ export const useTasks = () => {
         getStorageManager().getTags(),
         getStorageManager().getTaskTags(),
         getStorageManager().getProjectTags(),
+        getStorageManager().getFocusSessions(),
+        getStorageManager().getProjectMembers(),
       ]);
       dispatch(setTasks(loadedTasks));
       dispatch(setProjects(loadedProjects));
@@ -140,65 +286,119 @@ export const useTasks = () => {
       dispatch(setTags(loadedTags));
       dispatch(setTaskTags(loadedTaskTags));
       dispatch(setProjectTags(loadedProjectTags));
+      dispatch(setFocusSessions(loadedFocusSessions));
+      dispatch(setProjectMembers(loadedProjectMembers));
 
-      // Step 2: Sync all queued local changes to remote FIRST
-      // This ensures the remote has the most current state from local
-      console.log("[useTasks] Syncing local changes to remote...");
-      await storageManager.syncNow();
+      return { loadedTasks, loadedProjects, loadedTags };
+    };
+
+    const loadData = async () => {
+      console.log("[useTasks] Starting initial data load (FIRST TIME ONLY)...");
+
+      // Step 1: Load data from localStorage immediately for instant UI
+      await loadFromStorage();
 
-      // Step 3: Pull latest data from remote (which now includes our local changes)
-      // This gets any changes made on other devices/tabs
+      // Step 2: Pull latest data from remote and merge it with local changes
+      // Queued local edits are merged field by field, so newer edits from other
+      // devices win and stale queued edits are dropped before they are sent
       console.log("[useTasks] Pulling latest data from remote...");
       await storageManager.pullFromRemote();
 
+      // Step 3: Sync the remaining queued local changes to remote
+      // This ensures the remote has the merged state from local
+      console.log("[useTasks] Syncing local changes to remote...");
+      await storageManager.syncNow();
+
       // Step 4: Reload from localStorage to get the merged state
-      const [
+      const {
+        loadedTasks: updatedTasks,
+        loadedProjects: updatedProjects,
+        loadedTags: updatedTags,
+      } = await loadFromStorage();
+
+      // Step 5: Permanently delete items that have been in the trash too long
+      const retentionDays = getTrashRetentionDays();
+      const expired = getTrashedIds(
         updatedTasks,
         updatedProjects,
-        updatedTodayTasks,
         updatedTags,
-        updatedTaskTags,
-        updatedProjectTags,
-      ] = await Promise.all([
-        getStorageManager().getTasks(),
-        getStorageManager().getProjects(),
-        getStorageManager().getTodayTasks(),
-        getStorageManager().getTags(),
-        getStorageManager().getTaskTags(),
-        getStorageManager().getProjectTags(),
-      ]);
-      dispatch(setTasks(updatedTasks));
-      dispatch(setProjects(updatedProjects));
-      dispatch(setTodayTasks(updatedTodayTasks));
-      dispatch(setTags(updatedTags));
-      dispatch(setTaskTags(updatedTaskTags));
-      dispatch(setProjectTags(updatedProjectTags));
+        (deletedAt) => isTrashExpired(deletedAt, retentionDays),
+      );
+      await deleteItemsPermanently(expired);
+
+      // Step 6: Move completion history from UTC to local date keys (once per device)
+      if (needsDateKeyMigration()) {
+        for (const task of updatedTasks) {
+          const completionHistory = rekeyCompletionHistory(task);
+          if (completionHistory) {
+            dispatch(
+              updateTaskAction({ id: task.id, updates: { completionHistory } }),
+            );
+            await storageManager.updateTask(task.id, { completionHistory });
+          }
+        }
+        markDateKeyMigrationDone();
+      }
+
+      // Step 7: Record missed days of recurring tasks, now and whenever a new day starts
+      await rolloverDays();
+      scheduleDayRollover(rolloverDays);
 
       console.log("[useTasks] Initial data load complete");
     };
 
     loadData();
 
-    // Sync state across tabs (localStorage events)
-    const handleStorageChange = (e: StorageEvent) => {
-      if (e.key === "tasks" && e.newValue) {
-        dispatch(setTasks(JSON.parse(e.newValue)));
-      } else if (e.key === "projects" && e.newValue) {
-        dispatch(setProjects(JSON.parse(e.newValue)));
-      } else if (e.key === "today" && e.newValue) {
-        dispatch(setTodayTasks(JSON.parse(e.newValue)));
-      } else if (e.key === "tags" && e.newValue) {
-        dispatch(setTags(JSON.parse(e.newValue)));
-      } else if (e.key === "task_tags" && e.newValue) {
-        dispatch(setTaskTags(JSON.parse(e.newValue)));
-      } else if (e.key === "project_tags" && e.newValue) {
-        dispatch(setProjectTags(JSON.parse(e.newValue)));
+    // Changes from other devices are pulled as they happen (see SyncWorker).
+    // The pull merges them with queued local edits, so storage has both.
+    const unsubscribeRemote = storageManager.subscribeToRemoteChanges(() => {
+      loadFromStorage().catch((err) =>
+        console.error("Failed to load remote changes:", err),
+      );
+    });
+
+    // Sync state across tabs: reload whatever another tab wrote
+    const loadFromOtherTab = async (collection: LocalCollection) => {
+      switch (collection) {
+        case "tasks":
+          dispatch(setTasks(await storageManager.getTasks()));
+          break;
+        case "projects":
+          dispatch(setProjects(await storageManager.getProjects()));
+          break;
+        case "today":
+          dispatch(setTodayTasks(await storageManager.getTodayTasks()));
+          break;
+        case "tags":
+          dispatch(setTags(await storageManager.getTags()));
+          break;
+        case "task_tags":
+          dispatch(setTaskTags(await storageManager.getTaskTags()));
+          break;
+        case "project_tags":
+          dispatch(setProjectTags(await storageManager.getProjectTags()));
+          break;
+        case "focus_sessions":
+          dispatch(setFocusSessions(await storageManager.getFocusSessions()));
+          break;
+        case "project_members":
+          dispatch(setProjectMembers(await storageManager.getProjectMembers()));
+          break;
       }
     };
+    const unsubscribeTabs = storageManager.subscribeToOtherTabs(
+      (collection) => {
+        loadFromOtherTab(collection).catch((err) =>
+          console.error("Failed to load changes from another tab:", err),
+        );
+      },
+    );
 
-    window.addEventListener("storage", handleStorageChange);
-    return () => window.removeEventListener("storage", handleStorageChange);
-  }, [dispatch]);
+    return () => {
+      unsubscribeTabs();
+      unsubscribeRemote();
+    };
+  }, [dispatch, deleteItemsPermanently, rolloverDays]);
 
   const addTask = async (
     title: string,
@@ -209,9 +409,22 @@ export const useTasks = () => {
     description?: string,
     tagIds?: string[],
     providedId?: string,
+    extras?: Pick<Task, "recurrence" | "reminders"> & {
+      // Day a recurring task starts on, when later than today
+      startDate?: string;
+    },
   ) => {
+    if (!isTaskEditable({ projectId })) {
+      throw new Error("Viewers can't add tasks to this project");
+    }
     const maxOrder =
       tasks.length > 0 ? Math.max(...tasks.map((t) => t.order || 0)) : 0;
+    const { startDate, ...fields } = extras ?? {};
+    // Recurring tasks are due from the day they are created (see isTaskDueOn)
+    const createdAt =
+      startDate && startDate > getTodayKey()
+        ? keyToLocalDate(startDate)
+        : new Date();
     const newTask: Task = {
       id: providedId || crypto.randomUUID(),
       title,
@@ -222,10 +435,28 @@ export const useTasks = () => {
       order: maxOrder + 1,
       isDaily,
       timePeriod,
-      createdAt: new Date().toISOString(),
+      ...fields,
+      createdAt: createdAt.toISOString(),
     };
     console.log("[useTasks.addTask] Adding task:", newTask);
     console.log("[useTasks.addTask] Current tasks count:", tasks.length);
+    await insertTask(newTask, tagIds);
+    undoHistory.record(
+      "Task added",
+      () =>
+        deleteItemsPermanently({
+          taskIds: [newTask.id],
+          projectIds: [],
+          tagIds: [],
+        }),
+      () => insertTask(newTask, tagIds),
+    );
+
+    return newTask.id;
+  };
+
+  // Save a new task (and its tag relationships) to Redux and storage
+  const insertTask = async (newTask: Task, tagIds?: string[]) => {
     flushSync(() => {
       dispatch(addTaskAction(newTask));
     });
@@ -246,19 +477,80 @@ export const useTasks = () => {
         );
       }
     }
-
-    return newTask.id;
   };
 
-  const updateTask = async (id: string, updates: Partial<Task>) => {
+  const applyTaskUpdates = async (id: string, updates: Partial<Task>) => {
     dispatch(updateTaskAction({ id, updates }));
     await getStorageManager().updateTask(id, updates);
   };
 
+  const updateTask = async (id: string, updates: Partial<Task>) => {
+    const task = allTasks.find((t) => t.id === id);
+    if (
+      (task && !isTaskEditable(task)) ||
+      !isTaskEditable({ projectId: updates.projectId })
+    ) {
+      console.error("[useTasks.updateTask] Viewers can't change task:", id);
+      return;
+    }
+    const previous = task && getPreviousValues(task, updates);
+    if (previous) {
+      undoHistory.record(
+        describeTaskUpdate(updates),
+        () => applyTaskUpdates(id, previous),
+        () => applyTaskUpdates(id, updates),
+      );
+    }
+    await applyTaskUpdates(id, updates);
+  };
+
+  // Move a task and its subtasks to the trash
   const deleteTask = async (id: string) => {
-    dispatch(deleteTaskAction(id));
-    dispatch(removeTaskTagsByTask(id));
-    await getStorageManager().deleteTask(id);
+    await undoHistory.transact(
+      "Task deleted",
+      async () => {
+        const deletedAt = new Date().toISOString();
+        for (const taskId of withSubtasks(tasks, [id])) {
+          await updateTask(taskId, { deletedAt });
+        }
+      },
+      true,
+    );
+  };
+
+  // Restore a task and the subtasks trashed with it.
+  // Its parent task and project are restored too, so it has somewhere to show up.
+  const restoreTask = async (id: string): Promise<void> => {
+    const task = allTasks.find((t) => t.id === id);
+    if (!task?.deletedAt) return;
+
+    await undoHistory.transact("Task restored", async () => {
+      const parent = allTasks.find((t) => t.id === task.parentTaskId);
+      if (parent?.deletedAt) {
+        await restoreTask(parent.id);
+      }
+      const project = allProjects.find((p) => p.id === task.projectId);
+      if (project?.deletedAt) {
+        await updateProject(project.id, { deletedAt: null });
+      }
+
+      const subtaskIds = new Set(withSubtasks(allTasks, [id]));
+      subtaskIds.delete(id);
+      const subtasks = allTasks.filter(
+        (t) => subtaskIds.has(t.id) && t.deletedAt === task.deletedAt,
+      );
+      for (const restored of [task, ...subtasks]) {
+        await updateTask(restored.id, { deletedAt: null });
+      }
+    });
+  };
+
+  const deleteTaskPermanently = async (id: string) => {
+    await deleteItemsPermanently({
+      taskIds: withSubtasks(allTasks, [id]),
+      projectIds: [],
+      tagIds: [],
+    });
   };
 
   const toTitleCase = (str: string): string => {
@@ -277,33 +569,105 @@ export const useTasks = () => {
       order: Math.max(...projects.map((p) => p.order), 0) + 1,
       createdAt: new Date().toISOString(),
     };
+    await insertProject(newProject);
+    undoHistory.record(
+      "Project added",
+      () =>
+        deleteItemsPermanently({
+          taskIds: [],
+          projectIds: [newProject.id],
+          tagIds: [],
+        }),
+      () => insertProject(newProject),
+    );
+  };
+
+  const insertProject = async (newProject: Project) => {
     dispatch(addProjectAction(newProject));
     await getStorageManager().addProject(newProject);
   };
 
+  const applyProjectUpdates = async (id: string, updates: Partial<Project>) => {
+    dispatch(updateProjectAction({ id, updates }));
+    await getStorageManager().updateProject(id, updates);
+  };
+
   const updateProject = async (id: string, updates: Partial<Project>) => {
     const processedUpdates = { ...updates };
     if (updates.name !== undefined) {
       processedUpdates.name = toTitleCase(updates.name);
     }
-    dispatch(updateProjectAction({ id, updates: processedUpdates }));
-    await getStorageManager().updateProject(id, processedUpdates);
+    const project = allProjects.find((p) => p.id === id);
+    const previous = project && getPreviousValues(project, processedUpdates);
+    if (previous) {
+      undoHistory.record(
+        "Project updated",
+        () => applyProjectUpdates(id, previous),
+        () => applyProjectUpdates(id, processedUpdates),
+      );
+    }
+    await applyProjectUpdates(id, processedUpdates);
   };
 
+  // Move a project and its tasks to the trash
   const deleteProject = async (id: string) => {
-    // Delete all tasks in this project
-    const projectTasks = tasks.filter((task) => task.projectId === id);
-    for (const task of projectTasks) {
-      await getStorageManager().deleteTask(task.id);
-    }
+    await undoHistory.transact(
+      "Project deleted",
+      async () => {
+        const deletedAt = new Date().toISOString();
+        const projectTaskIds = tasks
+          .filter((task) => task.projectId === id)
+          .map((task) => task.id);
+        for (const taskId of withSubtasks(tasks, projectTaskIds)) {
+          await updateTask(taskId, { deletedAt });
+        }
+        await updateProject(id, { deletedAt });
+      },
+      true,
+    );
+  };
+
+  // Restore a project and the tasks that were trashed with it
+  const restoreProject = async (id: string) => {
+    const project = allProjects.find((p) => p.id === id);
+    if (!project?.deletedAt) return;
+
+    await undoHistory.transact("Project restored", async () => {
+      const trashedWith = new Set(
+        withSubtasks(
+          allTasks,
+          allTasks
+            .filter((task) => task.projectId === id)
+            .map((task) => task.id),
+        ),
+      );
+      const projectTasks = allTasks.filter(
+        (task) =>
+          trashedWith.has(task.id) && task.deletedAt === project.deletedAt,
+      );
+      for (const task of projectTasks) {
+        await updateTask(task.id, { deletedAt: null });
+      }
+      await updateProject(id, { deletedAt: null });
+    });
+  };
 
-    dispatch(deleteTasksByProject(id));
-    dispatch(deleteProjectAction(id));
-    dispatch(removeProjectTagsByProject(id));
-    await getStorageManager().deleteProject(id);
+  const deleteProjectPermanently = async (id: string) => {
+    const projectTaskIds = allTasks
+      .filter((task) => task.projectId === id)
+      .map((task) => task.id);
+    await deleteItemsPermanently({
+      taskIds: withSubtasks(allTasks, projectTaskIds),
+      projectIds: [id],
+      tagIds: [],
+    });
   };
 
   const reorderTasks = async (projectTasks: Task[]) => {
+    if (!projectTasks.every(isTaskEditable)) {
+      console.error("[useTasks.reorderTasks] Viewers can't reorder tasks");
+      return;
+    }
     const otherTasks = tasks.filter(
       (task) => !projectTasks.some((pt) => pt.id === task.id),
     );
@@ -311,10 +675,21 @@ export const useTasks = () => {
       ...task,
       order: index,
     }));
+    // The passed-in tasks still carry their old order, which is what undo restores
+    undoHistory.record(
+      "Tasks reordered",
+      () => applyTaskOrder(projectTasks),
+      () => applyTaskOrder(reorderedTasks),
+    );
     dispatch(reorderTasksAction([...otherTasks, ...reorderedTasks]));
     await getStorageManager().reorderTasks(reorderedTasks);
   };
 
+  const applyTaskOrder = async (orderedTasks: Task[]) => {
+    dispatch(reorderTasksAction(orderedTasks));
+    await getStorageManager().reorderTasks(orderedTasks);
+  };
+
   const getInboxTasks = () =>
     tasks.filter((task) => !task.projectId && !task.isDaily);
 
@@ -323,8 +698,17 @@ export const useTasks = () => {
       ...project,
       order: index,
     }));
-    dispatch(reorderProjectsAction(reorderedWithOrder));
-    await getStorageManager().reorderProjects(reorderedWithOrder);
+    undoHistory.record(
+      "Projects reordered",
+      () => applyProjectOrder(reorderedProjects),
+      () => applyProjectOrder(reorderedWithOrder),
+    );
+    await applyProjectOrder(reorderedWithOrder);
+  };
+
+  const applyProjectOrder = async (orderedProjects: Project[]) => {
+    dispatch(reorderProjectsAction(orderedProjects));
+    await getStorageManager().reorderProjects(orderedProjects);
   };
 
   const getProjectTasks = (projectId: string) =>
@@ -342,21 +726,25 @@ export const useTasks = () => {
     return tasks.filter((task) => task.isDaily);
   };
 
+  // Recurring tasks with an occurrence today
+  const getRecurringTasksDueToday = () => {
+    const today = getTodayKey();
+    return tasks.filter((task) => isTaskDueOn(task, today));
+  };
+
   const markDailyTaskComplete = (id: string) => {
     const task = tasks.find((t) => t.id === id);
     if (!task) return;
 
-    const today = new Date().toISOString().split("T")[0];
-    const updatedHistory = {
-      ...(task.completionHistory || {}),
-      [today]: true,
-    };
-
     // For daily tasks, don't mark as completed (keep them active)
     // Just update the completion history
-    updateTask(id, {
+    return updateTask(id, {
       lastCompleted: new Date().toISOString(),
-      completionHistory: updatedHistory,
+      completionHistory: setDayEntry(
+        task.completionHistory,
+        getTodayKey(),
+        true,
+      ),
     });
   };
 
@@ -364,13 +752,28 @@ export const useTasks = () => {
     const task = tasks.find((t) => t.id === id);
     if (!task) return;
 
-    const today = new Date().toISOString().split("T")[0];
-    const updatedHistory = { ...(task.completionHistory || {}) };
-    delete updatedHistory[today];
-
     // Remove today from completion history
+    return updateTask(id, {
+      completionHistory: setDayEntry(
+        task.completionHistory,
+        getTodayKey(),
+        null,
+      ),
+    });
+  };
+
+  // Record a day of a recurring task as completed, missed, skipped, excused or frozen
+  // (null clears it)
+  const setDayStatus = (
+    id: string,
+    dateKey: string,
+    entry: true | DayStatus | null,
+  ) => {
+    const task = tasks.find((t) => t.id === id);
+    if (!task) return;
+
     updateTask(id, {
-      completionHistory: updatedHistory,
+      completionHistory: setDayEntry(task.completionHistory, dateKey, entry),
     });
   };
 
@@ -390,6 +793,7 @@ export const useTasks = () => {
       currentTodayTasks: todayTasks,
       updatedTodayTasks,
     });
+    recordTodayChange("Added to Today", updatedTodayTasks);
     dispatch(addToTodayAction(newTodayTask));
     await getStorageManager().addToToday(
       taskId,
@@ -401,19 +805,65 @@ export const useTasks = () => {
 
   const removeFromToday = async (taskId: string) => {
     const updatedTodayTasks = todayTasks.filter((t) => t.taskId !== taskId);
+    recordTodayChange("Removed from Today", updatedTodayTasks);
     dispatch(removeFromTodayAction(taskId));
     await getStorageManager().removeFromToday(taskId, updatedTodayTasks);
   };
 
+  // Add several tasks to Today, or take them out, as one change
+  const setInToday = async (taskIds: string[], inToday: boolean) => {
+    let updatedTodayTasks: TodayTask[];
+    if (inToday) {
+      let maxOrder =
+        todayTasks.length > 0
+          ? Math.max(...todayTasks.map((t) => t.order))
+          : -1;
+      const added = taskIds
+        .filter((taskId) => !isInToday(taskId))
+        .map((taskId) => ({ taskId, order: ++maxOrder }));
+      updatedTodayTasks = [...todayTasks, ...added];
+    } else {
+      updatedTodayTasks = todayTasks.filter((t) => !taskIds.includes(t.taskId));
+    }
+    if (updatedTodayTasks.length === todayTasks.length) return;
+
+    recordTodayChange(
+      inToday ? "Added to Today" : "Removed from Today",
+      updatedTodayTasks,
+    );
+    await applyTodayList(updatedTodayTasks);
+  };
+
   const reorderTodayTasks = async (reorderedTasks: TodayTask[]) => {
     const reorderedWithOrder = reorderedTasks.map((task, index) => ({
       ...task,
       order: index,
     }));
+    recordTodayChange("Today reordered", reorderedWithOrder);
     dispatch(reorderTodayTasksAction(reorderedWithOrder));
     await getStorageManager().reorderTodayTasks(reorderedWithOrder);
   };
 
+  // Today is saved as a whole list, so undo/redo simply put back the full list
+  const applyTodayList = async (list: TodayTask[]) => {
+    dispatch(setTodayTasks(list));
+    await getStorageManager().reorderTodayTasks(list);
+  };
+
+  const recordTodayChange = (
+    label: string,
+    updatedTodayTasks: TodayTask[],
+    notify = false,
+  ) => {
+    const previousTodayTasks = todayTasks;
+    undoHistory.record(
+      label,
+      () => applyTodayList(previousTodayTasks),
+      () => applyTodayList(updatedTodayTasks),
+      notify,
+    );
+  };
+
   const getTodayTasksList = () => {
     return [...todayTasks]
       .sort((a, b) => a.order - b.order)
@@ -426,6 +876,8 @@ export const useTasks = () => {
   };
 
   const clearToday = async () => {
+    if (todayTasks.length === 0) return;
+    recordTodayChange("Today cleared", [], true);
     dispatch(clearTodayAction());
     await getStorageManager().clearTodayTasks();
   };
@@ -437,21 +889,64 @@ export const useTasks = () => {
       color,
       createdAt: new Date().toISOString(),
     };
+    await insertTag(newTag);
+    undoHistory.record(
+      "Tag added",
+      () =>
+        deleteItemsPermanently({
+          taskIds: [],
+          projectIds: [],
+          tagIds: [newTag.id],
+        }),
+      () => insertTag(newTag),
+    );
+    return newTag;
+  };
+
+  const insertTag = async (newTag: Tag) => {
     dispatch(addTagAction(newTag));
     await getStorageManager().addTag(newTag);
-    return newTag;
   };
 
-  const updateTag = async (id: string, updates: Partial<Tag>) => {
+  const applyTagUpdates = async (id: string, updates: Partial<Tag>) => {
     dispatch(updateTagAction({ id, updates }));
     await getStorageManager().updateTag(id, updates);
   };
 
+  const updateTag = async (id: string, updates: Partial<Tag>) => {
+    const tag = allTags.find((t) => t.id === id);
+    const previous = tag && getPreviousValues(tag, updates);
+    if (previous) {
+      undoHistory.record(
+        "Tag updated",
+        () => applyTagUpdates(id, previous),
+        () => applyTagUpdates(id, updates),
+      );
+    }
+    await applyTagUpdates(id, updates);
+  };
+
+  // Move a tag to the trash, keeping its links so a restore brings them back
   const deleteTag = async (id: string) => {
-    dispatch(deleteTagAction(id));
-    dispatch(removeTaskTagsByTag(id));
-    dispatch(removeProjectTagsByTag(id));
-    await getStorageManager().deleteTag(id);
+    await undoHistory.transact(
+      "Tag deleted",
+      () => updateTag(id, { deletedAt: new Date().toISOString() }),
+      true,
+    );
+  };
+
+  const restoreTag = async (id: string) => {
+    await undoHistory.transact("Tag restored", () =>
+      updateTag(id, { deletedAt: null }),
+    );
+  };
+
+  const deleteTagPermanently = async (id: string) => {
+    await deleteItemsPermanently({ taskIds: [], projectIds: [], tagIds: [id] });
+  };
+
+  const emptyTrash = async () => {
+    await deleteItemsPermanently(getTrashedIds(allTasks, allProjects, allTags));
   };
 
   const getOrCreateTag = async (name: string, color?: string) => {
@@ -461,12 +956,25 @@ export const useTasks = () => {
     if (existingTag) {
       return existingTag;
     }
+    // Tag names are unique, so bring a trashed tag back instead of creating a duplicate
+    const trashedTag = trashedTags.find(
+      (tag) => tag.name.toLowerCase() === name.toLowerCase(),
+    );
+    if (trashedTag) {
+      await restoreTag(trashedTag.id);
+      return { ...trashedTag, deletedAt: null };
+    }
     return await addTag(name, color);
   };
 
   // Tag relationship helpers
+  const isTagTrashed = (tagId: string) =>
+    trashedTags.some((tag) => tag.id === tagId);
+
   const getTaskTagIds = (taskId: string): string[] => {
-    return taskTags.filter((tt) => tt.taskId === taskId).map((tt) => tt.tagId);
+    return taskTags
+      .filter((tt) => tt.taskId === taskId && !isTagTrashed(tt.tagId))
+      .map((tt) => tt.tagId);
   };
 
   const getTaskTags = (taskId: string): TaskTag[] => {
@@ -475,23 +983,38 @@ export const useTasks = () => {
 
   const getProjectTags = (projectId: string): string[] => {
     return projectTags
-      .filter((pt) => pt.projectId === projectId)
+      .filter((pt) => pt.projectId === projectId && !isTagTrashed(pt.tagId))
       .map((pt) => pt.tagId);
   };
 
-  const addTagToTask = async (taskId: string, tagId: string) => {
+  // Tag links come with the task in a shared project, so only its editors change them
+  const canTagTask = (taskId: string) => {
+    const task = allTasks.find((t) => t.id === taskId);
+    if (task && !isTaskEditable(task)) {
+      console.error(
+        "[useTasks] Viewers can't change the tags of task:",
+        taskId,
+      );
+      return false;
+    }
+    return true;
+  };
+
+  const linkTaskTag = async (taskId: string, tagId: string) => {
+    if (!canTagTask(taskId)) return;
     await getStorageManager().addTaskTag(taskId, tagId);
     dispatch(
       addTaskTag({ taskId, tagId, createdAt: new Date().toISOString() }),
     );
   };
 
-  const removeTagFromTask = async (taskId: string, tagId: string) => {
+  const unlinkTaskTag = async (taskId: string, tagId: string) => {
+    if (!canTagTask(taskId)) return;
     await getStorageManager().removeTaskTag(taskId, tagId);
     dispatch(removeTaskTag({ taskId, tagId }));
   };
 
-  const addTagToProject = async (projectId: string, tagId: string) => {
+  const linkProjectTag = async (projectId: string, tagId: string) => {
     await getStorageManager().addProjectTag(projectId, tagId);
     dispatch(
       addProjectTag({
@@ -502,11 +1025,270 @@ export const useTasks = () => {
     );
   };
 
-  const removeTagFromProject = async (projectId: string, tagId: string) => {
+  const unlinkProjectTag = async (projectId: string, tagId: string) => {
     await getStorageManager().removeProjectTag(projectId, tagId);
     dispatch(removeProjectTag({ projectId, tagId }));
   };
 
+  const addTagToTask = async (taskId: string, tagId: string) => {
+    undoHistory.record(
+      "Tag added to task",
+      () => unlinkTaskTag(taskId, tagId),
+      () => linkTaskTag(taskId, tagId),
+    );
+    await linkTaskTag(taskId, tagId);
+  };
+
+  const removeTagFromTask = async (taskId: string, tagId: string) => {
+    undoHistory.record(
+      "Tag removed from task",
+      () => linkTaskTag(taskId, tagId),
+      () => unlinkTaskTag(taskId, tagId),
+    );
+    await unlinkTaskTag(taskId, tagId);
+  };
+
+  const addTagToProject = async (projectId: string, tagId: string) => {
+    undoHistory.record(
+      "Tag added to project",
+      () => unlinkProjectTag(projectId, tagId),
+      () => linkProjectTag(projectId, tagId),
+    );
+    await linkProjectTag(projectId, tagId);
+  };
+
+  const removeTagFromProject = async (projectId: string, tagId: string) => {
+    undoHistory.record(
+      "Tag removed from project",
+      () => linkProjectTag(projectId, tagId),
+      () => unlinkProjectTag(projectId, tagId),
+    );
+    await unlinkProjectTag(projectId, tagId);
+  };
+
+  // Focus session methods
+  const logFocusSession = async (
+    session: Omit<FocusSession, "id" | "createdAt">,
+  ) => {
+    const newSession: FocusSession = {
+      ...session,
+      id: crypto.randomUUID(),
+      createdAt: new Date().toISOString(),
+    };
+    await insertFocusSession(newSession);
+    return newSession;
+  };
+
+  const insertFocusSession = async (session: FocusSession) => {
+    dispatch(addFocusSessionAction(session));
+    await getStorageManager().addFocusSession(session);
+  };
+
+  const removeFocusSession = async (id: string) => {
+    dispatch(deleteFocusSessionAction(id));
+    await getStorageManager().deleteFocusSession(id);
+  };
+
+  const deleteFocusSession = async (id: string) => {
+    const session = focusSessions.find((s) => s.id === id);
+    if (!session) return;
+
+    undoHistory.record(
+      "Focus session deleted",
+      () => insertFocusSession(session),
+      () => removeFocusSession(id),
+      true,
+    );
+    await removeFocusSession(id);
+  };
+
+  // Reminders going off and being snoozed is bookkeeping, so neither can be undone.
+  // A viewer can't change a shared task, so theirs are only marked until the next load.
+  const applyReminders = async (task: Task, reminders: Task["reminders"]) => {
+    if (isTaskEditable(task)) {
+      await applyTaskUpdates(task.id, { reminders });
+    } else {
+      dispatch(updateTaskAction({ id: task.id, updates: { reminders } }));
+    }
+  };
+
+  const markRemindersFired = async (taskId: string, reminderIds: string[]) => {
+    const task = allTasks.find((t) => t.id === taskId);
+    if (!task?.reminders) return;
+
+    const now = new Date();
+    const reminders = reminderIds.reduce(
+      (updated, reminderId) => markReminderFired(updated, reminderId, now),
+      task.reminders,
+    );
+    await applyReminders(task, reminders);
+  };
+
+  const snoozeTaskReminder = async (
+    taskId: string,
+    reminderId: string,
+    minutes: number,
+  ) => {
+    const task = allTasks.find((t) => t.id === taskId);
+    if (!task?.reminders) return;
+
+    await applyReminders(
+      task,
+      snoozeReminder(task.reminders, reminderId, minutes),
+    );
+  };
+
+  // Bulk actions on the tasks selected in a list.
+  // Each is one undoable action and reaches the sync queue as one batched operation.
+  const bulkChange = (label: string, fn: () => Promise<void>) =>
+    undoHistory.transact(label, () => getStorageManager().batch(fn), true);
+
+  // Clearing sends null, as undefined is dropped before reaching the remote
+  const moveTasksToProject = (taskIds: string[], projectId: string | null) =>
+    bulkChange("Tasks moved", async () => {
+      for (const id of taskIds) {
+        await updateTask(id, { projectId });
+      }
+    });
+
+  const setTasksDueDate = (taskIds: string[], dueDate: string | null) =>
+    bulkChange(dueDate ? "Due date set" : "Due date removed", async () => {
+      for (const id of taskIds) {
+        await updateTask(id, { dueDate });
+      }
+    });
+
+  // Recurring tasks are completed for today, like ticking them off one by one
+  const completeTasks = (taskIds: string[], completed: boolean) =>
+    bulkChange(completed ? "Tasks completed" : "Tasks reopened", async () => {
+      for (const id of taskIds) {
+        const task = tasks.find((t) => t.id === id);
+        if (task?.isDaily) {
+          await (completed
+            ? markDailyTaskComplete(id)
+            : markDailyTaskIncomplete(id));
+        } else {
+          await updateTask(id, { completed });
+        }
+      }
+    });
+
+  const deleteTasks = (taskIds: string[]) =>
+    bulkChange("Tasks deleted", async () => {
+      // Subtasks go with their parent, so don't trash them twice
+      const ids = taskIds.filter((id) => {
+        const task = tasks.find((t) => t.id === id);
+        return !task?.parentTaskId || !taskIds.includes(task.parentTaskId);
+      });
+      for (const id of ids) {
+        await deleteTask(id);
+      }
+    });
+
+  const addTagToTasks = (taskIds: string[], tagId: string) =>
+    bulkChange("Tag added to tasks", async () => {
+      for (const id of taskIds) {
+        if (!getTaskTagIds(id).includes(tagId)) {
+          await addTagToTask(id, tagId);
+        }
+      }
+    });
+
+  const removeTagFromTasks = (taskIds: string[], tagId: string) =>
+    bulkChange("Tag removed from tasks", async () => {
+      for (const id of taskIds) {
+        if (getTaskTagIds(id).includes(tagId)) {
+          await removeTagFromTask(id, tagId);
+        }
+      }
+    });
+
+  const setTasksInToday = (taskIds: string[], inToday: boolean) =>
+    bulkChange(inToday ? "Added to Today" : "Removed from Today", () =>
+      setInToday(taskIds, inToday),
+    );
+
+  // Shared projects: the signed-in user, or null when data is stored for nobody in particular
+  const currentUserId = getStorageUser();
+
+  const canShare = () => getStorageManager().canShare();
+
+  const getProjectMembers = (projectId: string) =>
+    projectMembers.filter((member) => member.projectId === projectId);
+
+  const getProjectRole = (projectId: string): ProjectRole =>
+    getMemberRole(projectMembers, projectId, currentUserId);
+
+  // Viewers of a shared project can't change its tasks
+  const isTaskEditable = (task: Pick<Task, "projectId">) =>
+    canEditTask(projectMembers, task, currentUserId);
+
+  // Open tasks assigned to the signed-in user, in any project
+  const getAssignedTasks = () =>
+    currentUserId
+      ? tasks.filter(
+          (task) => task.assigneeId === currentUserId && !task.completed,
+        )
+      : [];
+
+  // Load what a membership change pulled into storage: projects joined or left
+  const reloadSharedData = async () => {
+    const [loadedTasks, loadedProjects, loadedProjectMembers] =
+      await Promise.all([
+        getStorageManager().getTasks(),
+        getStorageManager().getProjects(),
+        getStorageManager().getProjectMembers(),
+      ]);
+    dispatch(setTasks(loadedTasks));
+    dispatch(setProjects(loadedProjects));
+    dispatch(setProjectMembers(loadedProjectMembers));
+  };
+
+  // Stable, so components can load invites from an effect
+  const getProjectInvites = useCallback(
+    () => getStorageManager().getProjectInvites(),
+    [],
+  );
+
+  const inviteToProject = async (
+    projectId: string,
+    email: string,
+    role: ProjectInvite["role"],
+  ) => {
+    const project = projects.find((p) => p.id === projectId);
+    if (!project) return;
+
+    await getStorageManager().inviteToProject({
+      id: crypto.randomUUID(),
+      projectId,
+      projectName: project.name,
+      email: email.trim().toLowerCase(),
+      role,
+      createdAt: new Date().toISOString(),
+    });
+  };
+
+  const acceptInvite = async (id: string) => {
+    await getStorageManager().acceptInvite(id);
+    await reloadSharedData();
+  };
+
+  const deleteInvite = (id: string) => getStorageManager().deleteInvite(id);
+
+  const setMemberRole = async (
+    projectId: string,
+    userId: string,
+    role: ProjectRole,
+  ) => {
+    await getStorageManager().setMemberRole(projectId, userId, role);
+    await reloadSharedData();
+  };
+
+  const removeMember = async (projectId: string, userId: string) => {
+    await getStorageManager().removeMember(projectId, userId);
+    await reloadSharedData();
+  };
+
   // Sync control methods
   const syncNow = async () => {
     await getStorageManager().syncNow();
@@ -542,10 +1324,13 @@ export const useTasks = () => {
     getProjectTasks,
     getActiveProjects,
     getDailyTasks,
+    getRecurringTasksDueToday,
     markDailyTaskComplete,
     markDailyTaskIncomplete,
+    setDayStatus,
     addToToday,
     removeFromToday,
+    setInToday,
     reorderTodayTasks,
     getTodayTasksList,
     isInToday,
@@ -554,6 +1339,17 @@ export const useTasks = () => {
     addTag,
     updateTag,
     deleteTag,
+    // Trash
+    trashedTasks,
+    trashedProjects,
+    trashedTags,
+    restoreTask,
+    restoreProject,
+    restoreTag,
+    deleteTaskPermanently,
+    deleteProjectPermanently,
+    deleteTagPermanently,
+    emptyTrash,
     getOrCreateTag,
     getTaskTagIds,
     getTaskTags,
@@ -562,6 +1358,34 @@ export const useTasks = () => {
     removeTagFromTask,
     addTagToProject,
     removeTagFromProject,
+    // Focus sessions
+    focusSessions,
+    logFocusSession,
+    deleteFocusSession,
+    // Reminders
+    markRemindersFired,
+    snoozeTaskReminder,
+    // Bulk actions
+    moveTasksToProject,
+    setTasksDueDate,
+    completeTasks,
+    deleteTasks,
+    addTagToTasks,
+    removeTagFromTasks,
+    setTasksInToday,
+    // Shared projects
+    currentUserId,
+    canShare,
+    getProjectMembers,
+    getProjectRole,
+    isTaskEditable,
+    getAssignedTasks,
+    getProjectInvites,
+    inviteToProject,
+    acceptInvite,
+    deleteInvite,
+    setMemberRole,
+    removeMember,
     // Sync control methods
     syncNow,
     getSyncStatus,
@@ -0,0 +1,25 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+
+import { undoHistory } from "@/lib/undo-history";
+
+const undo = () => undoHistory.undo();
+const redo = () => undoHistory.redo();
+
+/**
+ * Subscribe to the global undo/redo history
+ */
+export const useUndoHistory = () => {
+  const snapshot = useSyncExternalStore(
+    undoHistory.subscribe,
+    undoHistory.getSnapshot,
+    undoHistory.getSnapshot,
+  );
+
+  return {
+    ...snapshot,
+    undo,
+    redo,
+  };
+};
@@ -0,0 +1,54 @@
+import type { SyncToken } from "./sync-token";
+
+// Fetch a new token this long before the current one expires
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+/**
+ * Keeps the signed-in user's token for the remote store, fetching a new one
+ * shortly before it expires. Requests made meanwhile share one fetch.
+ */
+export class AccessTokenCache {
+  private fetchToken: () => Promise<SyncToken | null>;
+  private current: SyncToken | null = null;
+  private pending: Promise<SyncToken | null> | null = null;
+
+  constructor(fetchToken: () => Promise<SyncToken | null>) {
+    this.fetchToken = fetchToken;
+  }
+
+  /**
+   * Get a token that is still valid, or null when signed out
+   */
+  async getToken(now = Date.now()): Promise<string | null> {
+    if (this.current && this.current.expiresAt - REFRESH_MARGIN_MS > now) {
+      return this.current.token;
+    }
+
+    if (!this.pending) {
+      this.pending = this.fetchToken().finally(() => {
+        this.pending = null;
+      });
+    }
+    this.current = await this.pending;
+    return this.current?.token ?? null;
+  }
+
+  /**
+   * Forget the token, e.g. after signing out
+   */
+  clear(): void {
+    this.current = null;
+  }
+}
+
+const fetchSyncToken = async (): Promise<SyncToken | null> => {
+  const response = await fetch("/api/sync-token");
+  // Signed out, or the session expired
+  if (response.status === 401) return null;
+  if (!response.ok) {
+    throw new Error(`Failed to get sync token (${response.status})`);
+  }
+  return response.json() as Promise<SyncToken>;
+};
+
+export const accessTokens = new AccessTokenCache(fetchSyncToken);
@@ -0,0 +1,124 @@
+import { formatBinding, ShortcutDefinition } from "@/lib/shortcuts";
+
+/**
+ * Commands for the command palette, and the fuzzy matching used to find them.
+ * Commands are plain data, declared where their actions live. Anything that already
+ * has a keyboard shortcut becomes a command through its ShortcutDefinition, so the
+ * palette shows the same description and keys as the shortcut itself.
+ */
+
+export type CommandGroup = "Navigation" | "Projects" | "Actions";
+
+export interface Command {
+  id: string;
+  title: string;
+  group: CommandGroup;
+  // Other words the command should be found by
+  keywords?: string[];
+  // Shortcut to show next to the title, e.g. "Ctrl+Z"
+  shortcut?: string;
+  run: () => void;
+}
+
+/**
+ * Turn a keyboard shortcut into a command that does the same
+ */
+export function commandFromShortcut(
+  shortcut: ShortcutDefinition,
+  binding: string,
+  run: () => void,
+  group: CommandGroup = "Actions",
+): Command {
+  return {
+    id: `shortcut:${shortcut.id}`,
+    title: shortcut.description,
+    group,
+    shortcut: formatBinding(binding),
+    run,
+  };
+}
+
+const isWordStart = (text: string, index: number) =>
+  index === 0 || /[\s\-_/.]/.test(text[index - 1]);
+
+// Score one word of the query against lowercased text, or null if it doesn't match
+const scoreWord = (word: string, text: string): number | null => {
+  // Typed as is: best at the start of a word and near the start of the text
+  const index = text.indexOf(word);
+  if (index !== -1) {
+    return 100 + (isWordStart(text, index) ? 50 : 0) + Math.max(0, 20 - index);
+  }
+
+  // Otherwise its letters in order, like "adt" for "Add to Today"
+  let score = 0;
+  let from = 0;
+  let previous = -2;
+  for (const char of word) {
+    const found = text.indexOf(char, from);
+    if (found === -1) return null;
+    score += found === previous + 1 ? 5 : isWordStart(text, found) ? 3 : 1;
+    previous = found;
+    from = found + 1;
+  }
+  return score;
+};
+
+/**
+ * Score how well text matches a query, higher is better, or null if it doesn't.
+ * Every word of the query has to match on its own.
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const lowerText = text.toLowerCase();
+
+  let total = 0;
+  for (const word of words) {
+    const score = scoreWord(word, lowerText);
+    if (score === null) return null;
+    total += score;
+  }
+  return total;
+}
+
+/**
+ * Find the items matching a query, best first. Each item can be matched by several
+ * texts; later texts count for less, so a match in a title beats one in a description.
+ */
+export function fuzzySearch<T>(
+  items: T[],
+  query: string,
+  getTexts: (item: T) => (string | undefined)[],
+  limit?: number,
+): T[] {
+  if (!query.trim()) return limit === undefined ? items : items.slice(0, limit);
+
+  const matches: { item: T; score: number }[] = [];
+  for (const item of items) {
+    let best: number | null = null;
+    getTexts(item).forEach((text, index) => {
+      if (!text) return;
+      const score = fuzzyScore(query, text);
+      if (score !== null) {
+        const weighted = score / (index + 1);
+        best = best === null ? weighted : Math.max(best, weighted);
+      }
+    });
+    if (best !== null) matches.push({ item, score: best });
+  }
+
+  // Array.sort is stable, so equal scores keep their declared order
+  const ranked = matches
+    .sort((a, b) => b.score - a.score)
+    .map(({ item }) => item);
+  return limit === undefined ? ranked : ranked.slice(0, limit);
+}
+
+/**
+ * Find the commands matching a query, best first
+ */
+export function searchCommands(commands: Command[], query: string): Command[] {
+  return fuzzySearch(commands, query, (command) => [
+    command.title,
+    command.keywords?.join(" "),
+  ]);
+}
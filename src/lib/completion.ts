@@ -0,0 +1,70 @@
+import { isTaskScheduledOn } from "@/lib/recurrence";
+import type { CompletionHistory, DayStatus, Task } from "@/lib/types";
+
+/**
+ * Everything a day of a recurring task can be:
+ * completed or one of the recorded statuses, "pending" for a scheduled day
+ * with nothing recorded yet, or "unscheduled" for days off the schedule.
+ */
+export type DayState = "completed" | DayStatus | "pending" | "unscheduled";
+
+// Statuses that neither count towards nor break a streak
+const KEEPS_STREAK: DayState[] = ["excused", "frozen", "unscheduled"];
+
+/**
+ * Get the state of a recurring task on a day
+ */
+export function getDayState(task: Task, dateKey: string): DayState {
+  const entry = task.completionHistory?.[dateKey];
+  if (entry === true) return "completed";
+  if (entry) return entry;
+  return isTaskScheduledOn(task, dateKey) ? "pending" : "unscheduled";
+}
+
+/**
+ * Check if a recurring task was completed on a day
+ */
+export function isCompletedOn(task: Task, dateKey: string): boolean {
+  return task.isDaily && task.completionHistory?.[dateKey] === true;
+}
+
+/**
+ * Check if a task is done as of a day: completed on that day for a recurring task,
+ * otherwise completed at all
+ */
+export function isDoneOn(task: Task, dateKey: string): boolean {
+  return task.isDaily ? isCompletedOn(task, dateKey) : task.completed;
+}
+
+/**
+ * Check if a day state leaves a streak untouched
+ */
+export function keepsStreak(state: DayState): boolean {
+  return KEEPS_STREAK.includes(state);
+}
+
+/**
+ * Set (or with null, clear) the entry for a day, returning a new history
+ */
+export function setDayEntry(
+  history: CompletionHistory | undefined,
+  dateKey: string,
+  entry: true | DayStatus | null,
+): CompletionHistory {
+  const updated = { ...(history || {}) };
+  if (entry === null) {
+    delete updated[dateKey];
+  } else {
+    updated[dateKey] = entry;
+  }
+  return updated;
+}
+
+/**
+ * Count the days a task was completed on
+ */
+export function countCompletions(task: Task): number {
+  return Object.values(task.completionHistory || {}).filter(
+    (entry) => entry === true,
+  ).length;
+}
@@ -0,0 +1,71 @@
+import { addDays, getTodayKey, toLocalDateKey } from "@/lib/local-date";
+import type { CompletionHistory, Task } from "@/lib/types";
+
+/**
+ * One-off migration of completionHistory from UTC date keys to local date keys.
+ * Older versions keyed completions by toISOString(), i.e. the UTC date, so
+ * west of UTC evening completions landed on the next day and east of UTC early
+ * morning ones on the previous day. Only the moment of the last completion is
+ * known, so the migration fixes what it can tell for sure:
+ *   - the key written for lastCompleted moves to its local date
+ *   - keys later than today (impossible in local time) move back a day
+ * Other keys are left alone.
+ */
+
+export const DATE_KEYS_MIGRATION_KEY = "intentionality_local_date_keys";
+
+/**
+ * Re-key one task's completion history. Returns null when nothing changes.
+ */
+export function rekeyCompletionHistory(
+  task: Task,
+  today: string = getTodayKey(),
+): CompletionHistory | null {
+  if (!task.completionHistory) return null;
+
+  const history = { ...task.completionHistory };
+  const move = (from: string, to: string) => {
+    delete history[from];
+    // Keep the existing entry if the target day already has one
+    if (history[to] === undefined) {
+      history[to] = true;
+    }
+  };
+
+  if (task.lastCompleted) {
+    const utcKey = task.lastCompleted.split("T")[0];
+    const localKey = toLocalDateKey(new Date(task.lastCompleted));
+    if (
+      utcKey !== localKey &&
+      history[utcKey] === true &&
+      history[localKey] === undefined
+    ) {
+      move(utcKey, localKey);
+    }
+  }
+
+  for (const key of Object.keys(history).sort().reverse()) {
+    if (key > today && history[key] === true) {
+      move(key, addDays(key, -1));
+    }
+  }
+
+  const changed =
+    JSON.stringify(Object.keys(history).sort()) !==
+    JSON.stringify(Object.keys(task.completionHistory).sort());
+  return changed ? history : null;
+}
+
+/**
+ * Check if this device still has to run the migration
+ */
+export function needsDateKeyMigration(): boolean {
+  return window.localStorage.getItem(DATE_KEYS_MIGRATION_KEY) === null;
+}
+
+/**
+ * Remember that this device has run the migration
+ */
+export function markDateKeyMigrationDone(): void {
+  window.localStorage.setItem(DATE_KEYS_MIGRATION_KEY, "1");
+}
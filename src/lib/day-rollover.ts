@@ -0,0 +1,110 @@
+import {
+  addDays,
+  getDateKey,
+  getDayStartHour,
+  keyToLocalDate,
+} from "@/lib/local-date";
+import { isTaskDueOn } from "@/lib/recurrence";
+import { userKey } from "@/lib/sync/storage-user";
+import type { CompletionHistory, Task } from "@/lib/types";
+
+/**
+ * Day rollover for recurring tasks.
+ * When a day ends, every scheduled occurrence without an entry is recorded as
+ * "missed", so histories say explicitly what happened instead of leaving gaps.
+ * Existing entries (completions, skips, excuses, freezes) are never overwritten, and
+ * missed marks aren't stamped when synced (see stampUpdates), so they never replace
+ * what another device recorded for the day.
+ */
+
+export const LAST_ROLLOVER_KEY = "intentionality_last_rollover";
+
+// How far back a first rollover looks for unrecorded days
+const MAX_ROLLOVER_DAYS = 366;
+
+export interface RolloverUpdate {
+  id: string;
+  completionHistory: CompletionHistory;
+}
+
+/**
+ * Get the last day the rollover ran on this device, for the signed-in user's tasks
+ */
+export function getLastRollover(): string | null {
+  return window.localStorage.getItem(userKey(LAST_ROLLOVER_KEY));
+}
+
+/**
+ * Remember the day the rollover last ran on this device
+ */
+export function setLastRollover(dateKey: string): void {
+  window.localStorage.setItem(userKey(LAST_ROLLOVER_KEY), dateKey);
+}
+
+/**
+ * Mark the unrecorded scheduled days of a task from `since` up to (not including) today as missed.
+ * Returns null when there is nothing to mark.
+ */
+export function rolloverHistory(
+  task: Task,
+  today: string,
+  since: string = addDays(today, -MAX_ROLLOVER_DAYS),
+): CompletionHistory | null {
+  if (!task.isDaily || task.deletedAt) return null;
+
+  const history = { ...(task.completionHistory || {}) };
+  let changed = false;
+
+  for (let date = since; date < today; date = addDays(date, 1)) {
+    if (history[date] === undefined && isTaskDueOn(task, date)) {
+      history[date] = "missed";
+      changed = true;
+    }
+  }
+
+  return changed ? history : null;
+}
+
+/**
+ * Work out the rollover updates for a list of tasks
+ */
+export function planDayRollover(
+  tasks: Task[],
+  today: string,
+  since?: string,
+): RolloverUpdate[] {
+  return tasks.flatMap((task) => {
+    const completionHistory = rolloverHistory(task, today, since);
+    return completionHistory ? [{ id: task.id, completionHistory }] : [];
+  });
+}
+
+/**
+ * Milliseconds until the next day starts (at the configured day start hour)
+ */
+export function getMsUntilNextDay(
+  now: Date = new Date(),
+  dayStartHour: number = getDayStartHour(),
+): number {
+  const nextDay = keyToLocalDate(addDays(getDateKey(now, dayStartHour), 1));
+  nextDay.setHours(dayStartHour, 0, 0, 0);
+  return Math.max(nextDay.getTime() - now.getTime(), 0);
+}
+
+/**
+ * Call `run` at every day boundary until the returned function is called
+ */
+export function scheduleDayRollover(run: () => void): () => void {
+  let timeout: ReturnType<typeof setTimeout>;
+
+  const schedule = () => {
+    // A second late is better than running just before the boundary
+    timeout = setTimeout(() => {
+      run();
+      schedule();
+    }, getMsUntilNextDay() + 1000);
+  };
+
+  schedule();
+  return () => clearTimeout(timeout);
+}
@@ -0,0 +1,123 @@
+import { addDays, keyToLocalDate, toDayNumber } from "@/lib/local-date";
+import type { Task } from "@/lib/types";
+
+/**
+ * Due dates.
+ * A due date is a calendar day. It is stored as "YYYY-MM-DD" locally, but comes back
+ * from the database as a timestamp, so only the date part is ever read: turning the
+ * timestamp into a local Date would move it to the day before west of UTC.
+ */
+
+export type DueGroup = "overdue" | "today" | "tomorrow" | "thisWeek" | "later";
+
+export const DUE_GROUPS: { id: DueGroup; label: string }[] = [
+  { id: "overdue", label: "Overdue" },
+  { id: "today", label: "Today" },
+  { id: "tomorrow", label: "Tomorrow" },
+  { id: "thisWeek", label: "This week" },
+  { id: "later", label: "Later" },
+];
+
+export type NextStepsOrder = "order" | "dueDate";
+
+export const NEXT_STEPS_ORDER_KEY = "intentionality_next_steps_order";
+
+/**
+ * Get the "YYYY-MM-DD" day a task is due, if it has a due date
+ */
+export function getDueKey(task: Pick<Task, "dueDate">): string | null {
+  return task.dueDate ? task.dueDate.slice(0, 10) : null;
+}
+
+// Days from today until the due day, negative when overdue
+const daysUntil = (dueKey: string, today: string) =>
+  toDayNumber(dueKey) - toDayNumber(today);
+
+// Weeks run Monday to Sunday, the way the recurrence editor shows them
+const getWeekEnd = (today: string) => {
+  // Monday is 0, and 1970-01-01 was a Thursday
+  const weekday = (toDayNumber(today) + 3) % 7;
+  return addDays(today, 6 - weekday);
+};
+
+/**
+ * Get the Upcoming group a due day falls in
+ */
+export function getDueGroup(dueKey: string, today: string): DueGroup {
+  const days = daysUntil(dueKey, today);
+  if (days < 0) return "overdue";
+  if (days === 0) return "today";
+  if (days === 1) return "tomorrow";
+  return dueKey <= getWeekEnd(today) ? "thisWeek" : "later";
+}
+
+/**
+ * Describe a due day relative to today, e.g. "Tomorrow", "Friday" or "2 days overdue"
+ */
+export function describeDueDate(dueKey: string, today: string): string {
+  const days = daysUntil(dueKey, today);
+  if (days === 0) return "Today";
+  if (days === 1) return "Tomorrow";
+  if (days === -1) return "Yesterday";
+  if (days < 0) return `${-days} days overdue`;
+
+  const date = keyToLocalDate(dueKey);
+  if (days < 7) {
+    return date.toLocaleDateString(undefined, { weekday: "long" });
+  }
+  return date.toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+    ...(dueKey.slice(0, 4) !== today.slice(0, 4) && { year: "numeric" }),
+  });
+}
+
+/**
+ * Sort by due date, earliest first. Tasks without one go last, in their usual order.
+ */
+export function compareByDueDate(a: Task, b: Task): number {
+  const aKey = getDueKey(a);
+  const bKey = getDueKey(b);
+  if (aKey !== bKey) {
+    if (!aKey) return 1;
+    if (!bKey) return -1;
+    return aKey < bKey ? -1 : 1;
+  }
+  return a.order - b.order;
+}
+
+/**
+ * Group the unfinished tasks with a due date for the Upcoming view.
+ * Groups come in order and leave out the empty ones.
+ */
+export function groupByDueDate(
+  tasks: Task[],
+  today: string,
+): { group: DueGroup; label: string; tasks: Task[] }[] {
+  const dated = tasks
+    .filter((task) => !task.completed && !task.isDaily && getDueKey(task))
+    .sort(compareByDueDate);
+
+  return DUE_GROUPS.map(({ id, label }) => ({
+    group: id,
+    label,
+    tasks: dated.filter((task) => getDueGroup(getDueKey(task)!, today) === id),
+  })).filter(({ tasks: grouped }) => grouped.length > 0);
+}
+
+/**
+ * Get how Next Steps picks each project's task
+ */
+export function getNextStepsOrder(): NextStepsOrder {
+  if (typeof window === "undefined") return "order";
+  return window.localStorage.getItem(NEXT_STEPS_ORDER_KEY) === "dueDate"
+    ? "dueDate"
+    : "order";
+}
+
+/**
+ * Save how Next Steps picks each project's task
+ */
+export function setNextStepsOrder(order: NextStepsOrder): void {
+  window.localStorage.setItem(NEXT_STEPS_ORDER_KEY, order);
+}
@@ -0,0 +1,204 @@
+import { getDateKey } from "@/lib/local-date";
+import type { FocusSession, Project, Tag, Task, TaskTag } from "@/lib/types";
+
+/**
+ * Focus session tracking and time reports.
+ * A session starts when the focus timer is started, keeps running through
+ * pauses, and ends when the timer runs out or focus mode is left, reset or
+ * finished. Only the time the timer was actually running counts.
+ */
+
+/**
+ * A session that is still in progress
+ */
+export interface SessionTracker {
+  start: string;
+  plannedSeconds: number;
+  activeMs: number; // running time before the current run
+  runningSince: number | null; // epoch ms, null while paused
+}
+
+/**
+ * Time spent on one task, project or tag
+ */
+export interface TimeEntry {
+  id: string | null; // null for tasks without a project
+  name: string;
+  seconds: number;
+  sessions: number;
+}
+
+export interface TimeReport {
+  totalSeconds: number;
+  sessions: number;
+  completedSessions: number; // ran until the timer ran out
+  byTask: TimeEntry[];
+  byProject: TimeEntry[];
+  byTag: TimeEntry[];
+}
+
+/**
+ * Start tracking a session when the timer starts
+ */
+export function startSession(
+  plannedSeconds: number,
+  now: number = Date.now(),
+): SessionTracker {
+  return {
+    start: new Date(now).toISOString(),
+    plannedSeconds,
+    activeMs: 0,
+    runningSince: now,
+  };
+}
+
+/**
+ * Stop counting time while the timer is paused
+ */
+export function pauseSession(
+  tracker: SessionTracker,
+  now: number = Date.now(),
+): SessionTracker {
+  if (tracker.runningSince === null) return tracker;
+  return {
+    ...tracker,
+    activeMs: tracker.activeMs + (now - tracker.runningSince),
+    runningSince: null,
+  };
+}
+
+/**
+ * Count time again once the timer is resumed
+ */
+export function resumeSession(
+  tracker: SessionTracker,
+  now: number = Date.now(),
+): SessionTracker {
+  if (tracker.runningSince !== null) return tracker;
+  return { ...tracker, runningSince: now };
+}
+
+/**
+ * Turn a tracker into a session to log.
+ * Returns null when the timer never actually ran.
+ */
+export function finishSession(
+  tracker: SessionTracker,
+  taskId: string,
+  interrupted: boolean,
+  now: number = Date.now(),
+): Omit<FocusSession, "id" | "createdAt"> | null {
+  const { activeMs } = pauseSession(tracker, now);
+  const actualSeconds = Math.round(activeMs / 1000);
+  if (actualSeconds === 0) return null;
+
+  return {
+    taskId,
+    start: tracker.start,
+    end: new Date(now).toISOString(),
+    plannedSeconds: tracker.plannedSeconds,
+    actualSeconds,
+    interrupted,
+  };
+}
+
+/**
+ * Get the day a session belongs to (the day it started)
+ */
+export function getSessionDateKey(session: FocusSession): string {
+  return getDateKey(new Date(session.start));
+}
+
+const addTime = (
+  entries: Map<string | null, TimeEntry>,
+  id: string | null,
+  name: string,
+  seconds: number,
+) => {
+  const entry = entries.get(id) ?? { id, name, seconds: 0, sessions: 0 };
+  entry.seconds += seconds;
+  entry.sessions += 1;
+  entries.set(id, entry);
+};
+
+const byTimeSpent = (a: TimeEntry, b: TimeEntry) =>
+  b.seconds - a.seconds || a.name.localeCompare(b.name);
+
+/**
+ * Sum up the time spent per task, project and tag for sessions that started between
+ * `from` and `to` (YYYY-MM-DD, inclusive).
+ * A session counts towards every tag of its task, so tag totals can add up to
+ * more than the total time.
+ */
+export function buildTimeReport(
+  sessions: FocusSession[],
+  from: string,
+  to: string,
+  {
+    tasks,
+    projects,
+    tags,
+    taskTags,
+  }: {
+    tasks: Task[];
+    projects: Project[];
+    tags: Tag[];
+    taskTags: TaskTag[];
+  },
+): TimeReport {
+  const tasksById = new Map(tasks.map((t) => [t.id, t]));
+  const projectsById = new Map(projects.map((p) => [p.id, p]));
+  const tagsById = new Map(tags.map((t) => [t.id, t]));
+
+  const byTask = new Map<string | null, TimeEntry>();
+  const byProject = new Map<string | null, TimeEntry>();
+  const byTag = new Map<string | null, TimeEntry>();
+  const report: TimeReport = {
+    totalSeconds: 0,
+    sessions: 0,
+    completedSessions: 0,
+    byTask: [],
+    byProject: [],
+    byTag: [],
+  };
+
+  for (const session of sessions) {
+    const dateKey = getSessionDateKey(session);
+    if (dateKey < from || dateKey > to) continue;
+
+    const seconds = session.actualSeconds;
+    report.totalSeconds += seconds;
+    report.sessions += 1;
+    if (!session.interrupted) report.completedSessions += 1;
+
+    const task = tasksById.get(session.taskId);
+    addTime(byTask, session.taskId, task?.title ?? "Deleted task", seconds);
+
+    const project = task?.projectId
+      ? projectsById.get(task.projectId)
+      : undefined;
+    addTime(byProject, project?.id ?? null, project?.name ?? "Inbox", seconds);
+
+    const sessionTags = taskTags.filter((tt) => tt.taskId === session.taskId);
+    for (const { tagId } of sessionTags) {
+      const tag = tagsById.get(tagId);
+      if (tag) addTime(byTag, tag.id, tag.name, seconds);
+    }
+  }
+
+  report.byTask = [...byTask.values()].sort(byTimeSpent);
+  report.byProject = [...byProject.values()].sort(byTimeSpent);
+  report.byTag = [...byTag.values()].sort(byTimeSpent);
+  return report;
+}
+
+/**
+ * Format a duration as "1h 05m", "25m" or "40s"
+ */
+export function formatDuration(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  if (hours > 0) return `${hours}h ${String(minutes).padStart(2, "0")}m`;
+  if (minutes > 0) return `${minutes}m`;
+  return `${totalSeconds}s`;
+}
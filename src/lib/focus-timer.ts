@@ -0,0 +1,437 @@
+import {
+  finishSession,
+  pauseSession,
+  resumeSession,
+  SessionTracker,
+  startSession,
+} from "@/lib/focus-sessions";
+import {
+  requestNotificationPermission,
+  showNotification,
+} from "@/lib/notifications";
+import {
+  getNextPhase,
+  getPhaseMinutes,
+  getPomodoroSettings,
+  isBreak,
+  PHASE_LABELS,
+  PHASE_SOUNDS,
+  PomodoroPhase,
+} from "@/lib/pomodoro";
+import type { FocusSession } from "@/lib/types";
+
+/**
+ * Wall-clock focus timer that outlives focus mode.
+ * Instead of counting down in React, the timer stores when the current phase ends,
+ * so it keeps running while focus mode is closed, picks up where it was after a
+ * reload, and stays in step across tabs over a BroadcastChannel.
+ * Whichever tab is open when a phase ends logs the session and plays the alert.
+ */
+
+export const FOCUS_TIMER_KEY = "intentionality_focus_timer";
+
+const CHANNEL_NAME = "intentionality_focus_timer";
+
+// A phase that ended this long before any tab noticed (e.g. the browser was closed)
+// ends quietly, without an alert or auto-starting the next phase
+const MISSED_PHASE_MS = 60 * 1000;
+
+export interface FocusTimerState {
+  /** Changes on every update, so a tab can tell if a phase end was already handled */
+  revision: string;
+  taskId: string;
+  /** Kept for notifications, which can fire without the task list loaded */
+  taskTitle: string;
+  phase: PomodoroPhase;
+  completedWork: number;
+  /** Work length for this task, breaks come from the Pomodoro settings */
+  workMinutes: number;
+  /** Full length of the current phase */
+  durationSeconds: number;
+  /** Epoch ms the current phase ends at, null while paused */
+  endsAt: number | null;
+  /** Seconds left while paused */
+  remainingSeconds: number;
+  /** Focus session in progress, only during work phases */
+  session: SessionTracker | null;
+}
+
+export type EndedSession = Omit<FocusSession, "id" | "createdAt">;
+
+type TimerUpdate = Omit<FocusTimerState, "revision">;
+
+/**
+ * Get the seconds left in the current phase
+ */
+export function getSecondsLeft(
+  state: FocusTimerState,
+  now: number = Date.now(),
+): number {
+  if (state.endsAt === null) return state.remainingSeconds;
+  return Math.max(0, Math.ceil((state.endsAt - now) / 1000));
+}
+
+const newRevision = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+export class FocusTimer {
+  private state: FocusTimerState | null = null;
+  private connected = false;
+  private channel: BroadcastChannel | null = null;
+  private expiryTimeout: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<() => void>();
+  private sessionListeners = new Set<(session: EndedSession) => void>();
+  private unloggedSessions: EndedSession[] = [];
+  private sounds = new Map<PomodoroPhase, HTMLAudioElement>();
+  private soundsUnlocked = false;
+
+  /**
+   * Point the timer at a task.
+   * A timer that is already on this task is kept as it is; one on another task is
+   * replaced, ending its session early.
+   */
+  load(
+    taskId: string,
+    taskTitle: string,
+    workMinutes: number,
+    secondsLeft: number,
+  ): void {
+    this.connect();
+    if (this.state?.taskId === taskId) return;
+
+    if (this.state) this.endSession(this.state, true);
+    this.commit({
+      taskId,
+      taskTitle,
+      phase: "work",
+      completedWork: 0,
+      workMinutes,
+      durationSeconds: workMinutes * 60,
+      endsAt: null,
+      remainingSeconds: secondsLeft,
+      session: null,
+    });
+  }
+
+  start(): void {
+    const state = this.state;
+    if (!state || state.endsAt !== null) return;
+
+    // Starting is a user gesture, the only chance to get permission for alerts
+    this.unlockSounds();
+    void requestNotificationPermission();
+
+    const now = Date.now();
+    this.commit({
+      ...state,
+      endsAt: now + state.remainingSeconds * 1000,
+      session: isBreak(state.phase)
+        ? null
+        : state.session
+          ? resumeSession(state.session, now)
+          : startSession(state.remainingSeconds, now),
+    });
+  }
+
+  pause(): void {
+    const state = this.state;
+    if (!state || state.endsAt === null) return;
+
+    const now = Date.now();
+    this.commit({
+      ...state,
+      endsAt: null,
+      remainingSeconds: getSecondsLeft(state, now),
+      session: state.session && pauseSession(state.session, now),
+    });
+  }
+
+  toggle(): void {
+    if (this.state?.endsAt === null) {
+      this.start();
+    } else {
+      this.pause();
+    }
+  }
+
+  /**
+   * Change the time left and the phase length while paused.
+   * Editing the time ends the session in progress.
+   */
+  setTime(seconds: number, minutes: number): void {
+    const state = this.state;
+    if (!state || state.endsAt !== null) return;
+
+    this.commit({
+      ...this.endSession(state, true),
+      remainingSeconds: seconds,
+      durationSeconds: minutes * 60,
+      workMinutes: isBreak(state.phase) ? state.workMinutes : minutes,
+    });
+  }
+
+  /**
+   * Stop and rewind the current phase
+   */
+  reset(): void {
+    const state = this.state;
+    if (!state) return;
+
+    this.commit({
+      ...this.endSession(state, true),
+      endsAt: null,
+      remainingSeconds: state.durationSeconds,
+    });
+  }
+
+  /**
+   * End the current phase early and move on to the next one
+   */
+  skip(): void {
+    const state = this.state;
+    if (!state) return;
+
+    const now = Date.now();
+    this.advance(
+      this.endSession(state, true, now),
+      now,
+      getPomodoroSettings().autoAdvance,
+    );
+  }
+
+  /**
+   * Stop the timer altogether
+   */
+  stop(): void {
+    if (!this.state) return;
+
+    this.endSession(this.state, true);
+    this.commit(null);
+  }
+
+  /**
+   * Subscribe to timer changes (for useSyncExternalStore)
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.connect();
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+
+  getSnapshot = (): FocusTimerState | null => this.state;
+
+  /**
+   * Get told about focus sessions that end in this tab, to log them.
+   * Sessions that ended before anyone listened are handed over right away.
+   */
+  onSessionEnd(listener: (session: EndedSession) => void): () => void {
+    this.connect();
+    this.sessionListeners.add(listener);
+
+    const sessions = this.unloggedSessions;
+    this.unloggedSessions = [];
+    sessions.forEach(listener);
+
+    return () => this.sessionListeners.delete(listener);
+  }
+
+  /**
+   * Pick up the stored timer and listen to other tabs, once per page
+   */
+  private connect(): void {
+    if (this.connected || typeof window === "undefined") return;
+    this.connected = true;
+
+    this.state = this.read();
+    if (typeof BroadcastChannel !== "undefined") {
+      this.channel = new BroadcastChannel(CHANNEL_NAME);
+      this.channel.onmessage = (
+        event: MessageEvent<FocusTimerState | null>,
+      ) => {
+        this.state = event.data;
+        this.schedule();
+        this.emit();
+      };
+    }
+    this.schedule();
+  }
+
+  private read(): FocusTimerState | null {
+    try {
+      const stored = window.localStorage.getItem(FOCUS_TIMER_KEY);
+      return stored ? (JSON.parse(stored) as FocusTimerState) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private commit(update: TimerUpdate | null): void {
+    this.state = update && { ...update, revision: newRevision() };
+    if (this.state) {
+      window.localStorage.setItem(FOCUS_TIMER_KEY, JSON.stringify(this.state));
+    } else {
+      window.localStorage.removeItem(FOCUS_TIMER_KEY);
+    }
+    this.channel?.postMessage(this.state);
+    this.schedule();
+    this.emit();
+  }
+
+  private schedule(): void {
+    if (this.expiryTimeout) {
+      clearTimeout(this.expiryTimeout);
+      this.expiryTimeout = null;
+    }
+
+    const state = this.state;
+    if (!state || state.endsAt === null) return;
+
+    const { revision } = state;
+    this.expiryTimeout = setTimeout(
+      () => void this.expire(revision),
+      Math.max(0, state.endsAt - Date.now()),
+    );
+  }
+
+  private async expire(revision: string): Promise<void> {
+    const handle = () => {
+      // Another tab may have got there first
+      const state = this.read();
+      if (!state || state.revision !== revision || state.endsAt === null) {
+        return;
+      }
+
+      const now = Date.now();
+      const missed = now - state.endsAt > MISSED_PHASE_MS;
+      const next = this.advance(
+        this.endSession(state, false, state.endsAt),
+        now,
+        getPomodoroSettings().autoAdvance && !missed,
+      );
+      if (!missed) {
+        this.alert(next.phase, state.taskTitle);
+      }
+    };
+
+    // Only one tab at a time, where the browser supports Web Locks
+    if (typeof navigator !== "undefined" && navigator.locks) {
+      await navigator.locks.request(CHANNEL_NAME, handle);
+    } else {
+      handle();
+    }
+  }
+
+  private advance(
+    state: TimerUpdate,
+    now: number,
+    autoStart: boolean,
+  ): TimerUpdate {
+    const settings = getPomodoroSettings();
+    const next = getNextPhase(state, settings);
+    const seconds =
+      getPhaseMinutes(next.phase, settings, state.workMinutes) * 60;
+
+    const update: TimerUpdate = {
+      ...state,
+      ...next,
+      durationSeconds: seconds,
+      remainingSeconds: seconds,
+      endsAt: autoStart ? now + seconds * 1000 : null,
+      session:
+        autoStart && !isBreak(next.phase) ? startSession(seconds, now) : null,
+    };
+    this.commit(update);
+    return update;
+  }
+
+  /**
+   * Finish the session in progress, if any, and hand it to the listeners
+   */
+  private endSession<T extends TimerUpdate>(
+    state: T,
+    interrupted: boolean,
+    now: number = Date.now(),
+  ): T {
+    if (!state.session) return state;
+
+    const session = finishSession(
+      state.session,
+      state.taskId,
+      interrupted,
+      now,
+    );
+    if (session) {
+      if (this.sessionListeners.size === 0) {
+        this.unloggedSessions.push(session);
+      } else {
+        this.sessionListeners.forEach((listener) => listener(session));
+      }
+    }
+    return { ...state, session: null };
+  }
+
+  private getSound(phase: PomodoroPhase): HTMLAudioElement {
+    let sound = this.sounds.get(phase);
+    if (!sound) {
+      sound = new Audio(PHASE_SOUNDS[phase]);
+      sound.load();
+      this.sounds.set(phase, sound);
+    }
+    return sound;
+  }
+
+  // Browsers only let a page play sounds it has played during a user gesture
+  private unlockSounds(): void {
+    if (this.soundsUnlocked) return;
+    this.soundsUnlocked = true;
+
+    for (const phase of Object.keys(PHASE_SOUNDS) as PomodoroPhase[]) {
+      const sound = this.getSound(phase);
+      sound
+        .play()
+        .then(() => {
+          sound.pause();
+          sound.currentTime = 0;
+        })
+        .catch(() => {
+          // Try again on the next start
+          this.soundsUnlocked = false;
+        });
+    }
+  }
+
+  /**
+   * Announce the phase that just began
+   */
+  private alert(phase: PomodoroPhase, taskTitle: string): void {
+    const notify = () => {
+      void showNotification(
+        isBreak(phase) ? `${PHASE_LABELS[phase]}!` : "Break is over",
+        {
+          body: isBreak(phase)
+            ? `Finished working on: ${taskTitle}`
+            : `Back to: ${taskTitle}`,
+          tag: "focus-timer",
+        },
+      );
+    };
+
+    // A sound alone is easy to miss when the tab isn't visible
+    if (document.hidden) notify();
+
+    const sound = this.getSound(phase);
+    sound.currentTime = 0;
+    sound.play().catch((err) => {
+      console.error("Failed to play notification sound:", err);
+      // Fallback to system notification if audio fails
+      if (!document.hidden) notify();
+    });
+  }
+
+  private emit(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+// Global singleton shared by focus mode and the timer indicator
+export const focusTimer = new FocusTimer();
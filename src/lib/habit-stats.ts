@@ -0,0 +1,173 @@
+import { DayState, getDayState } from "@/lib/completion";
+import { addDays, getTodayKey } from "@/lib/local-date";
+import { getWeekday, Weekday, WEEKDAYS } from "@/lib/recurrence";
+import { CompletionTally, tallyCompletions } from "@/lib/streak";
+import type { Task } from "@/lib/types";
+
+/**
+ * Statistics for the Habits dashboard, all derived from completionHistory.
+ * Rates follow the same rules as calculateCompletionRate: excused and frozen
+ * days and a still pending today are left out, and they are null when there
+ * is no counted day in the range.
+ */
+
+export type Period = "week" | "month";
+
+export interface HeatmapCell {
+  date: string;
+  state: DayState;
+}
+
+export interface PeriodRate extends CompletionTally {
+  start: string;
+  end: string;
+  rate: number | null;
+}
+
+export interface WeekdayRate extends CompletionTally {
+  weekday: Weekday;
+  rate: number | null;
+}
+
+// Weeks shown in the yearly heatmap, enough to always cover a full year
+export const HEATMAP_WEEKS = 53;
+
+/**
+ * Turn a tally into a whole percentage, or null when nothing was counted
+ */
+export function toRate({ completed, total }: CompletionTally): number | null {
+  return total === 0 ? null : Math.round((completed / total) * 100);
+}
+
+/**
+ * Get the first day (Sunday) of the week a date is in
+ */
+export function getWeekStart(dateKey: string): string {
+  return addDays(dateKey, -WEEKDAYS.indexOf(getWeekday(dateKey)));
+}
+
+/**
+ * Get the first day of the month a date is in
+ */
+export function getMonthStart(dateKey: string): string {
+  return `${dateKey.slice(0, 7)}-01`;
+}
+
+/**
+ * Shift the first day of a month by a number of months
+ */
+export function addMonths(monthStart: string, months: number): string {
+  const [year, month] = monthStart.split("-").map(Number);
+  const index = year * 12 + (month - 1) + months;
+  const newMonth = String((index % 12) + 1).padStart(2, "0");
+  return `${Math.floor(index / 12)}-${newMonth}-01`;
+}
+
+/**
+ * Build a GitHub-style heatmap: one column per week (Sunday first), ending with the current week.
+ * Days after today are null.
+ */
+export function getYearHeatmap(
+  task: Task,
+  today: string = getTodayKey(),
+  weeks: number = HEATMAP_WEEKS,
+): (HeatmapCell | null)[][] {
+  const firstDay = addDays(getWeekStart(today), -7 * (weeks - 1));
+
+  return Array.from({ length: weeks }, (_, week) =>
+    Array.from({ length: 7 }, (_, weekday) => {
+      const date = addDays(firstDay, week * 7 + weekday);
+      return date > today ? null : { date, state: getDayState(task, date) };
+    }),
+  );
+}
+
+/**
+ * Get the completion rate of each of the last `count` weeks or months, oldest first
+ */
+export function getPeriodRates(
+  task: Task,
+  period: Period,
+  count: number,
+  today: string = getTodayKey(),
+): PeriodRate[] {
+  return Array.from({ length: count }, (_, i) => {
+    const back = count - 1 - i;
+    const start =
+      period === "week"
+        ? addDays(getWeekStart(today), -7 * back)
+        : addMonths(getMonthStart(today), -back);
+    const periodEnd =
+      period === "week" ? addDays(start, 6) : addDays(addMonths(start, 1), -1);
+    const end = periodEnd < today ? periodEnd : today;
+
+    const tally = tallyCompletions(task, start, end, today);
+    return { start, end, ...tally, rate: toRate(tally) };
+  });
+}
+
+/**
+ * Get the completion rate per day of the week over the last `days` days
+ */
+export function getWeekdayRates(
+  task: Task,
+  today: string = getTodayKey(),
+  days: number = 365,
+): WeekdayRate[] {
+  const tallies = new Map<Weekday, CompletionTally>(
+    WEEKDAYS.map((weekday) => [weekday, { completed: 0, total: 0 }]),
+  );
+
+  for (let i = 0; i < days; i++) {
+    const date = addDays(today, -i);
+    const day = tallyCompletions(task, date, date, today);
+    const tally = tallies.get(getWeekday(date))!;
+    tally.completed += day.completed;
+    tally.total += day.total;
+  }
+
+  return WEEKDAYS.map((weekday) => {
+    const tally = tallies.get(weekday)!;
+    return { weekday, ...tally, rate: toRate(tally) };
+  });
+}
+
+/**
+ * Get the weekday with the highest completion rate (more counted days wins a tie)
+ */
+export function getBestWeekday(rates: WeekdayRate[]): WeekdayRate | null {
+  return rates.reduce<WeekdayRate | null>((best, current) => {
+    if (current.rate === null) return best;
+    if (
+      !best ||
+      current.rate > best.rate! ||
+      (current.rate === best.rate && current.total > best.total)
+    ) {
+      return current;
+    }
+    return best;
+  }, null);
+}
+
+/**
+ * Aggregate score for all habits: the share of counted scheduled days over the
+ * last `days` days that were completed, so habits due more often weigh more.
+ */
+export function calculateHabitScore(
+  tasks: Task[],
+  today: string = getTodayKey(),
+  days: number = 30,
+): number | null {
+  const from = addDays(today, -(days - 1));
+  const tally = tasks.reduce<CompletionTally>(
+    (sum, task) => {
+      const { completed, total } = tallyCompletions(task, from, today, today);
+      return {
+        completed: sum.completed + completed,
+        total: sum.total + total,
+      };
+    },
+    { completed: 0, total: 0 },
+  );
+  return toRate(tally);
+}
@@ -218,3 +218,54 @@ export function createShortcutHandler(
     }
   };
 }
+
+/**
+ * Check if shortcuts should be shown with macOS symbols
+ */
+export function isMacPlatform(): boolean {
+  return (
+    typeof navigator !== "undefined" &&
+    /Mac|iPhone|iPad/.test(navigator.userAgent)
+  );
+}
+
+const KEY_LABELS: Record<string, string> = {
+  escape: "Esc",
+  arrowup: "↑",
+  arrowdown: "↓",
+  arrowleft: "←",
+  arrowright: "→",
+  enter: "↵",
+  " ": "Space",
+};
+
+/**
+ * Format a shortcut for display, e.g. "Ctrl+Shift+Z" or "⇧⌘Z" on macOS
+ */
+export function formatShortcut(
+  shortcut: Pick<ShortcutConfig, "key" | "ctrlOrCmd" | "shift" | "alt">,
+  mac: boolean = isMacPlatform(),
+): string {
+  const key =
+    KEY_LABELS[shortcut.key.toLowerCase()] ??
+    (shortcut.key.length === 1 ? shortcut.key.toUpperCase() : shortcut.key);
+
+  if (mac) {
+    return [
+      shortcut.alt && "⌥",
+      shortcut.shift && "⇧",
+      shortcut.ctrlOrCmd && "⌘",
+      key,
+    ]
+      .filter(Boolean)
+      .join("");
+  }
+  return [
+    shortcut.ctrlOrCmd && "Ctrl",
+    shortcut.alt && "Alt",
+    shortcut.shift && "Shift",
+    key,
+  ]
+    .filter(Boolean)
+    .join("+");
+}
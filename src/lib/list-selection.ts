@@ -0,0 +1,168 @@
+/**
+ * Keyboard selection in task lists.
+ * The cursor is the task that j/k move from and that single-task actions apply to.
+ * Shift extends the selection from the anchor, where the last plain move or
+ * click left it, to the cursor, so bulk actions can apply to a range of tasks.
+ */
+
+export interface ListSelection {
+  cursorId: string | null;
+  anchorId: string | null;
+  selectedIds: string[];
+}
+
+export const EMPTY_SELECTION: ListSelection = {
+  cursorId: null,
+  anchorId: null,
+  selectedIds: [],
+};
+
+/**
+ * How a click selects a task: on its own, as the end of a range from the anchor
+ * (Shift), or added to / taken out of the selection (Cmd/Ctrl)
+ */
+export type SelectMode = "replace" | "extend" | "toggle";
+
+// The ids from one id to another, in list order
+const getRange = (ids: string[], fromId: string, toId: string) => {
+  const from = ids.indexOf(fromId);
+  const to = ids.indexOf(toId);
+  if (from === -1 || to === -1) return [toId];
+  return ids.slice(Math.min(from, to), Math.max(from, to) + 1);
+};
+
+/**
+ * Put the cursor on a task. With extend, select everything from the anchor to it;
+ * otherwise the task is the only one selected and becomes the new anchor.
+ */
+export function selectItem(
+  ids: string[],
+  selection: ListSelection,
+  id: string,
+  extend = false,
+): ListSelection {
+  const anchorId =
+    extend && selection.anchorId && ids.includes(selection.anchorId)
+      ? selection.anchorId
+      : id;
+  return {
+    cursorId: id,
+    anchorId,
+    selectedIds: getRange(ids, anchorId, id),
+  };
+}
+
+/**
+ * Add a task to the selection or take it out, keeping the rest selected.
+ * The task becomes the cursor and the anchor for the next range.
+ */
+export function toggleItem(
+  ids: string[],
+  selection: ListSelection,
+  id: string,
+): ListSelection {
+  const selectedIds = selection.selectedIds.includes(id)
+    ? selection.selectedIds.filter((selectedId) => selectedId !== id)
+    : ids.filter(
+        (listId) => listId === id || selection.selectedIds.includes(listId),
+      );
+  return { cursorId: id, anchorId: id, selectedIds };
+}
+
+/**
+ * Select a task the way a click with the given mode does
+ */
+export function clickItem(
+  ids: string[],
+  selection: ListSelection,
+  id: string,
+  mode: SelectMode,
+): ListSelection {
+  return mode === "toggle"
+    ? toggleItem(ids, selection, id)
+    : selectItem(ids, selection, id, mode === "extend");
+}
+
+/**
+ * Move the cursor up (-1) or down (1), stopping at either end.
+ * Without a cursor, moving down starts at the first task and up at the last.
+ */
+export function moveCursor(
+  ids: string[],
+  selection: ListSelection,
+  delta: number,
+  extend = false,
+): ListSelection {
+  if (ids.length === 0) return EMPTY_SELECTION;
+
+  const index = selection.cursorId ? ids.indexOf(selection.cursorId) : -1;
+  const nextIndex =
+    index === -1
+      ? delta > 0
+        ? 0
+        : ids.length - 1
+      : Math.max(0, Math.min(ids.length - 1, index + delta));
+
+  return selectItem(ids, selection, ids[nextIndex], extend);
+}
+
+/**
+ * Drop selected ids that are no longer in the list
+ */
+export function pruneSelection(
+  ids: string[],
+  selection: ListSelection,
+): ListSelection {
+  const present = new Set(ids);
+  const selectedIds = selection.selectedIds.filter((id) => present.has(id));
+  const cursorId =
+    selection.cursorId && present.has(selection.cursorId)
+      ? selection.cursorId
+      : null;
+  const anchorId =
+    selection.anchorId && present.has(selection.anchorId)
+      ? selection.anchorId
+      : cursorId;
+
+  if (
+    cursorId === selection.cursorId &&
+    anchorId === selection.anchorId &&
+    selectedIds.length === selection.selectedIds.length
+  ) {
+    return selection;
+  }
+  return { cursorId, anchorId, selectedIds };
+}
+
+/**
+ * Move the selected items up (-1) or down (1) by one place, keeping their order.
+ * Returns null when nothing can move, because the list doesn't hold every
+ * selected item or one of them is already at the end it is moving to.
+ */
+export function moveItems<T extends { id: string }>(
+  items: T[],
+  selectedIds: string[],
+  delta: -1 | 1,
+): T[] | null {
+  const selected = new Set(selectedIds);
+  const indexes = items
+    .map((item, index) => (selected.has(item.id) ? index : -1))
+    .filter((index) => index !== -1);
+
+  if (indexes.length === 0 || indexes.length !== selected.size) return null;
+  if (
+    delta < 0
+      ? indexes[0] === 0
+      : indexes[indexes.length - 1] === items.length - 1
+  ) {
+    return null;
+  }
+
+  const moved = [...items];
+  // Move the item closest to the destination first, so items never pass each other
+  const order = delta < 0 ? indexes : [...indexes].reverse();
+  for (const index of order) {
+    [moved[index], moved[index + delta]] = [moved[index + delta], moved[index]];
+  }
+  return moved;
+}
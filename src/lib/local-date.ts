@@ -0,0 +1,115 @@
+/**
+ * Local calendar dates as "YYYY-MM-DD" keys.
+ * completionHistory and streaks are keyed by the day in the user's own time zone,
+ * where a day can be configured to start a few hours after midnight, so a task
+ * finished at 1am still counts for the evening before.
+ */
+
+export const DAY_START_HOUR_KEY = "intentionality_day_start_hour";
+
+export const DEFAULT_DAY_START_HOUR = 0;
+
+// Later than this and "yesterday" would cover most of the actual morning
+export const MAX_DAY_START_HOUR = 6;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Get the hour (0-6) at which a new day starts
+ */
+export function getDayStartHour(): number {
+  if (typeof window === "undefined") {
+    return DEFAULT_DAY_START_HOUR;
+  }
+
+  const stored = window.localStorage.getItem(DAY_START_HOUR_KEY);
+  const hour = stored === null ? NaN : Number(stored);
+  return Number.isInteger(hour) && hour >= 0 && hour <= MAX_DAY_START_HOUR
+    ? hour
+    : DEFAULT_DAY_START_HOUR;
+}
+
+/**
+ * Save the hour at which a new day starts
+ */
+export function setDayStartHour(hour: number): void {
+  window.localStorage.setItem(DAY_START_HOUR_KEY, String(hour));
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// Wall-clock date and hour of a moment in a time zone (the system one by default)
+const getWallClock = (date: Date, timeZone?: string) => {
+  const cacheKey = timeZone ?? "";
+  let formatter = formatters.get(cacheKey);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      hourCycle: "h23",
+    });
+    formatters.set(cacheKey, formatter);
+  }
+
+  const parts = Object.fromEntries(
+    formatter.formatToParts(date).map((part) => [part.type, part.value]),
+  );
+  return {
+    key: `${parts.year}-${parts.month}-${parts.day}`,
+    hour: Number(parts.hour),
+  };
+};
+
+/**
+ * Get the local calendar date of a moment, ignoring the day start hour
+ */
+export function toLocalDateKey(date: Date, timeZone?: string): string {
+  return getWallClock(date, timeZone).key;
+}
+
+/**
+ * Get the day a moment belongs to.
+ * Before the day start hour, it still belongs to the previous day.
+ */
+export function getDateKey(
+  date: Date = new Date(),
+  dayStartHour: number = getDayStartHour(),
+  timeZone?: string,
+): string {
+  const { key, hour } = getWallClock(date, timeZone);
+  // Compare wall-clock hours rather than subtracting milliseconds, so DST changes don't matter
+  return hour < dayStartHour ? addDays(key, -1) : key;
+}
+
+/**
+ * Get the key of the current day
+ */
+export function getTodayKey(): string {
+  return getDateKey(new Date());
+}
+
+// Days since 1970-01-01 for a YYYY-MM-DD key, independent of the time zone
+export function toDayNumber(dateKey: string): number {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return Math.round(Date.UTC(year, month - 1, day) / DAY_MS);
+}
+
+/**
+ * Shift a YYYY-MM-DD key by a number of days
+ */
+export function addDays(dateKey: string, days: number): string {
+  return new Date((toDayNumber(dateKey) + days) * DAY_MS)
+    .toISOString()
+    .split("T")[0];
+}
+
+/**
+ * Get a local Date at noon on a YYYY-MM-DD key, for formatting
+ */
+export function keyToLocalDate(dateKey: string): Date {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return new Date(year, month - 1, day, 12);
+}
@@ -0,0 +1,135 @@
+/**
+ * Desktop notifications.
+ * Notifications go through the reminder service worker when it's available: only a
+ * service worker can show notifications with actions (Snooze, Done), keep reminders
+ * scheduled while the tab is in the background, and handle clicks after the app is
+ * closed. Without one, plain Notifications are shown while the app is open.
+ */
+
+export const REMINDER_WORKER_URL = "/reminder-sw.js";
+
+export type ReminderAction = "open" | "snooze" | "done";
+
+/**
+ * A reminder handed to the service worker to show at a later time
+ */
+export interface ScheduledNotification {
+  tag: string;
+  title: string;
+  body: string;
+  at: number; // epoch ms
+  taskId: string;
+  reminderId: string;
+}
+
+/**
+ * Sent by the service worker when a reminder notification is clicked
+ */
+export interface ReminderActionMessage {
+  type: "reminder-action";
+  action: ReminderAction;
+  taskId: string;
+  reminderId: string;
+}
+
+export interface NotificationDetails {
+  body?: string;
+  tag?: string;
+  data?: unknown;
+  // Only shown for notifications from the service worker
+  actions?: { action: string; title: string }[];
+}
+
+let workerRegistration: Promise<ServiceWorkerRegistration | null> | null = null;
+
+export function canNotify(): boolean {
+  return typeof window !== "undefined" && "Notification" in window;
+}
+
+/**
+ * Ask for permission to show notifications, unless already answered
+ */
+export async function requestNotificationPermission(): Promise<NotificationPermission> {
+  if (!canNotify()) return "denied";
+  if (Notification.permission !== "default") return Notification.permission;
+  return Notification.requestPermission();
+}
+
+/**
+ * Register the reminder service worker once, resolving to null where it can't run
+ */
+export function getReminderWorker(): Promise<ServiceWorkerRegistration | null> {
+  if (!workerRegistration) {
+    workerRegistration =
+      typeof navigator !== "undefined" && "serviceWorker" in navigator
+        ? navigator.serviceWorker
+            .register(REMINDER_WORKER_URL)
+            .then(() => navigator.serviceWorker.ready)
+            .catch((err) => {
+              console.error("Failed to register reminder worker:", err);
+              return null;
+            })
+        : Promise.resolve(null);
+  }
+  return workerRegistration;
+}
+
+/**
+ * Show a notification right away, if permission was granted
+ */
+export async function showNotification(
+  title: string,
+  details: NotificationDetails = {},
+): Promise<void> {
+  if (!canNotify() || Notification.permission !== "granted") return;
+
+  const worker = await getReminderWorker();
+  if (worker) {
+    await worker.showNotification(title, details as NotificationOptions);
+    return;
+  }
+
+  // Plain notifications can't have actions
+  new Notification(title, {
+    body: details.body,
+    tag: details.tag,
+    data: details.data,
+  });
+}
+
+/**
+ * Replace the reminders the service worker shows in the background
+ */
+export async function scheduleNotifications(
+  notifications: ScheduledNotification[],
+): Promise<void> {
+  const worker = await getReminderWorker();
+  worker?.active?.postMessage({ type: "schedule", notifications });
+}
+
+/**
+ * Listen for clicks on reminder notifications.
+ * Clicks from while the app was closed are delivered once listening starts.
+ */
+export function onReminderAction(
+  listener: (message: ReminderActionMessage) => void,
+): () => void {
+  if (typeof navigator === "undefined" || !("serviceWorker" in navigator)) {
+    return () => {};
+  }
+
+  const handleMessage = (event: MessageEvent) => {
+    if (event.data?.type === "reminder-action") {
+      listener(event.data as ReminderActionMessage);
+    }
+  };
+
+  navigator.serviceWorker.addEventListener("message", handleMessage);
+  navigator.serviceWorker.startMessages();
+  void getReminderWorker().then((worker) =>
+    worker?.active?.postMessage({ type: "ready" }),
+  );
+
+  return () =>
+    navigator.serviceWorker.removeEventListener("message", handleMessage);
+}
@@ -0,0 +1,187 @@
+import { isCompletedOn } from "@/lib/completion";
+import { getTodayKey } from "@/lib/local-date";
+import type { Task } from "@/lib/types";
+
+/**
+ * Pomodoro cycles for focus mode.
+ * Work phases alternate with short breaks, and every few work phases the break
+ * is a long one. Lengths are configured in the settings dialog, but a task's own
+ * timePeriod still overrides the work length.
+ */
+
+export const POMODORO_SETTINGS_KEY = "intentionality_pomodoro";
+
+export type PomodoroPhase = "work" | "shortBreak" | "longBreak";
+
+export interface PomodoroSettings {
+  workMinutes: number;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  longBreakInterval: number; // work phases before a long break
+  autoAdvance: boolean; // start the next phase as soon as one ends
+}
+
+/**
+ * Where the timer is within a cycle
+ */
+export interface PomodoroState {
+  phase: PomodoroPhase;
+  completedWork: number; // work phases finished since focus mode opened
+}
+
+export const DEFAULT_POMODORO_SETTINGS: PomodoroSettings = {
+  workMinutes: 25,
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  longBreakInterval: 4,
+  autoAdvance: true,
+};
+
+export const MAX_PHASE_MINUTES = 60;
+export const MAX_LONG_BREAK_INTERVAL = 8;
+
+export const PHASE_LABELS: Record<PomodoroPhase, string> = {
+  work: "Focus",
+  shortBreak: "Short break",
+  longBreak: "Long break",
+};
+
+// Sound played when a phase begins, so each transition can be told apart by ear
+export const PHASE_SOUNDS: Record<PomodoroPhase, string> = {
+  work: "/media/timer-end-sound.mp3",
+  shortBreak: "/media/bell-sound.mp3",
+  longBreak: "/media/zen-gong-scale-c-22878.mp3",
+};
+
+const isWholeNumberBetween = (value: unknown, min: number, max: number) =>
+  typeof value === "number" &&
+  Number.isInteger(value) &&
+  value >= min &&
+  value <= max;
+
+/**
+ * Get the Pomodoro settings, falling back to the defaults for anything missing or invalid
+ */
+export function getPomodoroSettings(): PomodoroSettings {
+  if (typeof window === "undefined") {
+    return DEFAULT_POMODORO_SETTINGS;
+  }
+
+  let stored: Partial<PomodoroSettings> = {};
+  try {
+    stored = JSON.parse(
+      window.localStorage.getItem(POMODORO_SETTINGS_KEY) ?? "{}",
+    );
+  } catch {
+    // Corrupt value, use the defaults
+  }
+
+  const minutes = (key: keyof PomodoroSettings) =>
+    isWholeNumberBetween(stored[key], 1, MAX_PHASE_MINUTES)
+      ? (stored[key] as number)
+      : (DEFAULT_POMODORO_SETTINGS[key] as number);
+
+  return {
+    workMinutes: minutes("workMinutes"),
+    shortBreakMinutes: minutes("shortBreakMinutes"),
+    longBreakMinutes: minutes("longBreakMinutes"),
+    longBreakInterval: isWholeNumberBetween(
+      stored.longBreakInterval,
+      1,
+      MAX_LONG_BREAK_INTERVAL,
+    )
+      ? (stored.longBreakInterval as number)
+      : DEFAULT_POMODORO_SETTINGS.longBreakInterval,
+    autoAdvance:
+      typeof stored.autoAdvance === "boolean"
+        ? stored.autoAdvance
+        : DEFAULT_POMODORO_SETTINGS.autoAdvance,
+  };
+}
+
+/**
+ * Save the Pomodoro settings
+ */
+export function setPomodoroSettings(settings: PomodoroSettings): void {
+  window.localStorage.setItem(POMODORO_SETTINGS_KEY, JSON.stringify(settings));
+}
+
+export function isBreak(phase: PomodoroPhase): boolean {
+  return phase !== "work";
+}
+
+/**
+ * Get the length of a phase in minutes.
+ * workMinutes is passed separately since tasks can have their own work length.
+ */
+export function getPhaseMinutes(
+  phase: PomodoroPhase,
+  settings: PomodoroSettings,
+  workMinutes: number = settings.workMinutes,
+): number {
+  switch (phase) {
+    case "work":
+      return workMinutes;
+    case "shortBreak":
+      return settings.shortBreakMinutes;
+    case "longBreak":
+      return settings.longBreakMinutes;
+  }
+}
+
+/**
+ * Move on to the phase after the current one ends.
+ * Every longBreakInterval-th work phase is followed by a long break.
+ */
+export function getNextPhase(
+  { phase, completedWork }: PomodoroState,
+  settings: PomodoroSettings,
+): PomodoroState {
+  if (isBreak(phase)) {
+    return { phase: "work", completedWork };
+  }
+
+  const finished = completedWork + 1;
+  return {
+    phase:
+      finished % settings.longBreakInterval === 0 ? "longBreak" : "shortBreak",
+    completedWork: finished,
+  };
+}
+
+/**
+ * Get which work phase of the current cycle is running or up next (1-based)
+ */
+export function getCyclePosition(
+  { phase, completedWork }: PomodoroState,
+  settings: PomodoroSettings,
+): number {
+  // During a break, count the work phase that just ended
+  const current = isBreak(phase) ? completedWork : completedWork + 1;
+  return ((current - 1) % settings.longBreakInterval) + 1;
+}
+
+/**
+ * Pick what to work on after a break: the next unfinished task on today's list
+ * after the current one, wrapping around to the start of the list.
+ */
+export function getBreakSuggestion(
+  todayTasks: Task[],
+  currentTaskId: string,
+  today: string = getTodayKey(),
+): Task | null {
+  const isDone = (task: Task) =>
+    task.isDaily ? isCompletedOn(task, today) : task.completed;
+
+  const index = todayTasks.findIndex((t) => t.id === currentTaskId);
+  const ordered =
+    index === -1
+      ? todayTasks
+      : [...todayTasks.slice(index + 1), ...todayTasks.slice(0, index)];
+
+  return (
+    ordered.find(
+      (task) => !isDone(task) && task.parentTaskId !== currentTaskId,
+    ) ?? null
+  );
+}
@@ -1,6 +1,6 @@
 import { env } from "@/env.mjs";
 
-import { Task } from "./types";
+import { CompletionHistory, Task } from "./types";
 
 // PostgREST/Supabase configuration
 const getPostgrestConfig = () => {
@@ -71,7 +71,7 @@ const dbToTask = (dbTask: Record<string, unknown>): Task => {
     timePeriod: dbTask.time_period as number | undefined,
     timeLeft: dbTask.time_left as number | undefined,
     lastCompleted: dbTask.last_completed as string | undefined,
-    completionHistory: dbTask.completion_history as Record<string, boolean> | undefined,
+    completionHistory: dbTask.completion_history as CompletionHistory | undefined,
     createdAt: dbTask.created_at as string,
   };
 };
@@ -0,0 +1,537 @@
+import { addDays } from "@/lib/local-date";
+import {
+  formatRecurrence,
+  getWeekday,
+  RecurrenceRule,
+  Weekday,
+  WEEKDAYS,
+  WORKWEEK,
+} from "@/lib/recurrence";
+
+/**
+ * Quick add: a task typed on a single line, with inline tokens for everything else.
+ *   #tag                 tag, created if it doesn't exist yet
+ *   +project             project; hyphens stand for spaces, so +Q3-planning is "Q3 planning"
+ *   ~45m ~1h30m ~1.5h    estimate
+ *   !tomorrow 3pm        due date, optionally with a time to be reminded at:
+ *                        today, tomorrow, mon..sun (the next one), next week,
+ *                        3d / 2w from today, 2030-01-20, 1/20, jan 20
+ *   every weekday 9am    recurrence, optionally with a reminder time:
+ *                        day, other day|week|month, 3 days|weeks|months, week,
+ *                        month, weekday, weekend, mon,wed,fri, 15th
+ * Tokens start a word. Words that only look like one (an unknown date, "every" on
+ * its own) stay in the title.
+ */
+
+export type QuickAddTokenKind =
+  | "tag"
+  | "project"
+  | "estimate"
+  | "due"
+  | "recurrence";
+
+export interface QuickAddToken {
+  kind: QuickAddTokenKind;
+  start: number;
+  end: number;
+  // False for tokens that won't be applied, like a project that doesn't exist
+  valid: boolean;
+}
+
+export interface QuickAddOptions {
+  today: string; // YYYY-MM-DD
+  projects?: { id: string; name: string }[];
+  tags?: string[];
+}
+
+export interface QuickAddResult {
+  title: string;
+  tags: string[];
+  projectId?: string;
+  timePeriod?: number;
+  dueDate?: string;
+  isDaily: boolean;
+  recurrence: string | null;
+  // Day a recurring task starts on, typed as its due date
+  startDate?: string;
+  // "HH:MM" to be reminded at, on the due date or on every recurring day
+  reminderTime?: string;
+  tokens: QuickAddToken[];
+}
+
+export interface CompletionContext {
+  kind: "tag" | "project";
+  query: string;
+  start: number;
+  end: number;
+}
+
+interface Word {
+  text: string;
+  start: number;
+  end: number;
+}
+
+const PREFIXES: Record<string, QuickAddTokenKind> = {
+  "#": "tag",
+  "+": "project",
+  "~": "estimate",
+  "!": "due",
+};
+
+const NAME_PATTERN = /^[\p{L}\p{N}_-]+$/u;
+
+const WEEKDAY_WORDS = new Map<string, Weekday>([
+  ["sun", "SU"],
+  ["sunday", "SU"],
+  ["mon", "MO"],
+  ["monday", "MO"],
+  ["tue", "TU"],
+  ["tues", "TU"],
+  ["tuesday", "TU"],
+  ["wed", "WE"],
+  ["wednesday", "WE"],
+  ["thu", "TH"],
+  ["thur", "TH"],
+  ["thurs", "TH"],
+  ["thursday", "TH"],
+  ["fri", "FR"],
+  ["friday", "FR"],
+  ["sat", "SA"],
+  ["saturday", "SA"],
+]);
+
+const MONTHS = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+];
+
+const UNITS = new Map<string, RecurrenceRule["freq"]>([
+  ["day", "DAILY"],
+  ["days", "DAILY"],
+  ["week", "WEEKLY"],
+  ["weeks", "WEEKLY"],
+  ["month", "MONTHLY"],
+  ["months", "MONTHLY"],
+]);
+
+// Rules written as a single word after "every"
+const EVERY_WORDS = new Map<string, RecurrenceRule>([
+  ["day", { freq: "DAILY", interval: 1 }],
+  ["week", { freq: "WEEKLY", interval: 1 }],
+  ["month", { freq: "MONTHLY", interval: 1 }],
+  ["weekday", { freq: "WEEKLY", interval: 1, byDay: WORKWEEK }],
+  ["weekdays", { freq: "WEEKLY", interval: 1, byDay: WORKWEEK }],
+  ["weekend", { freq: "WEEKLY", interval: 1, byDay: ["SU", "SA"] }],
+  ["weekends", { freq: "WEEKLY", interval: 1, byDay: ["SU", "SA"] }],
+]);
+
+/**
+ * Compare project and tag names the way they can be typed in a token
+ */
+export function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[-_\s]+/g, " ")
+    .trim();
+}
+
+/**
+ * Write a name so it fits in a single token
+ */
+export function toTokenName(name: string): string {
+  return name.trim().replace(/\s+/g, "-");
+}
+
+/**
+ * Parse "3pm", "3:30pm" or "15:00" into "HH:MM"
+ */
+export function parseTime(text: string): string | null {
+  const match =
+    /^(\d{1,2})(?::(\d{2}))?(am|pm)$/i.exec(text) ??
+    /^(\d{1,2}):(\d{2})$/.exec(text);
+  if (!match) return null;
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] ?? "0");
+  const meridiem = match[3]?.toLowerCase();
+  if (minutes > 59) return null;
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem === "pm" ? 12 : 0);
+  } else if (hours > 23) {
+    return null;
+  }
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+}
+
+/**
+ * Parse an estimate like "45m", "1h30m", "1.5h" or "90" into minutes
+ */
+export function parseEstimate(text: string): number | null {
+  const match =
+    /^(?:(\d+(?:\.\d+)?)h)?(?:(\d+)m(?:in)?)?$/i.exec(text) ??
+    /^()(\d+)$/.exec(text);
+  if (!match || (!match[1] && !match[2])) return null;
+
+  const minutes = Math.round(
+    Number(match[1] || "0") * 60 + Number(match[2] || "0"),
+  );
+  return minutes > 0 ? minutes : null;
+}
+
+// The key for a date, or null if the day doesn't exist
+const toKey = (year: number, month: number, day: number): string | null => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().split("T")[0];
+};
+
+// A month and day without a year: this year's, or next year's once it has passed
+const upcomingKey = (month: number, day: number, today: string) => {
+  const year = Number(today.slice(0, 4));
+  const key = toKey(year, month, day);
+  if (key && key >= today) return key;
+  return toKey(year + 1, month, day) ?? key;
+};
+
+// "jan", "sept" or "december", but not just any word starting with a month
+const parseMonth = (text: string) => {
+  if (text.length < 3) return null;
+  const index = MONTHS.findIndex((month) => month.startsWith(text));
+  return index >= 0 ? index + 1 : null;
+};
+
+const parseDay = (text: string) => {
+  const match = /^(\d{1,2})(?:st|nd|rd|th)?$/i.exec(text);
+  return match ? Number(match[1]) : null;
+};
+
+// Sunday is 0, like WEEKDAYS
+const weekdayIndex = (dateKey: string) => WEEKDAYS.indexOf(getWeekday(dateKey));
+
+/**
+ * Parse a single-word date like "tomorrow", "fri", "3d", "2030-01-20", "1/20" or "jan20"
+ */
+export function parseDateWord(text: string, today: string): string | null {
+  const word = text.toLowerCase();
+
+  if (word === "today" || word === "tod") return today;
+  if (word === "tomorrow" || word === "tom" || word === "tmr") {
+    return addDays(today, 1);
+  }
+  if (word === "next-week" || word === "nextweek") {
+    // The Monday after this week
+    return addDays(today, 7 - ((weekdayIndex(today) + 6) % 7));
+  }
+
+  const weekday = WEEKDAY_WORDS.get(word);
+  if (weekday) {
+    // The next one, a week ahead on the day itself
+    const days = (WEEKDAYS.indexOf(weekday) - weekdayIndex(today) + 7) % 7;
+    return addDays(today, days === 0 ? 7 : days);
+  }
+
+  const relative = /^(\d+)([dw])$/.exec(word);
+  if (relative) {
+    const count = Number(relative[1]);
+    return addDays(today, relative[2] === "w" ? count * 7 : count);
+  }
+
+  const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(word);
+  if (iso) return toKey(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+  const slashed = /^(\d{1,2})\/(\d{1,2})(?:\/(\d{4}))?$/.exec(word);
+  if (slashed) {
+    const [month, day] = [Number(slashed[1]), Number(slashed[2])];
+    return slashed[3]
+      ? toKey(Number(slashed[3]), month, day)
+      : upcomingKey(month, day, today);
+  }
+
+  const monthDay = /^([a-z]+)-?(\d{1,2})$/.exec(word);
+  if (monthDay) {
+    const month = parseMonth(monthDay[1]);
+    return month ? upcomingKey(month, Number(monthDay[2]), today) : null;
+  }
+
+  return null;
+}
+
+/**
+ * Parse a due date starting at words[index] (without its "!"), with an optional time.
+ * Returns how many words it took.
+ */
+const parseDue = (
+  first: string,
+  words: Word[],
+  index: number,
+  today: string,
+): { dueDate: string; time?: string; length: number } | null => {
+  const next = words[index + 1]?.text;
+  let dueDate: string | null = null;
+  let length = 1;
+
+  const time = parseTime(first);
+  if (time) return { dueDate: today, time, length };
+
+  const month = parseMonth(first.toLowerCase());
+  const day = next ? parseDay(next) : null;
+  if (month && day) {
+    dueDate = upcomingKey(month, day, today);
+    length = 2;
+  } else if (first.toLowerCase() === "next" && next?.toLowerCase() === "week") {
+    dueDate = parseDateWord("next-week", today);
+    length = 2;
+  } else {
+    dueDate = parseDateWord(first, today);
+  }
+  if (!dueDate) return null;
+
+  const after = words[index + length]?.text;
+  const dueTime = after ? parseTime(after) : null;
+  return dueTime
+    ? { dueDate, time: dueTime, length: length + 1 }
+    : { dueDate, length };
+};
+
+/**
+ * Parse what follows "every", starting at words[index]
+ */
+const parseEvery = (
+  words: Word[],
+  index: number,
+): { rule: RecurrenceRule; length: number } | null => {
+  const word = (offset: number) =>
+    words[index + offset]?.text.toLowerCase().replace(/,$/, "");
+  const first = word(0);
+  if (!first) return null;
+
+  const single = EVERY_WORDS.get(first);
+  if (single) return { rule: single, length: 1 };
+
+  // every other week, every 3 days
+  const interval = first === "other" ? 2 : /^\d+$/.test(first) ? +first : 0;
+  const unit = UNITS.get(word(1) ?? "");
+  if (interval >= 1 && unit) {
+    return { rule: { freq: unit, interval }, length: 2 };
+  }
+
+  // every 15th
+  const ordinal = /^(\d{1,2})(st|nd|rd|th)$/.exec(first);
+  if (ordinal && Number(ordinal[1]) >= 1 && Number(ordinal[1]) <= 31) {
+    return {
+      rule: { freq: "MONTHLY", interval: 1, byMonthDay: [Number(ordinal[1])] },
+      length: 1,
+    };
+  }
+
+  // every mon,wed,fri / every tuesday and thursday
+  const days = new Set<Weekday>();
+  let length = 0;
+  for (;;) {
+    const current = word(length);
+    if (!current) break;
+    const names = current.split(",").filter(Boolean);
+    if (names.length > 0 && names.every((name) => WEEKDAY_WORDS.has(name))) {
+      names.forEach((name) => days.add(WEEKDAY_WORDS.get(name)!));
+      length++;
+    } else if (
+      current === "and" &&
+      days.size > 0 &&
+      WEEKDAY_WORDS.has(word(length + 1) ?? "")
+    ) {
+      length++;
+    } else {
+      break;
+    }
+  }
+  if (days.size === 0) return null;
+  return {
+    rule: {
+      freq: "WEEKLY",
+      interval: 1,
+      byDay: WEEKDAYS.filter((day) => days.has(day)),
+    },
+    length,
+  };
+};
+
+/**
+ * Parse a quick-add line
+ */
+export function parseQuickAdd(
+  input: string,
+  { today, projects = [], tags = [] }: QuickAddOptions,
+): QuickAddResult {
+  const words: Word[] = [...input.matchAll(/\S+/g)].map((match) => ({
+    text: match[0],
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+
+  const result: QuickAddResult = {
+    title: "",
+    tags: [],
+    isDaily: false,
+    recurrence: null,
+    tokens: [],
+  };
+  const titleWords: string[] = [];
+  let dueTime: string | undefined;
+  let recurrenceTime: string | undefined;
+
+  const addToken = (kind: QuickAddTokenKind, from: Word, to: Word) => {
+    const token = { kind, start: from.start, end: to.end, valid: true };
+    result.tokens.push(token);
+    return token;
+  };
+
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i];
+    const kind = PREFIXES[word.text[0]];
+    const body = word.text.slice(1);
+
+    if ((kind === "tag" || kind === "project") && NAME_PATTERN.test(body)) {
+      if (kind === "tag") {
+        const name =
+          tags.find((tag) => normalizeName(tag) === normalizeName(body)) ??
+          body;
+        if (
+          !result.tags.some((tag) => normalizeName(tag) === normalizeName(name))
+        ) {
+          result.tags.push(name);
+        }
+        addToken("tag", word, word);
+      } else {
+        const project = projects.find(
+          (p) => normalizeName(p.name) === normalizeName(body),
+        );
+        const token = addToken("project", word, word);
+        token.valid = project !== undefined;
+        if (project) result.projectId = project.id;
+      }
+      continue;
+    }
+
+    if (kind === "estimate") {
+      const minutes = parseEstimate(body);
+      if (minutes) {
+        result.timePeriod = minutes;
+        addToken("estimate", word, word);
+        continue;
+      }
+    }
+
+    if (kind === "due" && body) {
+      const due = parseDue(body, words, i, today);
+      if (due) {
+        addToken("due", word, words[i + due.length - 1]);
+        result.dueDate = due.dueDate;
+        dueTime = due.time;
+        i += due.length - 1;
+        continue;
+      }
+    }
+
+    if (word.text.toLowerCase() === "every") {
+      const every = parseEvery(words, i + 1);
+      if (every) {
+        let length = 1 + every.length;
+        const time = words[i + length] && parseTime(words[i + length].text);
+        if (time) {
+          recurrenceTime = time;
+          length++;
+        }
+        addToken("recurrence", word, words[i + length - 1]);
+        result.isDaily = true;
+        const { rule } = every;
+        // Every day is the default, stored as no rule at all
+        result.recurrence =
+          rule.freq === "DAILY" && rule.interval === 1
+            ? null
+            : formatRecurrence(rule);
+        i += length - 1;
+        continue;
+      }
+    }
+
+    titleWords.push(word.text);
+  }
+
+  // Recurring tasks don't have a due date: it is the day they start on, and its
+  // time is the reminder time unless the recurrence has one
+  if (result.isDaily && result.dueDate) {
+    result.startDate = result.dueDate;
+    result.dueDate = undefined;
+  }
+  result.reminderTime = result.isDaily ? (recurrenceTime ?? dueTime) : dueTime;
+  result.title = titleWords.join(" ");
+  return result;
+}
+
+/**
+ * Find the tag or project name being typed at the caret, for autocomplete
+ */
+export function getCompletionContext(
+  input: string,
+  caret: number,
+): CompletionContext | null {
+  const start = input.lastIndexOf(" ", caret - 1) + 1;
+  if (caret <= start) return null;
+  const rest = input.slice(start).search(/\s/);
+  const end = rest === -1 ? input.length : start + rest;
+
+  const kind = PREFIXES[input[start]];
+  if (kind !== "tag" && kind !== "project") return null;
+
+  const query = input.slice(start + 1, end);
+  if (query && !NAME_PATTERN.test(query)) return null;
+  return { kind, query, start, end };
+}
+
+/**
+ * Get the names that complete what is being typed, best matches first
+ */
+export function getCompletions(
+  context: CompletionContext,
+  names: string[],
+  limit: number = 6,
+): string[] {
+  const query = normalizeName(context.query);
+  const prefixed = names.filter((name) =>
+    normalizeName(name).startsWith(query),
+  );
+  const contained = names.filter(
+    (name) => !prefixed.includes(name) && normalizeName(name).includes(query),
+  );
+  return [...prefixed, ...contained].slice(0, limit);
+}
+
+/**
+ * Put a completed name in place of the one being typed
+ */
+export function applyCompletion(
+  input: string,
+  context: CompletionContext,
+  name: string,
+): { value: string; caret: number } {
+  const token = `${input[context.start]}${toTokenName(name)} `;
+  const after = input.slice(context.end).replace(/^ /, "");
+  return {
+    value: input.slice(0, context.start) + token + after,
+    caret: context.start + token.length,
+  };
+}
@@ -0,0 +1,243 @@
+import { getDateKey, toDayNumber } from "@/lib/local-date";
+import type { Task } from "@/lib/types";
+
+/**
+ * Recurrence rules for repeating tasks.
+ * Rules are stored on the task as an RRULE string (RFC 5545), limited to the subset below:
+ *   FREQ=DAILY[;INTERVAL=n]                      every n days
+ *   FREQ=WEEKLY[;INTERVAL=n][;BYDAY=MO,WE,FR]   on the given weekdays, every n weeks
+ *   FREQ=MONTHLY[;INTERVAL=n][;BYMONTHDAY=1]    on the given days of the month (-1 = last day)
+ * Intervals count from the day the task was created, like DTSTART would.
+ * All dates are "YYYY-MM-DD" keys, the same keys used in completionHistory.
+ */
+
+export type Frequency = "DAILY" | "WEEKLY" | "MONTHLY";
+
+export type Weekday = "SU" | "MO" | "TU" | "WE" | "TH" | "FR" | "SA";
+
+// Indexed like Date.getDay()
+export const WEEKDAYS: Weekday[] = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+export const WORKWEEK: Weekday[] = ["MO", "TU", "WE", "TH", "FR"];
+
+export interface RecurrenceRule {
+  freq: Frequency;
+  interval: number;
+  byDay?: Weekday[];
+  byMonthDay?: number[];
+}
+
+export const DAILY_RULE: RecurrenceRule = { freq: "DAILY", interval: 1 };
+
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+  SU: "Sun",
+  MO: "Mon",
+  TU: "Tue",
+  WE: "Wed",
+  TH: "Thu",
+  FR: "Fri",
+  SA: "Sat",
+};
+
+/**
+ * Parse an RRULE string. Returns null for anything outside the supported subset.
+ */
+export function parseRecurrence(rrule?: string | null): RecurrenceRule | null {
+  if (!rrule) return null;
+
+  const parts = new Map<string, string>();
+  for (const part of rrule
+    .trim()
+    .replace(/^RRULE:/i, "")
+    .split(";")) {
+    const [name, value] = part.split("=");
+    if (!name || value === undefined) return null;
+    parts.set(name.toUpperCase(), value.toUpperCase());
+  }
+
+  const freq = parts.get("FREQ");
+  if (freq !== "DAILY" && freq !== "WEEKLY" && freq !== "MONTHLY") {
+    return null;
+  }
+
+  const interval = Number(parts.get("INTERVAL") ?? "1");
+  if (!Number.isInteger(interval) || interval < 1) return null;
+
+  const rule: RecurrenceRule = { freq, interval };
+
+  const byDay = parts.get("BYDAY");
+  if (byDay !== undefined) {
+    if (freq !== "WEEKLY") return null;
+    const days = byDay.split(",");
+    if (!days.every((day) => WEEKDAYS.includes(day as Weekday))) return null;
+    rule.byDay = WEEKDAYS.filter((day) => days.includes(day));
+  }
+
+  const byMonthDay = parts.get("BYMONTHDAY");
+  if (byMonthDay !== undefined) {
+    if (freq !== "MONTHLY") return null;
+    const days = byMonthDay.split(",").map(Number);
+    if (
+      !days.every(
+        (day) => Number.isInteger(day) && day !== 0 && day >= -31 && day <= 31,
+      )
+    ) {
+      return null;
+    }
+    rule.byMonthDay = days;
+  }
+
+  return rule;
+}
+
+/**
+ * Turn a rule back into an RRULE string
+ */
+export function formatRecurrence(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.join(",")}`);
+  if (rule.byMonthDay?.length) {
+    parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  }
+  return parts.join(";");
+}
+
+/**
+ * Get the rule a recurring task follows. Tasks without a (valid) rule repeat every day.
+ */
+export function getRecurrenceRule(task: Task): RecurrenceRule {
+  return parseRecurrence(task.recurrence) ?? DAILY_RULE;
+}
+
+const parseKey = (dateKey: string) => {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return { year, month, day };
+};
+
+/**
+ * Get the weekday of a YYYY-MM-DD key
+ */
+export function getWeekday(dateKey: string): Weekday {
+  // 1970-01-01 was a Thursday
+  return WEEKDAYS[(((toDayNumber(dateKey) + 4) % 7) + 7) % 7];
+}
+
+const isMultipleOf = (value: number, interval: number) =>
+  ((value % interval) + interval) % interval === 0;
+
+/**
+ * Check if a rule has an occurrence on a date.
+ * anchorKey is the start of the series; it decides which days/weeks/months
+ * count for intervals above 1 and the default weekday or day of the month.
+ */
+export function isScheduledOn(
+  rule: RecurrenceRule,
+  dateKey: string,
+  anchorKey: string,
+): boolean {
+  const day = toDayNumber(dateKey);
+  const anchor = toDayNumber(anchorKey);
+
+  switch (rule.freq) {
+    case "DAILY":
+      return isMultipleOf(day - anchor, rule.interval);
+
+    case "WEEKLY": {
+      const weekdays = rule.byDay?.length
+        ? rule.byDay
+        : [getWeekday(anchorKey)];
+      if (!weekdays.includes(getWeekday(dateKey))) return false;
+
+      // Weeks start on Monday, like RRULE's default WKST
+      const weekStart = (n: number) => n - ((((n + 3) % 7) + 7) % 7);
+      const weeks = (weekStart(day) - weekStart(anchor)) / 7;
+      return isMultipleOf(weeks, rule.interval);
+    }
+
+    case "MONTHLY": {
+      const date = parseKey(dateKey);
+      const start = parseKey(anchorKey);
+      const months = (date.year - start.year) * 12 + (date.month - start.month);
+      if (!isMultipleOf(months, rule.interval)) return false;
+
+      const daysInMonth = new Date(
+        Date.UTC(date.year, date.month, 0),
+      ).getUTCDate();
+      const monthDays = rule.byMonthDay?.length ? rule.byMonthDay : [start.day];
+      return monthDays.some(
+        (monthDay) =>
+          (monthDay > 0 ? monthDay : daysInMonth + monthDay + 1) === date.day,
+      );
+    }
+  }
+}
+
+/**
+ * Check if a date falls on a recurring task's schedule.
+ * Dates before the task was created can match too, for backfilled history.
+ */
+export function isTaskScheduledOn(task: Task, dateKey: string): boolean {
+  if (!task.isDaily) return false;
+
+  const createdKey = getDateKey(new Date(task.createdAt));
+  return isScheduledOn(getRecurrenceRule(task), dateKey, createdKey);
+}
+
+/**
+ * Check if a recurring task is due on a date.
+ * Nothing is due before the task was created.
+ */
+export function isTaskDueOn(task: Task, dateKey: string): boolean {
+  return (
+    dateKey >= getDateKey(new Date(task.createdAt)) &&
+    isTaskScheduledOn(task, dateKey)
+  );
+}
+
+const ordinal = (n: number): string => {
+  if (n === -1) return "last day";
+  if (n < 0) return `${ordinal(-n)} to last day`;
+  const suffix =
+    n % 100 >= 11 && n % 100 <= 13
+      ? "th"
+      : ({ 1: "st", 2: "nd", 3: "rd" } as Record<number, string>)[n % 10] ||
+        "th";
+  return `${n}${suffix}`;
+};
+
+const joinList = (items: string[]) =>
+  items.length > 1
+    ? `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`
+    : items[0];
+
+/**
+ * Describe a rule in words, e.g. "Every Mon, Wed and Fri"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const { interval } = rule;
+
+  switch (rule.freq) {
+    case "DAILY":
+      return interval === 1 ? "Every day" : `Every ${interval} days`;
+
+    case "WEEKLY": {
+      const days = rule.byDay ?? [];
+      const isWorkweek =
+        days.length === WORKWEEK.length &&
+        WORKWEEK.every((day) => days.includes(day));
+      if (interval === 1 && isWorkweek) return "Every weekday";
+
+      const every = interval === 1 ? "Every week" : `Every ${interval} weeks`;
+      if (days.length === 0) return every;
+      const names = joinList(days.map((day) => WEEKDAY_NAMES[day]));
+      return interval === 1 ? `Every ${names}` : `${every} on ${names}`;
+    }
+
+    case "MONTHLY": {
+      const every = interval === 1 ? "Monthly" : `Every ${interval} months`;
+      if (!rule.byMonthDay?.length) return every;
+      return `${every} on the ${joinList(rule.byMonthDay.map(ordinal))}`;
+    }
+  }
+}
@@ -0,0 +1,163 @@
+import { isCompletedOn } from "@/lib/completion";
+import { addDays, getDateKey } from "@/lib/local-date";
+import { isTaskDueOn } from "@/lib/recurrence";
+import type { Reminder, Task } from "@/lib/types";
+
+/**
+ * Reminder scheduling.
+ * Whether a reminder has gone off is stored on the reminder itself (firedAt), so it
+ * syncs with the rest of the task and each reminder only goes off on one device.
+ */
+
+export const SNOOZE_OPTIONS = [
+  { minutes: 10, label: "10 min" },
+  { minutes: 60, label: "1 hour" },
+];
+
+// Snooze length for the action on desktop notifications
+export const DEFAULT_SNOOZE_MINUTES = 10;
+
+// How far ahead to look for the next day a recurring task is due
+const MAX_LOOKAHEAD_DAYS = 366;
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * A reminder together with its task and when it goes off
+ */
+export interface ReminderOccurrence {
+  task: Task;
+  reminder: Reminder;
+  at: Date;
+}
+
+/**
+ * Get the moment an "HH:MM" time of day falls on, on a YYYY-MM-DD day
+ */
+export function atTimeOn(dateKey: string, time: string): Date {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  const [hours, minutes] = time.split(":").map(Number);
+  return new Date(year, month - 1, day, hours, minutes);
+}
+
+const isDone = (task: Task, now: Date) =>
+  task.isDaily ? isCompletedOn(task, getDateKey(now)) : task.completed;
+
+/**
+ * Get when a reminder goes off next, or null if it won't go off again.
+ * The result can lie in the past for a reminder that is due but hasn't gone off yet.
+ */
+export function getNextReminderTime(
+  task: Task,
+  reminder: Reminder,
+  now: Date = new Date(),
+): Date | null {
+  if (task.deletedAt) return null;
+
+  // A snooze doesn't outlast the task being done
+  if (reminder.snoozedUntil && !isDone(task, now)) {
+    return new Date(reminder.snoozedUntil);
+  }
+
+  const firedAt = reminder.firedAt ? Date.parse(reminder.firedAt) : -Infinity;
+
+  if (!task.isDaily) {
+    if (task.completed || !reminder.at) return null;
+    return Date.parse(reminder.at) > firedAt ? new Date(reminder.at) : null;
+  }
+
+  if (!reminder.time) return null;
+  // Days that went by without the app open aren't made up for,
+  // only today's reminder can still go off late
+  const today = getDateKey(now);
+  for (let offset = 0; offset <= MAX_LOOKAHEAD_DAYS; offset++) {
+    const dateKey = addDays(today, offset);
+    if (!isTaskDueOn(task, dateKey) || isCompletedOn(task, dateKey)) continue;
+
+    const at = atTimeOn(dateKey, reminder.time);
+    if (at.getTime() > firedAt) return at;
+  }
+  return null;
+}
+
+/**
+ * Get every reminder that will go off, soonest first
+ */
+export function getUpcomingReminders(
+  tasks: Task[],
+  now: Date = new Date(),
+): ReminderOccurrence[] {
+  const occurrences: ReminderOccurrence[] = [];
+  for (const task of tasks) {
+    for (const reminder of task.reminders ?? []) {
+      const at = getNextReminderTime(task, reminder, now);
+      if (at) occurrences.push({ task, reminder, at });
+    }
+  }
+  return occurrences.sort((a, b) => a.at.getTime() - b.at.getTime());
+}
+
+/**
+ * Get the reminders that should go off now
+ */
+export function getDueReminders(
+  tasks: Task[],
+  now: Date = new Date(),
+): ReminderOccurrence[] {
+  return getUpcomingReminders(tasks, now).filter(
+    ({ at }) => at.getTime() <= now.getTime(),
+  );
+}
+
+/**
+ * Record that a reminder went off
+ */
+export function markReminderFired(
+  reminders: Reminder[],
+  reminderId: string,
+  now: Date = new Date(),
+): Reminder[] {
+  return reminders.map((reminder) =>
+    reminder.id === reminderId
+      ? { ...reminder, firedAt: now.toISOString(), snoozedUntil: null }
+      : reminder,
+  );
+}
+
+/**
+ * Push a reminder back by a number of minutes
+ */
+export function snoozeReminder(
+  reminders: Reminder[],
+  reminderId: string,
+  minutes: number,
+  now: Date = new Date(),
+): Reminder[] {
+  const snoozedUntil = new Date(now.getTime() + minutes * MINUTE_MS);
+  return reminders.map((reminder) =>
+    reminder.id === reminderId
+      ? { ...reminder, snoozedUntil: snoozedUntil.toISOString() }
+      : reminder,
+  );
+}
+
+/**
+ * Describe a reminder, e.g. "Jan 20, 9:00 AM" or "Every due day at 8:00 AM"
+ */
+export function describeReminder(reminder: Reminder): string {
+  if (reminder.time) {
+    const at = atTimeOn("2000-01-01", reminder.time);
+    return `Every due day at ${at.toLocaleTimeString(undefined, {
+      hour: "numeric",
+      minute: "2-digit",
+    })}`;
+  }
+  if (!reminder.at) return "No time set";
+
+  return new Date(reminder.at).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
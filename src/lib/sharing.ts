@@ -0,0 +1,107 @@
+import { ProjectMember, ProjectRole, Task } from "@/lib/types";
+
+export const ROLE_LABELS: Record<ProjectRole, string> = {
+  owner: "Owner",
+  editor: "Editor",
+  viewer: "Viewer",
+};
+
+/**
+ * The role of a user in a project.
+ * Projects without members are the user's own: not shared, not synced yet, or
+ * stored on this device only.
+ */
+export function getMemberRole(
+  members: ProjectMember[],
+  projectId: string,
+  userId: string | null,
+): ProjectRole {
+  const projectMembers = members.filter(
+    (member) => member.projectId === projectId,
+  );
+  if (!userId || projectMembers.length === 0) return "owner";
+
+  return (
+    projectMembers.find((member) => member.userId === userId)?.role ?? "viewer"
+  );
+}
+
+/**
+ * Whether a role may change a project and its tasks
+ */
+export const canEdit = (role: ProjectRole) => role !== "viewer";
+
+/**
+ * Whether a role may invite people, change roles and delete the project
+ */
+export const canManage = (role: ProjectRole) => role === "owner";
+
+/**
+ * Whether a user may change a task: one outside projects, or in a project they can edit
+ */
+export function canEditTask(
+  members: ProjectMember[],
+  task: Pick<Task, "projectId">,
+  userId: string | null,
+): boolean {
+  return (
+    !task.projectId || canEdit(getMemberRole(members, task.projectId, userId))
+  );
+}
+
+/**
+ * How to show a member to the others: their name, else their email
+ */
+export function getMemberName(member: ProjectMember | undefined): string {
+  return member?.name || member?.email || "Someone";
+}
+
+/**
+ * What was last done to a task in a shared project, and by whom
+ */
+export interface ProjectActivity {
+  task: Task;
+  userId?: string;
+  action: "added" | "completed" | "updated";
+  at: string;
+}
+
+/**
+ * The most recent changes to a project's tasks, newest first.
+ * Only the last change to each task is known: who added it and who last changed it,
+ * at the time of its newest field timestamp.
+ */
+export function getProjectActivity(
+  tasks: Task[],
+  limit = 10,
+): ProjectActivity[] {
+  return tasks
+    .map((task): ProjectActivity => {
+      // Moving a task around isn't worth listing
+      const stamps = Object.entries(task.fieldTimestamps ?? {})
+        .filter(([field]) => field !== "order")
+        .map(([, stamp]) => stamp);
+      if (stamps.length === 0) {
+        return {
+          task,
+          userId: task.createdBy,
+          action: "added",
+          at: task.createdAt,
+        };
+      }
+
+      const at = stamps.reduce((latest, stamp) =>
+        Date.parse(stamp) > Date.parse(latest) ? stamp : latest,
+      );
+      const completedLast =
+        task.completed && task.fieldTimestamps?.completed === at;
+      return {
+        task,
+        userId: task.updatedBy ?? task.createdBy,
+        action: completedLast ? "completed" : "updated",
+        at,
+      };
+    })
+    .sort((a, b) => Date.parse(b.at) - Date.parse(a.at))
+    .slice(0, limit);
+}
@@ -0,0 +1,594 @@
+import { formatShortcut, shouldHandleShortcut } from "@/lib/keyboard-utils";
+
+/**
+ * Central registry of keyboard shortcuts.
+ * Every shortcut is declared once below with a scope and a default binding.
+ * Components register handlers by shortcut id, and one document listener
+ * dispatches key presses to the innermost scope that handles them. Users can
+ * rebind any shortcut; the overrides are kept in localStorage.
+ *
+ * Bindings are written as space-separated key strokes, each stroke being
+ * modifiers and a key joined by "+", e.g. "mod+shift+z", "?" or "g t".
+ * "mod" is Cmd on macOS and Ctrl elsewhere.
+ */
+
+export const SHORTCUT_BINDINGS_KEY = "intentionality_shortcuts";
+
+// How long to wait for the next key of a chord like "g t"
+export const CHORD_TIMEOUT_MS = 1500;
+
+// Strokes per binding; longer chords are hard to remember
+export const MAX_CHORD_LENGTH = 2;
+
+/**
+ * Where a shortcut applies. Modal shortcuts win over focus mode ones, which
+ * win over global ones, so an open dialog can take over a key like Escape.
+ */
+export type ShortcutScope = "global" | "focus" | "modal";
+
+export const SHORTCUT_SCOPES: ShortcutScope[] = ["global", "focus", "modal"];
+
+export const SCOPE_LABELS: Record<ShortcutScope, string> = {
+  global: "General",
+  focus: "Focus mode",
+  modal: "Dialogs and panels",
+};
+
+const SCOPE_PRIORITY: Record<ShortcutScope, number> = {
+  global: 0,
+  focus: 1,
+  modal: 2,
+};
+
+export type ShortcutId =
+  | "add-task"
+  | "scratchpad"
+  | "command-palette"
+  | "shortcuts"
+  | "undo"
+  | "redo"
+  | "go-today"
+  | "go-inbox"
+  | "go-upcoming"
+  | "go-next-steps"
+  | "go-daily-tasks"
+  | "go-habits"
+  | "go-focus-report"
+  | "go-all-tasks"
+  | "list-next"
+  | "list-previous"
+  | "list-extend-next"
+  | "list-extend-previous"
+  | "list-toggle-complete"
+  | "list-edit"
+  | "list-focus"
+  | "list-today"
+  | "list-move-up"
+  | "list-move-down"
+  | "list-clear-selection"
+  | "focus-add-task"
+  | "focus-toggle-timer"
+  | "focus-exit"
+  | "close"
+  | "confirm";
+
+export interface ShortcutDefinition {
+  id: ShortcutId;
+  scope: ShortcutScope;
+  binding: string; // default binding
+  description: string;
+  allowInInput?: boolean; // Allow this shortcut even in input fields
+  preventDefault?: boolean; // Prevent default browser behavior (default true)
+}
+
+export const SHORTCUTS: ShortcutDefinition[] = [
+  {
+    id: "add-task",
+    scope: "global",
+    binding: "a",
+    description: "Open add task modal",
+  },
+  {
+    id: "scratchpad",
+    scope: "global",
+    binding: "s",
+    description: "Open scratchpad",
+  },
+  {
+    id: "command-palette",
+    scope: "global",
+    binding: "mod+k",
+    description: "Open command palette",
+    allowInInput: true,
+  },
+  {
+    id: "shortcuts",
+    scope: "global",
+    binding: "?",
+    description: "Show keyboard shortcuts",
+  },
+  // Inside text fields the browser's own undo is left alone
+  { id: "undo", scope: "global", binding: "mod+z", description: "Undo" },
+  { id: "redo", scope: "global", binding: "mod+shift+z", description: "Redo" },
+  {
+    id: "go-today",
+    scope: "global",
+    binding: "g t",
+    description: "Go to Today",
+  },
+  {
+    id: "go-inbox",
+    scope: "global",
+    binding: "g i",
+    description: "Go to Inbox",
+  },
+  {
+    id: "go-upcoming",
+    scope: "global",
+    binding: "g u",
+    description: "Go to Upcoming",
+  },
+  {
+    id: "go-next-steps",
+    scope: "global",
+    binding: "g n",
+    description: "Go to Next Steps",
+  },
+  {
+    id: "go-daily-tasks",
+    scope: "global",
+    binding: "g r",
+    description: "Go to Recurring",
+  },
+  {
+    id: "go-habits",
+    scope: "global",
+    binding: "g h",
+    description: "Go to Habits",
+  },
+  {
+    id: "go-focus-report",
+    scope: "global",
+    binding: "g f",
+    description: "Go to Focus Time",
+  },
+  {
+    id: "go-all-tasks",
+    scope: "global",
+    binding: "g a",
+    description: "Go to All Tasks",
+  },
+  {
+    id: "list-next",
+    scope: "global",
+    binding: "j",
+    description: "Select next task",
+  },
+  {
+    id: "list-previous",
+    scope: "global",
+    binding: "k",
+    description: "Select previous task",
+  },
+  {
+    id: "list-extend-next",
+    scope: "global",
+    binding: "shift+j",
+    description: "Add next task to the selection",
+  },
+  {
+    id: "list-extend-previous",
+    scope: "global",
+    binding: "shift+k",
+    description: "Add previous task to the selection",
+  },
+  {
+    id: "list-toggle-complete",
+    scope: "global",
+    binding: "x",
+    description: "Complete or reopen selected tasks",
+  },
+  {
+    id: "list-edit",
+    scope: "global",
+    binding: "e",
+    description: "Edit title of selected task",
+  },
+  {
+    id: "list-focus",
+    scope: "global",
+    binding: "f",
+    description: "Open selected task in focus mode",
+  },
+  {
+    id: "list-today",
+    scope: "global",
+    binding: "t",
+    description: "Add or remove selected tasks from Today",
+  },
+  {
+    id: "list-move-up",
+    scope: "global",
+    binding: "alt+arrowup",
+    description: "Move selected tasks up",
+  },
+  {
+    id: "list-move-down",
+    scope: "global",
+    binding: "alt+arrowdown",
+    description: "Move selected tasks down",
+  },
+  {
+    id: "list-clear-selection",
+    scope: "global",
+    binding: "escape",
+    description: "Clear the selection",
+    preventDefault: false,
+  },
+  {
+    id: "focus-add-task",
+    scope: "focus",
+    binding: "a",
+    description: "Add new task",
+  },
+  {
+    id: "focus-toggle-timer",
+    scope: "focus",
+    binding: "space",
+    description: "Play/pause timer",
+  },
+  {
+    id: "focus-exit",
+    scope: "focus",
+    binding: "escape",
+    description: "Leave the current field, or exit focus mode",
+    allowInInput: true,
+    preventDefault: false, // Let Escape work naturally
+  },
+  {
+    id: "close",
+    scope: "modal",
+    binding: "escape",
+    description: "Close the open dialog, panel or dropdown",
+    allowInInput: true,
+  },
+  {
+    id: "confirm",
+    scope: "modal",
+    binding: "enter",
+    description: "Confirm the open dialog",
+  },
+];
+
+const DEFINITIONS = new Map(SHORTCUTS.map((s) => [s.id, s]));
+
+export function getShortcut(id: ShortcutId): ShortcutDefinition {
+  return DEFINITIONS.get(id)!;
+}
+
+export type ShortcutBindings = Record<ShortcutId, string>;
+
+export const DEFAULT_BINDINGS = Object.fromEntries(
+  SHORTCUTS.map((s) => [s.id, s.binding]),
+) as ShortcutBindings;
+
+/**
+ * One key press of a binding
+ */
+export interface KeyStroke {
+  key: string; // lowercase, e.g. "z", "?", " ", "escape"
+  ctrlOrCmd?: boolean;
+  shift?: boolean;
+  alt?: boolean;
+}
+
+const MODIFIER_KEYS = new Set(["shift", "control", "meta", "alt", "os"]);
+
+// Names used in bindings for keys that can't be written as themselves
+const KEY_NAMES = new Map([
+  [" ", "space"],
+  ["+", "plus"],
+]);
+const NAMED_KEYS = new Map([...KEY_NAMES].map(([key, name]) => [name, key]));
+
+// Characters like "?" already need Shift to be typed, so Shift isn't part of them
+const isShiftedCharacter = (key: string) =>
+  key.length === 1 && key !== " " && key.toLowerCase() === key.toUpperCase();
+
+/**
+ * Parse one stroke like "mod+shift+z", or null if it isn't one
+ */
+export function parseStroke(text: string): KeyStroke | null {
+  const parts = text.toLowerCase().split("+");
+  const name = parts.pop();
+  if (!name) return null;
+
+  const stroke: KeyStroke = { key: NAMED_KEYS.get(name) ?? name };
+  for (const modifier of parts) {
+    if (modifier === "mod") stroke.ctrlOrCmd = true;
+    else if (modifier === "shift") stroke.shift = true;
+    else if (modifier === "alt") stroke.alt = true;
+    else return null;
+  }
+  if (MODIFIER_KEYS.has(stroke.key)) return null;
+  if (isShiftedCharacter(stroke.key)) delete stroke.shift;
+  return stroke;
+}
+
+/**
+ * Write a stroke the way bindings store it, modifiers always in the same order
+ */
+export function strokeToString(stroke: KeyStroke): string {
+  return [
+    stroke.ctrlOrCmd && "mod",
+    stroke.alt && "alt",
+    stroke.shift && "shift",
+    KEY_NAMES.get(stroke.key) ?? stroke.key,
+  ]
+    .filter(Boolean)
+    .join("+");
+}
+
+/**
+ * Parse a binding into its strokes, or null if it isn't valid
+ */
+export function parseBinding(binding: string): KeyStroke[] | null {
+  const parts = binding.trim().split(/\s+/).filter(Boolean);
+  if (parts.length === 0 || parts.length > MAX_CHORD_LENGTH) return null;
+
+  const strokes: KeyStroke[] = [];
+  for (const part of parts) {
+    const stroke = parseStroke(part);
+    if (!stroke) return null;
+    strokes.push(stroke);
+  }
+  return strokes;
+}
+
+/**
+ * Get the stroke a key press makes, or null for a lone modifier key
+ */
+export function strokeFromEvent(event: KeyboardEvent): KeyStroke | null {
+  const key = event.key.toLowerCase();
+  if (MODIFIER_KEYS.has(key)) return null;
+
+  const stroke: KeyStroke = { key };
+  if (event.ctrlKey || event.metaKey) stroke.ctrlOrCmd = true;
+  if (event.altKey) stroke.alt = true;
+  if (event.shiftKey && !isShiftedCharacter(key)) stroke.shift = true;
+  return stroke;
+}
+
+/**
+ * Format a binding for display, e.g. "Ctrl+Shift+Z" or "G T"
+ */
+export function formatBinding(binding: string, mac?: boolean): string {
+  return (parseBinding(binding) ?? [])
+    .map((stroke) => formatShortcut(stroke, mac))
+    .join(" ");
+}
+
+const startsWith = (steps: string[], prefix: string[]) =>
+  prefix.every((step, index) => steps[index] === step);
+
+const toSteps = (binding: string) =>
+  (parseBinding(binding) ?? []).map(strokeToString);
+
+/**
+ * Find the shortcuts in the same scope that a binding would clash with: the same
+ * keys, or keys that start the other's chord so one of them could never fire.
+ */
+export function findConflicts(
+  id: ShortcutId,
+  binding: string,
+  bindings: ShortcutBindings,
+): ShortcutId[] {
+  const { scope } = getShortcut(id);
+  const steps = toSteps(binding);
+  if (steps.length === 0) return [];
+
+  return SHORTCUTS.filter((other) => {
+    if (other.id === id || other.scope !== scope) return false;
+    const otherSteps = toSteps(bindings[other.id]);
+    return startsWith(steps, otherSteps) || startsWith(otherSteps, steps);
+  }).map((other) => other.id);
+}
+
+/**
+ * Get the binding of every shortcut, with the user's overrides applied.
+ * Overrides that are invalid or for shortcuts that no longer exist are ignored.
+ */
+export function getShortcutBindings(): ShortcutBindings {
+  const bindings = { ...DEFAULT_BINDINGS };
+  if (typeof window === "undefined") return bindings;
+
+  let stored: Record<string, unknown> = {};
+  try {
+    stored = JSON.parse(
+      window.localStorage.getItem(SHORTCUT_BINDINGS_KEY) ?? "{}",
+    );
+  } catch {
+    // Corrupt value, use the defaults
+  }
+
+  for (const [id, binding] of Object.entries(stored)) {
+    if (!DEFINITIONS.has(id as ShortcutId) || typeof binding !== "string") {
+      continue;
+    }
+    const strokes = parseBinding(binding);
+    if (strokes) {
+      bindings[id as ShortcutId] = strokes.map(strokeToString).join(" ");
+    }
+  }
+  return bindings;
+}
+
+/**
+ * Save the bindings, keeping only the ones that differ from the defaults
+ */
+export function setShortcutBindings(bindings: ShortcutBindings): void {
+  const overrides = Object.fromEntries(
+    SHORTCUTS.filter((s) => bindings[s.id] !== s.binding).map((s) => [
+      s.id,
+      bindings[s.id],
+    ]),
+  );
+  window.localStorage.setItem(SHORTCUT_BINDINGS_KEY, JSON.stringify(overrides));
+}
+
+export type ShortcutHandlers = Partial<
+  Record<ShortcutId, (event: KeyboardEvent) => void>
+>;
+
+interface Registration {
+  getHandlers: () => ShortcutHandlers;
+  order: number;
+}
+
+export class ShortcutRegistry {
+  private registrations: Registration[] = [];
+  private nextOrder = 0;
+  private bindings: ShortcutBindings | null = null;
+  private listeners = new Set<() => void>();
+  private pending: string[] = [];
+  private pendingTimeout: ReturnType<typeof setTimeout> | null = null;
+  private isListening = false;
+
+  /**
+   * Handle shortcuts until the returned function is called.
+   * Handlers are read on every key press, so they can change between renders.
+   * When several registrations handle the same shortcut, the latest one wins.
+   */
+  register(getHandlers: () => ShortcutHandlers): () => void {
+    const registration = { getHandlers, order: this.nextOrder++ };
+    this.registrations.push(registration);
+    this.listen();
+
+    return () => {
+      this.registrations = this.registrations.filter((r) => r !== registration);
+      if (this.registrations.length === 0) this.stopListening();
+    };
+  }
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+
+  getSnapshot = (): ShortcutBindings => {
+    if (!this.bindings) this.bindings = getShortcutBindings();
+    return this.bindings;
+  };
+
+  setBinding(id: ShortcutId, binding: string): void {
+    this.saveBindings({ ...this.getSnapshot(), [id]: binding });
+  }
+
+  resetBinding(id: ShortcutId): void {
+    this.setBinding(id, DEFAULT_BINDINGS[id]);
+  }
+
+  resetAll(): void {
+    this.saveBindings({ ...DEFAULT_BINDINGS });
+  }
+
+  handleKeyDown = (event: KeyboardEvent): void => {
+    const stroke = strokeFromEvent(event);
+    if (!stroke) return;
+
+    const candidates = this.getCandidates(event);
+    const match = (sequence: string[]) => {
+      const exact = candidates.find(
+        (c) =>
+          c.steps.length === sequence.length && startsWith(c.steps, sequence),
+      );
+      const isPrefix = candidates.some(
+        (c) =>
+          c.steps.length > sequence.length && startsWith(c.steps, sequence),
+      );
+      return { exact, isPrefix, sequence };
+    };
+
+    // Continue a chord if this key can, otherwise start over from this key
+    const step = strokeToString(stroke);
+    let result = match([...this.pending, step]);
+    if (this.pending.length > 0 && !result.exact && !result.isPrefix) {
+      result = match([step]);
+    }
+    this.clearPending();
+
+    if (result.exact) {
+      if (result.exact.definition.preventDefault !== false) {
+        event.preventDefault();
+      }
+      result.exact.handler(event);
+    } else if (result.isPrefix) {
+      event.preventDefault();
+      this.pending = result.sequence;
+      this.pendingTimeout = setTimeout(
+        () => this.clearPending(),
+        CHORD_TIMEOUT_MS,
+      );
+    }
+  };
+
+  // Handled shortcuts that apply to this key press, innermost scope and latest
+  // registration first
+  private getCandidates(event: KeyboardEvent) {
+    const bindings = this.getSnapshot();
+    return this.registrations
+      .flatMap((registration) =>
+        Object.entries(registration.getHandlers()).map(([id, handler]) => ({
+          definition: getShortcut(id as ShortcutId),
+          handler: handler as (event: KeyboardEvent) => void,
+          order: registration.order,
+        })),
+      )
+      .filter(({ definition, handler }) => {
+        if (!definition || !handler) return false;
+        const strokes = parseBinding(bindings[definition.id]);
+        return shouldHandleShortcut(event, {
+          allowInInput: definition.allowInInput,
+          requireModifier: strokes?.[0].ctrlOrCmd,
+        });
+      })
+      .sort(
+        (a, b) =>
+          SCOPE_PRIORITY[b.definition.scope] -
+            SCOPE_PRIORITY[a.definition.scope] || b.order - a.order,
+      )
+      .map((candidate) => ({
+        ...candidate,
+        steps: toSteps(bindings[candidate.definition.id]),
+      }));
+  }
+
+  private saveBindings(bindings: ShortcutBindings): void {
+    this.bindings = bindings;
+    setShortcutBindings(bindings);
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private clearPending(): void {
+    this.pending = [];
+    if (this.pendingTimeout) {
+      clearTimeout(this.pendingTimeout);
+      this.pendingTimeout = null;
+    }
+  }
+
+  private listen(): void {
+    if (this.isListening || typeof document === "undefined") return;
+    document.addEventListener("keydown", this.handleKeyDown);
+    this.isListening = true;
+  }
+
+  private stopListening(): void {
+    if (!this.isListening) return;
+    document.removeEventListener("keydown", this.handleKeyDown);
+    this.isListening = false;
+    this.clearPending();
+  }
+}
+
+export const shortcutRegistry = new ShortcutRegistry();
@@ -1,27 +1,33 @@
+import { getDayState, keepsStreak } from "./completion";
+import { addDays, getTodayKey } from "./local-date";
+import { isTaskDueOn, isTaskScheduledOn } from "./recurrence";
 import { Task } from "./types";
 
 /**
- * Calculate the current streak for a daily task
- * A streak is the number of consecutive days (including today) that the task has been completed
+ * Calculate the current streak for a recurring task
+ * A streak is the number of consecutive scheduled occurrences (including today) that the task has been completed.
+ * Days the task isn't scheduled on, and excused or frozen days, neither count nor break the streak.
+ * Today only breaks it once it has been marked missed or skipped, since the day isn't over yet.
  */
 export function calculateStreak(task: Task): number {
   if (!task.isDaily || !task.completionHistory) {
     return 0;
   }
 
-  const history = task.completionHistory;
-  const today = new Date();
+  const today = getTodayKey();
   let streak = 0;
 
   // Check backwards from today
   for (let i = 0; i < 365; i++) {
     // Max check 1 year back
-    const checkDate = new Date(today);
-    checkDate.setDate(today.getDate() - i);
-    const dateStr = checkDate.toISOString().split("T")[0];
+    const dateStr = addDays(today, -i);
+    if (!isTaskScheduledOn(task, dateStr)) continue;
 
-    if (history[dateStr] === true) {
+    const state = getDayState(task, dateStr);
+    if (state === "completed") {
       streak++;
+    } else if (keepsStreak(state) || (i === 0 && state === "pending")) {
+      continue;
     } else {
       break; // Streak is broken
     }
@@ -31,7 +37,7 @@ export function calculateStreak(task: Task): number {
 }
 
 /**
- * Get the longest streak for a daily task
+ * Get the longest streak of consecutive scheduled occurrences for a recurring task
  */
 export function calculateLongestStreak(task: Task): number {
   if (!task.isDaily || !task.completionHistory) {
@@ -45,57 +51,77 @@ export function calculateLongestStreak(task: Task): number {
 
   if (dates.length === 0) return 0;
 
-  let longestStreak = 1;
-  let currentStreak = 1;
-
-  for (let i = 1; i < dates.length; i++) {
-    const prevDate = new Date(dates[i - 1]);
-    const currDate = new Date(dates[i]);
+  let longestStreak = 0;
+  let currentStreak = 0;
 
-    // Check if dates are consecutive
-    const dayDiff = Math.floor(
-      (currDate.getTime() - prevDate.getTime()) / (1000 * 60 * 60 * 24),
-    );
+  // Walk every day between the first and last completion, skipping unscheduled days
+  const lastDate = dates[dates.length - 1];
+  for (let date = dates[0]; date <= lastDate; date = addDays(date, 1)) {
+    if (!isTaskScheduledOn(task, date)) continue;
 
-    if (dayDiff === 1) {
+    const state = getDayState(task, date);
+    if (state === "completed") {
       currentStreak++;
       longestStreak = Math.max(longestStreak, currentStreak);
-    } else {
-      currentStreak = 1;
+    } else if (!keepsStreak(state)) {
+      currentStreak = 0;
     }
   }
 
   return longestStreak;
 }
 
+export interface CompletionTally {
+  completed: number;
+  total: number;
+}
+
 /**
- * Get completion rate for a task (percentage of days completed)
+ * Count the completed and counted scheduled days of a task from `from` to `to` (inclusive)
+ * Excused and frozen days, and today while it is still pending, are left out.
  */
-export function calculateCompletionRate(task: Task, days: number = 30): number {
-  if (!task.isDaily) return 0;
-
-  const history = task.completionHistory || {};
-  const today = new Date();
-  const taskCreatedDate = new Date(task.createdAt);
+export function tallyCompletions(
+  task: Task,
+  from: string,
+  to: string,
+  today: string = getTodayKey(),
+): CompletionTally {
+  const tally: CompletionTally = { completed: 0, total: 0 };
+  if (!task.isDaily) return tally;
+
+  for (let dateStr = from; dateStr <= to; dateStr = addDays(dateStr, 1)) {
+    // Only count days the task was scheduled on (never before it was created)
+    if (!isTaskDueOn(task, dateStr)) continue;
+
+    const state = getDayState(task, dateStr);
+    if (keepsStreak(state) || (dateStr === today && state === "pending")) {
+      continue;
+    }
 
-  let completedDays = 0;
-  let totalDays = 0;
+    tally.total++;
 
-  for (let i = 0; i < days; i++) {
-    const checkDate = new Date(today);
-    checkDate.setDate(today.getDate() - i);
+    if (state === "completed") {
+      tally.completed++;
+    }
+  }
 
-    // Only count days after task was created
-    if (checkDate < taskCreatedDate) break;
+  return tally;
+}
 
-    const dateStr = checkDate.toISOString().split("T")[0];
-    totalDays++;
+/**
+ * Get completion rate for a task (percentage of scheduled days completed)
+ */
+export function calculateCompletionRate(task: Task, days: number = 30): number {
+  if (!task.isDaily) return 0;
 
-    if (history[dateStr] === true) {
-      completedDays++;
-    }
-  }
+  const today = getTodayKey();
+  const { completed, total } = tallyCompletions(
+    task,
+    addDays(today, -(days - 1)),
+    today,
+    today,
+  );
 
-  if (totalDays === 0) return 0;
-  return Math.round((completedDays / totalDays) * 100);
+  if (total === 0) return 0;
+  return Math.round((completed / total) * 100);
 }
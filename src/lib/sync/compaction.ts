@@ -0,0 +1,253 @@
+import type { FieldTimestamps } from "@/lib/types";
+
+import { BatchedOperation, OperationType, QueuedOperation } from "./types";
+
+/**
+ * Queue compaction.
+ * Typing into a field stores every keystroke as an update, and each queued operation
+ * costs a request, so new operations are folded into the ones already waiting:
+ * - an update joins the add or update of the same record queued before it
+ * - a delete drops the updates to the record still waiting to be sent
+ * - a reorder replaces the earlier reorder of the same records
+ * Only operations still pending are changed; one being sent is left alone.
+ */
+
+/**
+ * The operations that change one kind of record
+ */
+interface EntityOperations {
+  add: OperationType;
+  update: OperationType;
+  remove: OperationType;
+  reorder?: OperationType;
+}
+
+const ENTITIES: EntityOperations[] = [
+  {
+    add: OperationType.ADD_TASK,
+    update: OperationType.UPDATE_TASK,
+    remove: OperationType.DELETE_TASK,
+    reorder: OperationType.REORDER_TASKS,
+  },
+  {
+    add: OperationType.ADD_PROJECT,
+    update: OperationType.UPDATE_PROJECT,
+    remove: OperationType.DELETE_PROJECT,
+    reorder: OperationType.REORDER_PROJECTS,
+  },
+  {
+    add: OperationType.ADD_TAG,
+    update: OperationType.UPDATE_TAG,
+    remove: OperationType.DELETE_TAG,
+  },
+];
+
+// Operations that create records, which later updates may point at
+const CREATES = [
+  OperationType.ADD_TASK,
+  OperationType.ADD_PROJECT,
+  OperationType.ADD_TAG,
+  OperationType.ADD_TASK_TAG,
+  OperationType.ADD_PROJECT_TAG,
+  OperationType.ADD_FOCUS_SESSION,
+  OperationType.ADD_TODAY_TASK,
+  OperationType.BATCH,
+];
+
+// Today is saved as a whole list, so its latest change replaces the others
+const TODAY_OPERATIONS = [
+  OperationType.ADD_TODAY_TASK,
+  OperationType.REMOVE_TODAY_TASK,
+  OperationType.REORDER_TODAY_TASKS,
+];
+
+interface Update {
+  id: string;
+  updates: { fieldTimestamps?: FieldTimestamps } & Record<string, unknown>;
+}
+
+type Row = { id: string; fieldTimestamps?: FieldTimestamps } & Record<
+  string,
+  unknown
+>;
+
+const getEntity = (type: OperationType) =>
+  ENTITIES.find((entity) =>
+    [entity.add, entity.update, entity.remove, entity.reorder].includes(type),
+  );
+
+/**
+ * Ids of the records of one kind an operation writes to
+ */
+function getTouchedIds(
+  operation: BatchedOperation,
+  entity: EntityOperations,
+): string[] {
+  const { type, payload } = operation;
+  if (type === OperationType.BATCH) {
+    return (payload as BatchedOperation[]).flatMap((batched) =>
+      getTouchedIds(batched, entity),
+    );
+  }
+  if (type === entity.reorder) {
+    return (payload as { id: string }[]).map((row) => row.id);
+  }
+  if ([entity.add, entity.update, entity.remove].includes(type)) {
+    return [(payload as { id: string }).id];
+  }
+  return [];
+}
+
+/**
+ * Apply a later set of updates on top of an earlier row or set of updates
+ */
+const mergeFields = <T extends { fieldTimestamps?: FieldTimestamps }>(
+  earlier: T,
+  later: Update["updates"],
+): T => ({
+  ...earlier,
+  ...later,
+  fieldTimestamps: { ...earlier.fieldTimestamps, ...later.fieldTimestamps },
+});
+
+// Index of the last queued operation matching a condition, or -1
+const findLastIndex = (
+  queue: QueuedOperation[],
+  predicate: (operation: QueuedOperation) => boolean,
+) => {
+  for (let index = queue.length - 1; index >= 0; index--) {
+    if (predicate(queue[index])) return index;
+  }
+  return -1;
+};
+
+const replaceAt = (
+  queue: QueuedOperation[],
+  index: number,
+  payload: unknown,
+): QueuedOperation[] =>
+  queue.map((operation, i) =>
+    i === index ? { ...operation, payload } : operation,
+  );
+
+function compactUpdate(
+  queue: QueuedOperation[],
+  operation: QueuedOperation,
+  entity: EntityOperations,
+): QueuedOperation[] {
+  const { id, updates } = operation.payload as Update;
+  // The last operation to write to the record, anything after it is unrelated
+  const index = findLastIndex(queue, (queued) =>
+    getTouchedIds(queued, entity).includes(id),
+  );
+  const target = queue[index];
+  // Moving the update earlier must not send it before a record it points at exists,
+  // e.g. a task moved to a project created after the task was last edited
+  const createsBetween = queue
+    .slice(index + 1)
+    .some((queued) => CREATES.includes(queued.type));
+  if (!target || target.status !== "pending" || createsBetween) {
+    return [...queue, operation];
+  }
+
+  if (target.type === entity.add) {
+    return replaceAt(queue, index, mergeFields(target.payload as Row, updates));
+  }
+  if (target.type === entity.update) {
+    const earlier = target.payload as Update;
+    return replaceAt(queue, index, {
+      id,
+      updates: mergeFields(earlier.updates, updates),
+    });
+  }
+  return [...queue, operation];
+}
+
+function compactDelete(
+  queue: QueuedOperation[],
+  operation: QueuedOperation,
+  entity: EntityOperations,
+): QueuedOperation[] {
+  const { id } = operation.payload as { id: string };
+  const isStale = (batched: BatchedOperation) =>
+    batched.type === entity.update && (batched.payload as Update).id === id;
+
+  const kept = queue.flatMap((queued) => {
+    if (queued.status === "processing") return [queued];
+    if (queued.type === OperationType.BATCH) {
+      const payload = (queued.payload as BatchedOperation[]).filter(
+        (batched) => !isStale(batched),
+      );
+      return payload.length === 0 ? [] : [{ ...queued, payload }];
+    }
+    return isStale(queued) ? [] : [queued];
+  });
+  return [...kept, operation];
+}
+
+function compactReorder(
+  queue: QueuedOperation[],
+  operation: QueuedOperation,
+  entity: EntityOperations,
+): QueuedOperation[] {
+  const index = findLastIndex(
+    queue,
+    (queued) => queued.type === operation.type,
+  );
+  const target = queue[index];
+  if (target?.status !== "pending") return [...queue, operation];
+
+  // Nothing in between may write to the records the earlier reorder moves
+  const earlier = target.payload as Row[];
+  const ids = earlier.map((row) => row.id);
+  const between = queue.slice(index + 1);
+  if (
+    between.some((queued) =>
+      getTouchedIds(queued, entity).some((id) => ids.includes(id)),
+    )
+  ) {
+    return [...queue, operation];
+  }
+
+  // Records only the earlier reorder moved keep the order it gave them
+  const later = operation.payload as Row[];
+  const laterIds = new Set(later.map((row) => row.id));
+  const payload = [...earlier.filter((row) => !laterIds.has(row.id)), ...later];
+  return [...queue.filter((_, i) => i !== index), { ...operation, payload }];
+}
+
+function compactToday(
+  queue: QueuedOperation[],
+  operation: QueuedOperation,
+): QueuedOperation[] {
+  const kept = queue.filter(
+    (queued) =>
+      queued.status !== "pending" || !TODAY_OPERATIONS.includes(queued.type),
+  );
+  return [...kept, operation];
+}
+
+/**
+ * Add an operation to the queue, folding it into the pending operations it supersedes.
+ * Returns the new queue; the one passed in is left as it was.
+ */
+export function compactQueue(
+  queue: QueuedOperation[],
+  operation: QueuedOperation,
+): QueuedOperation[] {
+  if (operation.type === OperationType.REORDER_TODAY_TASKS) {
+    return compactToday(queue, operation);
+  }
+
+  const entity = getEntity(operation.type);
+  if (operation.type === entity?.update) {
+    return compactUpdate(queue, operation, entity);
+  }
+  if (operation.type === entity?.remove) {
+    return compactDelete(queue, operation, entity);
+  }
+  if (operation.type === entity?.reorder) {
+    return compactReorder(queue, operation, entity);
+  }
+  return [...queue, operation];
+}
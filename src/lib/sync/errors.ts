@@ -0,0 +1,29 @@
+/**
+ * An error response from the remote API, with its HTTP status
+ */
+export class RemoteApiError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(`API error (${status}): ${message}`);
+    this.name = "RemoteApiError";
+    this.status = status;
+  }
+}
+
+// Client errors that may still pass later: an expired token (fetched again
+// on the next attempt), timeouts and rate limiting
+const TRANSIENT_CLIENT_ERRORS = [401, 408, 425, 429];
+
+/**
+ * Whether sending an operation again can't succeed, because the server rejected it (4xx).
+ * Network errors and 5xx responses are temporary and worth retrying.
+ */
+export function isPermanentError(error: unknown): boolean {
+  return (
+    error instanceof RemoteApiError &&
+    error.status >= 400 &&
+    error.status < 500 &&
+    !TRANSIENT_CLIENT_ERRORS.includes(error.status)
+  );
+}
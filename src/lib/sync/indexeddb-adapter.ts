@@ -0,0 +1,711 @@
+import type {
+  FocusSession,
+  Project,
+  ProjectMember,
+  ProjectTag,
+  Tag,
+  Task,
+  TaskTag,
+  TodayTask,
+} from "@/lib/types";
+
+import { LocalStorageAdapter } from "./local-storage-adapter";
+import { userKey } from "./storage-user";
+import type {
+  DataSnapshot,
+  ILocalAdapter,
+  LocalCollection,
+  LocalReplacement,
+  StoredSyncCursors,
+} from "./types";
+
+/**
+ * Database name, namespaced per user like the localStorage keys (see storage-user.ts)
+ */
+const DB_NAME = "intentionality";
+
+// Add an upgrade step to open() when bumping this
+const DB_VERSION = 1;
+
+// Store for values kept under a key of their own, such as the sync cursors
+const META_STORE = "meta";
+const SYNC_CURSORS_KEY = "sync_cursors";
+
+/**
+ * Every collection, each in a store named after its old localStorage key
+ */
+const COLLECTIONS: LocalCollection[] = [
+  "tasks",
+  "projects",
+  "tags",
+  "task_tags",
+  "project_tags",
+  "today",
+  "focus_sessions",
+  "project_members",
+];
+
+// IndexedDB can't index booleans, so tasks are stored with completed as a number too
+type TaskRow = Task & { completedKey: 0 | 1 };
+
+const toTaskRow = (task: Task): TaskRow => ({
+  ...task,
+  completedKey: task.completed ? 1 : 0,
+});
+
+const fromTaskRow = (row: TaskRow): Task => {
+  const task: Partial<TaskRow> = { ...row };
+  delete task.completedKey;
+  return task as Task;
+};
+
+// Stores return rows by key; sorting by creation keeps the order rows were added in
+const byCreatedAt = (a: { createdAt: string }, b: { createdAt: string }) =>
+  a.createdAt.localeCompare(b.createdAt);
+
+/**
+ * Wait for a request to finish
+ */
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Wait for a transaction to be committed
+ */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Replace every row of a store
+ */
+function replaceRows(store: IDBObjectStore, rows: unknown[]): void {
+  store.clear();
+  rows.forEach((row) => store.put(row));
+}
+
+/**
+ * Create the stores of a new database, with the indexes task queries use
+ */
+function createStores(db: IDBDatabase): void {
+  const tasks = db.createObjectStore("tasks", { keyPath: "id" });
+  tasks.createIndex("projectId", "projectId");
+  tasks.createIndex("parentTaskId", "parentTaskId");
+  tasks.createIndex("completed", "completedKey");
+
+  db.createObjectStore("projects", { keyPath: "id" });
+  db.createObjectStore("tags", { keyPath: "id" });
+  db.createObjectStore("task_tags", { keyPath: ["taskId", "tagId"] });
+  db.createObjectStore("project_tags", { keyPath: ["projectId", "tagId"] });
+  db.createObjectStore("today", { keyPath: "taskId" });
+  db.createObjectStore("focus_sessions", { keyPath: "id" });
+  db.createObjectStore("project_members", { keyPath: ["projectId", "userId"] });
+  db.createObjectStore(META_STORE);
+}
+
+/**
+ * Copy what LocalStorageAdapter kept in localStorage into the new stores.
+ * Runs in the upgrade transaction, so if the copy fails no database is left behind
+ * and it is tried again on the next open.
+ * Returns the localStorage keys that were copied.
+ */
+function copyFromLocalStorage(transaction: IDBTransaction): string[] {
+  const copied: string[] = [];
+
+  const copy = (key: string, put: (value: unknown) => void) => {
+    const stored = window.localStorage.getItem(userKey(key));
+    if (stored === null) return;
+
+    // Data that can't be read is left behind, as LocalStorageAdapter ignores it too
+    try {
+      put(JSON.parse(stored));
+      copied.push(userKey(key));
+    } catch (error) {
+      console.error(`Error moving localStorage key "${key}":`, error);
+    }
+  };
+
+  for (const collection of COLLECTIONS) {
+    const store = transaction.objectStore(collection);
+    copy(collection, (rows) =>
+      (rows as Task[]).forEach((row) =>
+        store.put(collection === "tasks" ? toTaskRow(row) : row),
+      ),
+    );
+  }
+  copy(SYNC_CURSORS_KEY, (cursors) =>
+    transaction.objectStore(META_STORE).put(cursors, SYNC_CURSORS_KEY),
+  );
+
+  return copied;
+}
+
+/**
+ * IndexedDBAdapter stores the local copy in IndexedDB, one record per row.
+ * Writes only touch the records they change, off the main thread and without
+ * localStorage's size limit. Data kept in localStorage by LocalStorageAdapter is moved
+ * over the first time the database is opened. Other tabs learn about writes over a
+ * BroadcastChannel, since IndexedDB has no storage event.
+ * Where the database can't be opened, everything is kept in localStorage as before.
+ */
+export class IndexedDBAdapter implements ILocalAdapter {
+  private name = userKey(DB_NAME);
+  private db: Promise<IDBDatabase> | null = null;
+  // Whether the database failed to open, decided by the first call that opens it
+  private openFailed: Promise<boolean> | null = null;
+  private fallback = new LocalStorageAdapter();
+  private channel: BroadcastChannel | null =
+    typeof BroadcastChannel === "undefined"
+      ? null
+      : new BroadcastChannel(this.name);
+
+  /**
+   * Whether there is IndexedDB here (not on the server, nor in some private modes).
+   * Where there is but databases fail to open, localStorage is used all the same.
+   */
+  static isAvailable(): boolean {
+    return typeof indexedDB !== "undefined";
+  }
+
+  /**
+   * Open the database, creating it and moving localStorage data into it the first time
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.name, DB_VERSION);
+        let moved: string[] = [];
+
+        request.onupgradeneeded = (event) => {
+          if (event.oldVersion < 1) {
+            createStores(request.result);
+            moved = copyFromLocalStorage(request.transaction!);
+          }
+        };
+        request.onsuccess = () => {
+          // The copy is committed, so the old keys can go
+          moved.forEach((key) => window.localStorage.removeItem(key));
+          if (moved.length > 0) {
+            console.log("[IndexedDBAdapter] Moved data from localStorage");
+          }
+
+          const db = request.result;
+          // Let a newer version of the app in another tab upgrade the database
+          db.onversionchange = () => db.close();
+          resolve(db);
+        };
+        request.onerror = () => {
+          this.db = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.db;
+  }
+
+  /**
+   * Whether to use localStorage instead. Some private modes have indexedDB but fail to
+   * open any database, and every read would come back empty.
+   * Once decided, it stays that way, so writes never end up split over both.
+   */
+  private failedToOpen(): Promise<boolean> {
+    if (!this.openFailed) {
+      this.openFailed = this.open().then(
+        () => false,
+        (error) => {
+          console.error(
+            "[IndexedDBAdapter] Can't open the database, using localStorage:",
+            error,
+          );
+          return true;
+        },
+      );
+    }
+    return this.openFailed;
+  }
+
+  /**
+   * Read every row of a store, or the rows of an index matching a key
+   */
+  private async readAll<T>(
+    store: LocalCollection,
+    index?: string,
+    query?: IDBValidKey,
+  ): Promise<T[]> {
+    try {
+      const db = await this.open();
+      const source = db.transaction(store).objectStore(store);
+      return await requestResult<T[]>(
+        (index ? source.index(index) : source).getAll(query),
+      );
+    } catch (error) {
+      console.error(`Error reading from IndexedDB store "${store}":`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Read one record by its key
+   */
+  private async readOne<T>(
+    store: LocalCollection,
+    key: IDBValidKey,
+  ): Promise<T | undefined> {
+    try {
+      const db = await this.open();
+      return await requestResult<T | undefined>(
+        db.transaction(store).objectStore(store).get(key),
+      );
+    } catch (error) {
+      console.error(`Error reading from IndexedDB store "${store}":`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Make changes to a store in one transaction and tell other tabs once committed
+   */
+  private async write(
+    store: LocalCollection,
+    change: (objectStore: IDBObjectStore) => void,
+  ): Promise<void> {
+    try {
+      const db = await this.open();
+      const transaction = db.transaction(store, "readwrite");
+      change(transaction.objectStore(store));
+      await transactionDone(transaction);
+      this.channel?.postMessage(store);
+    } catch (error) {
+      console.error(`Error writing to IndexedDB store "${store}":`, error);
+    }
+  }
+
+  /**
+   * Apply a change to one record, if it exists
+   */
+  private updateRecord<T>(
+    store: LocalCollection,
+    key: IDBValidKey,
+    apply: (row: T) => T,
+  ): Promise<void> {
+    return this.write(store, (objectStore) => {
+      const request = objectStore.get(key);
+      request.onsuccess = () => {
+        if (request.result) {
+          objectStore.put(apply(request.result as T));
+        }
+      };
+    });
+  }
+
+  /**
+   * Add a record unless one with its key is already stored
+   */
+  private addRecord<T>(
+    store: LocalCollection,
+    key: IDBValidKey,
+    row: T,
+  ): Promise<void> {
+    return this.write(store, (objectStore) => {
+      const request = objectStore.getKey(key);
+      request.onsuccess = () => {
+        if (request.result === undefined) {
+          objectStore.put(row);
+        }
+      };
+    });
+  }
+
+  /**
+   * Move records to their new order (with its sync timestamps).
+   * Other fields are kept as stored, including the completedKey of tasks.
+   */
+  private reorder<T extends Task | Project>(
+    store: "tasks" | "projects",
+    reordered: T[],
+  ): Promise<void> {
+    return this.write(store, (objectStore) => {
+      for (const { id, order, updatedAt, fieldTimestamps } of reordered) {
+        const request = objectStore.get(id);
+        request.onsuccess = () => {
+          const record = request.result as T | undefined;
+          if (!record) return;
+          objectStore.put({
+            ...record,
+            order,
+            updatedAt: updatedAt ?? record.updatedAt,
+            fieldTimestamps: fieldTimestamps ?? record.fieldTimestamps,
+          });
+        };
+      }
+    });
+  }
+
+  // localStorage has no indexes, so queries look through every task
+  private async filterFallbackTasks(
+    match: (task: Task) => boolean,
+  ): Promise<Task[]> {
+    const tasks = await this.fallback.getTasks();
+    return tasks.filter(match);
+  }
+
+  // ========== Task Methods ==========
+
+  async getTasks(): Promise<Task[]> {
+    if (await this.failedToOpen()) return this.fallback.getTasks();
+    const rows = await this.readAll<TaskRow>("tasks");
+    return rows.map(fromTaskRow).sort(byCreatedAt);
+  }
+
+  async getTask(id: string): Promise<Task | undefined> {
+    if (await this.failedToOpen()) return this.fallback.getTask(id);
+    const row = await this.readOne<TaskRow>("tasks", id);
+    return row && fromTaskRow(row);
+  }
+
+  async addTask(task: Task): Promise<void> {
+    if (await this.failedToOpen()) return this.fallback.addTask(task);
+    await this.write("tasks", (store) => store.put(toTaskRow(task)));
+  }
+
+  async updateTask(id: string, updates: Partial<Task>): Promise<void> {
+    if (await this.failedToOpen()) return this.fallback.updateTask(id, updates);
+    await this.updateRecord<TaskRow>("tasks", id, (row) =>
+      toTaskRow({ ...fromTaskRow(row), ...updates }),
+    );
+  }
+
+  async deleteTask(id: string): Promise<void> {
+    if (await this.failedToOpen()) return this.fallback.deleteTask(id);
+    await this.write("tasks", (store) => store.delete(id));
+  }
+
+  async reorderTasks(reorderedTasks: Task[]): Promise<void> {
+    if (await this.failedToOpen()) {
+      return this.fallback.reorderTasks(reorderedTasks);
+    }
+    await this.reorder("tasks", reorderedTasks);
+  }
+
+  // ========== Indexed Task Queries ==========
+
+  async getTasksInProject(projectId: string): Promise<Task[]> {
+    if (await this.failedToOpen()) {
+      return this.filterFallbackTasks((task) => task.projectId === projectId);
+    }
+    const rows = await this.readAll<TaskRow>("tasks", "projectId", projectId);
+    return rows.map(fromTaskRow).sort(byCreatedAt);
+  }
+
+  async getSubtasks(parentTaskId: string): Promise<Task[]> {
+    if (await this.failedToOpen()) {
+      return this.filterFallbackTasks(
+        (task) => task.parentTaskId === parentTaskId,
+      );
+    }
+    const rows = await this.readAll<TaskRow>(
+      "tasks",
+      "parentTaskId",
+      parentTaskId,
+    );
+    return rows.map(fromTaskRow).sort(byCreatedAt);
+  }
+
+  async getTasksByCompletion(completed: boolean): Promise<Task[]> {
+    if (await this.failedToOpen()) {
+      return this.filterFallbackTasks((task) => task.completed === completed);
+    }
+    const rows = await this.readAll<TaskRow>(
+      "tasks",
+      "completed",
+      completed ? 1 : 0,
+    );
+    return rows.map(fromTaskRow).sort(byCreatedAt);
+  }
+
+  // ========== Project Methods ==========
+
+  async getProjects(): Promise<Project[]> {
+    if (await this.failedToOpen()) return this.fallback.getProjects();
+    const projects = await this.readAll<Project>("projects");
+    return projects.sort(byCreatedAt);
+  }
+
+  async getProject(id: string): Promise<Project | undefined> {
+    if (await this.failedToOpen()) return this.fallback.getProject(id);
+    return this.readOne<Project>("projects", id);
+  }
+
+  async addProject(project: Project): Promise<void> {
+    if (await this.failedToOpen()) return this.fallback.addProject(project);
+    await this.write("projects", (store) => store.put(project));
+  }
+
+  async updateProject(id: string, updates: Partial<Project>): Promise<void> {
+    if (await this.failedToOpen()) {
+      return this.fallback.updateProject(id, updates);
+    }
+    await this.updateRecord<Project>("projects", id, (project) => ({
+      ...project,
+      ...updates,
+    }));
+  }
+
+  async deleteProject(id: string): Promise<void> {
+    if (await this.failedToOpen()) return this.fallback.deleteProject(id);
+    await this.write("projects", (store) => store.delete(id));
+  }
+
+  async reorderProjects(reorderedProjects: Project[]): Promise<void> {
+    if (await this.failedToOpen()) {
+      return this.fallback.reorderProjects(reorderedProjects);
+    }
+    await this.reorder("projects", reorderedProjects);
+  }
+
+  // ========== Tag Methods ==========
+
+  async getTags(): Promise<Tag[]> {
+    if (await this.failedToOpen()) return this.fallback.getTags();
+    const tags = await this.readAll<Tag>("tags");
+    return tags.sort(byCreatedAt);
+  }
+
+  async getTag(id: string): Promise<Tag | undefined> {
+    if (await this.failedToOpen()) return this.fallback.getTag(id);
+    return this.readOne<Tag>("tags", id);
+  }
+
+  async addTag(tag: Tag): Promise<void> {
+    if (await this.failedToOpen()) return this.fallback.addTag(tag);
+    await this.write("tags", (store) => store.put(tag));
+  }
+
+  async updateTag(id: string, updates: Partial<Tag>): Promise<void> {
+    if (await this.failedToOpen()) return this.fallback.updateTag(id, updates);
+    await this.updateRecord<Tag>("tags", id, (tag) => ({ ...tag, ...updates }));
+  }
+
+  async deleteTag(id: string): Promise<void> {
+    if (await this.failedToOpen()) return this.fallback.deleteTag(id);
+    await this.write("tags", (store) => store.delete(id));
+  }
+
+  // ========== TaskTag Relationship Methods ==========
+
+  async getTaskTags(): Promise<TaskTag[]> {
+    if (await this.failedToOpen()) return this.fallback.getTaskTags();
+    const taskTags = await this.readAll<TaskTag>("task_tags");
+    return taskTags.sort(byCreatedAt);
+  }
+
+  async addTaskTag(taskId: string, tagId: string): Promise<void> {
+    if (await this.failedToOpen()) {
+      return this.fallback.addTaskTag(taskId, tagId);
+    }
+    await this.addRecord<TaskTag>("task_tags", [taskId, tagId], {
+      taskId,
+      tagId,
+      createdAt: new Date().toISOString(),
+    });
+  }
+
+  async removeTaskTag(taskId: string, tagId: string): Promise<void> {
+    if (await this.failedToOpen()) {
+      return this.fallback.removeTaskTag(taskId, tagId);
+    }
+    await this.write("task_tags", (store) => store.delete([taskId, tagId]));
+  }
+
+  // ========== ProjectTag Relationship Methods ==========
+
+  async getProjectTags(): Promise<ProjectTag[]> {
+    if (await this.failedToOpen()) return this.fallback.getProjectTags();
+    const projectTags = await this.readAll<ProjectTag>("project_tags");
+    return projectTags.sort(byCreatedAt);
+  }
+
+  async addProjectTag(projectId: string, tagId: string): Promise<void> {
+    if (await this.failedToOpen()) {
+      return this.fallback.addProjectTag(projectId, tagId);
+    }
+    await this.addRecord<ProjectTag>("project_tags", [projectId, tagId], {
+      projectId,
+      tagId,
+      createdAt: new Date().toISOString(),
+    });
+  }
+
+  async removeProjectTag(projectId: string, tagId: string): Promise<void> {
+    if (await this.failedToOpen()) {
+      return this.fallback.removeProjectTag(projectId, tagId);
+    }
+    await this.write("project_tags", (store) =>
+      store.delete([projectId, tagId]),
+    );
+  }
+
+  // ========== TodayTask Methods ==========
+
+  async getTodayTasks(): Promise<TodayTask[]> {
+    if (await this.failedToOpen()) return this.fallback.getTodayTasks();
+    const todayTasks = await this.readAll<TodayTask>("today");
+    return todayTasks.sort((a, b) => a.order - b.order);
+  }
+
+  async saveTodayTasks(todayTasks: TodayTask[]): Promise<void> {
+    if (await this.failedToOpen()) {
+      return this.fallback.saveTodayTasks(todayTasks);
+    }
+    await this.write("today", (store) => replaceRows(store, todayTasks));
+  }
+
+  // ========== FocusSession Methods ==========
+
+  async getFocusSessions(): Promise<FocusSession[]> {
+    if (await this.failedToOpen()) return this.fallback.getFocusSessions();
+    const sessions = await this.readAll<FocusSession>("focus_sessions");
+    return sessions.sort(byCreatedAt);
+  }
+
+  async addFocusSession(session: FocusSession): Promise<void> {
+    if (await this.failedToOpen()) {
+      return this.fallback.addFocusSession(session);
+    }
+    await this.addRecord("focus_sessions", session.id, session);
+  }
+
+  async deleteFocusSession(id: string): Promise<void> {
+    if (await this.failedToOpen()) return this.fallback.deleteFocusSession(id);
+    await this.write("focus_sessions", (store) => store.delete(id));
+  }
+
+  // ========== ProjectMember Methods ==========
+
+  async getProjectMembers(): Promise<ProjectMember[]> {
+    if (await this.failedToOpen()) return this.fallback.getProjectMembers();
+    const members = await this.readAll<ProjectMember>("project_members");
+    return members.sort(byCreatedAt);
+  }
+
+  async saveProjectMembers(members: ProjectMember[]): Promise<void> {
+    if (await this.failedToOpen()) {
+      return this.fallback.saveProjectMembers(members);
+    }
+    await this.write("project_members", (store) => replaceRows(store, members));
+  }
+
+  // ========== Sync Methods ==========
+
+  async getSyncCursors(): Promise<StoredSyncCursors | null> {
+    if (await this.failedToOpen()) return this.fallback.getSyncCursors();
+    const db = await this.open();
+    const stored = await requestResult(
+      db.transaction(META_STORE).objectStore(META_STORE).get(SYNC_CURSORS_KEY),
+    );
+    return (stored as StoredSyncCursors | undefined) ?? null;
+  }
+
+  async clearSyncCursors(): Promise<void> {
+    if (await this.failedToOpen()) return this.fallback.clearSyncCursors();
+    const db = await this.open();
+    const transaction = db.transaction(META_STORE, "readwrite");
+    transaction.objectStore(META_STORE).delete(SYNC_CURSORS_KEY);
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Read, update and write back everything in one transaction, so writes made
+   * meanwhile wait for it and are applied on top
+   */
+  async replaceData(
+    update: (local: DataSnapshot) => LocalReplacement,
+  ): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(
+      [...COLLECTIONS, META_STORE],
+      "readwrite",
+    );
+    const done = transactionDone(transaction);
+    const getAll = <T>(store: LocalCollection) =>
+      requestResult<T[]>(transaction.objectStore(store).getAll());
+
+    try {
+      const [
+        tasks,
+        projects,
+        tags,
+        taskTags,
+        projectTags,
+        focusSessions,
+        todayTasks,
+      ] = await Promise.all([
+        getAll<TaskRow>("tasks"),
+        getAll<Project>("projects"),
+        getAll<Tag>("tags"),
+        getAll<TaskTag>("task_tags"),
+        getAll<ProjectTag>("project_tags"),
+        getAll<FocusSession>("focus_sessions"),
+        getAll<TodayTask>("today"),
+      ]);
+
+      const { data, members, cursors } = update({
+        tasks: tasks.map(fromTaskRow).sort(byCreatedAt),
+        projects: projects.sort(byCreatedAt),
+        tags: tags.sort(byCreatedAt),
+        taskTags: taskTags.sort(byCreatedAt),
+        projectTags: projectTags.sort(byCreatedAt),
+        focusSessions: focusSessions.sort(byCreatedAt),
+        todayTasks: todayTasks.sort((a, b) => a.order - b.order),
+      });
+
+      const store = (name: string) => transaction.objectStore(name);
+      replaceRows(store("tasks"), data.tasks.map(toTaskRow));
+      replaceRows(store("projects"), data.projects);
+      replaceRows(store("tags"), data.tags);
+      replaceRows(store("task_tags"), data.taskTags);
+      replaceRows(store("project_tags"), data.projectTags);
+      replaceRows(store("focus_sessions"), data.focusSessions);
+      replaceRows(store("today"), data.todayTasks);
+      if (members) {
+        replaceRows(store("project_members"), members);
+      }
+      if (cursors) {
+        store(META_STORE).put(cursors, SYNC_CURSORS_KEY);
+      }
+    } catch (error) {
+      done.catch(() => {});
+      transaction.abort();
+      throw error;
+    }
+
+    await done;
+    COLLECTIONS.forEach((collection) => this.channel?.postMessage(collection));
+  }
+
+  subscribeToOtherTabs(
+    listener: (collection: LocalCollection) => void,
+  ): () => void {
+    // Writes only reach one of them, depending on whether the database opened
+    const unsubscribeFallback = this.fallback.subscribeToOtherTabs(listener);
+    const channel = this.channel;
+    if (!channel) return unsubscribeFallback;
+
+    // Messages never reach the channel that posted them, only other tabs' ones
+    const handleMessage = (event: MessageEvent<LocalCollection>) =>
+      listener(event.data);
+    channel.addEventListener("message", handleMessage);
+    return () => {
+      channel.removeEventListener("message", handleMessage);
+      unsubscribeFallback();
+    };
+  }
+}
@@ -1,5 +1,7 @@
 import type {
+  FocusSession,
   Project,
+  ProjectMember,
   ProjectTag,
   Tag,
   Task,
@@ -7,10 +9,17 @@ import type {
   TodayTask,
 } from "@/lib/types";
 
-import type { IStorageAdapter } from "./types";
+import { userKey } from "./storage-user";
+import type {
+  DataSnapshot,
+  ILocalAdapter,
+  LocalCollection,
+  LocalReplacement,
+  StoredSyncCursors,
+} from "./types";
 
 /**
- * localStorage key constants
+ * localStorage key constants, namespaced per user (see storage-user.ts)
  */
 const TASKS_KEY = "tasks";
 const PROJECTS_KEY = "projects";
@@ -18,13 +27,17 @@ const TODAY_KEY = "today";
 const TAGS_KEY = "tags";
 const TASK_TAGS_KEY = "task_tags";
 const PROJECT_TAGS_KEY = "project_tags";
+const FOCUS_SESSIONS_KEY = "focus_sessions";
+const PROJECT_MEMBERS_KEY = "project_members";
+const SYNC_CURSORS_KEY = "sync_cursors";
 
 /**
  * LocalStorageAdapter implements the IStorageAdapter interface using browser localStorage.
  * All operations are synchronous but wrapped in Promises for API consistency.
  * Handles SSR gracefully by returning empty arrays when window is undefined.
+ * Used where IndexedDB is unavailable (see IndexedDBAdapter).
  */
-export class LocalStorageAdapter implements IStorageAdapter {
+export class LocalStorageAdapter implements ILocalAdapter {
   /**
    * Helper method to read data from localStorage
    */
@@ -34,7 +47,7 @@ export class LocalStorageAdapter implements IStorageAdapter {
     }
 
     try {
-      const item = window.localStorage.getItem(key);
+      const item = window.localStorage.getItem(userKey(key));
       return item ? (JSON.parse(item) as T) : defaultValue;
     } catch (error) {
       console.error(`Error reading from localStorage key "${key}":`, error);
@@ -51,7 +64,7 @@ export class LocalStorageAdapter implements IStorageAdapter {
     }
 
     try {
-      window.localStorage.setItem(key, JSON.stringify(value));
+      window.localStorage.setItem(userKey(key), JSON.stringify(value));
     } catch (error) {
       console.error(`Error writing to localStorage key "${key}":`, error);
     }
@@ -63,6 +76,10 @@ export class LocalStorageAdapter implements IStorageAdapter {
     return this.readFromStorage<Task[]>(TASKS_KEY, []);
   }
 
+  async getTask(id: string): Promise<Task | undefined> {
+    return (await this.getTasks()).find((t) => t.id === id);
+  }
+
   async addTask(task: Task): Promise<void> {
     const tasks = await this.getTasks();
     tasks.push(task);
@@ -89,10 +106,17 @@ export class LocalStorageAdapter implements IStorageAdapter {
     // Create a map of reordered tasks for quick lookup
     const reorderedMap = new Map(reorderedTasks.map((t) => [t.id, t]));
 
-    // Update order for tasks that were reordered
+    // Update order (and its sync timestamps) for tasks that were reordered
     const updatedTasks = allTasks.map((task) => {
       const reordered = reorderedMap.get(task.id);
-      return reordered ? { ...task, order: reordered.order } : task;
+      return reordered
+        ? {
+            ...task,
+            order: reordered.order,
+            updatedAt: reordered.updatedAt ?? task.updatedAt,
+            fieldTimestamps: reordered.fieldTimestamps ?? task.fieldTimestamps,
+          }
+        : task;
     });
 
     this.writeToStorage(TASKS_KEY, updatedTasks);
@@ -104,6 +128,10 @@ export class LocalStorageAdapter implements IStorageAdapter {
     return this.readFromStorage<Project[]>(PROJECTS_KEY, []);
   }
 
+  async getProject(id: string): Promise<Project | undefined> {
+    return (await this.getProjects()).find((p) => p.id === id);
+  }
+
   async addProject(project: Project): Promise<void> {
     const projects = await this.getProjects();
     projects.push(project);
@@ -131,7 +159,15 @@ export class LocalStorageAdapter implements IStorageAdapter {
 
     const updatedProjects = allProjects.map((project) => {
       const reordered = reorderedMap.get(project.id);
-      return reordered ? { ...project, order: reordered.order } : project;
+      return reordered
+        ? {
+            ...project,
+            order: reordered.order,
+            updatedAt: reordered.updatedAt ?? project.updatedAt,
+            fieldTimestamps:
+              reordered.fieldTimestamps ?? project.fieldTimestamps,
+          }
+        : project;
     });
 
     this.writeToStorage(PROJECTS_KEY, updatedProjects);
@@ -143,6 +179,10 @@ export class LocalStorageAdapter implements IStorageAdapter {
     return this.readFromStorage<Tag[]>(TAGS_KEY, []);
   }
 
+  async getTag(id: string): Promise<Tag | undefined> {
+    return (await this.getTags()).find((t) => t.id === id);
+  }
+
   async addTag(tag: Tag): Promise<void> {
     const tags = await this.getTags();
     tags.push(tag);
@@ -241,7 +281,122 @@ export class LocalStorageAdapter implements IStorageAdapter {
       "[LocalStorageAdapter] Saved to localStorage, key:",
       TODAY_KEY,
       "value:",
-      window.localStorage.getItem(TODAY_KEY),
+      window.localStorage.getItem(userKey(TODAY_KEY)),
     );
   }
+
+  // ========== FocusSession Methods ==========
+
+  async getFocusSessions(): Promise<FocusSession[]> {
+    return this.readFromStorage<FocusSession[]>(FOCUS_SESSIONS_KEY, []);
+  }
+
+  async addFocusSession(session: FocusSession): Promise<void> {
+    const sessions = await this.getFocusSessions();
+    if (!sessions.some((s) => s.id === session.id)) {
+      sessions.push(session);
+      this.writeToStorage(FOCUS_SESSIONS_KEY, sessions);
+    }
+  }
+
+  async deleteFocusSession(id: string): Promise<void> {
+    const sessions = await this.getFocusSessions();
+    const filtered = sessions.filter((s) => s.id !== id);
+    this.writeToStorage(FOCUS_SESSIONS_KEY, filtered);
+  }
+
+  // ========== ProjectMember Methods ==========
+
+  // Members are only changed on the remote; this is the copy from the last pull
+  async getProjectMembers(): Promise<ProjectMember[]> {
+    return this.readFromStorage<ProjectMember[]>(PROJECT_MEMBERS_KEY, []);
+  }
+
+  async saveProjectMembers(members: ProjectMember[]): Promise<void> {
+    this.writeToStorage(PROJECT_MEMBERS_KEY, members);
+  }
+
+  // ========== Sync Methods ==========
+
+  async getSyncCursors(): Promise<StoredSyncCursors | null> {
+    // Cursors without the data they cover (such as after clearing it) would skip rows
+    if (
+      typeof window === "undefined" ||
+      window.localStorage.getItem(userKey(TASKS_KEY)) === null
+    ) {
+      return null;
+    }
+    return this.readFromStorage<StoredSyncCursors | null>(
+      SYNC_CURSORS_KEY,
+      null,
+    );
+  }
+
+  async clearSyncCursors(): Promise<void> {
+    if (typeof window === "undefined") {
+      return;
+    }
+    window.localStorage.removeItem(userKey(SYNC_CURSORS_KEY));
+  }
+
+  async replaceData(
+    update: (local: DataSnapshot) => LocalReplacement,
+  ): Promise<void> {
+    if (typeof window === "undefined") {
+      return;
+    }
+
+    const { data, members, cursors } = update({
+      tasks: await this.getTasks(),
+      projects: await this.getProjects(),
+      tags: await this.getTags(),
+      taskTags: await this.getTaskTags(),
+      projectTags: await this.getProjectTags(),
+      focusSessions: await this.getFocusSessions(),
+      todayTasks: await this.getTodayTasks(),
+    });
+
+    // Unlike writeToStorage this throws, so the cursors are only saved with their data
+    const save = (key: string, value: unknown) =>
+      window.localStorage.setItem(userKey(key), JSON.stringify(value));
+    save(TASKS_KEY, data.tasks);
+    save(PROJECTS_KEY, data.projects);
+    save(TAGS_KEY, data.tags);
+    save(TASK_TAGS_KEY, data.taskTags);
+    save(PROJECT_TAGS_KEY, data.projectTags);
+    save(FOCUS_SESSIONS_KEY, data.focusSessions);
+    save(TODAY_KEY, data.todayTasks);
+    if (members) {
+      save(PROJECT_MEMBERS_KEY, members);
+    }
+    if (cursors) {
+      save(SYNC_CURSORS_KEY, cursors);
+    }
+  }
+
+  subscribeToOtherTabs(
+    listener: (collection: LocalCollection) => void,
+  ): () => void {
+    const collections: LocalCollection[] = [
+      TASKS_KEY,
+      PROJECTS_KEY,
+      TAGS_KEY,
+      TASK_TAGS_KEY,
+      PROJECT_TAGS_KEY,
+      TODAY_KEY,
+      FOCUS_SESSIONS_KEY,
+      PROJECT_MEMBERS_KEY,
+    ];
+
+    // The storage event only fires in the tabs that didn't make the change
+    const handleStorageChange = (e: StorageEvent) => {
+      const collection = collections.find((key) => e.key === userKey(key));
+      if (collection && e.newValue) {
+        listener(collection);
+      }
+    };
+
+    window.addEventListener("storage", handleStorageChange);
+    return () => window.removeEventListener("storage", handleStorageChange);
+  }
 }
@@ -0,0 +1,376 @@
+import type { CompletionHistory, FieldTimestamps } from "@/lib/types";
+
+/**
+ * Any synced entity that can be merged field by field (tasks, projects, tags)
+ */
+export interface MergeableRecord {
+  id: string;
+  createdAt: string;
+  updatedAt?: string;
+  fieldTimestamps?: FieldTimestamps;
+}
+
+/**
+ * Result of merging a local record with its remote counterpart
+ */
+export interface MergeResult<T> {
+  /** The merged record */
+  merged: T;
+  /** Fields where the local value won over the remote value */
+  localWins: string[];
+}
+
+/**
+ * Fields that describe the record itself and are never merged as data
+ */
+const METADATA_FIELDS = new Set(["id", "updatedAt", "fieldTimestamps"]);
+
+// Completion histories are merged day by day, with every day stamped under its own key
+const HISTORY_FIELD = "completionHistory";
+
+/**
+ * Key a day of a completion history is stamped under in fieldTimestamps
+ */
+export const historyDayKey = (dateKey: string): string =>
+  `${HISTORY_FIELD}.${dateKey}`;
+
+/**
+ * Check if a field holds user data (as opposed to sync metadata)
+ */
+export function isDataField(field: string): boolean {
+  return !METADATA_FIELDS.has(field);
+}
+
+/**
+ * Serialize a field value for equality checks and tiebreaks.
+ * null and undefined are treated as the same "empty" value.
+ */
+const serialize = (value: unknown): string => JSON.stringify(value ?? null);
+
+/**
+ * Convert an ISO timestamp to milliseconds, treating missing values as the epoch
+ */
+const toMillis = (timestamp?: string): number =>
+  timestamp ? Date.parse(timestamp) || 0 : 0;
+
+/**
+ * Return the later of two ISO timestamps
+ */
+const latest = (a?: string, b?: string): string | undefined =>
+  toMillis(a) >= toMillis(b) ? (a ?? b) : b;
+
+/**
+ * Stamp a partial update with the time it was made, so it can later be merged
+ * field by field against edits made on other devices.
+ * Existing field timestamps are carried over so the full map is always synced.
+ * Every day a completion history update changes is stamped too, except days the day
+ * rollover marks missed: every device marks those, and they give way to whatever
+ * another device recorded for the day.
+ */
+export function stampUpdates<T extends MergeableRecord>(
+  updates: Partial<T>,
+  existing?: T,
+  now = new Date().toISOString(),
+): Partial<T> {
+  const fieldTimestamps: FieldTimestamps = {
+    ...(existing?.fieldTimestamps || {}),
+  };
+
+  for (const field of Object.keys(updates)) {
+    if (isDataField(field)) {
+      fieldTimestamps[field] = now;
+    }
+  }
+
+  const history = historyOf(updates);
+  if (history !== undefined) {
+    const before = historyOf(existing) ?? {};
+    const after = history ?? {};
+    for (const day of new Set([
+      ...Object.keys(before),
+      ...Object.keys(after),
+    ])) {
+      if (after[day] === before[day]) continue;
+      if (after[day] === "missed" && before[day] === undefined) continue;
+      fieldTimestamps[historyDayKey(day)] = now;
+    }
+  }
+
+  return { ...updates, updatedAt: now, fieldTimestamps };
+}
+
+const historyOf = (
+  record: object | undefined,
+): CompletionHistory | null | undefined =>
+  (
+    record as Record<string, CompletionHistory | null | undefined> | undefined
+  )?.[HISTORY_FIELD];
+
+// Which of two unstamped entries for a day wins: anything recorded beats a "missed"
+// mark of the day rollover, which beats nothing
+const entryRank = (entry: CompletionHistory[string] | undefined): number =>
+  entry === undefined ? 0 : entry === "missed" ? 1 : 2;
+
+/**
+ * Merge two completion histories day by day.
+ * - The entry (or removal) with the later day stamp wins
+ * - Between unstamped entries (the day rollover's "missed" marks, and entries from
+ *   before days were stamped), whatever was recorded wins over a "missed" mark
+ * - Ties are broken by comparing the entries, so every device picks the same winner
+ *
+ * Days are kept in the remote's order, so an unchanged history compares equal to it.
+ */
+export function mergeCompletionHistory(
+  local: CompletionHistory | null | undefined,
+  localStamps: FieldTimestamps | undefined,
+  remote: CompletionHistory | null | undefined,
+  remoteStamps: FieldTimestamps | undefined,
+): { history: CompletionHistory; stamps: FieldTimestamps } {
+  const localHistory = local ?? {};
+  const remoteHistory = remote ?? {};
+  const history: CompletionHistory = {};
+  const stamps: FieldTimestamps = {};
+  const days = new Set([
+    ...Object.keys(remoteHistory),
+    ...Object.keys(localHistory),
+  ]);
+
+  for (const day of days) {
+    const key = historyDayKey(day);
+    const localStamp = localStamps?.[key];
+    const remoteStamp = remoteStamps?.[key];
+    const localEntry = localHistory[day];
+    const remoteEntry = remoteHistory[day];
+
+    let useLocal = false;
+    if (localEntry !== remoteEntry) {
+      const diff = toMillis(localStamp) - toMillis(remoteStamp);
+      const rankDiff =
+        localStamp || remoteStamp
+          ? 0
+          : entryRank(localEntry) - entryRank(remoteEntry);
+      useLocal =
+        diff > 0 ||
+        (diff === 0 &&
+          (rankDiff > 0 ||
+            (rankDiff === 0 &&
+              serialize(localEntry) > serialize(remoteEntry))));
+    }
+
+    const entry = useLocal ? localEntry : remoteEntry;
+    if (entry !== undefined) history[day] = entry;
+    const stamp =
+      localEntry === remoteEntry
+        ? latest(localStamp, remoteStamp)
+        : useLocal
+          ? localStamp
+          : remoteStamp;
+    if (stamp) stamps[key] = stamp;
+  }
+
+  return { history, stamps };
+}
+
+/**
+ * The record a write leaves stored, merged into the stored record the way the remote's
+ * merge_field_timestamps trigger does (see migrations V16 and V17):
+ * - Fields stamped later in the stored record than in the write keep their stored value
+ * - Days of a completion history are kept or replaced the same way by their day stamps.
+ *   Days stamped on neither side keep a stored entry the write leaves out, and a stored
+ *   entry wins over a "missed" mark written over it.
+ * - Field timestamps are merged, keeping the later stamp of each
+ */
+export function mergeWrite<T extends MergeableRecord>(
+  stored: T,
+  written: Partial<T>,
+): T {
+  const storedRecord = stored as unknown as Record<string, unknown>;
+  const merged: Record<string, unknown> = { ...storedRecord, ...written };
+  const fieldTimestamps: FieldTimestamps = {
+    ...(merged.fieldTimestamps as FieldTimestamps | undefined),
+  };
+  const storedHistory = historyOf(stored) ?? {};
+  const writtenHistory = historyOf(merged) ?? {};
+  const history: CompletionHistory = { ...writtenHistory };
+  const dayPrefix = historyDayKey("");
+
+  for (const [field, stamp] of Object.entries(stored.fieldTimestamps ?? {})) {
+    const writtenStamp = fieldTimestamps[field];
+    if (writtenStamp && toMillis(writtenStamp) >= toMillis(stamp)) continue;
+
+    fieldTimestamps[field] = stamp;
+    if (field.startsWith(dayPrefix)) {
+      const day = field.slice(dayPrefix.length);
+      if (day in storedHistory) {
+        history[day] = storedHistory[day];
+      } else {
+        delete history[day];
+      }
+    } else if (field !== HISTORY_FIELD) {
+      merged[field] = storedRecord[field];
+    }
+  }
+
+  for (const [day, entry] of Object.entries(storedHistory)) {
+    if (historyDayKey(day) in fieldTimestamps) continue;
+    if (
+      !(day in history) ||
+      (history[day] === "missed" && entry !== "missed")
+    ) {
+      history[day] = entry;
+    }
+  }
+
+  if (serialize(history) !== serialize(writtenHistory)) {
+    merged[HISTORY_FIELD] = history;
+  }
+  if (Object.keys(fieldTimestamps).length > 0) {
+    merged.fieldTimestamps = fieldTimestamps;
+  }
+  return merged as unknown as T;
+}
+
+/**
+ * Merge a local record with its remote counterpart using last-writer-wins per field.
+ *
+ * - The value with the later field timestamp wins
+ * - A field that was never stamped on either side keeps the remote value
+ * - Equal timestamps with different values are broken by comparing the serialized
+ *   values, so every device picks the same winner regardless of which side is "local"
+ * - Completion histories are merged day by day (see mergeCompletionHistory)
+ */
+export function mergeRecord<T extends MergeableRecord>(
+  local: T,
+  remote: T,
+): MergeResult<T> {
+  const localRecord = local as unknown as Record<string, unknown>;
+  const remoteRecord = remote as unknown as Record<string, unknown>;
+  const merged: Record<string, unknown> = { ...remoteRecord };
+  const fieldTimestamps: FieldTimestamps = {};
+  const localWins: string[] = [];
+
+  const fields = new Set([
+    ...Object.keys(localRecord),
+    ...Object.keys(remoteRecord),
+  ]);
+
+  for (const field of fields) {
+    if (!isDataField(field)) continue;
+
+    if (field === HISTORY_FIELD) {
+      const { history, stamps } = mergeCompletionHistory(
+        historyOf(local),
+        local.fieldTimestamps,
+        historyOf(remote),
+        remote.fieldTimestamps,
+      );
+      const remoteHistory = remoteRecord[field];
+      if (Object.keys(history).length > 0 || remoteHistory) {
+        merged[field] = history;
+      }
+      if (serialize(merged[field]) !== serialize(remoteHistory)) {
+        localWins.push(field);
+      }
+      Object.assign(fieldTimestamps, stamps);
+      const stamp = latest(
+        local.fieldTimestamps?.[field],
+        remote.fieldTimestamps?.[field],
+      );
+      if (stamp) fieldTimestamps[field] = stamp;
+      continue;
+    }
+
+    const localStamp = local.fieldTimestamps?.[field];
+    const remoteStamp = remote.fieldTimestamps?.[field];
+    const localValue = serialize(localRecord[field]);
+    const remoteValue = serialize(remoteRecord[field]);
+
+    let useLocal = false;
+    if (localValue !== remoteValue && (localStamp || remoteStamp)) {
+      const diff = toMillis(localStamp) - toMillis(remoteStamp);
+      useLocal = diff > 0 || (diff === 0 && localValue > remoteValue);
+    }
+
+    if (useLocal) {
+      merged[field] = localRecord[field];
+      localWins.push(field);
+      if (localStamp) fieldTimestamps[field] = localStamp;
+    } else {
+      merged[field] = remoteRecord[field];
+      const stamp =
+        localValue === remoteValue
+          ? latest(localStamp, remoteStamp)
+          : remoteStamp;
+      if (stamp) fieldTimestamps[field] = stamp;
+    }
+  }
+
+  merged.updatedAt = latest(local.updatedAt, remote.updatedAt);
+  merged.fieldTimestamps = fieldTimestamps;
+
+  return { merged: merged as unknown as T, localWins };
+}
+
+/**
+ * Merge a local collection with the remote collection.
+ *
+ * - Records on both sides are merged with mergeRecord
+ * - Records only on the remote are taken as-is, unless a local delete is still queued
+ * - Records only on the local side are kept while their add is still queued,
+ *   otherwise they were deleted on another device and are dropped
+ */
+export function mergeCollections<T extends MergeableRecord>(
+  local: T[],
+  remote: T[],
+  pending: { added: Set<string>; deleted: Set<string> },
+): { merged: T[]; localWins: Map<string, string[]> } {
+  const localById = new Map(local.map((record) => [record.id, record]));
+  const remoteIds = new Set(remote.map((record) => record.id));
+  const localWins = new Map<string, string[]>();
+  const merged: T[] = [];
+
+  for (const remoteRecord of remote) {
+    if (pending.deleted.has(remoteRecord.id)) continue;
+
+    const localRecord = localById.get(remoteRecord.id);
+    if (!localRecord) {
+      merged.push(remoteRecord);
+      continue;
+    }
+
+    const result = mergeRecord(localRecord, remoteRecord);
+    merged.push(result.merged);
+    if (result.localWins.length > 0) {
+      localWins.set(remoteRecord.id, result.localWins);
+    }
+  }
+
+  for (const localRecord of local) {
+    if (!remoteIds.has(localRecord.id) && pending.added.has(localRecord.id)) {
+      merged.push(localRecord);
+    }
+  }
+
+  return { merged, localWins };
+}
+
+/**
+ * Merge a relationship table (task_tags, project_tags) where rows are either present or not.
+ * The remote set wins, except for links whose add or remove is still queued locally.
+ */
+export function mergeLinks<T>(
+  local: T[],
+  remote: T[],
+  getKey: (link: T) => string,
+  pending: { added: Set<string>; removed: Set<string> },
+): T[] {
+  const remoteKeys = new Set(remote.map(getKey));
+
+  return [
+    ...remote.filter((link) => !pending.removed.has(getKey(link))),
+    ...local.filter((link) => {
+      const key = getKey(link);
+      return pending.added.has(key) && !remoteKeys.has(key);
+    }),
+  ];
+}
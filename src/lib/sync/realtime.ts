@@ -0,0 +1,250 @@
+import type {
+  IRealtimeChannel,
+  RealtimeChange,
+  RealtimeHandlers,
+} from "./types";
+
+// Supabase Realtime drops sockets that go quiet for longer than 30 seconds
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+// Wait before each reconnect attempt, the last one repeating until it works
+const RECONNECT_DELAYS_MS = [1000, 2000, 5000, 10000, 30000];
+
+const TOPIC = "realtime:sync";
+
+/**
+ * A message of the Phoenix channels protocol Supabase Realtime speaks
+ */
+interface PhoenixMessage {
+  topic: string;
+  event: string;
+  payload: Record<string, unknown>;
+  ref: string | null;
+}
+
+/**
+ * Realtime channel over Supabase Realtime's WebSocket.
+ * Subscribes to every change to the tables in the supabase_realtime publication
+ * (see V15__enable_realtime.sql). The server checks each change against row-level
+ * security with the user's token, so only their own and shared rows are announced.
+ */
+export class SupabaseRealtimeChannel implements IRealtimeChannel {
+  private apiUrl: string;
+  private apiKey: string;
+  private getAccessToken?: () => Promise<string | null>;
+  private handlers: RealtimeHandlers | null = null;
+  private socket: WebSocket | null = null;
+  private accessToken: string | null = null;
+  private heartbeatId: number | null = null;
+  private reconnectId: number | null = null;
+  private attempts = 0;
+  private ref = 0;
+  private joinRef: string | null = null;
+  // Bumped on every connect and disconnect, so opens started before are dropped
+  private generation = 0;
+
+  /**
+   * @param getAccessToken Returns the signed-in user's token, if there are users.
+   * Tokens expire, so a new one is sent whenever it changes.
+   */
+  constructor(
+    apiUrl: string,
+    apiKey: string,
+    getAccessToken?: () => Promise<string | null>,
+  ) {
+    this.apiUrl = apiUrl;
+    this.apiKey = apiKey;
+    this.getAccessToken = getAccessToken;
+  }
+
+  connect(handlers: RealtimeHandlers): void {
+    this.close();
+    this.handlers = handlers;
+    void this.open(this.generation);
+  }
+
+  disconnect(): void {
+    this.close();
+    this.handlers = null;
+  }
+
+  /**
+   * Close the socket and drop any open still fetching its token
+   */
+  private close(): void {
+    this.generation += 1;
+    this.stopTimers();
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+  }
+
+  /**
+   * Open the socket and join the channel once it is connected
+   */
+  private async open(generation: number): Promise<void> {
+    let token: string | null;
+    try {
+      token = await this.getToken();
+    } catch (error) {
+      console.error("[Realtime] Failed to get access token:", error);
+      token = null;
+    }
+    // Disconnected or connected again while the token was fetched
+    if (generation !== this.generation) return;
+    this.accessToken = token;
+    if (!this.accessToken) {
+      this.scheduleReconnect();
+      return;
+    }
+
+    const url = `${this.apiUrl.replace(/^http/, "ws")}/realtime/v1/websocket?apikey=${encodeURIComponent(this.apiKey)}&vsn=1.0.0`;
+    const socket = new WebSocket(url);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.joinRef = this.send("phx_join", {
+        config: {
+          postgres_changes: [{ event: "*", schema: "public" }],
+        },
+        access_token: this.accessToken,
+      });
+      this.heartbeatId = window.setInterval(
+        () => void this.heartbeat(),
+        HEARTBEAT_INTERVAL_MS,
+      );
+    };
+    socket.onmessage = (event) => {
+      this.handleMessage(JSON.parse(event.data as string) as PhoenixMessage);
+    };
+    socket.onclose = () => {
+      // Ignore sockets replaced by a newer one
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.stopTimers();
+      if (this.handlers) {
+        this.scheduleReconnect();
+      }
+    };
+  }
+
+  private handleMessage(message: PhoenixMessage): void {
+    if (message.topic !== TOPIC) return;
+
+    switch (message.event) {
+      case "phx_reply": {
+        // Only the reply to the join matters: heartbeats are answered on their own topic
+        if (message.ref !== this.joinRef) return;
+        if (message.payload.status === "ok") {
+          console.log("[Realtime] Connected");
+          this.attempts = 0;
+          this.handlers?.onConnect();
+        } else {
+          console.error("[Realtime] Failed to join:", message.payload);
+          this.socket?.close();
+        }
+        break;
+      }
+      case "postgres_changes": {
+        const data = message.payload.data as RealtimeChange | undefined;
+        if (data) {
+          this.handlers?.onChange({ table: data.table, type: data.type });
+        }
+        break;
+      }
+      case "phx_error":
+      case "phx_close":
+        this.socket?.close();
+        break;
+    }
+  }
+
+  /**
+   * Keep the socket alive, sending the token again if it was renewed
+   */
+  private async heartbeat(): Promise<void> {
+    this.send("heartbeat", {}, "phoenix");
+
+    const token = await this.getToken().catch(() => null);
+    if (token && token !== this.accessToken) {
+      this.accessToken = token;
+      this.send("access_token", { access_token: token });
+    }
+  }
+
+  private getToken(): Promise<string | null> {
+    return this.getAccessToken
+      ? this.getAccessToken()
+      : Promise.resolve(this.apiKey);
+  }
+
+  /**
+   * Send a message if the socket is open, returning its ref
+   */
+  private send(
+    event: string,
+    payload: Record<string, unknown>,
+    topic = TOPIC,
+  ): string | null {
+    if (this.socket?.readyState !== WebSocket.OPEN) return null;
+
+    this.ref += 1;
+    const message: PhoenixMessage = {
+      topic,
+      event,
+      payload,
+      ref: String(this.ref),
+    };
+    this.socket.send(JSON.stringify(message));
+    return message.ref;
+  }
+
+  private scheduleReconnect(): void {
+    const delay =
+      RECONNECT_DELAYS_MS[
+        Math.min(this.attempts, RECONNECT_DELAYS_MS.length - 1)
+      ];
+    this.attempts += 1;
+    console.log(`[Realtime] Reconnecting in ${delay}ms`);
+    this.reconnectId = window.setTimeout(() => {
+      this.reconnectId = null;
+      void this.open(this.generation);
+    }, delay);
+  }
+
+  private stopTimers(): void {
+    if (this.heartbeatId !== null) {
+      window.clearInterval(this.heartbeatId);
+      this.heartbeatId = null;
+    }
+    if (this.reconnectId !== null) {
+      window.clearTimeout(this.reconnectId);
+      this.reconnectId = null;
+    }
+  }
+}
+
+/**
+ * In-memory stand-in for a realtime channel, used in tests:
+ * changes are announced by calling emit
+ */
+export class LocalRealtimeChannel implements IRealtimeChannel {
+  private handlers: RealtimeHandlers | null = null;
+
+  connect(handlers: RealtimeHandlers): void {
+    this.handlers = handlers;
+    handlers.onConnect();
+  }
+
+  disconnect(): void {
+    this.handlers = null;
+  }
+
+  isConnected(): boolean {
+    return this.handlers !== null;
+  }
+
+  emit(change: RealtimeChange): void {
+    this.handlers?.onChange(change);
+  }
+}
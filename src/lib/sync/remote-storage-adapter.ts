@@ -1,24 +1,63 @@
 import { env } from "@/env.mjs";
 import type {
+  CompletionHistory,
+  FieldTimestamps,
+  FocusSession,
   Project,
+  ProjectInvite,
+  ProjectMember,
+  ProjectRole,
   ProjectTag,
+  Reminder,
   Tag,
   Task,
   TaskTag,
   TodayTask,
 } from "@/lib/types";
 
-import type { IStorageAdapter } from "./types";
+import { RemoteApiError } from "./errors";
+import { SupabaseRealtimeChannel } from "./realtime";
+import type {
+  IBulkSyncAdapter,
+  IDeltaSyncAdapter,
+  IRealtimeAdapter,
+  IRealtimeChannel,
+  ISharingAdapter,
+  IStorageAdapter,
+  RemoteChanges,
+  SyncCursors,
+  Tombstone,
+} from "./types";
+
+/**
+ * How far back each incremental pull reaches before the stored cursor.
+ * updated_at is the transaction start time, so a long transaction can commit rows
+ * older than a cursor another pull already advanced past. Re-fetching the overlap is
+ * harmless because merging is idempotent.
+ */
+const CURSOR_OVERLAP_MS = 60 * 1000;
 
 /**
  * RemoteStorageAdapter implements the IStorageAdapter interface using PostgREST/Supabase API.
  * All operations communicate with the remote database via REST endpoints.
  */
-export class RemoteStorageAdapter implements IStorageAdapter {
+export class RemoteStorageAdapter
+  implements
+    IStorageAdapter,
+    IDeltaSyncAdapter,
+    IBulkSyncAdapter,
+    ISharingAdapter,
+    IRealtimeAdapter
+{
   private apiUrl: string;
   private apiKey: string;
+  private getAccessToken?: () => Promise<string | null>;
 
-  constructor() {
+  /**
+   * @param getAccessToken Returns the signed-in user's token for the API, if any.
+   * Row-level security limits each request to that user's rows.
+   */
+  constructor(getAccessToken?: () => Promise<string | null>) {
     const apiUrl = env.NEXT_PUBLIC_SUPABASE_URL;
     const apiKey = env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
 
@@ -30,6 +69,7 @@ export class RemoteStorageAdapter implements IStorageAdapter {
 
     this.apiUrl = apiUrl;
     this.apiKey = apiKey;
+    this.getAccessToken = getAccessToken;
   }
 
   /**
@@ -51,20 +91,27 @@ export class RemoteStorageAdapter implements IStorageAdapter {
    * Helper to handle API responses
    */
   private async handleResponse<T>(response: Response): Promise<T> {
+    await this.checkResponse(response);
+    return response.json() as Promise<T>;
+  }
+
+  /**
+   * Throw for an error response, keeping its status so the sync worker
+   * can tell a rejected operation from a temporary failure
+   */
+  private async checkResponse(response: Response): Promise<void> {
     if (!response.ok) {
       const error = await response.text();
-      throw new Error(`API error (${response.status}): ${error}`);
+      throw new RemoteApiError(response.status, error);
     }
-    return response.json() as Promise<T>;
   }
 
   /**
    * Get common headers for API requests
    */
-  private getHeaders(preferReturn = false): HeadersInit {
-    const headers: HeadersInit = {
+  private getHeaders(preferReturn = false): Record<string, string> {
+    const headers: Record<string, string> = {
       apikey: this.apiKey,
-      Authorization: `Bearer ${this.apiKey}`,
       "Content-Type": "application/json",
     };
 
@@ -75,14 +122,41 @@ export class RemoteStorageAdapter implements IStorageAdapter {
     return headers;
   }
 
+  /**
+   * Send a request as the signed-in user, or with the anon key when there are no users
+   */
+  private async request(url: string, init: RequestInit): Promise<Response> {
+    let token = this.apiKey;
+    if (this.getAccessToken) {
+      const accessToken = await this.getAccessToken();
+      // Never fall back to the anon key: it sees no rows, so a pull would look like
+      // everything had been deleted
+      if (!accessToken) {
+        throw new RemoteApiError(401, "Not signed in");
+      }
+      token = accessToken;
+    }
+
+    return fetch(url, {
+      ...init,
+      headers: {
+        ...(init.headers as Record<string, string>),
+        Authorization: `Bearer ${token}`,
+      },
+    });
+  }
+
   // ========== Task Methods ==========
 
   async getTasks(): Promise<Task[]> {
     try {
-      const response = await fetch(`${this.apiUrl}/rest/v1/tasks?select=*`, {
-        method: "GET",
-        headers: this.getHeaders(),
-      });
+      const response = await this.request(
+        `${this.apiUrl}/rest/v1/tasks?select=*`,
+        {
+          method: "GET",
+          headers: this.getHeaders(),
+        },
+      );
 
       const data = await this.handleResponse<unknown[]>(response);
       return data.map((item) => this.dbToTask(item as Record<string, unknown>));
@@ -96,11 +170,12 @@ export class RemoteStorageAdapter implements IStorageAdapter {
     try {
       const dbTask = this.taskToDb(task);
 
-      await fetch(`${this.apiUrl}/rest/v1/tasks`, {
+      const response = await this.request(`${this.apiUrl}/rest/v1/tasks`, {
         method: "POST",
         headers: this.getHeaders(true),
         body: JSON.stringify(dbTask),
       });
+      await this.checkResponse(response);
     } catch (error) {
       console.error("Failed to add task:", error);
       throw error;
@@ -111,11 +186,20 @@ export class RemoteStorageAdapter implements IStorageAdapter {
     try {
       const dbUpdates = this.taskToDb(updates);
 
-      await fetch(`${this.apiUrl}/rest/v1/tasks?id=eq.${id}`, {
-        method: "PATCH",
-        headers: this.getHeaders(),
-        body: JSON.stringify(dbUpdates),
-      });
+      const response = await this.request(
+        `${this.apiUrl}/rest/v1/tasks?id=eq.${id}`,
+        {
+          method: "PATCH",
+          headers: this.getHeaders(true),
+          body: JSON.stringify(dbUpdates),
+        },
+      );
+      // Row-level security answers a change the user may not make with no rows,
+      // so this is what tells a rejected update from a saved one
+      const rows = await this.handleResponse<unknown[]>(response);
+      if (rows.length === 0) {
+        throw new RemoteApiError(404, `No task ${id} that can be updated`);
+      }
     } catch (error) {
       console.error("Failed to update task:", error);
       throw error;
@@ -124,10 +208,14 @@ export class RemoteStorageAdapter implements IStorageAdapter {
 
   async deleteTask(id: string): Promise<void> {
     try {
-      await fetch(`${this.apiUrl}/rest/v1/tasks?id=eq.${id}`, {
-        method: "DELETE",
-        headers: this.getHeaders(),
-      });
+      const response = await this.request(
+        `${this.apiUrl}/rest/v1/tasks?id=eq.${id}`,
+        {
+          method: "DELETE",
+          headers: this.getHeaders(),
+        },
+      );
+      await this.checkResponse(response);
     } catch (error) {
       console.error("Failed to delete task:", error);
       throw error;
@@ -137,10 +225,13 @@ export class RemoteStorageAdapter implements IStorageAdapter {
   async reorderTasks(tasks: Task[]): Promise<void> {
     try {
       const updatePromises = tasks.map((task) =>
-        fetch(`${this.apiUrl}/rest/v1/tasks?id=eq.${task.id}`, {
+        this.request(`${this.apiUrl}/rest/v1/tasks?id=eq.${task.id}`, {
           method: "PATCH",
           headers: this.getHeaders(),
-          body: JSON.stringify({ order: task.order }),
+          body: JSON.stringify({
+            order: task.order,
+            field_timestamps: task.fieldTimestamps,
+          }),
         }),
       );
 
@@ -148,7 +239,10 @@ export class RemoteStorageAdapter implements IStorageAdapter {
       const failed = responses.filter((r) => !r.ok);
 
       if (failed.length > 0) {
-        throw new Error(`Failed to reorder ${failed.length} tasks`);
+        throw new RemoteApiError(
+          failed[0].status,
+          `Failed to reorder ${failed.length} tasks`,
+        );
       }
     } catch (error) {
       console.error("Failed to reorder tasks:", error);
@@ -160,10 +254,13 @@ export class RemoteStorageAdapter implements IStorageAdapter {
 
   async getProjects(): Promise<Project[]> {
     try {
-      const response = await fetch(`${this.apiUrl}/rest/v1/projects?select=*`, {
-        method: "GET",
-        headers: this.getHeaders(),
-      });
+      const response = await this.request(
+        `${this.apiUrl}/rest/v1/projects?select=*`,
+        {
+          method: "GET",
+          headers: this.getHeaders(),
+        },
+      );
 
       const data = await this.handleResponse<unknown[]>(response);
       return data.map((item) =>
@@ -179,11 +276,12 @@ export class RemoteStorageAdapter implements IStorageAdapter {
     try {
       const dbProject = this.projectToDb(project);
 
-      await fetch(`${this.apiUrl}/rest/v1/projects`, {
+      const response = await this.request(`${this.apiUrl}/rest/v1/projects`, {
         method: "POST",
         headers: this.getHeaders(true),
         body: JSON.stringify(dbProject),
       });
+      await this.checkResponse(response);
     } catch (error) {
       console.error("Failed to add project:", error);
       throw error;
@@ -194,11 +292,15 @@ export class RemoteStorageAdapter implements IStorageAdapter {
     try {
       const dbUpdates = this.projectToDb(updates);
 
-      await fetch(`${this.apiUrl}/rest/v1/projects?id=eq.${id}`, {
-        method: "PATCH",
-        headers: this.getHeaders(),
-        body: JSON.stringify(dbUpdates),
-      });
+      const response = await this.request(
+        `${this.apiUrl}/rest/v1/projects?id=eq.${id}`,
+        {
+          method: "PATCH",
+          headers: this.getHeaders(),
+          body: JSON.stringify(dbUpdates),
+        },
+      );
+      await this.checkResponse(response);
     } catch (error) {
       console.error("Failed to update project:", error);
       throw error;
@@ -207,10 +309,14 @@ export class RemoteStorageAdapter implements IStorageAdapter {
 
   async deleteProject(id: string): Promise<void> {
     try {
-      await fetch(`${this.apiUrl}/rest/v1/projects?id=eq.${id}`, {
-        method: "DELETE",
-        headers: this.getHeaders(),
-      });
+      const response = await this.request(
+        `${this.apiUrl}/rest/v1/projects?id=eq.${id}`,
+        {
+          method: "DELETE",
+          headers: this.getHeaders(),
+        },
+      );
+      await this.checkResponse(response);
     } catch (error) {
       console.error("Failed to delete project:", error);
       throw error;
@@ -220,10 +326,13 @@ export class RemoteStorageAdapter implements IStorageAdapter {
   async reorderProjects(projects: Project[]): Promise<void> {
     try {
       const updatePromises = projects.map((project) =>
-        fetch(`${this.apiUrl}/rest/v1/projects?id=eq.${project.id}`, {
+        this.request(`${this.apiUrl}/rest/v1/projects?id=eq.${project.id}`, {
           method: "PATCH",
           headers: this.getHeaders(),
-          body: JSON.stringify({ order: project.order }),
+          body: JSON.stringify({
+            order: project.order,
+            field_timestamps: project.fieldTimestamps,
+          }),
         }),
       );
 
@@ -231,7 +340,10 @@ export class RemoteStorageAdapter implements IStorageAdapter {
       const failed = responses.filter((r) => !r.ok);
 
       if (failed.length > 0) {
-        throw new Error(`Failed to reorder ${failed.length} projects`);
+        throw new RemoteApiError(
+          failed[0].status,
+          `Failed to reorder ${failed.length} projects`,
+        );
       }
     } catch (error) {
       console.error("Failed to reorder projects:", error);
@@ -243,10 +355,13 @@ export class RemoteStorageAdapter implements IStorageAdapter {
 
   async getTags(): Promise<Tag[]> {
     try {
-      const response = await fetch(`${this.apiUrl}/rest/v1/tags?select=*`, {
-        method: "GET",
-        headers: this.getHeaders(),
-      });
+      const response = await this.request(
+        `${this.apiUrl}/rest/v1/tags?select=*`,
+        {
+          method: "GET",
+          headers: this.getHeaders(),
+        },
+      );
 
       const data = await this.handleResponse<unknown[]>(response);
       return data.map((item) => this.dbToTag(item as Record<string, unknown>));
@@ -260,11 +375,12 @@ export class RemoteStorageAdapter implements IStorageAdapter {
     try {
       const dbTag = this.tagToDb(tag);
 
-      await fetch(`${this.apiUrl}/rest/v1/tags`, {
+      const response = await this.request(`${this.apiUrl}/rest/v1/tags`, {
         method: "POST",
         headers: this.getHeaders(true),
         body: JSON.stringify(dbTag),
       });
+      await this.checkResponse(response);
     } catch (error) {
       console.error("Failed to add tag:", error);
       throw error;
@@ -275,11 +391,15 @@ export class RemoteStorageAdapter implements IStorageAdapter {
     try {
       const dbUpdates = this.tagToDb(updates);
 
-      await fetch(`${this.apiUrl}/rest/v1/tags?id=eq.${id}`, {
-        method: "PATCH",
-        headers: this.getHeaders(),
-        body: JSON.stringify(dbUpdates),
-      });
+      const response = await this.request(
+        `${this.apiUrl}/rest/v1/tags?id=eq.${id}`,
+        {
+          method: "PATCH",
+          headers: this.getHeaders(),
+          body: JSON.stringify(dbUpdates),
+        },
+      );
+      await this.checkResponse(response);
     } catch (error) {
       console.error("Failed to update tag:", error);
       throw error;
@@ -288,10 +408,14 @@ export class RemoteStorageAdapter implements IStorageAdapter {
 
   async deleteTag(id: string): Promise<void> {
     try {
-      await fetch(`${this.apiUrl}/rest/v1/tags?id=eq.${id}`, {
-        method: "DELETE",
-        headers: this.getHeaders(),
-      });
+      const response = await this.request(
+        `${this.apiUrl}/rest/v1/tags?id=eq.${id}`,
+        {
+          method: "DELETE",
+          headers: this.getHeaders(),
+        },
+      );
+      await this.checkResponse(response);
     } catch (error) {
       console.error("Failed to delete tag:", error);
       throw error;
@@ -302,7 +426,7 @@ export class RemoteStorageAdapter implements IStorageAdapter {
 
   async getTaskTags(): Promise<TaskTag[]> {
     try {
-      const response = await fetch(
+      const response = await this.request(
         `${this.apiUrl}/rest/v1/task_tags?select=*`,
         {
           method: "GET",
@@ -322,7 +446,7 @@ export class RemoteStorageAdapter implements IStorageAdapter {
 
   async addTaskTag(taskId: string, tagId: string): Promise<void> {
     try {
-      await fetch(`${this.apiUrl}/rest/v1/task_tags`, {
+      const response = await this.request(`${this.apiUrl}/rest/v1/task_tags`, {
         method: "POST",
         headers: this.getHeaders(true),
         body: JSON.stringify({
@@ -331,6 +455,7 @@ export class RemoteStorageAdapter implements IStorageAdapter {
           created_at: new Date().toISOString(),
         }),
       });
+      await this.checkResponse(response);
     } catch (error) {
       console.error("Failed to add task tag:", error);
       throw error;
@@ -339,13 +464,14 @@ export class RemoteStorageAdapter implements IStorageAdapter {
 
   async removeTaskTag(taskId: string, tagId: string): Promise<void> {
     try {
-      await fetch(
+      const response = await this.request(
         `${this.apiUrl}/rest/v1/task_tags?task_id=eq.${taskId}&tag_id=eq.${tagId}`,
         {
           method: "DELETE",
           headers: this.getHeaders(),
         },
       );
+      await this.checkResponse(response);
     } catch (error) {
       console.error("Failed to remove task tag:", error);
       throw error;
@@ -356,7 +482,7 @@ export class RemoteStorageAdapter implements IStorageAdapter {
 
   async getProjectTags(): Promise<ProjectTag[]> {
     try {
-      const response = await fetch(
+      const response = await this.request(
         `${this.apiUrl}/rest/v1/project_tags?select=*`,
         {
           method: "GET",
@@ -376,15 +502,19 @@ export class RemoteStorageAdapter implements IStorageAdapter {
 
   async addProjectTag(projectId: string, tagId: string): Promise<void> {
     try {
-      await fetch(`${this.apiUrl}/rest/v1/project_tags`, {
-        method: "POST",
-        headers: this.getHeaders(true),
-        body: JSON.stringify({
-          project_id: projectId,
-          tag_id: tagId,
-          created_at: new Date().toISOString(),
-        }),
-      });
+      const response = await this.request(
+        `${this.apiUrl}/rest/v1/project_tags`,
+        {
+          method: "POST",
+          headers: this.getHeaders(true),
+          body: JSON.stringify({
+            project_id: projectId,
+            tag_id: tagId,
+            created_at: new Date().toISOString(),
+          }),
+        },
+      );
+      await this.checkResponse(response);
     } catch (error) {
       console.error("Failed to add project tag:", error);
       throw error;
@@ -393,13 +523,14 @@ export class RemoteStorageAdapter implements IStorageAdapter {
 
   async removeProjectTag(projectId: string, tagId: string): Promise<void> {
     try {
-      await fetch(
+      const response = await this.request(
         `${this.apiUrl}/rest/v1/project_tags?project_id=eq.${projectId}&tag_id=eq.${tagId}`,
         {
           method: "DELETE",
           headers: this.getHeaders(),
         },
       );
+      await this.checkResponse(response);
     } catch (error) {
       console.error("Failed to remove project tag:", error);
       throw error;
@@ -410,7 +541,7 @@ export class RemoteStorageAdapter implements IStorageAdapter {
 
   async getTodayTasks(): Promise<TodayTask[]> {
     try {
-      const response = await fetch(
+      const response = await this.request(
         `${this.apiUrl}/rest/v1/today_tasks?select=*`,
         {
           method: "GET",
@@ -435,10 +566,14 @@ export class RemoteStorageAdapter implements IStorageAdapter {
       console.log("Deleting today tasks...");
       for await (const task of todayTasks) {
       }
-      await fetch(`${this.apiUrl}/rest/v1/today_tasks?task_id=is.not_null`, {
-        method: "DELETE",
-        headers: this.getHeaders(),
-      });
+      const deleted = await this.request(
+        `${this.apiUrl}/rest/v1/today_tasks?task_id=is.not_null`,
+        {
+          method: "DELETE",
+          headers: this.getHeaders(),
+        },
+      );
+      await this.checkResponse(deleted);
 
       // Step 2: Insert new ones if there are any (using upsert to handle conflicts)
       if (todayTasks.length > 0) {
@@ -449,14 +584,18 @@ export class RemoteStorageAdapter implements IStorageAdapter {
 
         // Use upsert to handle conflicts (merge duplicates)
         console.log("Inserting today tasks...");
-        await fetch(`${this.apiUrl}/rest/v1/today_tasks`, {
-          method: "POST",
-          headers: {
-            ...this.getHeaders(true),
-            Prefer: "resolution=merge-duplicates",
+        const response = await this.request(
+          `${this.apiUrl}/rest/v1/today_tasks`,
+          {
+            method: "POST",
+            headers: {
+              ...this.getHeaders(true),
+              Prefer: "resolution=merge-duplicates",
+            },
+            body: JSON.stringify(dbTodayTasks),
           },
-          body: JSON.stringify(dbTodayTasks),
-        });
+        );
+        await this.checkResponse(response);
       }
     } catch (error) {
       console.error("Failed to save today tasks:", error);
@@ -464,12 +603,413 @@ export class RemoteStorageAdapter implements IStorageAdapter {
     }
   }
 
+  // ========== FocusSession Methods ==========
+
+  async getFocusSessions(): Promise<FocusSession[]> {
+    try {
+      const response = await this.request(
+        `${this.apiUrl}/rest/v1/focus_sessions?select=*`,
+        {
+          method: "GET",
+          headers: this.getHeaders(),
+        },
+      );
+
+      const data = await this.handleResponse<unknown[]>(response);
+      return data.map((item) =>
+        this.dbToFocusSession(item as Record<string, unknown>),
+      );
+    } catch (error) {
+      console.error("Failed to fetch focus sessions:", error);
+      throw error;
+    }
+  }
+
+  async addFocusSession(session: FocusSession): Promise<void> {
+    try {
+      const response = await this.request(
+        `${this.apiUrl}/rest/v1/focus_sessions`,
+        {
+          method: "POST",
+          headers: this.getHeaders(true),
+          body: JSON.stringify(this.focusSessionToDb(session)),
+        },
+      );
+      await this.checkResponse(response);
+    } catch (error) {
+      console.error("Failed to add focus session:", error);
+      throw error;
+    }
+  }
+
+  async deleteFocusSession(id: string): Promise<void> {
+    try {
+      const response = await this.request(
+        `${this.apiUrl}/rest/v1/focus_sessions?id=eq.${id}`,
+        {
+          method: "DELETE",
+          headers: this.getHeaders(),
+        },
+      );
+      await this.checkResponse(response);
+    } catch (error) {
+      console.error("Failed to delete focus session:", error);
+      throw error;
+    }
+  }
+
+  // ========== Sharing Methods ==========
+
+  async getProjectMembers(): Promise<ProjectMember[]> {
+    try {
+      const response = await this.request(
+        `${this.apiUrl}/rest/v1/project_members?select=*`,
+        {
+          method: "GET",
+          headers: this.getHeaders(),
+        },
+      );
+
+      const data = await this.handleResponse<unknown[]>(response);
+      return data.map((item) =>
+        this.dbToProjectMember(item as Record<string, unknown>),
+      );
+    } catch (error) {
+      console.error("Failed to fetch project members:", error);
+      throw error;
+    }
+  }
+
+  async updateProjectMember(
+    projectId: string,
+    userId: string,
+    role: ProjectRole,
+  ): Promise<void> {
+    try {
+      const response = await this.request(
+        `${this.apiUrl}/rest/v1/project_members?project_id=eq.${projectId}&user_id=eq.${encodeURIComponent(userId)}`,
+        {
+          method: "PATCH",
+          headers: this.getHeaders(),
+          body: JSON.stringify({ role }),
+        },
+      );
+      await this.checkResponse(response);
+    } catch (error) {
+      console.error("Failed to update project member:", error);
+      throw error;
+    }
+  }
+
+  async removeProjectMember(projectId: string, userId: string): Promise<void> {
+    try {
+      const response = await this.request(
+        `${this.apiUrl}/rest/v1/project_members?project_id=eq.${projectId}&user_id=eq.${encodeURIComponent(userId)}`,
+        {
+          method: "DELETE",
+          headers: this.getHeaders(),
+        },
+      );
+      await this.checkResponse(response);
+    } catch (error) {
+      console.error("Failed to remove project member:", error);
+      throw error;
+    }
+  }
+
+  async getProjectInvites(): Promise<ProjectInvite[]> {
+    try {
+      const response = await this.request(
+        `${this.apiUrl}/rest/v1/project_invites?select=*`,
+        {
+          method: "GET",
+          headers: this.getHeaders(),
+        },
+      );
+
+      const data = await this.handleResponse<unknown[]>(response);
+      return data.map((item) =>
+        this.dbToProjectInvite(item as Record<string, unknown>),
+      );
+    } catch (error) {
+      console.error("Failed to fetch project invites:", error);
+      throw error;
+    }
+  }
+
+  async addProjectInvite(invite: ProjectInvite): Promise<void> {
+    try {
+      const response = await this.request(
+        `${this.apiUrl}/rest/v1/project_invites`,
+        {
+          method: "POST",
+          headers: this.getHeaders(true),
+          body: JSON.stringify({
+            id: invite.id,
+            project_id: invite.projectId,
+            project_name: invite.projectName,
+            email: invite.email,
+            role: invite.role,
+            created_at: invite.createdAt,
+          }),
+        },
+      );
+      await this.checkResponse(response);
+    } catch (error) {
+      console.error("Failed to add project invite:", error);
+      throw error;
+    }
+  }
+
+  async acceptProjectInvite(id: string): Promise<void> {
+    try {
+      const response = await this.request(
+        `${this.apiUrl}/rest/v1/rpc/accept_project_invite`,
+        {
+          method: "POST",
+          headers: this.getHeaders(),
+          body: JSON.stringify({ invite_id: id }),
+        },
+      );
+      await this.checkResponse(response);
+    } catch (error) {
+      console.error("Failed to accept project invite:", error);
+      throw error;
+    }
+  }
+
+  async deleteProjectInvite(id: string): Promise<void> {
+    try {
+      const response = await this.request(
+        `${this.apiUrl}/rest/v1/project_invites?id=eq.${id}`,
+        {
+          method: "DELETE",
+          headers: this.getHeaders(),
+        },
+      );
+      await this.checkResponse(response);
+    } catch (error) {
+      console.error("Failed to delete project invite:", error);
+      throw error;
+    }
+  }
+
+  // ========== Bulk Upsert Methods ==========
+
+  async upsertTasks(tasks: Task[]): Promise<void> {
+    await this.upsertRows(
+      "tasks",
+      tasks.map((task) => this.taskToDb(task)),
+    );
+  }
+
+  async upsertProjects(projects: Project[]): Promise<void> {
+    await this.upsertRows(
+      "projects",
+      projects.map((project) => this.projectToDb(project)),
+    );
+  }
+
+  async upsertTags(tags: Tag[]): Promise<void> {
+    await this.upsertRows(
+      "tags",
+      tags.map((tag) => this.tagToDb(tag)),
+    );
+  }
+
+  async upsertTaskTags(
+    taskTags: { taskId: string; tagId: string }[],
+  ): Promise<void> {
+    const createdAt = new Date().toISOString();
+    await this.upsertRows(
+      "task_tags",
+      taskTags.map(({ taskId, tagId }) => ({
+        task_id: taskId,
+        tag_id: tagId,
+        created_at: createdAt,
+      })),
+    );
+  }
+
+  async upsertProjectTags(
+    projectTags: { projectId: string; tagId: string }[],
+  ): Promise<void> {
+    const createdAt = new Date().toISOString();
+    await this.upsertRows(
+      "project_tags",
+      projectTags.map(({ projectId, tagId }) => ({
+        project_id: projectId,
+        tag_id: tagId,
+        created_at: createdAt,
+      })),
+    );
+  }
+
+  async upsertFocusSessions(sessions: FocusSession[]): Promise<void> {
+    await this.upsertRows(
+      "focus_sessions",
+      sessions.map((session) => this.focusSessionToDb(session)),
+    );
+  }
+
+  /**
+   * Insert rows with a single array POST, updating rows whose primary key already exists.
+   * PostgREST needs every row to have the same columns, so the full column list is
+   * passed and columns a row leaves out get their defaults.
+   */
+  private async upsertRows(
+    table: string,
+    rows: Record<string, unknown>[],
+  ): Promise<void> {
+    if (rows.length === 0) return;
+
+    try {
+      const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+      const response = await this.request(
+        `${this.apiUrl}/rest/v1/${table}?columns=${columns.join(",")}`,
+        {
+          method: "POST",
+          headers: {
+            ...this.getHeaders(),
+            Prefer: "resolution=merge-duplicates,missing=default",
+          },
+          body: JSON.stringify(rows),
+        },
+      );
+
+      await this.checkResponse(response);
+    } catch (error) {
+      console.error(`Failed to upsert ${rows.length} ${table}:`, error);
+      throw error;
+    }
+  }
+
+  // ========== Delta Sync Methods ==========
+
+  /**
+   * Fetch rows changed since the given cursors, plus tombstones for deleted rows.
+   * Tables without a cursor are fetched in full.
+   */
+  async getChangesSince(cursors: SyncCursors): Promise<RemoteChanges> {
+    try {
+      const [
+        tasks,
+        projects,
+        tags,
+        taskTags,
+        projectTags,
+        focusSessions,
+        tombstones,
+      ] = await Promise.all([
+        this.fetchRowsSince("tasks", "updated_at", cursors.tasks),
+        this.fetchRowsSince("projects", "updated_at", cursors.projects),
+        this.fetchRowsSince("tags", "updated_at", cursors.tags),
+        this.fetchRowsSince("task_tags", "updated_at", cursors.taskTags),
+        this.fetchRowsSince("project_tags", "updated_at", cursors.projectTags),
+        this.fetchRowsSince(
+          "focus_sessions",
+          "updated_at",
+          cursors.focusSessions,
+        ),
+        this.fetchRowsSince(
+          "deleted_records",
+          "deleted_at",
+          cursors.tombstones,
+        ),
+      ]);
+
+      return {
+        tasks: tasks.map((item) => this.dbToTask(item)),
+        projects: projects.map((item) => this.dbToProject(item)),
+        tags: tags.map((item) => this.dbToTag(item)),
+        taskTags: taskTags.map((item) => this.dbToTaskTag(item)),
+        projectTags: projectTags.map((item) => this.dbToProjectTag(item)),
+        focusSessions: focusSessions.map((item) => this.dbToFocusSession(item)),
+        tombstones: tombstones.map((item) => this.dbToTombstone(item)),
+        cursors: {
+          tasks: this.maxTimestamp(tasks, "updated_at", cursors.tasks),
+          projects: this.maxTimestamp(projects, "updated_at", cursors.projects),
+          tags: this.maxTimestamp(tags, "updated_at", cursors.tags),
+          taskTags: this.maxTimestamp(taskTags, "updated_at", cursors.taskTags),
+          projectTags: this.maxTimestamp(
+            projectTags,
+            "updated_at",
+            cursors.projectTags,
+          ),
+          focusSessions: this.maxTimestamp(
+            focusSessions,
+            "updated_at",
+            cursors.focusSessions,
+          ),
+          tombstones: this.maxTimestamp(
+            tombstones,
+            "deleted_at",
+            cursors.tombstones,
+          ),
+        },
+      };
+    } catch (error) {
+      console.error("Failed to fetch changes:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch the rows of a table whose timestamp column is newer than the cursor
+   */
+  private async fetchRowsSince(
+    table: string,
+    column: string,
+    cursor?: string,
+  ): Promise<Record<string, unknown>[]> {
+    let url = `${this.apiUrl}/rest/v1/${table}?select=*`;
+    if (cursor) {
+      const since = new Date(Date.parse(cursor) - CURSOR_OVERLAP_MS);
+      url += `&${column}=gt.${encodeURIComponent(since.toISOString())}`;
+    }
+
+    const response = await this.request(url, {
+      method: "GET",
+      headers: this.getHeaders(),
+    });
+
+    return this.handleResponse<Record<string, unknown>[]>(response);
+  }
+
+  /**
+   * Get the latest value of a timestamp column, falling back to the previous cursor
+   */
+  private maxTimestamp(
+    rows: Record<string, unknown>[],
+    column: string,
+    previous?: string,
+  ): string | undefined {
+    return rows.reduce<string | undefined>((max, row) => {
+      const value = row[column] as string | undefined;
+      if (!value) return max;
+      return !max || Date.parse(value) > Date.parse(max) ? value : max;
+    }, previous);
+  }
+
+  // ========== Realtime Methods ==========
+
+  createRealtimeChannel(): IRealtimeChannel | null {
+    if (env.NEXT_PUBLIC_SYNC_REALTIME === "false") {
+      return null;
+    }
+    return new SupabaseRealtimeChannel(
+      this.apiUrl,
+      this.apiKey,
+      this.getAccessToken,
+    );
+  }
+
   // ========== Helper Methods for Data Conversion ==========
 
   private taskToDb(task: Partial<Task>): Record<string, unknown> {
     const dbTask = this.toSnakeCase(task as Record<string, unknown>);
 
-    // Handle special fields
+    // Handle special fields, null clears the column
     if (task.dueDate !== undefined) dbTask.due_date = task.dueDate;
     if (task.projectId !== undefined) dbTask.project_id = task.projectId;
     if (task.parentTaskId !== undefined)
@@ -481,8 +1021,13 @@ export class RemoteStorageAdapter implements IStorageAdapter {
     if (task.completionHistory !== undefined)
       dbTask.completion_history = task.completionHistory;
     if (task.isDaily !== undefined) dbTask.is_daily = task.isDaily;
+    if (task.assigneeId !== undefined) dbTask.assignee_id = task.assigneeId;
     if (task.createdAt !== undefined) dbTask.created_at = task.createdAt;
 
+    // Authorship is stamped by the server from the request's token
+    delete dbTask.created_by;
+    delete dbTask.updated_by;
+
     return dbTask;
   }
 
@@ -497,13 +1042,21 @@ export class RemoteStorageAdapter implements IStorageAdapter {
       parentTaskId: dbTask.parent_task_id as string | undefined,
       order: dbTask.order as number,
       isDaily: dbTask.is_daily as boolean,
+      recurrence: dbTask.recurrence as string | null | undefined,
       timePeriod: dbTask.time_period as number | undefined,
       timeLeft: dbTask.time_left as number | undefined,
       lastCompleted: dbTask.last_completed as string | undefined,
       completionHistory: dbTask.completion_history as
-        | Record<string, boolean>
+        | CompletionHistory
         | undefined,
+      reminders: dbTask.reminders as Reminder[] | undefined,
+      assigneeId: dbTask.assignee_id as string | null | undefined,
+      createdBy: dbTask.created_by as string | undefined,
+      updatedBy: dbTask.updated_by as string | undefined,
       createdAt: dbTask.created_at as string,
+      updatedAt: dbTask.updated_at as string | undefined,
+      fieldTimestamps: dbTask.field_timestamps as FieldTimestamps | undefined,
+      deletedAt: dbTask.deleted_at as string | null | undefined,
     };
   }
 
@@ -522,6 +1075,11 @@ export class RemoteStorageAdapter implements IStorageAdapter {
       completed: dbProject.completed as boolean,
       order: dbProject.order as number,
       createdAt: dbProject.created_at as string,
+      updatedAt: dbProject.updated_at as string | undefined,
+      fieldTimestamps: dbProject.field_timestamps as
+        | FieldTimestamps
+        | undefined,
+      deletedAt: dbProject.deleted_at as string | null | undefined,
     };
   }
 
@@ -537,6 +1095,9 @@ export class RemoteStorageAdapter implements IStorageAdapter {
       name: dbTag.name as string,
       color: dbTag.color as string | undefined,
       createdAt: dbTag.created_at as string,
+      updatedAt: dbTag.updated_at as string | undefined,
+      fieldTimestamps: dbTag.field_timestamps as FieldTimestamps | undefined,
+      deletedAt: dbTag.deleted_at as string | null | undefined,
     };
   }
 
@@ -556,6 +1117,63 @@ export class RemoteStorageAdapter implements IStorageAdapter {
     };
   }
 
+  private focusSessionToDb(session: FocusSession): Record<string, unknown> {
+    return {
+      id: session.id,
+      task_id: session.taskId,
+      started_at: session.start,
+      ended_at: session.end,
+      planned_seconds: session.plannedSeconds,
+      actual_seconds: session.actualSeconds,
+      interrupted: session.interrupted,
+      created_at: session.createdAt,
+    };
+  }
+
+  private dbToFocusSession(dbSession: Record<string, unknown>): FocusSession {
+    return {
+      id: dbSession.id as string,
+      taskId: dbSession.task_id as string,
+      start: dbSession.started_at as string,
+      end: dbSession.ended_at as string,
+      plannedSeconds: dbSession.planned_seconds as number,
+      actualSeconds: dbSession.actual_seconds as number,
+      interrupted: dbSession.interrupted as boolean,
+      createdAt: dbSession.created_at as string,
+    };
+  }
+
+  private dbToProjectMember(dbMember: Record<string, unknown>): ProjectMember {
+    return {
+      projectId: dbMember.project_id as string,
+      userId: dbMember.user_id as string,
+      role: dbMember.role as ProjectRole,
+      name: (dbMember.name as string | null) ?? undefined,
+      email: (dbMember.email as string | null) ?? undefined,
+      createdAt: dbMember.created_at as string,
+    };
+  }
+
+  private dbToProjectInvite(dbInvite: Record<string, unknown>): ProjectInvite {
+    return {
+      id: dbInvite.id as string,
+      projectId: dbInvite.project_id as string,
+      projectName: dbInvite.project_name as string,
+      email: dbInvite.email as string,
+      role: dbInvite.role as ProjectInvite["role"],
+      invitedBy: (dbInvite.invited_by as string | null) ?? undefined,
+      createdAt: dbInvite.created_at as string,
+    };
+  }
+
+  private dbToTombstone(dbTombstone: Record<string, unknown>): Tombstone {
+    return {
+      table: dbTombstone.table_name as string,
+      recordId: dbTombstone.record_id as string,
+      deletedAt: dbTombstone.deleted_at as string,
+    };
+  }
+
   private dbToTodayTask(dbTodayTask: Record<string, unknown>): TodayTask {
     return {
       taskId: dbTodayTask.task_id as string,
@@ -0,0 +1,685 @@
+import type { Database, SqlJsStatic, SqlValue } from "sql.js";
+
+import type {
+  FocusSession,
+  Project,
+  ProjectTag,
+  Tag,
+  Task,
+  TaskTag,
+  TodayTask,
+} from "@/lib/types";
+
+import { RemoteApiError } from "./errors";
+import { MergeableRecord, mergeWrite } from "./merge";
+import { SQLITE_MIGRATIONS } from "./sqlite-schema";
+import type {
+  DataSnapshot,
+  IBulkSyncAdapter,
+  IOfflineAdapter,
+  IStorageAdapter,
+} from "./types";
+
+/**
+ * Where a SQLite database is kept, such as a file the user picked (see sqlite-file.ts)
+ */
+export interface SQLiteFile {
+  /** The database, or null while the file is still empty */
+  read(): Promise<Uint8Array | null>;
+  write(data: Uint8Array): Promise<void>;
+  /** Changes whenever the file is written, by this app or anything else */
+  lastModified(): Promise<number>;
+}
+
+// How a field is kept in its column: SQLite has no booleans, and objects are kept as
+// JSON text. Fields that may be null keep it; other fields treat NULL as missing.
+type Encoding = "value" | "nullable" | "boolean" | "json";
+
+/**
+ * How the fields of a record map to the columns of a table
+ */
+interface TableMapping<T> {
+  table: string;
+  key: string[];
+  columns: { [K in keyof T]-?: [column: string, encoding?: Encoding] };
+}
+
+const TASKS: TableMapping<Task> = {
+  table: "tasks",
+  key: ["id"],
+  columns: {
+    id: ["id"],
+    title: ["title"],
+    description: ["description"],
+    completed: ["completed", "boolean"],
+    dueDate: ["due_date"],
+    projectId: ["project_id"],
+    parentTaskId: ["parent_task_id"],
+    order: ["order"],
+    isDaily: ["is_daily", "boolean"],
+    recurrence: ["recurrence", "nullable"],
+    timePeriod: ["time_period"],
+    timeLeft: ["time_left"],
+    lastCompleted: ["last_completed"],
+    completionHistory: ["completion_history", "json"],
+    reminders: ["reminders", "json"],
+    assigneeId: ["assignee_id", "nullable"],
+    createdBy: ["created_by"],
+    updatedBy: ["updated_by"],
+    createdAt: ["created_at"],
+    updatedAt: ["updated_at"],
+    fieldTimestamps: ["field_timestamps", "json"],
+    deletedAt: ["deleted_at", "nullable"],
+  },
+};
+
+const PROJECTS: TableMapping<Project> = {
+  table: "projects",
+  key: ["id"],
+  columns: {
+    id: ["id"],
+    name: ["name"],
+    description: ["description"],
+    completed: ["completed", "boolean"],
+    order: ["order"],
+    createdAt: ["created_at"],
+    updatedAt: ["updated_at"],
+    fieldTimestamps: ["field_timestamps", "json"],
+    deletedAt: ["deleted_at", "nullable"],
+  },
+};
+
+const TAGS: TableMapping<Tag> = {
+  table: "tags",
+  key: ["id"],
+  columns: {
+    id: ["id"],
+    name: ["name"],
+    color: ["color"],
+    createdAt: ["created_at"],
+    updatedAt: ["updated_at"],
+    fieldTimestamps: ["field_timestamps", "json"],
+    deletedAt: ["deleted_at", "nullable"],
+  },
+};
+
+const TASK_TAGS: TableMapping<TaskTag> = {
+  table: "task_tags",
+  key: ["task_id", "tag_id"],
+  columns: {
+    taskId: ["task_id"],
+    tagId: ["tag_id"],
+    createdAt: ["created_at"],
+  },
+};
+
+const PROJECT_TAGS: TableMapping<ProjectTag> = {
+  table: "project_tags",
+  key: ["project_id", "tag_id"],
+  columns: {
+    projectId: ["project_id"],
+    tagId: ["tag_id"],
+    createdAt: ["created_at"],
+  },
+};
+
+const TODAY_TASKS: TableMapping<TodayTask> = {
+  table: "today_tasks",
+  key: ["task_id"],
+  columns: {
+    taskId: ["task_id"],
+    order: ["order"],
+  },
+};
+
+const FOCUS_SESSIONS: TableMapping<FocusSession> = {
+  table: "focus_sessions",
+  key: ["id"],
+  columns: {
+    id: ["id"],
+    taskId: ["task_id"],
+    start: ["started_at"],
+    end: ["ended_at"],
+    plannedSeconds: ["planned_seconds"],
+    actualSeconds: ["actual_seconds"],
+    interrupted: ["interrupted", "boolean"],
+    createdAt: ["created_at"],
+  },
+};
+
+/**
+ * The columns a record's fields go into, leaving out fields it doesn't have
+ */
+function toRow<T>(
+  mapping: TableMapping<T>,
+  record: Partial<T>,
+): Record<string, SqlValue> {
+  const row: Record<string, SqlValue> = {};
+  for (const field of Object.keys(mapping.columns) as (keyof T)[]) {
+    const value = record[field];
+    if (value === undefined) continue;
+
+    const [column, encoding = "value"] = mapping.columns[field];
+    if (value === null) {
+      row[column] = null;
+    } else if (encoding === "boolean") {
+      row[column] = value ? 1 : 0;
+    } else if (encoding === "json") {
+      row[column] = JSON.stringify(value);
+    } else {
+      row[column] = value as SqlValue;
+    }
+  }
+  return row;
+}
+
+function fromRow<T>(
+  mapping: TableMapping<T>,
+  row: Record<string, SqlValue>,
+): T {
+  const record: Record<string, unknown> = {};
+  for (const field of Object.keys(mapping.columns) as (keyof T & string)[]) {
+    const [column, encoding = "value"] = mapping.columns[field];
+    const value = row[column];
+    if (value === null || value === undefined) {
+      if (encoding === "nullable" && value === null) record[field] = null;
+      continue;
+    }
+
+    if (encoding === "boolean") {
+      record[field] = value === 1;
+    } else if (encoding === "json") {
+      record[field] = JSON.parse(value as string);
+    } else {
+      record[field] = value;
+    }
+  }
+  return record as T;
+}
+
+const quote = (column: string) => `"${column}"`;
+
+/**
+ * Insert rows, updating the columns they have when their key is already stored
+ * (or leaving the stored row alone with keepExisting)
+ */
+function upsertRows<T>(
+  db: Database,
+  mapping: TableMapping<T>,
+  rows: Record<string, SqlValue>[],
+  keepExisting = false,
+): void {
+  for (const row of rows) {
+    const columns = Object.keys(row);
+    const updates = columns
+      .filter((column) => !mapping.key.includes(column))
+      .map((column) => `${quote(column)} = excluded.${quote(column)}`);
+    const onConflict =
+      keepExisting || updates.length === 0
+        ? "DO NOTHING"
+        : `DO UPDATE SET ${updates.join(", ")}`;
+
+    db.run(
+      `INSERT INTO ${mapping.table} (${columns.map(quote).join(", ")})
+       VALUES (${columns.map(() => "?").join(", ")})
+       ON CONFLICT (${mapping.key.map(quote).join(", ")}) ${onConflict}`,
+      Object.values(row),
+    );
+  }
+}
+
+function selectById<T>(
+  db: Database,
+  mapping: TableMapping<T>,
+  id: string,
+): T | undefined {
+  const statement = db.prepare(`SELECT * FROM ${mapping.table} WHERE id = ?`, [
+    id,
+  ]);
+  try {
+    return statement.step()
+      ? fromRow(mapping, statement.getAsObject())
+      : undefined;
+  } finally {
+    statement.free();
+  }
+}
+
+/**
+ * What writing a record leaves in its row: merged field by field with the stored row
+ * like the remote does (see mergeWrite), or the record itself when there is none
+ */
+function mergeWithStored<T extends MergeableRecord>(
+  db: Database,
+  mapping: TableMapping<T>,
+  id: string,
+  written: Partial<T>,
+): Partial<T> {
+  const stored = selectById(db, mapping, id);
+  return stored ? mergeWrite(stored, written) : written;
+}
+
+/**
+ * Change the fields of the row with an id, merged with the ones it has
+ */
+function updateRow<T extends MergeableRecord>(
+  db: Database,
+  mapping: TableMapping<T>,
+  id: string,
+  updates: Partial<T>,
+): void {
+  const row = toRow(mapping, mergeWithStored(db, mapping, id, updates));
+  const columns = Object.keys(row).filter((column) => column !== "id");
+  if (columns.length === 0) return;
+
+  db.run(
+    `UPDATE ${mapping.table}
+     SET ${columns.map((column) => `${quote(column)} = ?`).join(", ")}
+     WHERE id = ?`,
+    [...columns.map((column) => row[column]), id],
+  );
+}
+
+function selectAll<T>(
+  db: Database,
+  mapping: TableMapping<T>,
+  orderBy = "created_at",
+): T[] {
+  const statement = db.prepare(
+    `SELECT * FROM ${mapping.table} ORDER BY ${quote(orderBy)}, rowid`,
+  );
+  const records: T[] = [];
+  try {
+    while (statement.step()) {
+      records.push(fromRow(mapping, statement.getAsObject()));
+    }
+  } finally {
+    statement.free();
+  }
+  return records;
+}
+
+/**
+ * Bring a database up to the latest schema, returning whether anything changed
+ */
+function migrate(db: Database): boolean {
+  const [{ values }] = db.exec("PRAGMA user_version");
+  const version = values[0][0] as number;
+  const steps = SQLITE_MIGRATIONS.filter((step) => step.version > version);
+
+  for (const step of steps) {
+    db.exec(
+      `BEGIN; ${step.sql}; PRAGMA user_version = ${step.version}; COMMIT;`,
+    );
+  }
+  return steps.length > 0;
+}
+
+/**
+ * Rows the database's constraints reject won't be accepted on a retry either, so they
+ * are reported like the server's 409 Conflict and dead-lettered by the sync worker
+ */
+function toSyncError(error: unknown): unknown {
+  if (error instanceof Error && /constraint failed/.test(error.message)) {
+    return new RemoteApiError(409, error.message);
+  }
+  return error;
+}
+
+/**
+ * SQLiteAdapter implements the IStorageAdapter interface on a SQLite database file the
+ * user keeps, with the schema of migrations/ (see sqlite-schema.ts).
+ * It takes the place of the remote server: the sync worker sends queued changes to it
+ * and pulls from it, while the app keeps reading and writing the local copy.
+ *
+ * sql.js keeps the database in memory, so every change writes the whole file. The file
+ * is read again whenever it changed since, so other tabs (or a copy synced from
+ * another computer) are picked up on the next pull.
+ */
+export class SQLiteAdapter
+  implements IStorageAdapter, IBulkSyncAdapter, IOfflineAdapter
+{
+  private file: SQLiteFile;
+  private loadSqlJs: () => Promise<SqlJsStatic>;
+  private db: Database | null = null;
+  private modifiedAt: number | null = null;
+  // Operations run one at a time, as each may read the file again or write it
+  private running: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @param loadSqlJs Loads sql.js, which needs to be told where its wasm file is served
+   */
+  constructor(file: SQLiteFile, loadSqlJs: () => Promise<SqlJsStatic>) {
+    this.file = file;
+    this.loadSqlJs = loadSqlJs;
+  }
+
+  worksOffline(): boolean {
+    return true;
+  }
+
+  /**
+   * Open the database as it is in the file, creating its tables if it is new
+   */
+  private async open(): Promise<Database> {
+    const modifiedAt = await this.file.lastModified();
+    if (this.db && modifiedAt === this.modifiedAt) {
+      return this.db;
+    }
+
+    const [SQL, data] = await Promise.all([this.loadSqlJs(), this.file.read()]);
+    this.db?.close();
+    this.db = null;
+
+    const db = new SQL.Database(data ?? undefined);
+    db.run("PRAGMA foreign_keys = ON");
+    if (migrate(db)) {
+      await this.save(db);
+    } else {
+      this.modifiedAt = modifiedAt;
+    }
+    this.db = db;
+    return db;
+  }
+
+  private async save(db: Database): Promise<void> {
+    // Exporting reopens the database, which resets its pragmas
+    const data = db.export();
+    db.run("PRAGMA foreign_keys = ON");
+    await this.file.write(data);
+    this.modifiedAt = await this.file.lastModified();
+  }
+
+  private read<T>(query: (db: Database) => T): Promise<T> {
+    return this.run(async () => query(await this.open()));
+  }
+
+  /**
+   * Make changes in one transaction and write them to the file
+   * @param checkReferences Whether rows must point at rows that exist
+   */
+  private write(
+    change: (db: Database) => void,
+    checkReferences = true,
+  ): Promise<void> {
+    return this.run(async () => {
+      const db = await this.open();
+      // Only takes effect outside a transaction
+      if (!checkReferences) db.run("PRAGMA foreign_keys = OFF");
+      try {
+        db.run("BEGIN");
+        change(db);
+        db.run("COMMIT");
+      } catch (error) {
+        try {
+          db.run("ROLLBACK");
+        } catch {
+          // The transaction never began
+        }
+        throw toSyncError(error);
+      } finally {
+        db.run("PRAGMA foreign_keys = ON");
+      }
+
+      try {
+        await this.save(db);
+      } catch (error) {
+        // Start over from the file, which doesn't have the change
+        this.db = null;
+        db.close();
+        throw error;
+      }
+    });
+  }
+
+  private run<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.running.then(operation);
+    this.running = result.catch(() => {});
+    return result;
+  }
+
+  // ========== Task Methods ==========
+
+  async getTasks(): Promise<Task[]> {
+    return this.read((db) => selectAll(db, TASKS));
+  }
+
+  async addTask(task: Task): Promise<void> {
+    await this.upsertTasks([task]);
+  }
+
+  async updateTask(id: string, updates: Partial<Task>): Promise<void> {
+    await this.write((db) => updateRow(db, TASKS, id, updates));
+  }
+
+  async deleteTask(id: string): Promise<void> {
+    await this.write((db) => db.run("DELETE FROM tasks WHERE id = ?", [id]));
+  }
+
+  async reorderTasks(tasks: Task[]): Promise<void> {
+    await this.write((db) =>
+      tasks.forEach(({ id, order, updatedAt, fieldTimestamps }) =>
+        updateRow(db, TASKS, id, { order, updatedAt, fieldTimestamps }),
+      ),
+    );
+  }
+
+  // ========== Project Methods ==========
+
+  async getProjects(): Promise<Project[]> {
+    return this.read((db) => selectAll(db, PROJECTS));
+  }
+
+  async addProject(project: Project): Promise<void> {
+    await this.upsertProjects([project]);
+  }
+
+  async updateProject(id: string, updates: Partial<Project>): Promise<void> {
+    await this.write((db) => updateRow(db, PROJECTS, id, updates));
+  }
+
+  async deleteProject(id: string): Promise<void> {
+    await this.write((db) => db.run("DELETE FROM projects WHERE id = ?", [id]));
+  }
+
+  async reorderProjects(projects: Project[]): Promise<void> {
+    await this.write((db) =>
+      projects.forEach(({ id, order, updatedAt, fieldTimestamps }) =>
+        updateRow(db, PROJECTS, id, { order, updatedAt, fieldTimestamps }),
+      ),
+    );
+  }
+
+  // ========== Tag Methods ==========
+
+  async getTags(): Promise<Tag[]> {
+    return this.read((db) => selectAll(db, TAGS));
+  }
+
+  async addTag(tag: Tag): Promise<void> {
+    await this.upsertTags([tag]);
+  }
+
+  async updateTag(id: string, updates: Partial<Tag>): Promise<void> {
+    await this.write((db) => updateRow(db, TAGS, id, updates));
+  }
+
+  async deleteTag(id: string): Promise<void> {
+    await this.write((db) => db.run("DELETE FROM tags WHERE id = ?", [id]));
+  }
+
+  // ========== TaskTag Relationship Methods ==========
+
+  async getTaskTags(): Promise<TaskTag[]> {
+    return this.read((db) => selectAll(db, TASK_TAGS));
+  }
+
+  async addTaskTag(taskId: string, tagId: string): Promise<void> {
+    await this.upsertTaskTags([{ taskId, tagId }]);
+  }
+
+  async removeTaskTag(taskId: string, tagId: string): Promise<void> {
+    await this.write((db) =>
+      db.run("DELETE FROM task_tags WHERE task_id = ? AND tag_id = ?", [
+        taskId,
+        tagId,
+      ]),
+    );
+  }
+
+  // ========== ProjectTag Relationship Methods ==========
+
+  async getProjectTags(): Promise<ProjectTag[]> {
+    return this.read((db) => selectAll(db, PROJECT_TAGS));
+  }
+
+  async addProjectTag(projectId: string, tagId: string): Promise<void> {
+    await this.upsertProjectTags([{ projectId, tagId }]);
+  }
+
+  async removeProjectTag(projectId: string, tagId: string): Promise<void> {
+    await this.write((db) =>
+      db.run("DELETE FROM project_tags WHERE project_id = ? AND tag_id = ?", [
+        projectId,
+        tagId,
+      ]),
+    );
+  }
+
+  // ========== TodayTask Methods ==========
+
+  async getTodayTasks(): Promise<TodayTask[]> {
+    return this.read((db) => selectAll(db, TODAY_TASKS, "order"));
+  }
+
+  async saveTodayTasks(todayTasks: TodayTask[]): Promise<void> {
+    await this.write((db) => {
+      db.run("DELETE FROM today_tasks");
+      upsertRows(
+        db,
+        TODAY_TASKS,
+        todayTasks.map((todayTask) => toRow(TODAY_TASKS, todayTask)),
+      );
+    });
+  }
+
+  // ========== FocusSession Methods ==========
+
+  async getFocusSessions(): Promise<FocusSession[]> {
+    return this.read((db) => selectAll(db, FOCUS_SESSIONS));
+  }
+
+  async addFocusSession(session: FocusSession): Promise<void> {
+    await this.upsertFocusSessions([session]);
+  }
+
+  async deleteFocusSession(id: string): Promise<void> {
+    await this.write((db) =>
+      db.run("DELETE FROM focus_sessions WHERE id = ?", [id]),
+    );
+  }
+
+  // ========== Bulk Upsert Methods ==========
+
+  async upsertTasks(tasks: Task[]): Promise<void> {
+    await this.write((db) =>
+      upsertRows(
+        db,
+        TASKS,
+        tasks.map((task) =>
+          toRow(TASKS, mergeWithStored(db, TASKS, task.id, task)),
+        ),
+      ),
+    );
+  }
+
+  async upsertProjects(projects: Project[]): Promise<void> {
+    await this.write((db) =>
+      upsertRows(
+        db,
+        PROJECTS,
+        projects.map((project) =>
+          toRow(PROJECTS, mergeWithStored(db, PROJECTS, project.id, project)),
+        ),
+      ),
+    );
+  }
+
+  async upsertTags(tags: Tag[]): Promise<void> {
+    await this.write((db) =>
+      upsertRows(
+        db,
+        TAGS,
+        tags.map((tag) => toRow(TAGS, mergeWithStored(db, TAGS, tag.id, tag))),
+      ),
+    );
+  }
+
+  async upsertTaskTags(
+    taskTags: { taskId: string; tagId: string }[],
+  ): Promise<void> {
+    const createdAt = new Date().toISOString();
+    await this.write((db) =>
+      upsertRows(
+        db,
+        TASK_TAGS,
+        taskTags.map((taskTag) => toRow(TASK_TAGS, { ...taskTag, createdAt })),
+        true,
+      ),
+    );
+  }
+
+  async upsertProjectTags(
+    projectTags: { projectId: string; tagId: string }[],
+  ): Promise<void> {
+    const createdAt = new Date().toISOString();
+    await this.write((db) =>
+      upsertRows(
+        db,
+        PROJECT_TAGS,
+        projectTags.map((projectTag) =>
+          toRow(PROJECT_TAGS, { ...projectTag, createdAt }),
+        ),
+        true,
+      ),
+    );
+  }
+
+  async upsertFocusSessions(sessions: FocusSession[]): Promise<void> {
+    await this.write((db) =>
+      upsertRows(
+        db,
+        FOCUS_SESSIONS,
+        sessions.map((session) => toRow(FOCUS_SESSIONS, session)),
+      ),
+    );
+  }
+
+  // ========== Import ==========
+
+  /**
+   * Copy in the rows the file doesn't have yet, leaving the ones it has alone.
+   * Used when a file is chosen, so a pull from it merges both sides instead of
+   * dropping this device's data. Rows are copied as they are, so references are not
+   * checked: the app's data is saved even where it points at something already gone.
+   */
+  async addMissing(data: DataSnapshot): Promise<void> {
+    await this.write((db) => {
+      const copy = <T>(mapping: TableMapping<T>, records: T[]) =>
+        upsertRows(
+          db,
+          mapping,
+          records.map((record) => toRow(mapping, record)),
+          true,
+        );
+
+      copy(PROJECTS, data.projects);
+      copy(TAGS, data.tags);
+      copy(TASKS, data.tasks);
+      copy(TASK_TAGS, data.taskTags);
+      copy(PROJECT_TAGS, data.projectTags);
+      copy(FOCUS_SESSIONS, data.focusSessions);
+      copy(TODAY_TASKS, data.todayTasks);
+    }, false);
+  }
+}
@@ -0,0 +1,226 @@
+import type { SqlJsStatic } from "sql.js";
+
+import { SQLiteAdapter, SQLiteFile } from "./sqlite-adapter";
+import type { DataSnapshot } from "./types";
+
+// Name of the chosen file, kept where it can be read synchronously on startup
+const DB_PATH_KEY = "intentionality_db_path";
+
+// The file's handle can't go in localStorage, so it is kept in a database of its own
+const HANDLES_DB = "intentionality_files";
+const HANDLES_STORE = "handles";
+const DATABASE_HANDLE_KEY = "database";
+
+const SQLITE_FILE_TYPES = [
+  {
+    description: "SQLite Database",
+    accept: { "application/x-sqlite3": [".db", ".sqlite", ".sqlite3"] },
+  },
+];
+
+// The File System Access API beyond what TypeScript's DOM types include
+type FileHandle = FileSystemFileHandle & {
+  queryPermission(descriptor: { mode: "readwrite" }): Promise<PermissionState>;
+  requestPermission(descriptor: {
+    mode: "readwrite";
+  }): Promise<PermissionState>;
+};
+
+type FilePickers = {
+  showOpenFilePicker(options: object): Promise<FileHandle[]>;
+  showSaveFilePicker(options: object): Promise<FileHandle>;
+};
+
+function openHandles(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(HANDLES_DB, 1);
+    request.onupgradeneeded = () =>
+      request.result.createObjectStore(HANDLES_STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function handleRequest<T>(
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest,
+): Promise<T> {
+  const db = await openHandles();
+  try {
+    const request = makeRequest(
+      db.transaction(HANDLES_STORE, mode).objectStore(HANDLES_STORE),
+    );
+    return await new Promise<T>((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+const loadHandle = () =>
+  handleRequest<FileHandle | undefined>("readonly", (store) =>
+    store.get(DATABASE_HANDLE_KEY),
+  );
+
+let sqlJs: Promise<SqlJsStatic> | null = null;
+
+/**
+ * Load sql.js, from its browser build and the wasm file served from public/
+ * (copied there on install, see scripts/copy-sql-wasm.mjs)
+ */
+function loadSqlJs(): Promise<SqlJsStatic> {
+  if (!sqlJs) {
+    sqlJs = import("sql.js").then(({ default: initSqlJs }) =>
+      initSqlJs({ locateFile: (file) => `/${file}` }),
+    );
+    sqlJs.catch(() => {
+      sqlJs = null;
+    });
+  }
+  return sqlJs;
+}
+
+/**
+ * The database file chosen in Settings, through its stored handle.
+ * Browsers ask again for access to a file in each new session, so until the user allows
+ * it (see allowDatabaseFileAccess) every read and write fails, and the sync worker
+ * retries later.
+ */
+class FileSystemDatabaseFile implements SQLiteFile {
+  private handle: FileHandle | null = null;
+
+  async read(): Promise<Uint8Array | null> {
+    const file = await (await this.getHandle()).getFile();
+    return file.size > 0 ? new Uint8Array(await file.arrayBuffer()) : null;
+  }
+
+  async write(data: Uint8Array): Promise<void> {
+    const writable = await (await this.getHandle()).createWritable();
+    await writable.write(data as Uint8Array<ArrayBuffer>);
+    await writable.close();
+  }
+
+  async lastModified(): Promise<number> {
+    return (await (await this.getHandle()).getFile()).lastModified;
+  }
+
+  private async getHandle(): Promise<FileHandle> {
+    this.handle ??= (await loadHandle()) ?? null;
+    if (!this.handle) {
+      throw new Error("The database file was not found");
+    }
+    if (
+      (await this.handle.queryPermission({ mode: "readwrite" })) !== "granted"
+    ) {
+      throw new Error(`Access to ${this.handle.name} has not been allowed`);
+    }
+    return this.handle;
+  }
+}
+
+/**
+ * Whether this browser can keep data in a file the user picks (Chromium-based ones)
+ */
+export function isDatabaseFileSupported(): boolean {
+  return typeof window !== "undefined" && "showOpenFilePicker" in window;
+}
+
+/**
+ * Name of the database file chosen in Settings, if any
+ */
+export function getDatabaseFileName(): string | null {
+  if (typeof window === "undefined") {
+    return null;
+  }
+  return window.localStorage.getItem(DB_PATH_KEY);
+}
+
+/**
+ * An adapter for the chosen database file, to sync with in place of a server
+ */
+export function createDatabaseFileAdapter(): SQLiteAdapter {
+  return new SQLiteAdapter(new FileSystemDatabaseFile(), loadSqlJs);
+}
+
+/**
+ * Let the user pick a database file, or create a new one, and keep this device's data
+ * in it from then on. Data already in the file is kept too: this device's rows are
+ * copied in beside it, and the next pull brings the file's rows here.
+ * Returns false if the user cancelled.
+ */
+export async function chooseDatabaseFile(
+  create: boolean,
+  local: DataSnapshot,
+): Promise<boolean> {
+  const pickers = window as unknown as FilePickers;
+  let handle: FileHandle;
+  try {
+    handle = create
+      ? await pickers.showSaveFilePicker({
+          suggestedName: "intentionality.db",
+          types: SQLITE_FILE_TYPES,
+        })
+      : (
+          await pickers.showOpenFilePicker({
+            types: SQLITE_FILE_TYPES,
+            multiple: false,
+          })
+        )[0];
+  } catch (error) {
+    // Cancelled by the user
+    console.log("File selection cancelled:", error);
+    return false;
+  }
+
+  // Opening a file only allows reading it
+  if ((await handle.requestPermission({ mode: "readwrite" })) !== "granted") {
+    return false;
+  }
+  if (create) {
+    // Start from an empty file rather than whatever was there
+    const writable = await handle.createWritable();
+    await writable.close();
+  }
+
+  await handleRequest("readwrite", (store) =>
+    store.put(handle, DATABASE_HANDLE_KEY),
+  );
+  await createDatabaseFileAdapter().addMissing(local);
+  window.localStorage.setItem(DB_PATH_KEY, handle.name);
+  return true;
+}
+
+/**
+ * Stop keeping data in the database file. The file itself is left as it is.
+ */
+export async function forgetDatabaseFile(): Promise<void> {
+  window.localStorage.removeItem(DB_PATH_KEY);
+  await handleRequest("readwrite", (store) =>
+    store.delete(DATABASE_HANDLE_KEY),
+  );
+}
+
+/**
+ * Whether the browser needs the user to allow access to the database file again
+ */
+export async function needsDatabaseFileAccess(): Promise<boolean> {
+  const handle = await loadHandle();
+  return (
+    !!handle &&
+    (await handle.queryPermission({ mode: "readwrite" })) !== "granted"
+  );
+}
+
+/**
+ * Ask the user to allow access to the database file again.
+ * Must be called from a click, as browsers only ask then.
+ */
+export async function allowDatabaseFileAccess(): Promise<boolean> {
+  const handle = await loadHandle();
+  return (
+    !!handle &&
+    (await handle.requestPermission({ mode: "readwrite" })) === "granted"
+  );
+}
@@ -0,0 +1,122 @@
+/**
+ * A step bringing a database file's schema up to a migration in migrations/
+ */
+interface SQLiteMigration {
+  /** Number of the migration whose tables this step matches, kept in PRAGMA user_version */
+  version: number;
+  sql: string;
+}
+
+/**
+ * The tables of migrations/, written for SQLite, for database files kept by SQLiteAdapter.
+ * Columns have the names the remote database uses, so a file can be read with the same
+ * queries. What only a server needs is left out: user ownership and row-level security
+ * (a file belongs to whoever holds it), sharing, tombstones and the updated_at triggers
+ * (updated_at keeps the value the app stamped).
+ *
+ * When a migration changes these tables, add a step with its number rather than
+ * editing the ones before it: files created by earlier versions only run newer steps.
+ */
+export const SQLITE_MIGRATIONS: SQLiteMigration[] = [
+  {
+    version: 15,
+    sql: `
+      CREATE TABLE projects (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        description TEXT,
+        completed INTEGER NOT NULL DEFAULT 0,
+        "order" INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+        updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+        field_timestamps TEXT NOT NULL DEFAULT '{}',
+        deleted_at TEXT
+      );
+
+      CREATE TABLE tasks (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        description TEXT,
+        completed INTEGER NOT NULL DEFAULT 0,
+        due_date TEXT,
+        project_id TEXT REFERENCES projects(id) ON DELETE CASCADE,
+        parent_task_id TEXT REFERENCES tasks(id) ON DELETE CASCADE,
+        "order" INTEGER NOT NULL DEFAULT 0,
+        is_daily INTEGER NOT NULL DEFAULT 0,
+        recurrence TEXT,
+        time_period INTEGER,
+        time_left INTEGER,
+        last_completed TEXT,
+        completion_history TEXT DEFAULT '{}',
+        reminders TEXT DEFAULT '[]',
+        assignee_id TEXT,
+        created_by TEXT,
+        updated_by TEXT,
+        created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+        updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+        field_timestamps TEXT NOT NULL DEFAULT '{}',
+        deleted_at TEXT
+      );
+
+      CREATE TABLE tags (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL UNIQUE,
+        color TEXT,
+        created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+        updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+        field_timestamps TEXT NOT NULL DEFAULT '{}',
+        deleted_at TEXT
+      );
+
+      CREATE TABLE task_tags (
+        task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+        tag_id TEXT NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+        created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+        updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+        PRIMARY KEY (task_id, tag_id)
+      );
+
+      CREATE TABLE project_tags (
+        project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+        tag_id TEXT NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+        created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+        updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+        PRIMARY KEY (project_id, tag_id)
+      );
+
+      CREATE TABLE today_tasks (
+        task_id TEXT PRIMARY KEY REFERENCES tasks(id) ON DELETE CASCADE,
+        "order" INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+        updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+      );
+
+      CREATE TABLE focus_sessions (
+        id TEXT PRIMARY KEY,
+        task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+        started_at TEXT NOT NULL,
+        ended_at TEXT NOT NULL,
+        planned_seconds INTEGER NOT NULL CHECK (planned_seconds >= 0),
+        actual_seconds INTEGER NOT NULL CHECK (actual_seconds >= 0),
+        interrupted INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+        updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+      );
+
+      CREATE INDEX idx_tasks_project_id ON tasks(project_id);
+      CREATE INDEX idx_tasks_parent_task_id ON tasks(parent_task_id);
+      CREATE INDEX idx_tasks_completed ON tasks(completed);
+      CREATE INDEX idx_tasks_due_date ON tasks(due_date);
+      CREATE INDEX idx_tasks_is_daily ON tasks(is_daily);
+      CREATE INDEX idx_tasks_order ON tasks("order");
+      CREATE INDEX idx_tasks_assignee_id ON tasks(assignee_id);
+      CREATE INDEX idx_projects_order ON projects("order");
+      CREATE INDEX idx_projects_completed ON projects(completed);
+      CREATE INDEX idx_task_tags_tag_id ON task_tags(tag_id);
+      CREATE INDEX idx_project_tags_tag_id ON project_tags(tag_id);
+      CREATE INDEX idx_today_tasks_order ON today_tasks("order");
+      CREATE INDEX idx_focus_sessions_task_id ON focus_sessions(task_id);
+      CREATE INDEX idx_focus_sessions_started_at ON focus_sessions(started_at);
+    `,
+  },
+];
@@ -1,5 +1,11 @@
+import { planDayRollover, RolloverUpdate } from "@/lib/day-rollover";
+import { canEditTask } from "@/lib/sharing";
 import type {
+  FocusSession,
   Project,
+  ProjectInvite,
+  ProjectMember,
+  ProjectRole,
   ProjectTag,
   Tag,
   Task,
@@ -7,26 +13,42 @@ import type {
   TodayTask,
 } from "@/lib/types";
 
+import { IndexedDBAdapter } from "./indexeddb-adapter";
 import { LocalStorageAdapter } from "./local-storage-adapter";
-import { RemoteStorageAdapter } from "./remote-storage-adapter";
+import { stampUpdates } from "./merge";
+import { getStorageUser } from "./storage-user";
 import { SyncQueue } from "./sync-queue";
 import { SyncWorker } from "./sync-worker";
-import { OperationType } from "./types";
+import {
+  DataSnapshot,
+  ILocalAdapter,
+  ISharingAdapter,
+  IStorageAdapter,
+  LocalCollection,
+  OperationType,
+  supportsSharing,
+  SyncStatus,
+} from "./types";
 
 // Global singleton instance to survive React remounts
 let globalStorageManagerInstance: StorageManager | null = null;
 
 /**
  * StorageManager orchestrates local-first storage with optional background sync.
- * - All writes go to localStorage immediately (instant UI feedback)
- * - Operations are queued for background sync to remote server (if enabled)
- * - Reads always come from localStorage (fast, offline-capable)
+ * - All writes go to local storage immediately (instant UI feedback): IndexedDB,
+ *   or localStorage in browsers without it
+ * - Operations are queued for background sync to remote server (if enabled), or to a
+ *   database file the user picked (see SQLiteAdapter)
+ * - Reads always come from local storage (fast, offline-capable)
  */
 export class StorageManager {
-  private localAdapter: LocalStorageAdapter;
+  private localAdapter: ILocalAdapter;
   private queue: SyncQueue;
   private worker?: SyncWorker;
+  private remoteAdapter?: IStorageAdapter;
   private enableRemoteSync: boolean;
+  // The user whose data this instance reads and syncs
+  private userId: string | null;
 
   /**
    * Get or create the global singleton instance
@@ -34,9 +56,15 @@ export class StorageManager {
    */
   static getInstance(
     enableRemoteSync = false,
-    remoteAdapter?: RemoteStorageAdapter,
+    remoteAdapter?: IStorageAdapter,
     syncIntervalMs = 5000,
   ): StorageManager {
+    // Another account's data lives under other keys and syncs with another token
+    if (globalStorageManagerInstance?.userId !== getStorageUser()) {
+      globalStorageManagerInstance?.stopSync();
+      globalStorageManagerInstance = null;
+    }
+
     if (!globalStorageManagerInstance) {
       console.log("[StorageManager] Creating global singleton instance");
       globalStorageManagerInstance = new StorageManager(
@@ -51,16 +79,20 @@ export class StorageManager {
 
   private constructor(
     enableRemoteSync = false,
-    remoteAdapter?: RemoteStorageAdapter,
+    remoteAdapter?: IStorageAdapter,
     syncIntervalMs = 5000,
   ) {
     console.log("[StorageManager] Constructor called, creating new instance");
-    this.localAdapter = new LocalStorageAdapter();
+    this.localAdapter = IndexedDBAdapter.isAvailable()
+      ? new IndexedDBAdapter()
+      : new LocalStorageAdapter();
     this.queue = new SyncQueue();
     this.enableRemoteSync = enableRemoteSync;
+    this.userId = getStorageUser();
 
     // Initialize sync worker if remote sync is enabled
     if (enableRemoteSync && remoteAdapter) {
+      this.remoteAdapter = remoteAdapter;
       console.log(
         "[StorageManager] Creating SyncWorker with interval:",
         syncIntervalMs,
@@ -85,6 +117,14 @@ export class StorageManager {
     }
   }
 
+  /**
+   * Run several writes so they are queued for sync as one batched operation
+   * (used by bulk actions on many tasks)
+   */
+  async batch(fn: () => Promise<void>): Promise<void> {
+    await this.queue.batch(fn);
+  }
+
   // ========== Task Operations ==========
 
   /**
@@ -99,11 +139,14 @@ export class StorageManager {
 
   /**
    * Update a task (local + queued for sync)
+   * Updated fields are stamped so they can be merged with edits from other devices
    */
   async updateTask(id: string, updates: Partial<Task>): Promise<void> {
-    await this.localAdapter.updateTask(id, updates);
+    const existing = await this.localAdapter.getTask(id);
+    const stamped = stampUpdates(updates, existing);
+    await this.localAdapter.updateTask(id, stamped);
     if (this.enableRemoteSync) {
-      this.queue.enqueue(OperationType.UPDATE_TASK, { id, updates });
+      this.queue.enqueue(OperationType.UPDATE_TASK, { id, updates: stamped });
     }
   }
 
@@ -121,12 +164,37 @@ export class StorageManager {
    * Reorder tasks (local + queued for sync)
    */
   async reorderTasks(tasks: Task[]): Promise<void> {
-    await this.localAdapter.reorderTasks(tasks);
+    const stamped = tasks.map((task) => ({
+      ...task,
+      ...stampUpdates<Task>({ order: task.order }, task),
+    }));
+    await this.localAdapter.reorderTasks(stamped);
     if (this.enableRemoteSync) {
-      this.queue.enqueue(OperationType.REORDER_TASKS, tasks);
+      this.queue.enqueue(OperationType.REORDER_TASKS, stamped);
     }
   }
 
+  /**
+   * Record missed days of recurring tasks before today (local + queued for sync)
+   * Only unrecorded days from `since` on are marked, so every device makes the same updates.
+   * Tasks in projects shared with the user as a viewer are left to their editors.
+   */
+  async rolloverDays(today: string, since?: string): Promise<RolloverUpdate[]> {
+    const [tasks, members] = await Promise.all([
+      this.localAdapter.getTasks(),
+      this.localAdapter.getProjectMembers(),
+    ]);
+    const updates = planDayRollover(
+      tasks.filter((task) => canEditTask(members, task, this.userId)),
+      today,
+      since,
+    );
+    for (const { id, completionHistory } of updates) {
+      await this.updateTask(id, { completionHistory });
+    }
+    return updates;
+  }
+
   /**
    * Get all tasks (always from local)
    */
@@ -148,11 +216,17 @@ export class StorageManager {
 
   /**
    * Update a project (local + queued for sync)
+   * Updated fields are stamped so they can be merged with edits from other devices
    */
   async updateProject(id: string, updates: Partial<Project>): Promise<void> {
-    await this.localAdapter.updateProject(id, updates);
+    const existing = await this.localAdapter.getProject(id);
+    const stamped = stampUpdates(updates, existing);
+    await this.localAdapter.updateProject(id, stamped);
     if (this.enableRemoteSync) {
-      this.queue.enqueue(OperationType.UPDATE_PROJECT, { id, updates });
+      this.queue.enqueue(OperationType.UPDATE_PROJECT, {
+        id,
+        updates: stamped,
+      });
     }
   }
 
@@ -170,9 +244,13 @@ export class StorageManager {
    * Reorder projects (local + queued for sync)
    */
   async reorderProjects(projects: Project[]): Promise<void> {
-    await this.localAdapter.reorderProjects(projects);
+    const stamped = projects.map((project) => ({
+      ...project,
+      ...stampUpdates<Project>({ order: project.order }, project),
+    }));
+    await this.localAdapter.reorderProjects(stamped);
     if (this.enableRemoteSync) {
-      this.queue.enqueue(OperationType.REORDER_PROJECTS, projects);
+      this.queue.enqueue(OperationType.REORDER_PROJECTS, stamped);
     }
   }
 
@@ -197,11 +275,14 @@ export class StorageManager {
 
   /**
    * Update a tag (local + queued for sync)
+   * Updated fields are stamped so they can be merged with edits from other devices
    */
   async updateTag(id: string, updates: Partial<Tag>): Promise<void> {
-    await this.localAdapter.updateTag(id, updates);
+    const existing = await this.localAdapter.getTag(id);
+    const stamped = stampUpdates(updates, existing);
+    await this.localAdapter.updateTag(id, stamped);
     if (this.enableRemoteSync) {
-      this.queue.enqueue(OperationType.UPDATE_TAG, { id, updates });
+      this.queue.enqueue(OperationType.UPDATE_TAG, { id, updates: stamped });
     }
   }
 
@@ -352,6 +433,157 @@ export class StorageManager {
     }
   }
 
+  // ========== FocusSession Operations ==========
+
+  /**
+   * Log a focus session (local + queued for sync)
+   */
+  async addFocusSession(session: FocusSession): Promise<void> {
+    await this.localAdapter.addFocusSession(session);
+    if (this.enableRemoteSync) {
+      this.queue.enqueue(OperationType.ADD_FOCUS_SESSION, session);
+    }
+  }
+
+  /**
+   * Delete a focus session (local + queued for sync)
+   */
+  async deleteFocusSession(id: string): Promise<void> {
+    await this.localAdapter.deleteFocusSession(id);
+    if (this.enableRemoteSync) {
+      this.queue.enqueue(OperationType.DELETE_FOCUS_SESSION, { id });
+    }
+  }
+
+  /**
+   * Get all focus sessions (always from local)
+   */
+  async getFocusSessions(): Promise<FocusSession[]> {
+    return this.localAdapter.getFocusSessions();
+  }
+
+  /**
+   * Get everything stored locally, such as to copy it into a database file
+   */
+  async exportData(): Promise<DataSnapshot> {
+    const [
+      tasks,
+      projects,
+      tags,
+      taskTags,
+      projectTags,
+      focusSessions,
+      todayTasks,
+    ] = await Promise.all([
+      this.localAdapter.getTasks(),
+      this.localAdapter.getProjects(),
+      this.localAdapter.getTags(),
+      this.localAdapter.getTaskTags(),
+      this.localAdapter.getProjectTags(),
+      this.localAdapter.getFocusSessions(),
+      this.localAdapter.getTodayTasks(),
+    ]);
+
+    return {
+      tasks,
+      projects,
+      tags,
+      taskTags,
+      projectTags,
+      focusSessions,
+      todayTasks,
+    };
+  }
+
+  // ========== Sharing Operations ==========
+  // Members and invites are changed on the remote right away, never queued
+
+  /**
+   * Whether projects can be shared: remote sync as a signed-in user
+   */
+  canShare(): boolean {
+    return (
+      !!this.userId &&
+      !!this.remoteAdapter &&
+      supportsSharing(this.remoteAdapter)
+    );
+  }
+
+  private getSharingAdapter(): ISharingAdapter {
+    if (
+      !this.userId ||
+      !this.remoteAdapter ||
+      !supportsSharing(this.remoteAdapter)
+    ) {
+      throw new Error(
+        "Sharing projects needs remote sync and a signed-in user",
+      );
+    }
+    return this.remoteAdapter;
+  }
+
+  /**
+   * Get the members of the shared projects, as of the last pull
+   */
+  async getProjectMembers(): Promise<ProjectMember[]> {
+    return this.localAdapter.getProjectMembers();
+  }
+
+  /**
+   * Get the invites sent for projects this user owns, and those sent to them
+   */
+  async getProjectInvites(): Promise<ProjectInvite[]> {
+    return this.getSharingAdapter().getProjectInvites();
+  }
+
+  /**
+   * Invite someone to a project by email
+   */
+  async inviteToProject(invite: ProjectInvite): Promise<void> {
+    await this.getSharingAdapter().addProjectInvite(invite);
+  }
+
+  /**
+   * Join the project of an invite, then pull it with its tasks.
+   * Its rows were last changed before the stored cursors, so everything is pulled.
+   */
+  async acceptInvite(id: string): Promise<void> {
+    await this.getSharingAdapter().acceptProjectInvite(id);
+    await this.localAdapter.clearSyncCursors();
+    await this.pullFromRemote();
+  }
+
+  /**
+   * Decline an invite sent to this user, or cancel one they sent
+   */
+  async deleteInvite(id: string): Promise<void> {
+    await this.getSharingAdapter().deleteProjectInvite(id);
+  }
+
+  /**
+   * Change what a member may do in a project
+   */
+  async setMemberRole(
+    projectId: string,
+    userId: string,
+    role: ProjectRole,
+  ): Promise<void> {
+    const sharing = this.getSharingAdapter();
+    await sharing.updateProjectMember(projectId, userId, role);
+    await this.localAdapter.saveProjectMembers(
+      await sharing.getProjectMembers(),
+    );
+  }
+
+  /**
+   * Remove a member from a project, or leave it when they are this user.
+   * The pull afterwards drops a project left behind from this device.
+   */
+  async removeMember(projectId: string, userId: string): Promise<void> {
+    await this.getSharingAdapter().removeProjectMember(projectId, userId);
+    await this.pullFromRemote();
+  }
+
   // ========== Sync Control Methods ==========
 
   /**
@@ -380,20 +612,40 @@ export class StorageManager {
   /**
    * Get sync status
    */
-  getSyncStatus(): {
-    pending: number;
-    failed: number;
-    isRunning: boolean;
-    isSyncing: boolean;
-  } {
+  getSyncStatus(): SyncStatus {
     return {
       pending: this.queue.getPendingCount(),
       failed: this.queue.getFailedCount(),
+      dead: this.queue.getDeadLetters().length,
       isRunning: this.worker?.isRunning() ?? false,
       isSyncing: this.worker?.isSyncing() ?? false,
+      operations: this.queue.getAllOperations(),
     };
   }
 
+  /**
+   * Subscribe to changes from other devices, pulled into local storage in the background
+   */
+  subscribeToRemoteChanges(listener: () => void): () => void {
+    return this.worker?.subscribeToRemoteChanges(listener) ?? (() => {});
+  }
+
+  /**
+   * Subscribe to changes another tab made to local storage
+   */
+  subscribeToOtherTabs(
+    listener: (collection: LocalCollection) => void,
+  ): () => void {
+    return this.localAdapter.subscribeToOtherTabs(listener);
+  }
+
+  /**
+   * Subscribe to changes to the sync queue
+   */
+  subscribeToSync(listener: () => void): () => void {
+    return this.queue.subscribe(listener);
+  }
+
   /**
    * Retry all failed operations
    */
@@ -401,6 +653,20 @@ export class StorageManager {
     this.queue.retryFailed();
   }
 
+  /**
+   * Retry one failed or dead-lettered operation on the next sync
+   */
+  retryOperation(operationId: string): void {
+    this.queue.retry(operationId);
+  }
+
+  /**
+   * Drop one queued operation without syncing it
+   */
+  discardOperation(operationId: string): void {
+    this.queue.discard(operationId);
+  }
+
   /**
    * Clear the sync queue (use with caution)
    */
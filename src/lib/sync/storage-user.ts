@@ -0,0 +1,23 @@
+/**
+ * The account whose data is kept in the browser.
+ * Each signed-in user's local copy and sync queue live under keys (and an IndexedDB
+ * database) of their own, so switching accounts in one browser never mixes their data.
+ * Without a user (local-only storage) the keys are used as they are.
+ */
+let storageUserId: string | null = null;
+
+export function setStorageUser(userId: string | null): void {
+  storageUserId = userId;
+}
+
+export function getStorageUser(): string | null {
+  return storageUserId;
+}
+
+/**
+ * The localStorage key (or IndexedDB database name) holding a piece of the current
+ * user's data
+ */
+export function userKey(key: string): string {
+  return storageUserId ? `user:${storageUserId}:${key}` : key;
+}
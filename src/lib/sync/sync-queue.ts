@@ -1,13 +1,61 @@
-import { OperationType, QueuedOperation } from "./types";
+import { compactQueue } from "./compaction";
+import { isPermanentError } from "./errors";
+import { userKey } from "./storage-user";
+import { BatchedOperation, OperationType, QueuedOperation } from "./types";
 
 const QUEUE_KEY = "sync_queue";
 
+// Attempts before an operation that keeps failing is dead-lettered
+const MAX_RETRIES = 8;
+
+const BASE_RETRY_DELAY_MS = 5 * 1000;
+const MAX_RETRY_DELAY_MS = 10 * 60 * 1000;
+
+/**
+ * How long to wait before sending an operation again after its nth failed attempt.
+ * The delay doubles with each attempt up to a cap, and is jittered between half and
+ * all of that so clients that went down together don't retry in lockstep.
+ */
+export function getRetryDelay(retries: number, random = Math.random): number {
+  const delay = Math.min(
+    BASE_RETRY_DELAY_MS * 2 ** Math.max(retries - 1, 0),
+    MAX_RETRY_DELAY_MS,
+  );
+  return delay / 2 + (random() * delay) / 2;
+}
+
+/**
+ * Make a failed or dead-lettered operation pending again, with a fresh set of retries
+ */
+const retryNow = (operation: QueuedOperation): QueuedOperation =>
+  operation.status === "failed" || operation.status === "dead"
+    ? { ...operation, status: "pending", retries: 0, nextAttemptAt: undefined }
+    : operation;
+
+/**
+ * The operations a queued operation stands for:
+ * the ones inside it for a BATCH, otherwise the operation itself
+ */
+export function unbatch(operation: BatchedOperation): BatchedOperation[] {
+  return operation.type === OperationType.BATCH
+    ? (operation.payload as BatchedOperation[])
+    : [operation];
+}
+
 /**
  * SyncQueue manages a persistent queue of operations waiting to be synced to the remote server.
- * Operations are stored in localStorage and survive page refreshes.
+ * Operations are stored in localStorage and survive page refreshes. Unlike the data,
+ * which lives in IndexedDB, the queue is read synchronously and stays small because
+ * operations are compacted.
+ * New operations are compacted into the pending ones they supersede (see compaction.ts).
+ * Failed operations are retried with backoff; ones the server rejects, or that keep
+ * failing, are dead-lettered until the user retries or discards them.
  */
 export class SyncQueue {
   private queue: QueuedOperation[] = [];
+  private listeners = new Set<() => void>();
+  // Operations enqueued while a batch() is running
+  private openBatch: BatchedOperation[] | null = null;
 
   constructor() {
     console.log(
@@ -26,11 +74,16 @@ export class SyncQueue {
     }
 
     try {
-      const stored = window.localStorage.getItem(QUEUE_KEY);
-      console.log("[SyncQueue] Loading from localStorage, raw value:", stored);
+      const stored = window.localStorage.getItem(userKey(QUEUE_KEY));
       if (stored) {
-        this.queue = JSON.parse(stored) as QueuedOperation[];
-        console.log("[SyncQueue] Parsed queue:", this.queue);
+        // Operations that were being sent when the page closed are sent again
+        this.queue = (JSON.parse(stored) as QueuedOperation[]).map(
+          (operation) =>
+            operation.status === "processing"
+              ? { ...operation, status: "pending" }
+              : operation,
+        );
+        console.log("[SyncQueue] Loaded operations:", this.queue.length);
       }
     } catch (error) {
       console.error("Failed to load sync queue:", error);
@@ -47,18 +100,35 @@ export class SyncQueue {
     }
 
     try {
-      const serialized = JSON.stringify(this.queue);
-      console.log("[SyncQueue] Persisting to localStorage:", {
-        queueLength: this.queue.length,
-        serialized,
-      });
-      window.localStorage.setItem(QUEUE_KEY, serialized);
-      // Verify it was saved
-      const verified = window.localStorage.getItem(QUEUE_KEY);
-      console.log("[SyncQueue] Verified persisted value:", verified);
+      window.localStorage.setItem(
+        userKey(QUEUE_KEY),
+        JSON.stringify(this.queue),
+      );
     } catch (error) {
       console.error("Failed to persist sync queue:", error);
     }
+    this.listeners.forEach((listener) => listener());
+  }
+
+  /**
+   * Subscribe to changes to the queue
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+
+  /**
+   * Replace the operations with the given ids, leaving the rest as they are
+   */
+  private updateOperations(
+    operationIds: string[],
+    update: (operation: QueuedOperation) => QueuedOperation,
+  ): void {
+    this.queue = this.queue.map((operation) =>
+      operationIds.includes(operation.id) ? update(operation) : operation,
+    );
+    this.persistQueue();
   }
 
   /**
@@ -72,6 +142,11 @@ export class SyncQueue {
    * Add an operation to the queue
    */
   enqueue(type: OperationType, payload: unknown): void {
+    if (this.openBatch) {
+      this.openBatch.push({ type, payload });
+      return;
+    }
+
     const operation: QueuedOperation = {
       id: this.generateId(),
       type,
@@ -81,7 +156,7 @@ export class SyncQueue {
       status: "pending",
     };
 
-    this.queue.push(operation);
+    this.queue = compactQueue(this.queue, operation);
     console.log("[SyncQueue] Enqueued operation:", {
       type,
       queueSize: this.queue.length,
@@ -91,22 +166,73 @@ export class SyncQueue {
   }
 
   /**
-   * Get the next batch of pending operations
+   * Run fn with every operation it enqueues collected into a single BATCH operation,
+   * so a change to many records takes one entry in the queue.
+   * A batch started inside another one joins it.
    */
-  getNextBatch(batchSize = 10): QueuedOperation[] {
+  async batch(fn: () => Promise<void>): Promise<void> {
+    if (this.openBatch) {
+      await fn();
+      return;
+    }
+
+    this.openBatch = [];
+    try {
+      await fn();
+    } finally {
+      const operations = this.openBatch;
+      this.openBatch = null;
+      if (operations.length === 1) {
+        this.enqueue(operations[0].type, operations[0].payload);
+      } else if (operations.length > 1) {
+        this.enqueue(OperationType.BATCH, operations);
+      }
+    }
+  }
+
+  /**
+   * Get the next batch of pending operations, including failed ones due for a retry.
+   * Operations queued after one still waiting for its retry wait behind it, as they
+   * may depend on it (a tag on a task whose add failed).
+   */
+  getNextBatch(batchSize = 10, now = Date.now()): QueuedOperation[] {
     // console.log("[SyncQueue] getNextBatch called, current queue:", {
     //   totalItems: this.queue.length,
     //   queue: this.queue,
     // });
-    const pending = this.queue.filter((op) => op.status === "pending");
+    const ordered = [...this.queue].sort((a, b) => a.timestamp - b.timestamp);
+    const waiting = ordered.findIndex(
+      (op) => op.status === "failed" && (op.nextAttemptAt ?? 0) > now,
+    );
+    const pending = (
+      waiting === -1 ? ordered : ordered.slice(0, waiting)
+    ).filter((op) => op.status === "pending" || op.status === "failed");
     console.log("[SyncQueue] Pending operations:", pending.length);
-    const batch = pending
-      .sort((a, b) => a.timestamp - b.timestamp)
-      .slice(0, batchSize);
+    const batch = pending.slice(0, batchSize);
     // console.log("[SyncQueue] Returning batch:", batch);
     return batch;
   }
 
+  /**
+   * Mark operations as being sent, so nothing new is compacted into them meanwhile
+   */
+  markProcessing(operationIds: string[]): void {
+    this.updateOperations(operationIds, (operation) => ({
+      ...operation,
+      status: "processing",
+    }));
+  }
+
+  /**
+   * Put operations that were going to be sent back in the queue, unsent
+   */
+  markPending(operationIds: string[]): void {
+    this.updateOperations(operationIds, (operation) => ({
+      ...operation,
+      status: "pending",
+    }));
+  }
+
   /**
    * Mark an operation as complete and remove it from the queue
    */
@@ -121,29 +247,95 @@ export class SyncQueue {
   }
 
   /**
-   * Mark an operation as failed and increment retry count
+   * Drop the operations of a BATCH that have already been synced,
+   * so a retry after a failure picks up where it stopped
    */
-  markFailed(operationId: string): void {
-    const operation = this.queue.find((op) => op.id === operationId);
-    if (operation) {
-      operation.status = "failed";
-      operation.retries += 1;
-      this.persistQueue();
-    }
+  markBatchProgress(operationId: string, remaining: BatchedOperation[]): void {
+    this.updateOperations([operationId], (operation) =>
+      operation.type === OperationType.BATCH
+        ? { ...operation, payload: remaining }
+        : operation,
+    );
   }
 
   /**
-   * Retry all failed operations that haven't exceeded max retries
+   * Mark an operation as failed and increment retry count.
+   * It is scheduled for another attempt after a backoff, or dead-lettered
+   * when the error is permanent or it has run out of retries.
+   */
+  markFailed(operationId: string, error: unknown, now = Date.now()): void {
+    const lastError = error instanceof Error ? error.message : String(error);
+    this.updateOperations([operationId], (operation) => {
+      const retries = operation.retries + 1;
+      if (isPermanentError(error) || retries >= MAX_RETRIES) {
+        return {
+          ...operation,
+          status: "dead",
+          retries,
+          lastError,
+          nextAttemptAt: undefined,
+        };
+      }
+      return {
+        ...operation,
+        status: "failed",
+        retries,
+        lastError,
+        nextAttemptAt: now + getRetryDelay(retries),
+      };
+    });
+  }
+
+  /**
+   * Send an operation again on the next sync, whether it is waiting for a retry or dead-lettered
+   */
+  retry(operationId: string): void {
+    this.updateOperations([operationId], retryNow);
+  }
+
+  /**
+   * Retry all failed and dead-lettered operations now
    */
   retryFailed(): void {
-    const maxRetries = 3;
+    this.updateOperations(
+      this.queue.map((op) => op.id),
+      retryNow,
+    );
+  }
+
+  /**
+   * Drop an operation without sending it. The change stays on this device only.
+   */
+  discard(operationId: string): void {
+    this.queue = this.queue.filter((op) => op.id !== operationId);
+    this.persistQueue();
+  }
 
-    for (const operation of this.queue) {
-      if (operation.status === "failed" && operation.retries < maxRetries) {
-        operation.status = "pending";
+  /**
+   * Rewrite the payloads of all queued operations of a given type, including those inside batches.
+   * The rewriter returns the new payload, or null to drop the operation entirely.
+   */
+  rewrite(
+    type: OperationType,
+    rewriter: (payload: unknown) => unknown | null,
+  ): void {
+    const rewriteOne = <T extends BatchedOperation>(operation: T): T[] => {
+      if (operation.type !== type) {
+        return [operation];
       }
-    }
 
+      const payload = rewriter(operation.payload);
+      return payload === null ? [] : [{ ...operation, payload }];
+    };
+
+    this.queue = this.queue.flatMap((operation) => {
+      if (operation.type !== OperationType.BATCH) {
+        return rewriteOne(operation);
+      }
+
+      const payload = unbatch(operation).flatMap(rewriteOne);
+      return payload.length === 0 ? [] : [{ ...operation, payload }];
+    });
     this.persistQueue();
   }
 
@@ -155,14 +347,21 @@ export class SyncQueue {
   }
 
   /**
-   * Get count of failed operations
+   * Get count of failed operations waiting for a retry
    */
   getFailedCount(): number {
     return this.queue.filter((op) => op.status === "failed").length;
   }
 
   /**
-   * Get all operations (for debugging)
+   * Get the dead-lettered operations, which are not retried on their own
+   */
+  getDeadLetters(): QueuedOperation[] {
+    return this.queue.filter((op) => op.status === "dead");
+  }
+
+  /**
+   * Get all operations (for debugging and the Sync panel)
    */
   getAllOperations(): QueuedOperation[] {
     return [...this.queue];
@@ -1,27 +1,175 @@
-import type { Project, Tag, Task, TodayTask } from "@/lib/types";
+import type {
+  FocusSession,
+  Project,
+  ProjectMember,
+  ProjectTag,
+  Tag,
+  Task,
+  TaskTag,
+  TodayTask,
+} from "@/lib/types";
 
-import { LocalStorageAdapter } from "./local-storage-adapter";
-import { RemoteStorageAdapter } from "./remote-storage-adapter";
-import { SyncQueue } from "./sync-queue";
-import { OperationType, QueuedOperation } from "./types";
+import { isPermanentError } from "./errors";
+import {
+  isDataField,
+  MergeableRecord,
+  mergeCollections,
+  mergeLinks,
+} from "./merge";
+import { getStorageUser } from "./storage-user";
+import { SyncQueue, unbatch } from "./sync-queue";
+import {
+  BatchedOperation,
+  DataSnapshot,
+  ILocalAdapter,
+  IRealtimeChannel,
+  IStorageAdapter,
+  OperationType,
+  QueuedOperation,
+  supportsBulkUpsert,
+  supportsDeltaSync,
+  supportsOffline,
+  supportsRealtime,
+  supportsSharing,
+  SyncCursors,
+} from "./types";
+
+/**
+ * Ids of records whose add or delete is still waiting in the queue
+ */
+interface PendingRecords {
+  added: Set<string>;
+  deleted: Set<string>;
+}
+
+/**
+ * Keys of relationship rows whose add or remove is still waiting in the queue
+ */
+interface PendingLinks {
+  added: Set<string>;
+  removed: Set<string>;
+}
+
+/**
+ * Local changes that have not reached the remote yet, grouped by table
+ */
+interface PendingChanges {
+  tasks: PendingRecords;
+  projects: PendingRecords;
+  tags: PendingRecords;
+  taskTags: PendingLinks;
+  projectTags: PendingLinks;
+  focusSessions: PendingLinks;
+  today: boolean;
+}
+
+// Operations sent per run of the worker
+const SYNC_BATCH_SIZE = 25;
+
+// Wait after a local change before sending it, so a burst of edits goes out together
+const PUSH_DELAY_MS = 300;
+
+// Wait after a remote change is announced before pulling, so a burst of them
+// (such as a bulk action on another device) takes one pull
+const PULL_DELAY_MS = 250;
+
+// Adds that a remote with bulk upserts receives together, one request per kind
+const BULK_ADDS = [
+  OperationType.ADD_TASK,
+  OperationType.ADD_PROJECT,
+  OperationType.ADD_TAG,
+  OperationType.ADD_TASK_TAG,
+  OperationType.ADD_PROJECT_TAG,
+  OperationType.ADD_FOCUS_SESSION,
+];
+
+// Must not exceed how long the remote keeps tombstones (see deleted_records)
+const TOMBSTONE_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+const taskTagKey = (taskTag: { taskId: string; tagId: string }) =>
+  `${taskTag.taskId}:${taskTag.tagId}`;
+
+const projectTagKey = (projectTag: { projectId: string; tagId: string }) =>
+  `${projectTag.projectId}:${projectTag.tagId}`;
+
+/**
+ * Apply rows changed on the remote on top of a local copy of a table.
+ * Changed rows replace their local counterparts, tombstoned rows are removed.
+ * A row that is both changed and tombstoned was re-created, so it is kept.
+ */
+function applyChanges<T>(
+  base: T[],
+  changed: T[],
+  getKey: (row: T) => string,
+  deleted: Set<string>,
+): T[] {
+  const rows = new Map(base.map((row) => [getKey(row), row]));
+  for (const key of deleted) rows.delete(key);
+  for (const row of changed) rows.set(getKey(row), row);
+  return [...rows.values()];
+}
+
+/**
+ * Keep only the projects the user is a member of, dropping the tasks of the others.
+ * Pulls never return rows the user lost access to, so projects they left or were
+ * removed from would otherwise stay on this device.
+ * Projects whose add is still queued have no members on the remote yet and are kept.
+ */
+function keepMemberProjects(
+  projects: Project[],
+  tasks: Task[],
+  members: ProjectMember[],
+  userId: string,
+  pendingProjects: Set<string>,
+): { projects: Project[]; tasks: Task[] } {
+  const memberOf = new Set(
+    members
+      .filter((member) => member.userId === userId)
+      .map((member) => member.projectId),
+  );
+  const kept = projects.filter(
+    (project) => memberOf.has(project.id) || pendingProjects.has(project.id),
+  );
+  const keptIds = new Set(kept.map((project) => project.id));
+
+  return {
+    projects: kept,
+    tasks: tasks.filter(
+      (task) => !task.projectId || keptIds.has(task.projectId),
+    ),
+  };
+}
 
 /**
  * SyncWorker processes queued operations and syncs them to the remote server.
- * Runs on an interval and handles online/offline scenarios.
- * Also handles pulling data from remote on initialization.
+ * Queued operations are sent shortly after they are made, with an interval as a
+ * fallback for retries and coming back online. Handles online/offline scenarios.
+ * Also pulls data from remote on initialization, and whenever the remote announces
+ * a change over its realtime channel.
  */
 export class SyncWorker {
   private queue: SyncQueue;
-  private remoteAdapter: RemoteStorageAdapter;
-  private localAdapter: LocalStorageAdapter;
+  private remoteAdapter: IStorageAdapter;
+  private localAdapter: ILocalAdapter;
   private intervalId: number | null = null;
   private isProcessing = false;
+  private isPulling = false;
+  // The batch being sent, which a pull waits for
+  private sending: Promise<void> = Promise.resolve();
   private syncIntervalMs: number;
+  private pushTimeoutId: number | null = null;
+  private pullTimeoutId: number | null = null;
+  private unsubscribeQueue: (() => void) | null = null;
+  private channel: IRealtimeChannel | null = null;
+  // Pulls run one after another: the last one running, and the one waiting for it
+  private runningPull: Promise<void> = Promise.resolve();
+  private waitingPull: Promise<void> | null = null;
+  private remoteChangeListeners = new Set<() => void>();
 
   constructor(
     queue: SyncQueue,
-    remoteAdapter: RemoteStorageAdapter,
-    localAdapter: LocalStorageAdapter,
+    remoteAdapter: IStorageAdapter,
+    localAdapter: ILocalAdapter,
     syncIntervalMs = 5000,
   ) {
     this.queue = queue;
@@ -43,6 +191,19 @@ export class SyncWorker {
       void this.processQueue();
     }, this.syncIntervalMs);
 
+    // Send new operations as they are queued
+    this.unsubscribeQueue = this.queue.subscribe(() => this.schedulePush());
+
+    // Pull changes from other devices as the remote announces them.
+    // Changes made while disconnected were missed, so each (re)connect pulls too.
+    if (supportsRealtime(this.remoteAdapter)) {
+      this.channel = this.remoteAdapter.createRealtimeChannel();
+      this.channel?.connect({
+        onChange: () => this.schedulePull(),
+        onConnect: () => this.schedulePull(),
+      });
+    }
+
     // Process immediately on start
     void this.processQueue();
   }
@@ -55,6 +216,60 @@ export class SyncWorker {
       window.clearInterval(this.intervalId);
       this.intervalId = null;
     }
+    if (this.pushTimeoutId !== null) {
+      window.clearTimeout(this.pushTimeoutId);
+      this.pushTimeoutId = null;
+    }
+    if (this.pullTimeoutId !== null) {
+      window.clearTimeout(this.pullTimeoutId);
+      this.pullTimeoutId = null;
+    }
+    this.unsubscribeQueue?.();
+    this.unsubscribeQueue = null;
+    this.channel?.disconnect();
+    this.channel = null;
+  }
+
+  /**
+   * Subscribe to remote changes the worker pulled into local storage by itself
+   * (announced over the realtime channel), so they can be shown
+   */
+  subscribeToRemoteChanges(listener: () => void): () => void {
+    this.remoteChangeListeners.add(listener);
+    return () => this.remoteChangeListeners.delete(listener);
+  }
+
+  /**
+   * Process the queue soon if the worker is running and operations are due to be sent
+   */
+  private schedulePush(): void {
+    if (
+      this.intervalId === null ||
+      this.pushTimeoutId !== null ||
+      this.queue.getNextBatch(1).length === 0
+    ) {
+      return;
+    }
+
+    this.pushTimeoutId = window.setTimeout(() => {
+      this.pushTimeoutId = null;
+      void this.processQueue();
+    }, PUSH_DELAY_MS);
+  }
+
+  /**
+   * Pull soon, then let listeners know local storage changed
+   */
+  private schedulePull(): void {
+    if (this.pullTimeoutId !== null) {
+      return;
+    }
+
+    this.pullTimeoutId = window.setTimeout(async () => {
+      this.pullTimeoutId = null;
+      await this.pullFromRemote();
+      this.remoteChangeListeners.forEach((listener) => listener());
+    }, PULL_DELAY_MS);
   }
 
   /**
@@ -67,8 +282,16 @@ export class SyncWorker {
       return;
     }
 
+    // Skip while pulling: the pull fetched before anything sent now reaches the
+    // remote, so it would take a new record for one deleted on another device.
+    // The queue is processed again once the pull is done.
+    if (this.isPulling) {
+      console.log("[SyncWorker] Pulling, skipping");
+      return;
+    }
+
     // Skip if offline
-    if (typeof navigator !== "undefined" && !navigator.onLine) {
+    if (this.isOffline()) {
       console.log("[SyncWorker] Offline, skipping sync");
       return;
     }
@@ -76,33 +299,140 @@ export class SyncWorker {
     this.isProcessing = true;
 
     try {
-      const batch = this.queue.getNextBatch(10);
-      // console.log("[SyncWorker] Processing queue:", {
-      //   batchSize: batch.length,
-      //   pendingCount: this.queue.getPendingCount(),
-      // });
-
-      // if (batch.length === 0) {
-      //   console.log("[SyncWorker] No operations to process");
-      //   return;
-      // }
-
-      for (const operation of batch) {
-        try {
-          console.log("[SyncWorker] Executing operation:", operation.type);
-          await this.executeOperation(operation);
-          this.queue.markComplete(operation.id);
-        } catch (error) {
-          console.error(
-            `Failed to execute operation ${operation.type}:`,
-            error,
-          );
-          this.queue.markFailed(operation.id);
-        }
-      }
+      this.sending = this.sendNextBatch();
+      await this.sending;
     } finally {
       this.isProcessing = false;
     }
+
+    // Operations queued while this batch was sent
+    this.schedulePush();
+  }
+
+  /**
+   * Send the next batch of operations due to be sent
+   */
+  private async sendNextBatch(): Promise<void> {
+    const batch = this.queue.getNextBatch(SYNC_BATCH_SIZE);
+    this.queue.markProcessing(batch.map((operation) => operation.id));
+    // console.log("[SyncWorker] Processing queue:", {
+    //   batchSize: batch.length,
+    //   pendingCount: this.queue.getPendingCount(),
+    // });
+
+    // if (batch.length === 0) {
+    //   console.log("[SyncWorker] No operations to process");
+    //   return;
+    // }
+
+    await this.sendRuns(this.groupRuns(batch));
+  }
+
+  /**
+   * Send runs of operations in order, stopping at one that is to be retried:
+   * later operations may depend on it (a tag on a task whose add failed), and
+   * sent first they would be rejected for good. They stay queued behind it.
+   * Returns whether every run was sent or rejected for good.
+   */
+  private async sendRuns(runs: QueuedOperation[][]): Promise<boolean> {
+    for (let i = 0; i < runs.length; i++) {
+      if (!(await this.sendRun(runs[i]))) {
+        const unsent = runs
+          .slice(i + 1)
+          .reduce((all, run) => all.concat(run), []);
+        this.queue.markPending(unsent.map((operation) => operation.id));
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Send a run of operations and record how each of them went.
+   * A bulk request the server rejects is split up, so only the operations
+   * at fault are dead-lettered rather than every one sent with them.
+   * Returns false if the run failed and is to be retried.
+   */
+  private async sendRun(run: QueuedOperation[]): Promise<boolean> {
+    try {
+      console.log("[SyncWorker] Executing operation:", run[0].type, run.length);
+      await this.executeRun(run);
+      run.forEach((operation) => this.queue.markComplete(operation.id));
+      return true;
+    } catch (error) {
+      if (run.length > 1 && isPermanentError(error)) {
+        return this.sendRuns(run.map((operation) => [operation]));
+      }
+      console.error(`Failed to execute operation ${run[0].type}:`, error);
+      run.forEach((operation) => this.queue.markFailed(operation.id, error));
+      return isPermanentError(error);
+    }
+  }
+
+  /**
+   * Split operations into runs that are each sent in one request:
+   * consecutive adds of the same kind when the remote supports bulk upserts,
+   * otherwise every operation on its own
+   */
+  private groupRuns<T extends BatchedOperation>(operations: T[]): T[][] {
+    const bulk = supportsBulkUpsert(this.remoteAdapter);
+    const runs: T[][] = [];
+    for (const operation of operations) {
+      const last = runs[runs.length - 1];
+      if (
+        bulk &&
+        last &&
+        BULK_ADDS.includes(operation.type) &&
+        last[0].type === operation.type
+      ) {
+        last.push(operation);
+      } else {
+        runs.push([operation]);
+      }
+    }
+    return runs;
+  }
+
+  /**
+   * Send a run of operations from groupRuns.
+   * Adds go through the bulk upsert when the remote has one, even on their own,
+   * since an upsert can safely be repeated after a failure.
+   */
+  private async executeRun(run: QueuedOperation[]): Promise<void> {
+    const remote = this.remoteAdapter;
+    const type = run[0].type;
+    if (!supportsBulkUpsert(remote) || !BULK_ADDS.includes(type)) {
+      for (const operation of run) {
+        await this.executeOperation(operation);
+      }
+      return;
+    }
+
+    const payloads = run.map((operation) => operation.payload);
+    switch (type) {
+      case OperationType.ADD_TASK:
+        await remote.upsertTasks(payloads as Task[]);
+        break;
+      case OperationType.ADD_PROJECT:
+        await remote.upsertProjects(payloads as Project[]);
+        break;
+      case OperationType.ADD_TAG:
+        await remote.upsertTags(payloads as Tag[]);
+        break;
+      case OperationType.ADD_TASK_TAG:
+        await remote.upsertTaskTags(
+          payloads as { taskId: string; tagId: string }[],
+        );
+        break;
+      case OperationType.ADD_PROJECT_TAG:
+        await remote.upsertProjectTags(
+          payloads as { projectId: string; tagId: string }[],
+        );
+        break;
+      case OperationType.ADD_FOCUS_SESSION:
+        await remote.upsertFocusSessions(payloads as FocusSession[]);
+        break;
+    }
   }
 
   /**
@@ -252,97 +582,569 @@ export class SyncWorker {
         );
         break;
 
+      // Focus session operations
+      case OperationType.ADD_FOCUS_SESSION:
+        await this.remoteAdapter.addFocusSession(
+          payload as Parameters<typeof this.remoteAdapter.addFocusSession>[0],
+        );
+        break;
+
+      case OperationType.DELETE_FOCUS_SESSION:
+        await this.remoteAdapter.deleteFocusSession(
+          (payload as { id: string }).id,
+        );
+        break;
+
+      // Run in order, dropping each run once synced so a retry doesn't repeat it
+      case OperationType.BATCH: {
+        const remaining = [...(payload as BatchedOperation[])];
+        for (const run of this.groupRuns(remaining)) {
+          await this.executeRun(
+            run.map((batched) => ({ ...operation, ...batched })),
+          );
+          remaining.splice(0, run.length);
+          this.queue.markBatchProgress(operation.id, remaining);
+        }
+        break;
+      }
+
       default:
         throw new Error(`Unknown operation type: ${type}`);
     }
   }
 
   /**
-   * Pull latest data from remote and save to local storage
-   * This is called on app initialization to sync remote -> local
+   * Pull latest data from remote and merge it into local storage.
+   * This is called on app initialization to sync remote -> local.
+   * After the first pull only rows changed since the last pull are downloaded (see fetchRemote).
+   *
+   * Records are merged field by field (last writer wins, see merge.ts) so edits made
+   * offline on this device are not clobbered by edits another device synced first.
+   * Queued updates that lost the merge are dropped, and local values that won
+   * without a queued update are re-queued so the remote converges too.
    */
-  async pullFromRemote(): Promise<void> {
-    if (typeof navigator !== "undefined" && !navigator.onLine) {
+  pullFromRemote(): Promise<void> {
+    // A pull asked for while one runs waits for it, as it may be for changes made
+    // since that one fetched. Any more asked for meanwhile share the waiting one.
+    if (!this.waitingPull) {
+      this.waitingPull = this.runningPull.then(() => {
+        this.waitingPull = null;
+        return this.pull();
+      });
+      this.runningPull = this.waitingPull;
+    }
+    return this.waitingPull;
+  }
+
+  /**
+   * Run one pull (see pullFromRemote)
+   */
+  private async pull(): Promise<void> {
+    if (this.isOffline()) {
       console.log("Offline - skipping pull from remote");
       return;
     }
 
+    this.isPulling = true;
     try {
+      // Let the batch being sent reach the remote first, so this pull fetches it
+      await this.sending.catch(() => {});
       console.log("Pulling data from remote...");
 
-      // Fetch all data from remote in parallel
-      const [tasks, projects, tags, taskTags, projectTags, todayTasks] =
-        await Promise.all([
-          this.remoteAdapter.getTasks(),
-          this.remoteAdapter.getProjects(),
-          this.remoteAdapter.getTags(),
-          this.remoteAdapter.getTaskTags(),
-          this.remoteAdapter.getProjectTags(),
-          this.remoteAdapter.getTodayTasks(),
-        ]);
+      // Taken before fetching, as the user may sign out while the pull runs
+      const userId = getStorageUser();
+      const [fetched, members] = await Promise.all([
+        this.readLocal().then((snapshot) => this.fetchRemote(snapshot)),
+        this.fetchMembers(userId),
+      ]);
+      let { remote, cursors, incremental } = fetched;
+
+      // The rows of a project joined since the last pull were changed before its
+      // cursors, so only a pull of everything fetches them
+      if (incremental && (await this.hasJoinedProjects(members, userId))) {
+        console.log("[pullFromRemote] Joined a project, pulling everything");
+        await this.localAdapter.clearSyncCursors();
+        ({ remote, cursors, incremental } = await this.readLocal().then(
+          (snapshot) => this.fetchRemote(snapshot),
+        ));
+      }
 
       console.log("[pullFromRemote] Fetched from remote:", {
-        tasks: tasks.length,
-        projects: projects.length,
-        tags: tags.length,
-        taskTags: taskTags.length,
-        projectTags: projectTags.length,
-        todayTasks: todayTasks.length,
+        incremental,
+        tasks: remote.tasks.length,
+        projects: remote.projects.length,
+        tags: remote.tags.length,
+        taskTags: remote.taskTags.length,
+        projectTags: remote.projectTags.length,
+        focusSessions: remote.focusSessions.length,
+        todayTasks: remote.todayTasks.length,
       });
 
-      // Save to local storage (overwrites local data with remote)
-      // Use Promise.allSettled to continue even if some operations fail
-      const results = await Promise.allSettled([
-        // Save each entity type by clearing and re-adding all items
-        this.saveToLocal("tasks", tasks),
-        this.saveToLocal("projects", projects),
-        this.saveToLocal("tags", tags),
-        this.saveToLocal("task_tags", taskTags),
-        this.saveToLocal("project_tags", projectTags),
-        this.saveToLocal("today", todayTasks),
-      ]);
-
-      // Log any failures
-      results.forEach((result, index) => {
-        if (result.status === "rejected") {
-          const types = [
-            "tasks",
-            "projects",
-            "tags",
-            "task_tags",
-            "project_tags",
-            "today",
-          ];
-          console.error(
-            `Failed to save ${types[index]} to local:`,
-            result.reason,
-          );
-        }
-      });
+      // Merged with what is stored when writing, so edits made while fetching are kept
+      await this.localAdapter.replaceData((local) => ({
+        data: this.merge(local, remote, members, userId),
+        members: members ?? undefined,
+        // Only advanced along with everything they cover
+        cursors: cursors && { cursors, pulledAt: Date.now() },
+      }));
 
       console.log("Successfully pulled data from remote");
     } catch (error) {
       console.error("Failed to pull from remote:", error);
       // Don't throw - we want the app to continue even if pull fails
+    } finally {
+      this.isPulling = false;
     }
+
+    // Operations queued while pulling
+    this.schedulePush();
   }
 
   /**
-   * Helper to save data directly to localStorage
+   * Merge pulled data into the local data field by field (see merge.ts), keeping only
+   * the projects the user is a member of when projects are shared with them.
+   * Queued updates are brought in line with the result.
    */
-  private async saveToLocal(key: string, data: unknown[]): Promise<void> {
-    if (typeof window === "undefined") {
-      return;
+  private merge(
+    local: DataSnapshot,
+    remote: DataSnapshot,
+    members: ProjectMember[] | null,
+    userId: string | null,
+  ): DataSnapshot {
+    const pending = this.getPendingChanges();
+
+    // Merge entities field by field
+    const mergedTasks = mergeCollections(
+      local.tasks,
+      remote.tasks,
+      pending.tasks,
+    );
+    const mergedProjects = mergeCollections(
+      local.projects,
+      remote.projects,
+      pending.projects,
+    );
+    const mergedTags = mergeCollections(local.tags, remote.tags, pending.tags);
+
+    // Only projects shared with this user stay, along with their tasks
+    if (members && userId) {
+      const shared = keepMemberProjects(
+        mergedProjects.merged,
+        mergedTasks.merged,
+        members,
+        userId,
+        pending.projects.added,
+      );
+      mergedProjects.merged = shared.projects;
+      mergedTasks.merged = shared.tasks;
+    }
+
+    // Merge relationships, dropping any that point at records that no longer exist
+    const taskIds = new Set(mergedTasks.merged.map((t) => t.id));
+    const projectIds = new Set(mergedProjects.merged.map((p) => p.id));
+    const tagIds = new Set(mergedTags.merged.map((t) => t.id));
+
+    const mergedTaskTags = mergeLinks<TaskTag>(
+      local.taskTags,
+      remote.taskTags,
+      taskTagKey,
+      pending.taskTags,
+    ).filter((tt) => taskIds.has(tt.taskId) && tagIds.has(tt.tagId));
+
+    const mergedProjectTags = mergeLinks<ProjectTag>(
+      local.projectTags,
+      remote.projectTags,
+      projectTagKey,
+      pending.projectTags,
+    ).filter((pt) => projectIds.has(pt.projectId) && tagIds.has(pt.tagId));
+
+    // Sessions are never edited, so they merge like relationship rows
+    const mergedFocusSessions = mergeLinks<FocusSession>(
+      local.focusSessions,
+      remote.focusSessions,
+      (session) => session.id,
+      pending.focusSessions,
+    ).filter((session) => taskIds.has(session.taskId));
+
+    // Today is saved as a whole list, so a queued change means local is newer
+    const mergedTodayTasks = (
+      pending.today ? local.todayTasks : remote.todayTasks
+    ).filter((tt) => taskIds.has(tt.taskId));
+
+    // Bring the queue in line with the merged state
+    this.rebaseUpdates(
+      OperationType.UPDATE_TASK,
+      mergedTasks.merged,
+      mergedTasks.localWins,
+    );
+    this.rebaseUpdates(
+      OperationType.UPDATE_PROJECT,
+      mergedProjects.merged,
+      mergedProjects.localWins,
+    );
+    this.rebaseUpdates(
+      OperationType.UPDATE_TAG,
+      mergedTags.merged,
+      mergedTags.localWins,
+    );
+
+    return {
+      tasks: mergedTasks.merged,
+      projects: mergedProjects.merged,
+      tags: mergedTags.merged,
+      taskTags: mergedTaskTags,
+      projectTags: mergedProjectTags,
+      focusSessions: mergedFocusSessions,
+      todayTasks: mergedTodayTasks,
+    };
+  }
+
+  /**
+   * Read everything currently stored locally
+   */
+  private async readLocal(): Promise<DataSnapshot> {
+    const [
+      tasks,
+      projects,
+      tags,
+      taskTags,
+      projectTags,
+      focusSessions,
+      todayTasks,
+    ] = await Promise.all([
+      this.localAdapter.getTasks(),
+      this.localAdapter.getProjects(),
+      this.localAdapter.getTags(),
+      this.localAdapter.getTaskTags(),
+      this.localAdapter.getProjectTags(),
+      this.localAdapter.getFocusSessions(),
+      this.localAdapter.getTodayTasks(),
+    ]);
+
+    return {
+      tasks,
+      projects,
+      tags,
+      taskTags,
+      projectTags,
+      focusSessions,
+      todayTasks,
+    };
+  }
+
+  /**
+   * Fetch the current remote state.
+   * When the remote supports delta sync and this device has pulled recently, only rows
+   * changed since the stored cursors are downloaded and applied on top of the local
+   * data, with tombstones removing rows deleted on the remote. Otherwise everything
+   * is downloaded. Cursors are returned whenever the remote supports delta sync.
+   */
+  private async fetchRemote(local: DataSnapshot): Promise<{
+    remote: DataSnapshot;
+    cursors?: SyncCursors;
+    incremental: boolean;
+  }> {
+    if (!supportsDeltaSync(this.remoteAdapter)) {
+      const [
+        tasks,
+        projects,
+        tags,
+        taskTags,
+        projectTags,
+        focusSessions,
+        todayTasks,
+      ] = await Promise.all([
+        this.remoteAdapter.getTasks(),
+        this.remoteAdapter.getProjects(),
+        this.remoteAdapter.getTags(),
+        this.remoteAdapter.getTaskTags(),
+        this.remoteAdapter.getProjectTags(),
+        this.remoteAdapter.getFocusSessions(),
+        this.remoteAdapter.getTodayTasks(),
+      ]);
+
+      return {
+        remote: {
+          tasks,
+          projects,
+          tags,
+          taskTags,
+          projectTags,
+          focusSessions,
+          todayTasks,
+        },
+        incremental: false,
+      };
+    }
+
+    const stored = await this.loadCursors();
+
+    // Today tasks are always rewritten as a whole list, so they are small and fetched in full
+    const [changes, todayTasks] = await Promise.all([
+      this.remoteAdapter.getChangesSince(stored ?? {}),
+      this.remoteAdapter.getTodayTasks(),
+    ]);
+
+    if (!stored) {
+      return {
+        remote: { ...changes, todayTasks },
+        cursors: changes.cursors,
+        incremental: false,
+      };
+    }
+
+    const deletedIn = (table: string) =>
+      new Set(
+        changes.tombstones
+          .filter((tombstone) => tombstone.table === table)
+          .map((tombstone) => tombstone.recordId),
+      );
+
+    return {
+      remote: {
+        tasks: applyChanges(
+          local.tasks,
+          changes.tasks,
+          (t) => t.id,
+          deletedIn("tasks"),
+        ),
+        projects: applyChanges(
+          local.projects,
+          changes.projects,
+          (p) => p.id,
+          deletedIn("projects"),
+        ),
+        tags: applyChanges(
+          local.tags,
+          changes.tags,
+          (t) => t.id,
+          deletedIn("tags"),
+        ),
+        taskTags: applyChanges(
+          local.taskTags,
+          changes.taskTags,
+          taskTagKey,
+          deletedIn("task_tags"),
+        ),
+        projectTags: applyChanges(
+          local.projectTags,
+          changes.projectTags,
+          projectTagKey,
+          deletedIn("project_tags"),
+        ),
+        focusSessions: applyChanges(
+          local.focusSessions,
+          changes.focusSessions,
+          (session) => session.id,
+          deletedIn("focus_sessions"),
+        ),
+        todayTasks,
+      },
+      cursors: changes.cursors,
+      incremental: true,
+    };
+  }
+
+  /**
+   * Fetch the members of the projects shared with the given user.
+   * Returns null when projects aren't shared: no signed-in user, or a remote
+   * without sharing (such as one that hasn't run V14 yet).
+   */
+  private async fetchMembers(
+    userId: string | null,
+  ): Promise<ProjectMember[] | null> {
+    if (!userId || !supportsSharing(this.remoteAdapter)) {
+      return null;
     }
 
     try {
-      window.localStorage.setItem(key, JSON.stringify(data));
+      return await this.remoteAdapter.getProjectMembers();
     } catch (error) {
-      console.error(`Failed to save ${key} to localStorage:`, error);
+      if (isPermanentError(error)) {
+        console.log("Remote doesn't support shared projects:", error);
+        return null;
+      }
       throw error;
     }
   }
 
+  /**
+   * Check if the user is a member of a project they weren't one of at the last pull
+   */
+  private async hasJoinedProjects(
+    members: ProjectMember[] | null,
+    userId: string | null,
+  ): Promise<boolean> {
+    if (!members || !userId) return false;
+
+    const isMember = (list: ProjectMember[], projectId: string) =>
+      list.some(
+        (member) => member.userId === userId && member.projectId === projectId,
+      );
+    const stored = await this.localAdapter.getProjectMembers();
+    return members.some(
+      (member) =>
+        member.userId === userId && !isMember(stored, member.projectId),
+    );
+  }
+
+  /**
+   * Load the cursors from the last pull.
+   * Returns null when a full pull is needed: never pulled, local data missing,
+   * or the last pull is older than the remote keeps tombstones for.
+   */
+  private async loadCursors(): Promise<SyncCursors | null> {
+    try {
+      const stored = await this.localAdapter.getSyncCursors();
+      if (!stored || Date.now() - stored.pulledAt > TOMBSTONE_RETENTION_MS) {
+        return null;
+      }
+
+      return stored.cursors;
+    } catch (error) {
+      console.error("Failed to load sync cursors:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Collect the local changes that are still waiting in the queue
+   */
+  private getPendingChanges(): PendingChanges {
+    const pending: PendingChanges = {
+      tasks: { added: new Set(), deleted: new Set() },
+      projects: { added: new Set(), deleted: new Set() },
+      tags: { added: new Set(), deleted: new Set() },
+      taskTags: { added: new Set(), removed: new Set() },
+      projectTags: { added: new Set(), removed: new Set() },
+      focusSessions: { added: new Set(), removed: new Set() },
+      today: false,
+    };
+
+    const markLink = (links: PendingLinks, key: string, added: boolean) => {
+      (added ? links.added : links.removed).add(key);
+      (added ? links.removed : links.added).delete(key);
+    };
+
+    const operations = this.queue.getAllOperations().flatMap(unbatch);
+    for (const { type, payload } of operations) {
+      switch (type) {
+        case OperationType.ADD_TASK:
+          pending.tasks.added.add((payload as Task).id);
+          break;
+        case OperationType.DELETE_TASK:
+          pending.tasks.deleted.add((payload as { id: string }).id);
+          break;
+        case OperationType.ADD_PROJECT:
+          pending.projects.added.add((payload as Project).id);
+          break;
+        case OperationType.DELETE_PROJECT:
+          pending.projects.deleted.add((payload as { id: string }).id);
+          break;
+        case OperationType.ADD_TAG:
+          pending.tags.added.add((payload as Tag).id);
+          break;
+        case OperationType.DELETE_TAG:
+          pending.tags.deleted.add((payload as { id: string }).id);
+          break;
+        case OperationType.ADD_TASK_TAG:
+        case OperationType.REMOVE_TASK_TAG:
+          markLink(
+            pending.taskTags,
+            taskTagKey(payload as { taskId: string; tagId: string }),
+            type === OperationType.ADD_TASK_TAG,
+          );
+          break;
+        case OperationType.ADD_PROJECT_TAG:
+        case OperationType.REMOVE_PROJECT_TAG:
+          markLink(
+            pending.projectTags,
+            projectTagKey(payload as { projectId: string; tagId: string }),
+            type === OperationType.ADD_PROJECT_TAG,
+          );
+          break;
+        case OperationType.ADD_FOCUS_SESSION:
+        case OperationType.DELETE_FOCUS_SESSION:
+          markLink(
+            pending.focusSessions,
+            (payload as { id: string }).id,
+            type === OperationType.ADD_FOCUS_SESSION,
+          );
+          break;
+        case OperationType.ADD_TODAY_TASK:
+        case OperationType.REMOVE_TODAY_TASK:
+        case OperationType.REORDER_TODAY_TASKS:
+          pending.today = true;
+          break;
+      }
+    }
+
+    return pending;
+  }
+
+  /**
+   * Rebase queued updates of one entity type onto the merged records.
+   * - Fields whose queued value lost the merge are removed from the update
+   * - Updates left without any fields, or for records that no longer exist, are dropped
+   * - Local values that won the merge but have no queued update are queued again
+   */
+  private rebaseUpdates<T extends MergeableRecord>(
+    type: OperationType,
+    merged: T[],
+    localWins: Map<string, string[]>,
+  ): void {
+    const mergedById = new Map(merged.map((record) => [record.id, record]));
+    const queuedFields = new Map<string, Set<string>>();
+
+    this.queue.rewrite(type, (payload) => {
+      const { id, updates } = payload as { id: string; updates: Partial<T> };
+      const record = mergedById.get(id);
+      if (!record) return null;
+
+      const kept: Record<string, unknown> = {};
+      for (const field of Object.keys(updates)) {
+        if (!isDataField(field)) continue;
+        if (
+          record.fieldTimestamps?.[field] !== updates.fieldTimestamps?.[field]
+        )
+          continue;
+
+        // The merged value, which for a completion history has the remote's days too
+        kept[field] = (record as unknown as Record<string, unknown>)[field];
+        if (!queuedFields.has(id)) queuedFields.set(id, new Set());
+        queuedFields.get(id)!.add(field);
+      }
+
+      if (Object.keys(kept).length === 0) return null;
+
+      return {
+        id,
+        updates: {
+          ...kept,
+          updatedAt: record.updatedAt,
+          fieldTimestamps: record.fieldTimestamps,
+        },
+      };
+    });
+
+    for (const [id, fields] of localWins) {
+      const record = mergedById.get(id);
+      const missing = fields.filter(
+        (field) => !queuedFields.get(id)?.has(field),
+      );
+      if (!record || missing.length === 0) continue;
+
+      const updates: Record<string, unknown> = {
+        updatedAt: record.updatedAt,
+        fieldTimestamps: record.fieldTimestamps,
+      };
+      for (const field of missing) {
+        updates[field] = (record as unknown as Record<string, unknown>)[field];
+      }
+      this.queue.enqueue(type, { id, updates });
+    }
+  }
+
   /**
    * Manually trigger sync now
    */
@@ -350,6 +1152,18 @@ export class SyncWorker {
     await this.processQueue();
   }
 
+  /**
+   * Whether the remote can't be reached for lack of a network
+   */
+  private isOffline(): boolean {
+    if (typeof navigator === "undefined" || navigator.onLine) {
+      return false;
+    }
+    return !(
+      supportsOffline(this.remoteAdapter) && this.remoteAdapter.worksOffline()
+    );
+  }
+
   /**
    * Check if worker is running
    */
@@ -1,5 +1,9 @@
 import type {
+  FocusSession,
   Project,
+  ProjectInvite,
+  ProjectMember,
+  ProjectRole,
   ProjectTag,
   Tag,
   Task,
@@ -40,6 +44,21 @@ export enum OperationType {
   ADD_TODAY_TASK = "ADD_TODAY_TASK",
   REMOVE_TODAY_TASK = "REMOVE_TODAY_TASK",
   REORDER_TODAY_TASKS = "REORDER_TODAY_TASKS",
+
+  // Focus session operations
+  ADD_FOCUS_SESSION = "ADD_FOCUS_SESSION",
+  DELETE_FOCUS_SESSION = "DELETE_FOCUS_SESSION",
+
+  // Several operations made by one bulk action, synced together
+  BATCH = "BATCH",
+}
+
+/**
+ * One operation inside a BATCH operation
+ */
+export interface BatchedOperation {
+  type: OperationType;
+  payload: unknown;
 }
 
 /**
@@ -50,14 +69,35 @@ export interface QueuedOperation {
   id: string;
   /** Type of operation to perform */
   type: OperationType;
-  /** Operation-specific payload data */
+  /** Operation-specific payload data (BatchedOperation[] for a BATCH) */
   payload: unknown;
   /** Timestamp when operation was queued */
   timestamp: number;
   /** Number of times this operation has been retried */
   retries: number;
-  /** Current status of the operation */
-  status: "pending" | "processing" | "failed";
+  /**
+   * Current status of the operation.
+   * A failed operation is retried once nextAttemptAt has passed; a dead one was rejected
+   * by the server or ran out of retries, and waits for the user to retry or discard it.
+   */
+  status: "pending" | "processing" | "failed" | "dead";
+  /** When a failed operation is next sent, in ms since the epoch */
+  nextAttemptAt?: number;
+  /** Message of the error the last attempt failed with */
+  lastError?: string;
+}
+
+/**
+ * State of the sync queue and worker, for showing in the UI
+ */
+export interface SyncStatus {
+  pending: number;
+  failed: number;
+  dead: number;
+  isRunning: boolean;
+  isSyncing: boolean;
+  /** Every queued operation, oldest first */
+  operations: QueuedOperation[];
 }
 
 /**
@@ -98,4 +138,268 @@ export interface IStorageAdapter {
   // Today tasks operations
   getTodayTasks(): Promise<TodayTask[]>;
   saveTodayTasks(todayTasks: TodayTask[]): Promise<void>;
+
+  // Focus session operations
+  getFocusSessions(): Promise<FocusSession[]>;
+  addFocusSession(session: FocusSession): Promise<void>;
+  deleteFocusSession(id: string): Promise<void>;
+}
+
+/**
+ * High-water marks for incremental pulls: the latest server updated_at seen per table
+ * (deleted_at for tombstones). A missing cursor means "fetch everything".
+ */
+export interface SyncCursors {
+  tasks?: string;
+  projects?: string;
+  tags?: string;
+  taskTags?: string;
+  projectTags?: string;
+  focusSessions?: string;
+  tombstones?: string;
+}
+
+/**
+ * Cursors from the last successful pull, with the time of that pull
+ */
+export interface StoredSyncCursors {
+  cursors: SyncCursors;
+  pulledAt: number;
+}
+
+/**
+ * Everything the app stores, as read from one side of the sync
+ */
+export interface DataSnapshot {
+  tasks: Task[];
+  projects: Project[];
+  tags: Tag[];
+  taskTags: TaskTag[];
+  projectTags: ProjectTag[];
+  focusSessions: FocusSession[];
+  todayTasks: TodayTask[];
+}
+
+/**
+ * What a pull stores on this device in place of the data it read
+ */
+export interface LocalReplacement {
+  data: DataSnapshot;
+  /** Members as of the pull, when the remote shares projects */
+  members?: ProjectMember[];
+  /** Cursors for the next pull, when the remote supports delta sync */
+  cursors?: StoredSyncCursors;
+}
+
+/**
+ * The collections stored on this device, named after their storage keys
+ */
+export type LocalCollection =
+  | "tasks"
+  | "projects"
+  | "tags"
+  | "task_tags"
+  | "project_tags"
+  | "today"
+  | "focus_sessions"
+  | "project_members";
+
+/**
+ * Storage on this device, which also keeps what only the remote changes (project
+ * members) and what the sync worker needs between pulls
+ */
+export interface ILocalAdapter extends IStorageAdapter {
+  // Single records, for changes that only need the one they change
+  getTask(id: string): Promise<Task | undefined>;
+  getProject(id: string): Promise<Project | undefined>;
+  getTag(id: string): Promise<Tag | undefined>;
+
+  // Members are only changed on the remote; this is the copy from the last pull
+  getProjectMembers(): Promise<ProjectMember[]>;
+  saveProjectMembers(members: ProjectMember[]): Promise<void>;
+
+  /** Cursors of the last pull, or null if the data they cover is missing */
+  getSyncCursors(): Promise<StoredSyncCursors | null>;
+  /** Forget the cursors, so the next pull fetches everything */
+  clearSyncCursors(): Promise<void>;
+
+  /**
+   * Replace the stored data with what update makes of it, with no other write
+   * in between, so edits made while a pull was fetching are merged rather than lost
+   */
+  replaceData(update: (local: DataSnapshot) => LocalReplacement): Promise<void>;
+
+  /** Subscribe to data written by other tabs of the app */
+  subscribeToOtherTabs(
+    listener: (collection: LocalCollection) => void,
+  ): () => void;
+}
+
+/**
+ * Marker left on the remote when a row is deleted, so incremental pulls can remove it locally
+ */
+export interface Tombstone {
+  /** Table the row was deleted from (e.g. "tasks", "task_tags") */
+  table: string;
+  /** Id of the deleted row, or "<parent id>:<tag id>" for relationship rows */
+  recordId: string;
+  /** Server time of the delete */
+  deletedAt: string;
+}
+
+/**
+ * Rows changed on the remote since a set of cursors
+ */
+export interface RemoteChanges {
+  tasks: Task[];
+  projects: Project[];
+  tags: Tag[];
+  taskTags: TaskTag[];
+  projectTags: ProjectTag[];
+  focusSessions: FocusSession[];
+  tombstones: Tombstone[];
+  /** Cursors to pass on the next pull */
+  cursors: SyncCursors;
+}
+
+/**
+ * Optional capability of a remote adapter that can return only rows changed since a cursor
+ */
+export interface IDeltaSyncAdapter {
+  getChangesSince(cursors: SyncCursors): Promise<RemoteChanges>;
+}
+
+/**
+ * Optional capability of a remote adapter that can write many rows in one request.
+ * Rows that already exist are overwritten, so sending the same rows twice is harmless.
+ */
+export interface IBulkSyncAdapter {
+  upsertTasks(tasks: Task[]): Promise<void>;
+  upsertProjects(projects: Project[]): Promise<void>;
+  upsertTags(tags: Tag[]): Promise<void>;
+  upsertTaskTags(taskTags: { taskId: string; tagId: string }[]): Promise<void>;
+  upsertProjectTags(
+    projectTags: { projectId: string; tagId: string }[],
+  ): Promise<void>;
+  upsertFocusSessions(sessions: FocusSession[]): Promise<void>;
+}
+
+/**
+ * Optional capability of a remote adapter that stores projects for several users.
+ * Members and invites are changed online only: who someone is and what they may do
+ * is for the server to decide.
+ */
+export interface ISharingAdapter {
+  /** Members of every project the user is a member of, themselves included */
+  getProjectMembers(): Promise<ProjectMember[]>;
+  updateProjectMember(
+    projectId: string,
+    userId: string,
+    role: ProjectRole,
+  ): Promise<void>;
+  removeProjectMember(projectId: string, userId: string): Promise<void>;
+  /** Invites the user sent as an owner, and invites sent to their email */
+  getProjectInvites(): Promise<ProjectInvite[]>;
+  addProjectInvite(invite: ProjectInvite): Promise<void>;
+  acceptProjectInvite(id: string): Promise<void>;
+  deleteProjectInvite(id: string): Promise<void>;
+}
+
+/**
+ * Check if a storage adapter supports bulk upserts
+ */
+export function supportsBulkUpsert(
+  adapter: IStorageAdapter,
+): adapter is IStorageAdapter & IBulkSyncAdapter {
+  return (
+    typeof (adapter as Partial<IBulkSyncAdapter>).upsertTasks === "function"
+  );
+}
+
+/**
+ * Check if a storage adapter supports shared projects
+ */
+export function supportsSharing(
+  adapter: IStorageAdapter,
+): adapter is IStorageAdapter & ISharingAdapter {
+  return (
+    typeof (adapter as Partial<ISharingAdapter>).getProjectMembers ===
+    "function"
+  );
+}
+
+/**
+ * Check if a storage adapter supports incremental pulls
+ */
+export function supportsDeltaSync(
+  adapter: IStorageAdapter,
+): adapter is IStorageAdapter & IDeltaSyncAdapter {
+  return (
+    typeof (adapter as Partial<IDeltaSyncAdapter>).getChangesSince ===
+    "function"
+  );
+}
+
+/**
+ * A change to a remote table, announced over a realtime channel
+ */
+export interface RealtimeChange {
+  table: string;
+  type: "INSERT" | "UPDATE" | "DELETE";
+}
+
+export interface RealtimeHandlers {
+  /** A row changed on the remote */
+  onChange: (change: RealtimeChange) => void;
+  /** The channel connected, or reconnected after missing changes while it was down */
+  onConnect: () => void;
+}
+
+/**
+ * A connection over which the remote announces changes as they are committed.
+ * Reconnects by itself until disconnected.
+ */
+export interface IRealtimeChannel {
+  connect(handlers: RealtimeHandlers): void;
+  disconnect(): void;
+}
+
+/**
+ * Optional capability of a remote adapter that announces changes as they happen,
+ * so other devices can pull them right away instead of on the next page load
+ */
+export interface IRealtimeAdapter {
+  /** A channel for the signed-in user's changes, or null if the remote has none */
+  createRealtimeChannel(): IRealtimeChannel | null;
+}
+
+/**
+ * Check if a storage adapter supports realtime changes
+ */
+export function supportsRealtime(
+  adapter: IStorageAdapter,
+): adapter is IStorageAdapter & IRealtimeAdapter {
+  return (
+    typeof (adapter as Partial<IRealtimeAdapter>).createRealtimeChannel ===
+    "function"
+  );
+}
+
+/**
+ * Optional capability of a remote adapter that keeps its data on this device, such as
+ * a database file, so syncing with it doesn't need a network
+ */
+export interface IOfflineAdapter {
+  worksOffline(): boolean;
+}
+
+/**
+ * Check if a storage adapter can be synced with while offline
+ */
+export function supportsOffline(
+  adapter: IStorageAdapter,
+): adapter is IStorageAdapter & IOfflineAdapter {
+  return (
+    typeof (adapter as Partial<IOfflineAdapter>).worksOffline === "function"
+  );
 }
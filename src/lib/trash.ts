@@ -0,0 +1,101 @@
+import type { Project, Tag, Task } from "@/lib/types";
+
+export const TRASH_RETENTION_KEY = "intentionality_trash_retention_days";
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Ids of trashed items, grouped by entity
+ */
+export interface TrashedIds {
+  taskIds: string[];
+  projectIds: string[];
+  tagIds: string[];
+}
+
+/**
+ * Get how many days items stay in the trash before they are deleted permanently.
+ * 0 means items are never purged automatically.
+ */
+export function getTrashRetentionDays(): number {
+  if (typeof window === "undefined") {
+    return DEFAULT_TRASH_RETENTION_DAYS;
+  }
+
+  const stored = window.localStorage.getItem(TRASH_RETENTION_KEY);
+  const days = stored === null ? NaN : Number(stored);
+  return Number.isInteger(days) && days >= 0
+    ? days
+    : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+/**
+ * Save how many days items stay in the trash
+ */
+export function setTrashRetentionDays(days: number): void {
+  window.localStorage.setItem(TRASH_RETENTION_KEY, String(days));
+}
+
+/**
+ * Check if an item trashed at deletedAt has been in the trash longer than the retention period
+ */
+export function isTrashExpired(
+  deletedAt: string,
+  retentionDays: number,
+  now = new Date(),
+): boolean {
+  if (retentionDays === 0) return false;
+  return now.getTime() - new Date(deletedAt).getTime() > retentionDays * DAY_MS;
+}
+
+/**
+ * Collect the ids of trashed items matching a filter on their deletedAt.
+ * Tasks inside a matching project and subtasks of matching tasks are included,
+ * since they cannot exist without their parent.
+ */
+export function getTrashedIds(
+  tasks: Task[],
+  projects: Project[],
+  tags: Tag[],
+  filter: (deletedAt: string) => boolean = () => true,
+): TrashedIds {
+  const matches = (item: { deletedAt?: string | null }) =>
+    !!item.deletedAt && filter(item.deletedAt);
+
+  const projectIds = projects.filter(matches).map((p) => p.id);
+  const taskIds = tasks
+    .filter(
+      (task) =>
+        matches(task) ||
+        (!!task.projectId && projectIds.includes(task.projectId)),
+    )
+    .map((task) => task.id);
+
+  return {
+    taskIds: withSubtasks(tasks, taskIds),
+    projectIds,
+    tagIds: tags.filter(matches).map((t) => t.id),
+  };
+}
+
+/**
+ * Expand a list of task ids with all of their (nested) subtasks
+ */
+export function withSubtasks(tasks: Task[], ids: string[]): string[] {
+  const result = new Set(ids);
+
+  // Subtasks can be nested, so keep going until no new children are found
+  let size = -1;
+  while (size !== result.size) {
+    size = result.size;
+    for (const task of tasks) {
+      if (task.parentTaskId && result.has(task.parentTaskId)) {
+        result.add(task.id);
+      }
+    }
+  }
+
+  return [...result];
+}
@@ -1,18 +1,54 @@
+// Field name -> ISO timestamp of the last write, used to merge synced records
+export type FieldTimestamps = Record<string, string>;
+
+/**
+ * Why a scheduled day of a recurring task wasn't completed:
+ * - missed: the day passed without a completion (recorded by the day rollover)
+ * - skipped: deliberately not done; breaks the streak like a missed day
+ * - excused: doesn't count against the task (sick, travelling); keeps the streak
+ * - frozen: a streak freeze; keeps the streak without counting towards it
+ */
+export type DayStatus = "missed" | "skipped" | "excused" | "frozen";
+
+// YYYY-MM-DD -> true when completed, otherwise the status of the day
+export type CompletionHistory = Record<string, true | DayStatus>;
+
+/**
+ * A reminder on a task.
+ * One-off reminders go off once at `at`. Reminders on recurring tasks have a `time`
+ * of day instead, and go off on every day the task is due until it is done.
+ */
+export interface Reminder {
+  id: string;
+  at?: string; // ISO timestamp, for one-off reminders
+  time?: string; // "HH:MM" local time, for recurring tasks
+  firedAt?: string | null; // ISO timestamp of the last time it went off
+  snoozedUntil?: string | null; // ISO timestamp it goes off again after a snooze
+}
+
 export interface Task {
   id: string;
   title: string;
   description?: string;
   completed: boolean;
-  dueDate?: string;
-  projectId?: string;
+  dueDate?: string | null; // null once cleared
+  projectId?: string | null; // null once moved out of its project
   parentTaskId?: string;
   order: number;
-  isDaily: boolean;
+  isDaily: boolean; // repeats, every day unless recurrence says otherwise
+  recurrence?: string | null; // RRULE subset, e.g. "FREQ=WEEKLY;BYDAY=MO,WE,FR"
   timePeriod?: number; // in minutes
   timeLeft?: number; // remaining time in seconds for focus mode
   lastCompleted?: string; // for daily tasks
-  completionHistory?: Record<string, boolean>; // YYYY-MM-DD -> true for daily tasks
+  completionHistory?: CompletionHistory; // for daily tasks
+  reminders?: Reminder[];
+  assigneeId?: string | null; // user the task is assigned to, in shared projects
+  createdBy?: string; // user who added the task, set by the server
+  updatedBy?: string; // user who last changed the task, set by the server
   createdAt: string;
+  updatedAt?: string;
+  fieldTimestamps?: FieldTimestamps;
+  deletedAt?: string | null; // set while in the trash, null once restored
 }
 
 export interface Project {
@@ -22,6 +58,38 @@ export interface Project {
   completed: boolean;
   order: number;
   createdAt: string;
+  updatedAt?: string;
+  fieldTimestamps?: FieldTimestamps;
+  deletedAt?: string | null; // set while in the trash, null once restored
+}
+
+/**
+ * What a member of a shared project may do:
+ * - owner: everything, including inviting people, changing roles and deleting the project
+ * - editor: add, change and delete the project's tasks and edit the project
+ * - viewer: see the project and its tasks
+ */
+export type ProjectRole = "owner" | "editor" | "viewer";
+
+// A user with access to a project. Every synced project has at least its owner.
+export interface ProjectMember {
+  projectId: string;
+  userId: string;
+  role: ProjectRole;
+  name?: string;
+  email?: string;
+  createdAt: string;
+}
+
+// An invitation to join a project, waiting for the invited email to accept it
+export interface ProjectInvite {
+  id: string;
+  projectId: string;
+  projectName: string; // invitees can't see the project until they join
+  email: string;
+  role: Exclude<ProjectRole, "owner">;
+  invitedBy?: string; // set by the server
+  createdAt: string;
 }
 
 export interface Tag {
@@ -29,6 +97,9 @@ export interface Tag {
   name: string;
   color?: string;
   createdAt: string;
+  updatedAt?: string;
+  fieldTimestamps?: FieldTimestamps;
+  deletedAt?: string | null; // set while in the trash, null once restored
 }
 
 export interface TodayTask {
@@ -36,6 +107,19 @@ export interface TodayTask {
   order: number;
 }
 
+// A stretch of focused work on a task, logged by focus mode.
+// Sessions are never edited after they are logged, only deleted.
+export interface FocusSession {
+  id: string;
+  taskId: string;
+  start: string; // ISO timestamp of the first start
+  end: string; // ISO timestamp of when the session ended
+  plannedSeconds: number; // timer length when the session started
+  actualSeconds: number; // time the timer actually ran, pauses excluded
+  interrupted: boolean; // ended before the timer ran out
+  createdAt: string;
+}
+
 // Junction table types for many-to-many relationships
 export interface TaskTag {
   taskId: string;
@@ -49,4 +133,13 @@ export interface ProjectTag {
   createdAt: string;
 }
 
-export type View = "inbox" | "next-steps" | "daily-tasks" | "today" | string;
+export type View =
+  | "inbox"
+  | "next-steps"
+  | "daily-tasks"
+  | "habits"
+  | "focus-report"
+  | "today"
+  | "assigned"
+  | "trash"
+  | string;
@@ -0,0 +1,186 @@
+/**
+ * Global undo/redo history for data mutations.
+ * Mutations record how to revert and re-apply themselves; undo and redo replay those
+ * through the same code paths as the original mutation (Redux + StorageManager),
+ * so the sync queue sees them like any other change.
+ */
+
+const MAX_HISTORY = 100;
+
+/**
+ * One undoable user action, possibly made of several mutations
+ */
+export interface HistoryEntry {
+  /** Human-readable description, e.g. "Task deleted" */
+  label: string;
+  /** Whether to announce this action with an undo toast */
+  notify: boolean;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+}
+
+/**
+ * What the UI needs to know about the history
+ */
+export interface HistorySnapshot {
+  canUndo: boolean;
+  canRedo: boolean;
+  /** The last action that was done, undone or redone (for the toast) */
+  lastEvent: {
+    kind: "done" | "undone" | "redone";
+    entry: HistoryEntry;
+    /** Increments on every event so repeated labels still re-trigger the toast */
+    id: number;
+  } | null;
+}
+
+interface PendingGroup {
+  label: string;
+  notify: boolean;
+  undos: (() => Promise<void>)[];
+  redos: (() => Promise<void>)[];
+}
+
+export class UndoHistory {
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+  private groups: PendingGroup[] = [];
+  private isReplaying = false;
+  private listeners = new Set<() => void>();
+  private eventId = 0;
+  private snapshot: HistorySnapshot = {
+    canUndo: false,
+    canRedo: false,
+    lastEvent: null,
+  };
+
+  /**
+   * Record a mutation that has just been applied.
+   * Ignored while undoing/redoing, so replays don't create new entries.
+   * Inside transact() it becomes part of the surrounding action.
+   */
+  record(
+    label: string,
+    undo: () => Promise<void>,
+    redo: () => Promise<void>,
+    notify = false,
+  ): void {
+    if (this.isReplaying) return;
+
+    const group = this.groups[this.groups.length - 1];
+    if (group) {
+      group.undos.push(undo);
+      group.redos.push(redo);
+      return;
+    }
+
+    this.push({ label, notify, undo, redo });
+  }
+
+  /**
+   * Run several mutations as one undoable action
+   */
+  async transact<T>(
+    label: string,
+    fn: () => Promise<T>,
+    notify = false,
+  ): Promise<T> {
+    if (this.isReplaying) return fn();
+
+    const group: PendingGroup = { label, notify, undos: [], redos: [] };
+    this.groups.push(group);
+    try {
+      return await fn();
+    } finally {
+      this.groups.pop();
+      if (group.undos.length > 0) {
+        const { undos, redos } = group;
+        this.record(
+          label,
+          async () => {
+            for (const undo of [...undos].reverse()) await undo();
+          },
+          async () => {
+            for (const redo of redos) await redo();
+          },
+          notify,
+        );
+      }
+    }
+  }
+
+  /**
+   * Revert the most recent action
+   */
+  async undo(): Promise<void> {
+    // Pressed again while a replay runs: keep the entry for the next press
+    if (this.isReplaying) return;
+    const entry = this.undoStack.pop();
+    if (!entry) return;
+
+    await this.replay(entry, entry.undo);
+    this.redoStack.push(entry);
+    this.emit("undone", entry);
+  }
+
+  /**
+   * Re-apply the most recently undone action
+   */
+  async redo(): Promise<void> {
+    // Pressed again while a replay runs: keep the entry for the next press
+    if (this.isReplaying) return;
+    const entry = this.redoStack.pop();
+    if (!entry) return;
+
+    await this.replay(entry, entry.redo);
+    this.undoStack.push(entry);
+    this.emit("redone", entry);
+  }
+
+  /**
+   * Subscribe to history changes (for useSyncExternalStore)
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+
+  getSnapshot = (): HistorySnapshot => this.snapshot;
+
+  private push(entry: HistoryEntry): void {
+    this.undoStack.push(entry);
+    if (this.undoStack.length > MAX_HISTORY) {
+      this.undoStack.shift();
+    }
+    // A new action invalidates anything that was undone before it
+    this.redoStack = [];
+    this.emit("done", entry);
+  }
+
+  private async replay(
+    entry: HistoryEntry,
+    action: () => Promise<void>,
+  ): Promise<void> {
+    this.isReplaying = true;
+    try {
+      await action();
+    } catch (error) {
+      console.error(`Failed to replay "${entry.label}":`, error);
+    } finally {
+      this.isReplaying = false;
+    }
+  }
+
+  private emit(kind: "done" | "undone" | "redone", entry: HistoryEntry): void {
+    this.eventId += 1;
+    this.snapshot = {
+      canUndo: this.undoStack.length > 0,
+      canRedo: this.redoStack.length > 0,
+      lastEvent: { kind, entry, id: this.eventId },
+    };
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+// Global singleton shared by all useTasks instances
+export const undoHistory = new UndoHistory();
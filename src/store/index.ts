@@ -1,5 +1,7 @@
 import { configureStore } from "@reduxjs/toolkit";
 
+import focusSessionsReducer from "./slices/focusSessionsSlice";
+import projectMembersReducer from "./slices/projectMembersSlice";
 import projectsReducer from "./slices/projectsSlice";
 import projectTagsReducer from "./slices/projectTagsSlice";
 import tagsReducer from "./slices/tagsSlice";
@@ -15,6 +17,8 @@ export const store = configureStore({
     tags: tagsReducer,
     taskTags: taskTagsReducer,
     projectTags: projectTagsReducer,
+    focusSessions: focusSessionsReducer,
+    projectMembers: projectMembersReducer,
   },
 });
 
@@ -0,0 +1,42 @@
+import { createSlice, PayloadAction } from "@reduxjs/toolkit";
+
+import { FocusSession } from "@/lib/types";
+
+interface FocusSessionsState {
+  items: FocusSession[];
+}
+
+const initialState: FocusSessionsState = {
+  items: [],
+};
+
+const focusSessionsSlice = createSlice({
+  name: "focusSessions",
+  initialState,
+  reducers: {
+    setFocusSessions: (state, action: PayloadAction<FocusSession[]>) => {
+      state.items = action.payload;
+    },
+    addFocusSession: (state, action: PayloadAction<FocusSession>) => {
+      state.items.push(action.payload);
+    },
+    deleteFocusSession: (state, action: PayloadAction<string>) => {
+      state.items = state.items.filter(
+        (session) => session.id !== action.payload,
+      );
+    },
+    removeFocusSessionsByTask: (state, action: PayloadAction<string>) => {
+      state.items = state.items.filter(
+        (session) => session.taskId !== action.payload,
+      );
+    },
+  },
+});
+
+export const {
+  setFocusSessions,
+  addFocusSession,
+  deleteFocusSession,
+  removeFocusSessionsByTask,
+} = focusSessionsSlice.actions;
+export default focusSessionsSlice.reducer;
@@ -0,0 +1,25 @@
+import { createSlice, PayloadAction } from "@reduxjs/toolkit";
+
+import { ProjectMember } from "@/lib/types";
+
+interface ProjectMembersState {
+  items: ProjectMember[];
+}
+
+const initialState: ProjectMembersState = {
+  items: [],
+};
+
+// Members only change on the remote, so the whole list is replaced after each pull
+const projectMembersSlice = createSlice({
+  name: "projectMembers",
+  initialState,
+  reducers: {
+    setProjectMembers: (state, action: PayloadAction<ProjectMember[]>) => {
+      state.items = action.payload;
+    },
+  },
+});
+
+export const { setProjectMembers } = projectMembersSlice.actions;
+export default projectMembersSlice.reducer;